@@ -4,31 +4,45 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import HomePage from "@/pages/home-page";
 import SettingsPage from "@/pages/settings-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
+import { ActingPatientProvider } from "./hooks/use-acting-patient";
+import { RealtimeUpdates } from "./hooks/use-realtime-updates";
+import { Permission } from "@shared/schema";
 
 // Patient Pages
 import PatientRecords from "@/pages/patient/records";
 import PatientDoctors from "@/pages/patient/doctors";
 import PatientAccessRequests from "@/pages/patient/access-requests";
+import PatientCaregivers from "@/pages/patient/caregivers";
 
-// Doctor Pages
+// Clinical Pages
 import DoctorPatients from "@/pages/doctor/patients";
 import DoctorRequestAccess from "@/pages/doctor/request-access";
 import DoctorMedicalRecords from "@/pages/doctor/medical-records";
+import DoctorVerification from "@/pages/doctor/verification";
+
+// Front Desk Pages
+import FrontDeskPatients from "@/pages/front-desk/patients";
 
 // Admin Pages
 import AdminUserManagement from "@/pages/admin/user-management";
 import AdminSystemLogs from "@/pages/admin/system-logs";
 import AdminAccessControl from "@/pages/admin/access-control";
+import AdminDoctorVerification from "@/pages/admin/doctor-verification";
+import AdminGuardians from "@/pages/admin/guardians";
+import AdminOrganizations from "@/pages/admin/organizations";
+import AdminJobs from "@/pages/admin/jobs";
 
 function Router() {
   return (
     <Switch>
       {/* Public routes */}
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
 
       {/* Protected routes */}
       <Route path="/">
@@ -45,30 +59,53 @@ function Router() {
       <Route path="/patient/access-requests">
         <ProtectedRoute component={PatientAccessRequests} requiredRole="patient" />
       </Route>
+      <Route path="/patient/caregivers">
+        <ProtectedRoute component={PatientCaregivers} requiredRole="patient" />
+      </Route>
 
-      {/* Doctor Routes */}
+      {/* Clinical Routes */}
       <Route path="/doctor/patients">
-        <ProtectedRoute component={DoctorPatients} requiredRole="doctor" />
+        <ProtectedRoute component={DoctorPatients} requiredPermission={Permission.RECORD_READ} />
       </Route>
       <Route path="/doctor/request-access">
-        <ProtectedRoute component={DoctorRequestAccess} requiredRole="doctor" />
+        <ProtectedRoute component={DoctorRequestAccess} requiredPermission={Permission.ACCESS_REQUEST} />
       </Route>
       <Route path="/doctor/medical-records">
-        <ProtectedRoute component={DoctorMedicalRecords} requiredRole="doctor" />
+        <ProtectedRoute component={DoctorMedicalRecords} requiredPermission={Permission.RECORD_READ} />
       </Route>
       <Route path="/patients/:patientId/records">
-        <ProtectedRoute component={DoctorMedicalRecords} requiredRole="doctor" />
+        <ProtectedRoute component={DoctorMedicalRecords} requiredPermission={Permission.RECORD_READ} />
+      </Route>
+      <Route path="/doctor/verification">
+        <ProtectedRoute component={DoctorVerification} requiredPermission={Permission.CREDENTIALS_SUBMIT} />
+      </Route>
+
+      {/* Front Desk Routes */}
+      <Route path="/front-desk/patients">
+        <ProtectedRoute component={FrontDeskPatients} requiredPermission={Permission.PATIENT_REGISTER} />
       </Route>
 
       {/* Admin Routes */}
       <Route path="/admin/user-management">
-        <ProtectedRoute component={AdminUserManagement} requiredRole="admin" />
+        <ProtectedRoute component={AdminUserManagement} requiredPermission={Permission.USER_READ} />
       </Route>
       <Route path="/admin/system-logs">
-        <ProtectedRoute component={AdminSystemLogs} requiredRole="admin" />
+        <ProtectedRoute component={AdminSystemLogs} requiredPermission={Permission.AUDIT_READ} />
       </Route>
       <Route path="/admin/access-control">
-        <ProtectedRoute component={AdminAccessControl} requiredRole="admin" />
+        <ProtectedRoute component={AdminAccessControl} requiredPermission={Permission.ACCESS_MANAGE} />
+      </Route>
+      <Route path="/admin/doctor-verification">
+        <ProtectedRoute component={AdminDoctorVerification} requiredPermission={Permission.CREDENTIALS_REVIEW} />
+      </Route>
+      <Route path="/admin/guardians">
+        <ProtectedRoute component={AdminGuardians} requiredPermission={Permission.USER_MANAGE} />
+      </Route>
+      <Route path="/admin/organizations">
+        <ProtectedRoute component={AdminOrganizations} requiredPermission={Permission.USER_READ} />
+      </Route>
+      <Route path="/admin/jobs">
+        <ProtectedRoute component={AdminJobs} requiredPermission={Permission.SECURITY_MANAGE} />
       </Route>
 
       {/* Settings Page (accessible by all roles) */}
@@ -86,8 +123,11 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router />
-        <Toaster />
+        <RealtimeUpdates />
+        <ActingPatientProvider>
+          <Router />
+          <Toaster />
+        </ActingPatientProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
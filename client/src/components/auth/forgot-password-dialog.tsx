@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Mail } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ForgotPasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ForgotPasswordDialog({ isOpen, onClose }: ForgotPasswordDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (address: string) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", { email: address });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setSent(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEmail("");
+    setSent(false);
+  }, [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Reset Your Password
+          </DialogTitle>
+          <DialogDescription>
+            {sent
+              ? "If an account matches that email, a reset link is on its way. It expires in 30 minutes."
+              : "Enter the email address on your account and we'll send you a link to choose a new password."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sent ? (
+          <DialogFooter>
+            <Button onClick={onClose}>Back to login</Button>
+          </DialogFooter>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              requestResetMutation.mutate(email);
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="reset-email">Email</Label>
+              <Input
+                id="reset-email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!email || requestResetMutation.isPending}>
+                {requestResetMutation.isPending ? "Sending..." : "Send reset link"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import {
+  PasswordPolicy,
+  DEFAULT_PASSWORD_POLICY,
+  passwordPolicyViolations,
+} from "@shared/schema";
+
+// An empty password breaks every rule the policy enables, which lists them all
+function policyRules(policy: PasswordPolicy): string[] {
+  return passwordPolicyViolations("", policy);
+}
+
+// Live checklist of the password policy's rules for the password being typed.
+// The server also rejects common and recently used passwords.
+export function PasswordRequirements({ password }: { password: string }) {
+  const { data: policy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  const violations = new Set(passwordPolicyViolations(password, policy));
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {policyRules(policy).map(rule => {
+        const met = !violations.has(rule);
+        return (
+          <li
+            key={rule}
+            className={`flex items-center gap-1.5 ${met ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}
+          >
+            {met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {rule.replace(/^Password must /, "Must ")}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,29 @@
+import { HeartHandshake } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useActingPatient } from "@/hooks/use-acting-patient";
+import { DelegationScope } from "@shared/schema";
+
+// Reminds caregivers and guardians whose records they are looking at; everything
+// they do from the patient pages is logged as done on the patient's behalf
+export function ActingPatientBanner() {
+  const { actingFor, actFor } = useActingPatient();
+
+  if (!actingFor) return null;
+
+  const patientName = actingFor.patient?.fullName || actingFor.patient?.username || `Patient #${actingFor.patientId}`;
+
+  return (
+    <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 p-4 text-sm">
+      <HeartHandshake className="h-5 w-5 flex-shrink-0 text-primary" />
+      <p className="flex-1">
+        You are acting for <span className="font-medium">{patientName}</span> as their {actingFor.relationship}.{" "}
+        {actingFor.scope === DelegationScope.MANAGE
+          ? "You can manage their records and access requests."
+          : "You can view their records but not make changes."}
+      </p>
+      <Button size="sm" variant="outline" onClick={() => actFor(null)}>
+        Back to my records
+      </Button>
+    </div>
+  );
+}
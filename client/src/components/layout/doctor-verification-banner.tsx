@@ -0,0 +1,36 @@
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { UserRole, DoctorVerificationStatus } from "@shared/schema";
+
+// Shown to doctors until an admin has verified their credentials; the server
+// refuses patient lookups and access requests until then
+export function DoctorVerificationBanner() {
+  const { user } = useAuth();
+  const [location, navigate] = useLocation();
+
+  if (
+    user?.role !== UserRole.DOCTOR ||
+    user.doctorVerificationStatus === DoctorVerificationStatus.VERIFIED ||
+    location === "/doctor/verification"
+  ) {
+    return null;
+  }
+
+  const rejected = user.doctorVerificationStatus === DoctorVerificationStatus.REJECTED;
+
+  return (
+    <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+      <ShieldAlert className="h-5 w-5 flex-shrink-0" />
+      <p className="flex-1 text-sm">
+        {rejected
+          ? "Your credential review was not approved. Update your details or documents and resubmit."
+          : "Your credentials are awaiting review. You can find patients and request access once an administrator has verified them."}
+      </p>
+      <Button size="sm" variant="outline" onClick={() => navigate("/doctor/verification")}>
+        View verification
+      </Button>
+    </div>
+  );
+}
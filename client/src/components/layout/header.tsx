@@ -12,16 +12,19 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { MobileNav } from "./mobile-nav";
+import { NotificationBell } from "./notification-bell";
 
 export function Header() {
   const [, setLocation] = useLocation();
   const { user, logoutMutation } = useAuth();
-  const { isAdmin, isDoctor, isPatient } = useRole();
+  const { isAdmin, isDoctor, isNurse, isReceptionist, isAuditor, isPatient } = useRole();
   const [showMobileMenu, setShowMobileMenu] = useState(false);
 
   const getAppTitle = () => {
     if (isPatient) return "MediVault - My Health Records";
-    if (isDoctor) return "MediVault - Healthcare Provider Portal";
+    if (isDoctor || isNurse) return "MediVault - Healthcare Provider Portal";
+    if (isReceptionist) return "MediVault - Front Desk";
+    if (isAuditor) return "MediVault - Compliance Audit";
     if (isAdmin) return "MediVault - System Administration";
     return "MediVault";
   };
@@ -47,6 +50,7 @@ export function Header() {
           </div>
 
           <div className="flex items-center space-x-2 sm:space-x-3">
+            {user && <NotificationBell />}
             {user && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -1,5 +1,9 @@
 import { Header } from "./header";
 import { Sidebar } from "./sidebar";
+import { SessionTimeoutWarning } from "./session-timeout-warning";
+import { PasswordExpiredDialog } from "./password-expired-dialog";
+import { DoctorVerificationBanner } from "./doctor-verification-banner";
+import { ActingPatientBanner } from "./acting-patient-banner";
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -12,9 +16,13 @@ export function MainLayout({ children }: MainLayoutProps) {
       <div className="flex flex-1 max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-4 sm:py-6 w-full">
         <Sidebar />
         <main className="flex-1 w-full overflow-x-hidden">
+          <DoctorVerificationBanner />
+          <ActingPatientBanner />
           {children}
         </main>
       </div>
+      <SessionTimeoutWarning />
+      <PasswordExpiredDialog />
     </div>
   );
 }
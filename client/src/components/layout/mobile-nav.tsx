@@ -8,8 +8,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { useRole } from "@/hooks/use-role";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 import { useQuery } from "@tanstack/react-query";
+import { Permission } from "@shared/schema";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { 
   FolderSymlink, 
@@ -24,9 +25,16 @@ import {
   ClipboardList,
   Key,
   Shield,
+  ShieldCheck,
+  Stethoscope,
+  ClipboardPlus,
+  HeartHandshake,
+  Building2,
+  Timer,
   Palette
 } from "lucide-react";
 import { X } from "lucide-react";
+import { NotificationBell } from "./notification-bell";
 
 interface MobileNavProps {
   isOpen: boolean;
@@ -35,13 +43,13 @@ interface MobileNavProps {
 
 export function MobileNav({ isOpen, onClose }: MobileNavProps) {
   const [location, setLocation] = useLocation();
-  const { isPatient, isDoctor, isAdmin } = useRole();
-  const { user } = useAuth();
+  const { isPatient, isDoctor, isNurse, isReceptionist, isAuditor, isAdmin, can } = useRole();
+  const { patientId } = useActingPatient();
   
-  // Fetch access requests if user is a patient
+  // Fetch access requests for the patient the user is acting for
   const { data: accessRequests } = useQuery<any[]>({
-    queryKey: [`/api/access-requests/patient/${user?.id}`],
-    enabled: !!user?.id && isPatient,
+    queryKey: [`/api/access-requests/patient/${patientId}`],
+    enabled: !!patientId && isPatient,
   });
   
   // Count of pending requests
@@ -64,11 +72,14 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
             </div>
             <SheetTitle className="text-foreground">MediVault</SheetTitle>
           </div>
-          <SheetClose asChild>
-            <Button variant="ghost" size="icon" className="rounded-full h-8 w-8 hover:bg-muted">
-              <X className="h-4 w-4 text-muted-foreground" />
-            </Button>
-          </SheetClose>
+          <div className="flex items-center gap-1">
+            <NotificationBell onNavigate={onClose} />
+            <SheetClose asChild>
+              <Button variant="ghost" size="icon" className="rounded-full h-8 w-8 hover:bg-muted">
+                <X className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </SheetClose>
+          </div>
         </SheetHeader>
         
         <div className="py-2 space-y-5 overflow-y-auto">
@@ -97,6 +108,12 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
                 onClick={() => navigate("/patient/access-requests")}
                 badge={pendingRequestsCount > 0 ? pendingRequestsCount : undefined}
               />
+              <NavItem
+                label="Family & Caregivers"
+                icon={<HeartHandshake className="mr-3 h-[18px] w-[18px]" />}
+                active={isActive("/patient/caregivers")}
+                onClick={() => navigate("/patient/caregivers")}
+              />
               <NavItem
                 label="Security Settings"
                 icon={<Settings className="mr-3 h-[18px] w-[18px]" />}
@@ -106,8 +123,8 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
             </div>
           )}
 
-          {/* Doctor navigation */}
-          {isDoctor && (
+          {/* Clinical staff navigation */}
+          {(isDoctor || isNurse) && (
             <div className="space-y-1">
               <h3 className="px-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
                 Healthcare Provider
@@ -118,18 +135,28 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
                 active={isActive("/doctor/patients")}
                 onClick={() => navigate("/doctor/patients")}
               />
-              <NavItem
-                label="Request Access"
-                icon={<LinkIcon className="mr-3 h-[18px] w-[18px]" />}
-                active={isActive("/doctor/request-access")}
-                onClick={() => navigate("/doctor/request-access")}
-              />
+              {can(Permission.ACCESS_REQUEST) && (
+                <NavItem
+                  label="Request Access"
+                  icon={<LinkIcon className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/doctor/request-access")}
+                  onClick={() => navigate("/doctor/request-access")}
+                />
+              )}
               <NavItem
                 label="Medical Records"
                 icon={<Folder className="mr-3 h-[18px] w-[18px]" />}
                 active={isActive("/doctor/medical-records")}
                 onClick={() => navigate("/doctor/medical-records")}
               />
+              {can(Permission.CREDENTIALS_SUBMIT) && (
+                <NavItem
+                  label="Verification"
+                  icon={<ShieldCheck className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/doctor/verification")}
+                  onClick={() => navigate("/doctor/verification")}
+                />
+              )}
               <NavItem
                 label="Profile Settings"
                 icon={<UserCircle className="mr-3 h-[18px] w-[18px]" />}
@@ -139,30 +166,89 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
             </div>
           )}
 
-          {/* Admin navigation */}
-          {isAdmin && (
+          {/* Front desk navigation */}
+          {isReceptionist && (
             <div className="space-y-1">
               <h3 className="px-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
-                System Administration
+                Front Desk
               </h3>
               <NavItem
-                label="User Management"
-                icon={<ShieldAlert className="mr-3 h-[18px] w-[18px]" />}
-                active={isActive("/admin/user-management")}
-                onClick={() => navigate("/admin/user-management")}
+                label="Patient Registration"
+                icon={<ClipboardPlus className="mr-3 h-[18px] w-[18px]" />}
+                active={isActive("/front-desk/patients")}
+                onClick={() => navigate("/front-desk/patients")}
               />
               <NavItem
-                label="System Logs"
-                icon={<ClipboardList className="mr-3 h-[18px] w-[18px]" />}
-                active={isActive("/admin/system-logs")}
-                onClick={() => navigate("/admin/system-logs")}
-              />
-              <NavItem
-                label="Access Control"
-                icon={<Key className="mr-3 h-[18px] w-[18px]" />}
-                active={isActive("/admin/access-control")}
-                onClick={() => navigate("/admin/access-control")}
+                label="Security Settings"
+                icon={<Shield className="mr-3 h-[18px] w-[18px]" />}
+                active={isActive("/settings")}
+                onClick={() => navigate("/settings")}
               />
+            </div>
+          )}
+
+          {/* Admin and auditor navigation */}
+          {(isAdmin || isAuditor) && (
+            <div className="space-y-1">
+              <h3 className="px-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
+                {isAdmin ? "System Administration" : "Audit"}
+              </h3>
+              {can(Permission.USER_READ) && (
+                <NavItem
+                  label="User Management"
+                  icon={<ShieldAlert className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/user-management")}
+                  onClick={() => navigate("/admin/user-management")}
+                />
+              )}
+              {can(Permission.USER_READ) && (
+                <NavItem
+                  label="Organisations"
+                  icon={<Building2 className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/organizations")}
+                  onClick={() => navigate("/admin/organizations")}
+                />
+              )}
+              {can(Permission.USER_MANAGE) && (
+                <NavItem
+                  label="Guardians"
+                  icon={<HeartHandshake className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/guardians")}
+                  onClick={() => navigate("/admin/guardians")}
+                />
+              )}
+              {can(Permission.CREDENTIALS_REVIEW) && (
+                <NavItem
+                  label="Doctor Verification"
+                  icon={<Stethoscope className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/doctor-verification")}
+                  onClick={() => navigate("/admin/doctor-verification")}
+                />
+              )}
+              {can(Permission.AUDIT_READ) && (
+                <NavItem
+                  label="System Logs"
+                  icon={<ClipboardList className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/system-logs")}
+                  onClick={() => navigate("/admin/system-logs")}
+                />
+              )}
+              {can(Permission.ACCESS_MANAGE) && (
+                <NavItem
+                  label="Access Control"
+                  icon={<Key className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/access-control")}
+                  onClick={() => navigate("/admin/access-control")}
+                />
+              )}
+              {can(Permission.SECURITY_MANAGE) && (
+                <NavItem
+                  label="Background Jobs"
+                  icon={<Timer className="mr-3 h-[18px] w-[18px]" />}
+                  active={isActive("/admin/jobs")}
+                  onClick={() => navigate("/admin/jobs")}
+                />
+              )}
               <NavItem
                 label="Security Settings"
                 icon={<Shield className="mr-3 h-[18px] w-[18px]" />}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useNotifications } from "@/hooks/use-notifications";
+import { Notification, NotificationCategory } from "@shared/schema";
+import { Bell, CheckCheck, FileText, Key, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+interface NotificationBellProps {
+  // Called after a notification takes the user to another page, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+function NotificationIcon({ category }: { category: string }) {
+  switch (category) {
+    case NotificationCategory.SECURITY:
+      return <ShieldAlert className="h-4 w-4 text-destructive" />;
+    case NotificationCategory.NEW_RECORD:
+      return <FileText className="h-4 w-4 text-primary" />;
+    default:
+      return <Key className="h-4 w-4 text-warning" />;
+  }
+}
+
+export function NotificationBell({ onNavigate }: NotificationBellProps) {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, markRead, markAllRead, isMarkingAllRead } = useNotifications();
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) markRead(notification.id);
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+      onNavigate?.();
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-[10px] font-semibold text-white flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[340px] p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h2 className="text-sm font-semibold">Notifications</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || isMarkingAllRead}
+            onClick={() => markAllRead()}
+          >
+            <CheckCheck className="h-3.5 w-3.5 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-[400px] overflow-y-auto">
+          {isLoading ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <div className="p-6 text-center">
+              <Bell className="h-8 w-8 mx-auto mb-2 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">You're all caught up</p>
+            </div>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                className={cn(
+                  "w-full text-left flex gap-3 px-4 py-3 border-b last:border-b-0 hover:bg-muted transition-colors",
+                  !notification.readAt && "bg-primary/5"
+                )}
+                onClick={() => openNotification(notification)}
+              >
+                <div className="mt-0.5 flex-shrink-0">
+                  <NotificationIcon category={notification.category} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className={cn("text-sm truncate", !notification.readAt && "font-semibold")}>
+                      {notification.title}
+                    </p>
+                    {!notification.readAt && <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{notification.message}</p>
+                  {notification.createdAt && (
+                    <p className="text-[11px] text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
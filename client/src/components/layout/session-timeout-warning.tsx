@@ -0,0 +1,50 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useSessionTimeout } from "@/hooks/use-session-timeout";
+import { Clock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+function formatCountdown(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Countdown shown before an idle session is ended by the server
+export function SessionTimeoutWarning() {
+  const { logoutMutation } = useAuth();
+  const { secondsLeft, showWarning, staySignedIn } = useSessionTimeout();
+
+  return (
+    <AlertDialog open={showWarning && (secondsLeft ?? 0) > 0}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-warning" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            For your security you'll be signed out in{" "}
+            <span className="font-mono font-medium">{formatCountdown(secondsLeft ?? 0)}</span>{" "}
+            because of inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => logoutMutation.mutate()}>
+            Sign out now
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => staySignedIn()}>
+            Stay signed in
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
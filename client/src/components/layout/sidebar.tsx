@@ -14,23 +14,30 @@ import {
   ClipboardList,
   Key,
   Shield,
+  ShieldCheck,
+  Stethoscope,
+  ClipboardPlus,
+  HeartHandshake,
+  Building2,
+  Timer,
   Palette
 } from "lucide-react";
 import { useRole } from "@/hooks/use-role";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 import { useQuery } from "@tanstack/react-query";
+import { Permission } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 
 export function Sidebar() {
   const [location, setLocation] = useLocation();
-  const { isPatient, isDoctor, isAdmin } = useRole();
-  const { user } = useAuth();
+  const { isPatient, isDoctor, isNurse, isReceptionist, isAuditor, isAdmin, can } = useRole();
+  const { patientId } = useActingPatient();
   
-  // Fetch access requests if user is a patient
+  // Fetch access requests for the patient the user is acting for
   const { data: accessRequests } = useQuery<any[]>({
-    queryKey: [`/api/access-requests/patient/${user?.id}`],
-    enabled: !!user?.id && isPatient,
+    queryKey: [`/api/access-requests/patient/${patientId}`],
+    enabled: !!patientId && isPatient,
   });
   
   // Count of pending requests
@@ -72,6 +79,14 @@ export function Sidebar() {
             >
               Access Requests
             </NavItem>
+            <NavItem
+              icon={<HeartHandshake className="mr-3 h-5 w-5" />}
+              href="/patient/caregivers"
+              active={isLinkActive("/patient/caregivers")}
+              onClick={() => setLocation("/patient/caregivers")}
+            >
+              Family & Caregivers
+            </NavItem>
             <NavItem
               icon={<Settings className="mr-3 h-5 w-5" />}
               href="/settings"
@@ -83,11 +98,11 @@ export function Sidebar() {
           </div>
         )}
         
-        {/* Doctor navigation */}
-        {isDoctor && (
+        {/* Clinical staff navigation */}
+        {(isDoctor || isNurse) && (
           <div>
             <div className="px-3 py-2 mb-2 text-xs font-semibold text-muted-foreground tracking-wider">
-              DOCTOR DASHBOARD
+              {isDoctor ? "DOCTOR DASHBOARD" : "NURSE DASHBOARD"}
             </div>
             <NavItem
               icon={<Group className="mr-3 h-5 w-5" />}
@@ -97,14 +112,16 @@ export function Sidebar() {
             >
               My Patients
             </NavItem>
-            <NavItem
-              icon={<Link className="mr-3 h-5 w-5" />}
-              href="/doctor/request-access"
-              active={isLinkActive("/doctor/request-access")}
-              onClick={() => setLocation("/doctor/request-access")}
-            >
-              Request Access
-            </NavItem>
+            {can(Permission.ACCESS_REQUEST) && (
+              <NavItem
+                icon={<Link className="mr-3 h-5 w-5" />}
+                href="/doctor/request-access"
+                active={isLinkActive("/doctor/request-access")}
+                onClick={() => setLocation("/doctor/request-access")}
+              >
+                Request Access
+              </NavItem>
+            )}
             <NavItem
               icon={<Folder className="mr-3 h-5 w-5" />}
               href="/doctor/medical-records"
@@ -113,6 +130,16 @@ export function Sidebar() {
             >
               Medical Records
             </NavItem>
+            {can(Permission.CREDENTIALS_SUBMIT) && (
+              <NavItem
+                icon={<ShieldCheck className="mr-3 h-5 w-5" />}
+                href="/doctor/verification"
+                active={isLinkActive("/doctor/verification")}
+                onClick={() => setLocation("/doctor/verification")}
+              >
+                Verification
+              </NavItem>
+            )}
             <NavItem
               icon={<Shield className="mr-3 h-5 w-5" />}
               href="/settings"
@@ -124,36 +151,107 @@ export function Sidebar() {
           </div>
         )}
         
-        {/* Admin navigation */}
-        {isAdmin && (
+        {/* Front desk navigation */}
+        {isReceptionist && (
           <div>
             <div className="px-3 py-2 mb-2 text-xs font-semibold text-muted-foreground tracking-wider">
-              ADMIN DASHBOARD
+              FRONT DESK
             </div>
             <NavItem
-              icon={<ShieldAlert className="mr-3 h-5 w-5" />}
-              href="/admin/user-management"
-              active={isLinkActive("/admin/user-management")}
-              onClick={() => setLocation("/admin/user-management")}
+              icon={<ClipboardPlus className="mr-3 h-5 w-5" />}
+              href="/front-desk/patients"
+              active={isLinkActive("/front-desk/patients")}
+              onClick={() => setLocation("/front-desk/patients")}
             >
-              User Management
+              Patient Registration
             </NavItem>
             <NavItem
-              icon={<ClipboardList className="mr-3 h-5 w-5" />}
-              href="/admin/system-logs"
-              active={isLinkActive("/admin/system-logs")}
-              onClick={() => setLocation("/admin/system-logs")}
-            >
-              System Logs
-            </NavItem>
-            <NavItem
-              icon={<Key className="mr-3 h-5 w-5" />}
-              href="/admin/access-control"
-              active={isLinkActive("/admin/access-control")}
-              onClick={() => setLocation("/admin/access-control")}
+              icon={<Shield className="mr-3 h-5 w-5" />}
+              href="/settings"
+              active={isLinkActive("/settings")}
+              onClick={() => setLocation("/settings")}
             >
-              Access Control
+              Security Settings
             </NavItem>
+          </div>
+        )}
+        
+        {/* Admin and auditor navigation */}
+        {(isAdmin || isAuditor) && (
+          <div>
+            <div className="px-3 py-2 mb-2 text-xs font-semibold text-muted-foreground tracking-wider">
+              {isAdmin ? "ADMIN DASHBOARD" : "AUDIT"}
+            </div>
+            {can(Permission.USER_READ) && (
+              <NavItem
+                icon={<ShieldAlert className="mr-3 h-5 w-5" />}
+                href="/admin/user-management"
+                active={isLinkActive("/admin/user-management")}
+                onClick={() => setLocation("/admin/user-management")}
+              >
+                User Management
+              </NavItem>
+            )}
+            {can(Permission.USER_READ) && (
+              <NavItem
+                icon={<Building2 className="mr-3 h-5 w-5" />}
+                href="/admin/organizations"
+                active={isLinkActive("/admin/organizations")}
+                onClick={() => setLocation("/admin/organizations")}
+              >
+                Organisations
+              </NavItem>
+            )}
+            {can(Permission.USER_MANAGE) && (
+              <NavItem
+                icon={<HeartHandshake className="mr-3 h-5 w-5" />}
+                href="/admin/guardians"
+                active={isLinkActive("/admin/guardians")}
+                onClick={() => setLocation("/admin/guardians")}
+              >
+                Guardians
+              </NavItem>
+            )}
+            {can(Permission.CREDENTIALS_REVIEW) && (
+              <NavItem
+                icon={<Stethoscope className="mr-3 h-5 w-5" />}
+                href="/admin/doctor-verification"
+                active={isLinkActive("/admin/doctor-verification")}
+                onClick={() => setLocation("/admin/doctor-verification")}
+              >
+                Doctor Verification
+              </NavItem>
+            )}
+            {can(Permission.AUDIT_READ) && (
+              <NavItem
+                icon={<ClipboardList className="mr-3 h-5 w-5" />}
+                href="/admin/system-logs"
+                active={isLinkActive("/admin/system-logs")}
+                onClick={() => setLocation("/admin/system-logs")}
+              >
+                System Logs
+              </NavItem>
+            )}
+            {can(Permission.ACCESS_MANAGE) && (
+              <NavItem
+                icon={<Key className="mr-3 h-5 w-5" />}
+                href="/admin/access-control"
+                active={isLinkActive("/admin/access-control")}
+                onClick={() => setLocation("/admin/access-control")}
+              >
+                Access Control
+              </NavItem>
+            )}
+            {can(Permission.SECURITY_MANAGE) && (
+              <NavItem
+                icon={<Timer className="mr-3 h-5 w-5" />}
+                href="/admin/jobs"
+                active={isLinkActive("/admin/jobs")}
+                onClick={() => setLocation("/admin/jobs")}
+              >
+                Background Jobs
+              </NavItem>
+            )}
             <NavItem
               icon={<Shield className="mr-3 h-5 w-5" />}
               href="/settings"
@@ -1,10 +1,11 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate } from "@/lib/utils";
+import { formatDate, recordTypes } from "@/lib/utils";
+import { AccessScope, Record } from "@shared/schema";
 import { Shield, UserCircle } from "lucide-react";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 
 import {
   Dialog,
@@ -17,6 +18,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 
 interface Doctor {
   id: number;
@@ -34,6 +36,9 @@ interface AccessRequest {
   notes?: string;
   status: string;
   requestDate: string;
+  limitedScope?: boolean | null;
+  expiryDate?: string | null;
+  extendsRequestId?: number | null;
   doctor?: Doctor;
 }
 
@@ -45,16 +50,48 @@ interface ApprovalModalProps {
 
 export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { patientId } = useActingPatient();
   const [limitScope, setLimitScope] = useState(false);
+  const [scopeRecordTypes, setScopeRecordTypes] = useState<string[]>([]);
+  const [scopeDateFrom, setScopeDateFrom] = useState("");
+  const [scopeDateTo, setScopeDateTo] = useState("");
+  const [scopeRecordIds, setScopeRecordIds] = useState<number[]>([]);
+  
+  // The patient's own records, for choosing specific records to share
+  const { data: records } = useQuery<Record[]>({
+    queryKey: [`/api/patients/${patientId}/records`],
+    enabled: isOpen && limitScope && !!patientId,
+  });
+  
+  const scope: AccessScope = {
+    recordTypes: scopeRecordTypes.length > 0 ? scopeRecordTypes : null,
+    dateFrom: scopeDateFrom || null,
+    dateTo: scopeDateTo || null,
+    recordIds: scopeRecordIds.length > 0 ? scopeRecordIds : null,
+  };
+  const hasScopeCriteria = !!(scope.recordTypes || scope.dateFrom || scope.dateTo || scope.recordIds);
+  
+  const resetScope = () => {
+    setLimitScope(false);
+    setScopeRecordTypes([]);
+    setScopeDateFrom("");
+    setScopeDateTo("");
+    setScopeRecordIds([]);
+  };
+  
+  const toggleValue = <T,>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter(v => v !== value);
+  
+  // An extension keeps the scope of the grant it extends
+  const isExtension = !!request?.extendsRequestId;
   
   // Handle approval/denial mutations
   const updateRequestMutation = useMutation({
     mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      const res = await apiRequest("PATCH", `/api/access-requests/${id}`, {
-        status,
-        limitedScope: status === "approved" ? limitScope : false
-      });
+      // The scope is only chosen when approving
+      const res = await apiRequest("PATCH", `/api/access-requests/${id}`, status === "approved" && !isExtension
+        ? { status, limitedScope: limitScope, ...(limitScope ? { scope } : {}) }
+        : { status });
       return await res.json();
     },
     onSuccess: (_, variables) => {
@@ -63,9 +100,9 @@ export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps)
         title: `Access request ${action}`,
         description: `You have ${action} the doctor's access request`,
       });
-      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${patientId}`] });
       onClose();
-      setLimitScope(false);
+      resetScope();
     },
     onError: (error: Error) => {
       toast({
@@ -96,10 +133,12 @@ export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps)
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <Shield className="h-5 w-5" /> Approve Access Request
+            <Shield className="h-5 w-5" /> {isExtension ? "Approve Access Extension" : "Approve Access Request"}
           </DialogTitle>
           <DialogDescription>
-            The following healthcare provider has requested access to your medical records:
+            {isExtension
+              ? "The following healthcare provider has asked to keep their access to your medical records for longer:"
+              : "The following healthcare provider has requested access to your medical records:"}
           </DialogDescription>
         </DialogHeader>
 
@@ -127,6 +166,12 @@ export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps)
               <p className="text-gray-500 dark:text-gray-400">Duration</p>
               <p className="font-medium">{request.duration} Days</p>
             </div>
+            {isExtension && request.expiryDate && (
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Until</p>
+                <p className="font-medium">{formatDate(request.expiryDate)}</p>
+              </div>
+            )}
             <div>
               <p className="text-gray-500 dark:text-gray-400">Requested On</p>
               <p className="font-medium">{formatDate(request.requestDate)}</p>
@@ -142,28 +187,112 @@ export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps)
         
         <div className="mt-4">
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            By approving this request, you are granting this healthcare provider access to view your medical records for the specified duration. You can revoke access at any time.
+            {isExtension
+              ? "By approving this extension, this healthcare provider keeps the access you already granted, to the same records, until the date above. You can revoke access at any time."
+              : "By approving this request, you are granting this healthcare provider access to view your medical records for the specified duration. You can revoke access at any time."}
           </p>
         </div>
         
-        <div className="mt-4 flex items-start">
-          <Checkbox
-            id="limit-scope" 
-            checked={limitScope}
-            onCheckedChange={(checked) => setLimitScope(checked as boolean)}
-          />
-          <div className="ml-3">
-            <Label 
-              htmlFor="limit-scope" 
-              className="font-medium"
-            >
-              Limit access to specialty-related records only
-            </Label>
-            <p className="text-sm text-gray-500 dark:text-gray-400">
-              Only records related to {request.doctor?.specialty || "the doctor's specialty"} will be accessible
-            </p>
+        {!isExtension && (
+          <div className="mt-4 flex items-start">
+            <Checkbox
+              id="limit-scope" 
+              checked={limitScope}
+              onCheckedChange={(checked) => setLimitScope(checked as boolean)}
+            />
+            <div className="ml-3">
+              <Label 
+                htmlFor="limit-scope" 
+                className="font-medium"
+              >
+                Limit access to selected records only
+              </Label>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {request.limitedScope
+                  ? "The doctor asked for limited access. Choose what they may see below."
+                  : "Only records matching every restriction you choose below will be accessible"}
+              </p>
+            </div>
+          </div>
+        )}
+        
+        {limitScope && !isExtension && (
+          <div className="mt-2 space-y-4 rounded-md border p-4 max-h-72 overflow-y-auto">
+            <div>
+              <p className="text-sm font-medium mb-2">Record types</p>
+              <div className="grid grid-cols-2 gap-2">
+                {recordTypes.map((type) => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-type-${type}`}
+                      checked={scopeRecordTypes.includes(type)}
+                      onCheckedChange={(checked) =>
+                        setScopeRecordTypes(toggleValue(scopeRecordTypes, type, checked as boolean))
+                      }
+                    />
+                    <Label htmlFor={`scope-type-${type}`} className="text-sm font-normal">
+                      {type}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            
+            <div>
+              <p className="text-sm font-medium mb-2">Record dates</p>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="scope-date-from" className="text-xs text-gray-500">From</Label>
+                  <Input
+                    id="scope-date-from"
+                    type="date"
+                    value={scopeDateFrom}
+                    onChange={(e) => setScopeDateFrom(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="scope-date-to" className="text-xs text-gray-500">To</Label>
+                  <Input
+                    id="scope-date-to"
+                    type="date"
+                    value={scopeDateTo}
+                    onChange={(e) => setScopeDateTo(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+            
+            <div>
+              <p className="text-sm font-medium mb-2">Specific records</p>
+              {records && records.length > 0 ? (
+                <div className="space-y-2">
+                  {records.map((record) => (
+                    <div key={record.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`scope-record-${record.id}`}
+                        checked={scopeRecordIds.includes(record.id)}
+                        onCheckedChange={(checked) =>
+                          setScopeRecordIds(toggleValue(scopeRecordIds, record.id, checked as boolean))
+                        }
+                      />
+                      <Label htmlFor={`scope-record-${record.id}`} className="text-sm font-normal">
+                        {record.title} ({formatDate(record.recordDate)})
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">You have no records yet</p>
+              )}
+            </div>
+            
+            {!hasScopeCriteria && (
+              <p className="text-sm text-destructive">
+                Choose at least one restriction, or untick the box to grant full access
+              </p>
+            )}
           </div>
-        </div>
+        )}
 
         <DialogFooter className="gap-2 sm:gap-0">
           <Button 
@@ -175,7 +304,7 @@ export function ApprovalModal({ isOpen, onClose, request }: ApprovalModalProps)
           </Button>
           <Button 
             onClick={handleApprove}
-            disabled={updateRequestMutation.isPending}
+            disabled={updateRequestMutation.isPending || (limitScope && !hasScopeCriteria)}
           >
             {updateRequestMutation.isPending ? "Processing..." : "Approve Access"}
           </Button>
@@ -0,0 +1,161 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ShieldAlert, AlertTriangle } from "lucide-react";
+import { EMERGENCY_ACCESS_MINUTES } from "@shared/schema";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+// Create a schema for the form
+const formSchema = z.object({
+  patientId: z.coerce.number().positive("Please enter a valid patient ID"),
+  reason: z.string().trim().min(10, "Describe the emergency in at least 10 characters"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface EmergencyAccessModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patientId?: number;
+}
+
+export function EmergencyAccessModal({ isOpen, onClose, patientId }: EmergencyAccessModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Set up form with validation
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      patientId,
+      reason: "",
+    },
+  });
+
+  // Submit mutation
+  const overrideMutation = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await apiRequest("POST", "/api/emergency-override", data);
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: "Emergency access granted",
+        description: `You can view this patient's records for the next ${EMERGENCY_ACCESS_MINUTES / 60} hours. The patient has been notified and an administrator will review this access.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/records/doctor/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${variables.patientId}/records`] });
+      onClose();
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Emergency access failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: FormValues) => {
+    overrideMutation.mutate(values);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" /> Emergency Access
+          </DialogTitle>
+          <DialogDescription>
+            Break-glass access to a patient's records without prior approval
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start gap-3 rounded-md border border-destructive/30 bg-destructive/10 p-4 text-sm">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0 text-destructive" />
+          <p>
+            Use only when the patient cannot consent and delay would put them at risk.
+            Access lasts {EMERGENCY_ACCESS_MINUTES / 60} hours, the patient is notified
+            immediately, and every use is reviewed by an administrator.
+          </p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="patientId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Patient ID</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Enter patient ID"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason for Emergency Access</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Describe the clinical emergency..."
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={overrideMutation.isPending}>
+                {overrideMutation.isPending ? "Granting..." : "Invoke Emergency Access"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
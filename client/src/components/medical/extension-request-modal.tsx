@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { accessDurations, formatDate } from "@/lib/utils";
+import { AccessRequest, extendedExpiryDate } from "@shared/schema";
+import { CalendarClock } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ExtensionRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grant: AccessRequest | null;
+  patientName?: string;
+}
+
+// Asks the patient to keep an existing grant going, rather than starting a new
+// request; the patient sees it on the grant and picks the final end date
+export function ExtensionRequestModal({ isOpen, onClose, grant, patientName }: ExtensionRequestModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [duration, setDuration] = useState(accessDurations[0].value);
+  const [notes, setNotes] = useState("");
+
+  const handleClose = () => {
+    setDuration(accessDurations[0].value);
+    setNotes("");
+    onClose();
+  };
+
+  const extensionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/access-requests/${grant!.id}/extension`, {
+        duration,
+        ...(notes.trim() ? { notes: notes.trim() } : {})
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Extension requested",
+        description: "The patient will be asked to approve a new end date",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/doctor/${user?.id}`] });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't request extension",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!grant) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" /> Request Extension
+          </DialogTitle>
+          <DialogDescription>
+            Ask {patientName || `patient #${grant.patientId}`} to keep your access for longer. The same
+            purpose and records carry over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Access ends</p>
+              <p className="font-medium">{formatDate(grant.expiryDate ?? "")}</p>
+            </div>
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Would end</p>
+              <p className="font-medium">{formatDate(extendedExpiryDate(grant.expiryDate, duration))}</p>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Extend by</Label>
+            <Select value={duration.toString()} onValueChange={(value) => setDuration(parseInt(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accessDurations.map((option) => (
+                  <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="extension-notes">Note for the patient</Label>
+            <Textarea
+              id="extension-notes"
+              placeholder="Why you need access for longer"
+              value={notes}
+              maxLength={500}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={extensionMutation.isPending}
+            onClick={() => extensionMutation.mutate()}
+          >
+            {extensionMutation.isPending ? "Requesting..." : "Request Extension"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
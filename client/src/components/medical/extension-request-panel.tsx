@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { AccessRequest } from "@shared/schema";
+import { CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ExtensionRequestPanelProps {
+  extension: AccessRequest;
+  patientId: number;
+  doctorName: string;
+}
+
+// Shown on an active grant when its doctor has asked to keep access for longer.
+// The patient can approve the end date the doctor asked for or choose another;
+// the records shared stay the same.
+export function ExtensionRequestPanel({ extension, patientId, doctorName }: ExtensionRequestPanelProps) {
+  const { toast } = useToast();
+  const requestedEndDate = extension.expiryDate ? new Date(extension.expiryDate).toISOString().slice(0, 10) : "";
+  const [endDate, setEndDate] = useState(requestedEndDate);
+  // Access lasts until the end of the chosen day
+  const chosenExpiry = endDate ? new Date(`${endDate}T23:59:59`) : null;
+
+  const respondMutation = useMutation({
+    mutationFn: async (status: "approved" | "denied") => {
+      const res = await apiRequest("PATCH", `/api/access-requests/${extension.id}`, status === "approved"
+        ? { status, ...(chosenExpiry ? { expiryDate: chosenExpiry.toISOString() } : {}) }
+        : { status });
+      return await res.json();
+    },
+    onSuccess: (data: AccessRequest, status) => {
+      toast({
+        title: status === "approved" ? "Access extended" : "Extension declined",
+        description: status === "approved"
+          ? `${doctorName} can now see your records until ${formatDate(data.expiryDate ?? "")}`
+          : `${doctorName}'s access will end as planned`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${patientId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="mt-4 rounded-md border border-warning/30 bg-warning/10 p-4">
+      <div className="flex items-start">
+        <CalendarClock className="h-5 w-5 text-warning mr-3 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {doctorName} asked to keep access for {extension.duration} more days
+          </p>
+          {extension.notes && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{extension.notes}</p>
+          )}
+          <div className="mt-3 flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`extension-end-${extension.id}`} className="text-xs text-gray-500">
+                New end date
+              </Label>
+              <Input
+                id={`extension-end-${extension.id}`}
+                type="date"
+                value={endDate}
+                min={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate("denied")}
+              >
+                Decline
+              </Button>
+              <Button
+                disabled={respondMutation.isPending || !chosenExpiry}
+                onClick={() => respondMutation.mutate("approved")}
+              >
+                Approve
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
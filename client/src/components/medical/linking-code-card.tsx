@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface LinkingCodeCardProps {
+  patientId: number;
+}
+
+// A one-off code the patient reads out to a clinician who needs to find them,
+// instead of the clinician searching by name and date of birth. The code is
+// only shown when it is created.
+export function LinkingCodeCard({ patientId }: LinkingCodeCardProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState<string | null>(null);
+
+  const { data: status } = useQuery<{ expiresAt: string | null }>({
+    queryKey: [`/api/users/${patientId}/linking-code`],
+  });
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/users/${patientId}/linking-code`] });
+  };
+
+  const createCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/users/${patientId}/linking-code`);
+      return await res.json() as { code: string; expiresAt: string };
+    },
+    onSuccess: (data) => {
+      setCode(data.code);
+      refreshStatus();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't create a code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/users/${patientId}/linking-code`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setCode(null);
+      toast({ title: "Linking code cancelled" });
+      refreshStatus();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expiresAt = status?.expiresAt ? new Date(status.expiresAt) : null;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-5 flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex items-start flex-1">
+          <Link2 className="h-5 w-5 text-primary mr-3 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="font-medium">Linking code</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Give this code to a doctor so they can find you and ask for access. It works once and expires after a day.
+            </p>
+            {code && expiresAt && (
+              <p className="mt-2">
+                <span className="font-mono text-lg tracking-widest">{code}</span>
+                <span className="ml-3 text-xs text-gray-500">until {expiresAt.toLocaleString()}</span>
+              </p>
+            )}
+            {!code && expiresAt && (
+              <p className="mt-2 text-xs text-gray-500">
+                A code is active until {expiresAt.toLocaleString()}. Create a new one if you no longer have it.
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {expiresAt && (
+            <Button
+              variant="outline"
+              disabled={revokeCodeMutation.isPending}
+              onClick={() => revokeCodeMutation.mutate()}
+            >
+              Cancel Code
+            </Button>
+          )}
+          <Button
+            disabled={createCodeMutation.isPending}
+            onClick={() => createCodeMutation.mutate()}
+          >
+            {createCodeMutation.isPending ? "Creating..." : expiresAt ? "New Code" : "Create Code"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
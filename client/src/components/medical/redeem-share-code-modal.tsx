@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface RedeemShareCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Filled in when the doctor arrives from a scanned QR link
+  initialCode?: string;
+}
+
+export function RedeemShareCodeModal({ isOpen, onClose, initialCode }: RedeemShareCodeModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState(initialCode ?? "");
+
+  useEffect(() => {
+    if (initialCode) setCode(initialCode);
+  }, [initialCode]);
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/share-codes/redeem", { code: code.trim() });
+      return await res.json() as { patient: { id: number; fullName?: string } };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Access granted",
+        description: `You now have access to ${data.patient.fullName || `patient #${data.patient.id}`}'s records`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/doctor/${user?.id}`] });
+      setCode("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't redeem code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" /> Redeem Share Code
+          </DialogTitle>
+          <DialogDescription>
+            Enter the code a patient gave you. You'll get the access they chose straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="share-code">Share code</Label>
+          <Input
+            id="share-code"
+            placeholder="XXXX-XXXX-XXXX"
+            className="font-mono uppercase"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={redeemMutation.isPending || !code.trim()}
+            onClick={() => redeemMutation.mutate()}
+          >
+            {redeemMutation.isPending ? "Redeeming..." : "Redeem"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
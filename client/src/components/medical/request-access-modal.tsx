@@ -6,7 +6,6 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { accessPurposes, accessDurations } from "@/lib/utils";
 import { Key, Search, User } from "lucide-react";
-import { insertAccessRequestSchema, User as UserType } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { useState } from "react";
 
@@ -37,6 +36,8 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // Create a schema for the form
 const formSchema = z.object({
@@ -49,6 +50,16 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+type SearchMethod = "name" | "code";
+
+// What the search endpoint returns: just enough to confirm it's the right person
+type PatientSearchResult = {
+  patients: { id: number; fullName: string; dateOfBirth: string | null }[];
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
 interface RequestAccessModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -57,14 +68,38 @@ interface RequestAccessModalProps {
 export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [isSearching, setIsSearching] = useState(false);
+  const [searchMethod, setSearchMethod] = useState<SearchMethod>("name");
+  const [fullName, setFullName] = useState("");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [linkingCode, setLinkingCode] = useState("");
+  const [selectedName, setSelectedName] = useState<string | null>(null);
 
-  // Fetch all patients for the search
-  const { data: patients, isLoading: isLoadingPatients } = useQuery<UserType[]>({
-    queryKey: ['/api/patients'],
-    enabled: isOpen && !!user?.id, // Only fetch when modal is open and user is logged in
+  // Patients are looked up one at a time by a strong identifier; each search is
+  // rate limited and audited, so it only runs when the doctor asks for it
+  const searchMutation = useMutation({
+    mutationFn: async (page: number) => {
+      const params = new URLSearchParams({ page: page.toString() });
+      if (searchMethod === "code") {
+        params.set("code", linkingCode.trim());
+      } else {
+        params.set("fullName", fullName.trim());
+        params.set("dateOfBirth", dateOfBirth);
+      }
+      const res = await apiRequest("GET", `/api/patients/search?${params}`);
+      return await res.json() as PatientSearchResult;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Search failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
+  const searchResult = searchMutation.data;
+  const canSearch = searchMethod === "code"
+    ? linkingCode.trim().length >= 8
+    : fullName.trim().length >= 2 && !!dateOfBirth;
 
   // Set up form with validation
   const form = useForm<FormValues>({
@@ -78,13 +113,6 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
     },
   });
 
-  // Filter patients based on search query
-  const filteredPatients = patients?.filter(patient => 
-    patient.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    patient.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    patient.id.toString().includes(searchQuery)
-  ) || [];
-
   // Submit mutation
   const requestMutation = useMutation({
     mutationFn: async (data: FormValues) => {
@@ -109,6 +137,8 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
       queryClient.invalidateQueries({ queryKey: [`/api/access-requests/doctor/${user?.id}`] });
       onClose();
       form.reset();
+      searchMutation.reset();
+      setSelectedName(null);
     },
     onError: (error: Error) => {
       toast({
@@ -139,37 +169,79 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <div className="mb-4">
               <h3 className="text-lg font-medium mb-2">Find a Patient</h3>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-5 w-5" />
-                <Input 
-                  placeholder="Search by name, email, or ID..." 
-                  className="pl-10 transition-colors focus-ring"
-                  value={searchQuery}
-                  onChange={(e) => {
-                    setSearchQuery(e.target.value);
-                    setIsSearching(true);
-                  }}
-                />
-              </div>
+              <Tabs
+                value={searchMethod}
+                onValueChange={(value) => {
+                  setSearchMethod(value as SearchMethod);
+                  searchMutation.reset();
+                }}
+              >
+                <TabsList className="grid grid-cols-2 w-full mb-3">
+                  <TabsTrigger value="name">Name &amp; date of birth</TabsTrigger>
+                  <TabsTrigger value="code">Linking code</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {searchMethod === "name" ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="search-full-name">Full name</Label>
+                    <Input
+                      id="search-full-name"
+                      placeholder="As registered"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="search-date-of-birth">Date of birth</Label>
+                    <Input
+                      id="search-date-of-birth"
+                      type="date"
+                      value={dateOfBirth}
+                      onChange={(e) => setDateOfBirth(e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor="search-linking-code">Code from the patient</Label>
+                  <Input
+                    id="search-linking-code"
+                    placeholder="XXXX-XXXX"
+                    className="font-mono uppercase"
+                    value={linkingCode}
+                    onChange={(e) => setLinkingCode(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="mt-3 w-full"
+                disabled={!canSearch || searchMutation.isPending}
+                onClick={() => searchMutation.mutate(1)}
+              >
+                <Search className="mr-2 h-4 w-4" />
+                {searchMutation.isPending ? "Searching..." : "Search"}
+              </Button>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Names must match exactly. Searches are limited and recorded in the audit log.
+              </p>
               
               {/* Patient search results */}
-              {isSearching && (
+              {searchResult && (
                 <div className="mt-2 border border-border/60 rounded-md max-h-48 overflow-y-auto shadow-dropdown">
-                  {isLoadingPatients ? (
-                    <div className="p-4 text-center">
-                      <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
-                      <p className="text-sm text-muted-foreground">Loading patients...</p>
-                    </div>
-                  ) : filteredPatients.length > 0 ? (
+                  {searchResult.patients.length > 0 ? (
                     <div className="divide-y divide-border/40">
-                      {filteredPatients.map((patient) => (
+                      {searchResult.patients.map((patient) => (
                         <div 
                           key={patient.id} 
                           className="p-3 cursor-pointer hover:bg-secondary/50 transition-colors-200 flex items-center justify-between"
                           onClick={() => {
                             form.setValue('patientId', patient.id);
-                            setSearchQuery(patient.fullName);
-                            setIsSearching(false);
+                            setSelectedName(patient.fullName);
                           }}
                         >
                           <div className="flex items-center">
@@ -178,7 +250,9 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
                             </div>
                             <div className="ml-3">
                               <p className="font-medium text-foreground">{patient.fullName}</p>
-                              <p className="text-xs text-muted-foreground">{patient.email}</p>
+                              {patient.dateOfBirth && (
+                                <p className="text-xs text-muted-foreground">Born {patient.dateOfBirth}</p>
+                              )}
                             </div>
                           </div>
                           <span className="text-xs font-mono bg-secondary/60 px-2 py-1 rounded-md text-muted-foreground">
@@ -186,14 +260,34 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
                           </span>
                         </div>
                       ))}
+                      {searchResult.total > searchResult.page * searchResult.pageSize && (
+                        <div className="p-2 text-center">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={searchMutation.isPending}
+                            onClick={() => searchMutation.mutate(searchResult.page + 1)}
+                          >
+                            Next {searchResult.pageSize} of {searchResult.total}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="p-4 text-center text-muted-foreground">
-                      No patients found matching your search
+                      {searchMethod === "code"
+                        ? "That code is wrong, has expired or has already been used"
+                        : "No patient matches that name and date of birth"}
                     </div>
                   )}
                 </div>
               )}
+              {selectedName && (
+                <p className="mt-2 text-sm">
+                  Selected: <span className="font-medium">{selectedName}</span>
+                </p>
+              )}
             </div>
             
             <FormField
@@ -299,10 +393,10 @@ export function RequestAccessModal({ isOpen, onClose }: RequestAccessModalProps)
                   </FormControl>
                   <div className="space-y-1 leading-none">
                     <FormLabel>
-                      Limit access to records related to my specialty
+                      Request limited access only
                     </FormLabel>
                     <p className="text-sm text-muted-foreground">
-                      This will only request access to records that match your medical specialty
+                      The patient will choose which record types, dates or records you can see
                     </p>
                   </div>
                 </FormItem>
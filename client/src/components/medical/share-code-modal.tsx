@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { accessPurposes, accessDurations, recordTypes } from "@/lib/utils";
+import { AccessScope } from "@shared/schema";
+import { Copy, QrCode } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// How long the doctor has to redeem the code, not how long the access lasts
+const validityOptions = [
+  { label: "1 hour", value: 1 },
+  { label: "24 hours", value: 24 },
+  { label: "7 days", value: 7 * 24 },
+  { label: "30 days", value: 30 * 24 },
+];
+
+// The link a doctor's phone camera opens from the QR code; it lands on the
+// redeem dialog with the code filled in
+export function shareCodeLink(code: string) {
+  return `${window.location.origin}/doctor/request-access?shareCode=${encodeURIComponent(code)}`;
+}
+
+interface ShareCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patientId: number;
+}
+
+export function ShareCodeModal({ isOpen, onClose, patientId }: ShareCodeModalProps) {
+  const { toast } = useToast();
+  const [purpose, setPurpose] = useState(accessPurposes[0]);
+  const [duration, setDuration] = useState(accessDurations[0].value);
+  const [validForHours, setValidForHours] = useState(24);
+  const [singleUse, setSingleUse] = useState(true);
+  const [limitScope, setLimitScope] = useState(false);
+  const [scopeRecordTypes, setScopeRecordTypes] = useState<string[]>([]);
+  const [scopeDateFrom, setScopeDateFrom] = useState("");
+  const [scopeDateTo, setScopeDateTo] = useState("");
+  const [createdCode, setCreatedCode] = useState<string | null>(null);
+
+  const scope: AccessScope = {
+    recordTypes: scopeRecordTypes.length > 0 ? scopeRecordTypes : null,
+    dateFrom: scopeDateFrom || null,
+    dateTo: scopeDateTo || null,
+  };
+  const hasScopeCriteria = !!(scope.recordTypes || scope.dateFrom || scope.dateTo);
+
+  const handleClose = () => {
+    setCreatedCode(null);
+    setLimitScope(false);
+    setScopeRecordTypes([]);
+    setScopeDateFrom("");
+    setScopeDateTo("");
+    onClose();
+  };
+
+  const createShareCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/share-codes", {
+        patientId,
+        purpose,
+        duration,
+        validForHours,
+        singleUse,
+        limitedScope: limitScope,
+        ...(limitScope ? { scope } : {})
+      });
+      return await res.json() as { code: string };
+    },
+    onSuccess: (data) => {
+      setCreatedCode(data.code);
+      queryClient.invalidateQueries({ queryKey: [`/api/share-codes/patient/${patientId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't create share code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!createdCode) return;
+    await navigator.clipboard.writeText(shareCodeLink(createdCode));
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" /> Share Access
+          </DialogTitle>
+          <DialogDescription>
+            Create a code for a doctor. When they redeem it they get the access you choose here
+            straight away, without a request for you to approve.
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdCode ? (
+          <div className="space-y-4">
+            <div className="rounded-md border p-4 text-center">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Share code</p>
+              <p className="font-mono text-2xl tracking-widest">{createdCode}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-code-link">QR link</Label>
+              <div className="flex gap-2">
+                <Input id="share-code-link" readOnly value={shareCodeLink(createdCode)} className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={copyLink}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Read the code out, or turn this link into a QR code for the doctor to scan.
+                This is the only time the code is shown.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button onClick={handleClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Purpose</Label>
+                <Select value={purpose} onValueChange={setPurpose}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accessPurposes.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Access lasts</Label>
+                <Select value={duration.toString()} onValueChange={(value) => setDuration(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accessDurations.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Code works for</Label>
+                <Select value={validForHours.toString()} onValueChange={(value) => setValidForHours(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {validityOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end pb-2 gap-2">
+                <Checkbox
+                  id="share-single-use"
+                  checked={singleUse}
+                  onCheckedChange={(checked) => setSingleUse(checked as boolean)}
+                />
+                <Label htmlFor="share-single-use" className="font-normal">One doctor only</Label>
+              </div>
+            </div>
+
+            <div className="flex items-start">
+              <Checkbox
+                id="share-limit-scope"
+                checked={limitScope}
+                onCheckedChange={(checked) => setLimitScope(checked as boolean)}
+              />
+              <div className="ml-3">
+                <Label htmlFor="share-limit-scope" className="font-medium">
+                  Limit access to selected records only
+                </Label>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Only records matching every restriction you choose below will be accessible
+                </p>
+              </div>
+            </div>
+
+            {limitScope && (
+              <div className="space-y-4 rounded-md border p-4 max-h-60 overflow-y-auto">
+                <div>
+                  <p className="text-sm font-medium mb-2">Record types</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {recordTypes.map((type) => (
+                      <div key={type} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`share-type-${type}`}
+                          checked={scopeRecordTypes.includes(type)}
+                          onCheckedChange={(checked) =>
+                            setScopeRecordTypes(checked
+                              ? [...scopeRecordTypes, type]
+                              : scopeRecordTypes.filter(value => value !== type))
+                          }
+                        />
+                        <Label htmlFor={`share-type-${type}`} className="text-sm font-normal">
+                          {type}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-2">Record dates</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="share-date-from" className="text-xs text-gray-500">From</Label>
+                      <Input
+                        id="share-date-from"
+                        type="date"
+                        value={scopeDateFrom}
+                        onChange={(e) => setScopeDateFrom(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="share-date-to" className="text-xs text-gray-500">To</Label>
+                      <Input
+                        id="share-date-to"
+                        type="date"
+                        value={scopeDateTo}
+                        onChange={(e) => setScopeDateTo(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button
+                disabled={createShareCodeMutation.isPending || (limitScope && !hasScopeCriteria)}
+                onClick={() => createShareCodeMutation.mutate()}
+              >
+                {createShareCodeMutation.isPending ? "Creating..." : "Create Code"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { recordTypes } from "@/lib/utils";
 import { Upload, CloudUpload } from "lucide-react";
@@ -44,9 +44,12 @@ const formSchema = z.object({
   doctorName: z.string().min(1, "Doctor name is required"),
   recordDate: z.string().min(1, "Date is required"),
   notes: z.string().optional(),
-  fileUrl: z.string().optional(),
 });
 
+// Keep in sync with MAX_UPLOAD_BYTES and allowedRecordMimeTypes in server/uploads.ts
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_FILE_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
 type FormValues = z.infer<typeof formSchema>;
 
 interface UploadRecordModalProps {
@@ -58,7 +61,7 @@ interface UploadRecordModalProps {
 export function UploadRecordModal({ isOpen, onClose, patientId }: UploadRecordModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
 
   // Set up form with validation
   const form = useForm<FormValues>({
@@ -69,32 +72,65 @@ export function UploadRecordModal({ isOpen, onClose, patientId }: UploadRecordMo
       doctorName: "",
       recordDate: new Date().toISOString().split('T')[0],
       notes: "",
-      fileUrl: "",
     },
   });
 
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setFileName(file.name);
-      // In a real app, you would upload the file to your server/storage here
-      // and then set the fileUrl field with the returned URL
-      form.setValue("fileUrl", URL.createObjectURL(file));
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    
+    if (!ACCEPTED_FILE_TYPES.includes(selected.type)) {
+      toast({
+        title: "Unsupported file",
+        description: "Please choose a PDF, JPG or PNG file",
+        variant: "destructive",
+      });
+      e.target.value = "";
+      return;
+    }
+    
+    if (selected.size > MAX_FILE_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Files must be 10MB or smaller",
+        variant: "destructive",
+      });
+      e.target.value = "";
+      return;
     }
+    
+    setFile(selected);
   };
 
   // Submit mutation
   const uploadMutation = useMutation({
     mutationFn: async (data: FormValues) => {
+      const targetPatientId = patientId || user?.id;
+      
+      // Records with an attachment go through the multipart upload endpoint
+      if (file) {
+        const formData = new FormData();
+        formData.append("patientId", String(targetPatientId));
+        formData.append("title", data.title);
+        formData.append("recordType", data.recordType);
+        formData.append("doctorName", data.doctorName);
+        formData.append("recordDate", data.recordDate);
+        if (data.notes) formData.append("notes", data.notes);
+        // Append the file last so the text fields are parsed before the upload streams
+        formData.append("file", file);
+        
+        const res = await apiUpload("/api/records/upload", formData);
+        return await res.json();
+      }
+      
       const recordData = {
-        patientId: patientId || user?.id,
+        patientId: targetPatientId,
         title: data.title,
         recordType: data.recordType,
         doctorName: data.doctorName,
         recordDate: new Date(data.recordDate),
         notes: data.notes,
-        fileUrl: data.fileUrl || "placeholder-url", // In a real app, this would be the actual file URL
       };
       
       const res = await apiRequest("POST", "/api/records", recordData);
@@ -108,7 +144,7 @@ export function UploadRecordModal({ isOpen, onClose, patientId }: UploadRecordMo
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId || user?.id}/records`] });
       onClose();
       form.reset();
-      setFileName(null);
+      setFile(null);
     },
     onError: (error: Error) => {
       toast({
@@ -238,13 +274,14 @@ export function UploadRecordModal({ isOpen, onClose, patientId }: UploadRecordMo
                         name="file-upload"
                         type="file"
                         className="sr-only"
+                        accept={ACCEPTED_FILE_TYPES.join(",")}
                         onChange={handleFileChange}
                       />
                     </label>
                     <p className="pl-1">or drag and drop</p>
                   </div>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    {fileName || "PDF, JPG, PNG up to 10MB"}
+                    {file ? file.name : "PDF, JPG, PNG up to 10MB"}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,151 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// A short "Browser on OS" label from a user agent string
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+function formatTimestamp(timestamp: string | null): string {
+  if (!timestamp) return "Unknown";
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+  const otherSessions = sessions?.filter(session => !session.current) ?? [];
+
+  const revokeMutation = useMutation({
+    // No id signs out every other session
+    mutationFn: async (sessionId?: string) => {
+      const res = await apiRequest("DELETE", sessionId ? `/api/sessions/${sessionId}` : "/api/sessions");
+      return await res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Signed out",
+        description: `Ended ${data.revoked} ${data.revoked === 1 ? "session" : "sessions"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out the session.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>
+          Devices currently signed in to your account. Sign out any you don't recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </>
+        ) : (
+          sessions?.map(session => {
+            const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <div
+                key={session.id}
+                className="flex items-center justify-between rounded-md border p-4"
+              >
+                <div className="flex items-start gap-3">
+                  <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{describeUserAgent(session.userAgent)}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ipAddress || "Unknown IP address"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Signed in {formatTimestamp(session.createdAt)} · Last active {formatTimestamp(session.lastSeenAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        <Button
+          variant="destructive"
+          onClick={() => revokeMutation.mutate(undefined)}
+          disabled={otherSessions.length === 0 || revokeMutation.isPending}
+          className="flex items-center gap-2"
+        >
+          <LogOut className="h-4 w-4" />
+          Sign out all other sessions
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+import { PasswordPolicy, DEFAULT_PASSWORD_POLICY } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+const characterRules: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: "requireUppercase", label: "Require an uppercase letter" },
+  { key: "requireLowercase", label: "Require a lowercase letter" },
+  { key: "requireNumber", label: "Require a number" },
+  { key: "requireSymbol", label: "Require a symbol" },
+];
+
+// Admin-only: the rules every new password must meet
+export function PasswordPolicyCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setDraft(policy);
+  }, [policy]);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (data: PasswordPolicy) => {
+      const res = await apiRequest("PUT", "/api/admin/password-policy", data);
+      return await res.json();
+    },
+    onSuccess: (data: PasswordPolicy) => {
+      queryClient.setQueryData(["/api/password-policy"], data);
+      toast({
+        title: "Password policy updated",
+        description: "New and changed passwords must now meet these rules.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the password policy.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid =
+    draft.minLength >= 8 && draft.minLength <= 128 &&
+    draft.historyCount >= 0 && draft.historyCount <= 24 &&
+    (draft.maxAgeDays === null || (draft.maxAgeDays >= 1 && draft.maxAgeDays <= 3650));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Password Policy</CardTitle>
+        <CardDescription>
+          Rules applied when users register, change or reset their password. Common
+          passwords are always rejected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="policy-min-length">Minimum length</Label>
+            <Input
+              id="policy-min-length"
+              type="number"
+              min={8}
+              max={128}
+              value={draft.minLength}
+              onChange={(e) => setDraft({ ...draft, minLength: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-history">Block reuse of last</Label>
+            <Input
+              id="policy-history"
+              type="number"
+              min={0}
+              max={24}
+              value={draft.historyCount}
+              onChange={(e) => setDraft({ ...draft, historyCount: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-max-age">Expire after (days)</Label>
+            <Input
+              id="policy-max-age"
+              type="number"
+              min={1}
+              max={3650}
+              placeholder="Never"
+              value={draft.maxAgeDays ?? ""}
+              onChange={(e) => setDraft({ ...draft, maxAgeDays: e.target.value ? parseInt(e.target.value) : null })}
+            />
+          </div>
+        </div>
+
+        {characterRules.map(rule => (
+          <div key={rule.key} className="flex items-center justify-between">
+            <div className="flex items-center">
+              <KeyRound className="h-4 w-4 mr-2" />
+              <span className="text-sm font-medium">{rule.label}</span>
+            </div>
+            <Switch
+              checked={draft[rule.key] as boolean}
+              onCheckedChange={(checked) => setDraft({ ...draft, [rule.key]: checked })}
+            />
+          </div>
+        ))}
+
+        {!isValid && (
+          <p className="text-sm font-medium text-destructive">
+            Length must be 8–128, reuse history 0–24 and expiry 1–3650 days
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        <Button
+          onClick={() => updatePolicyMutation.mutate(draft)}
+          disabled={!isValid || updatePolicyMutation.isPending}
+        >
+          {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
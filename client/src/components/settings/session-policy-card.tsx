@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Clock } from "lucide-react";
+import type { SessionPolicy } from "@shared/schema";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// Admin-only: caps every user's idle session timeout
+export function SessionPolicyCard() {
+  const { toast } = useToast();
+  const [maxTimeout, setMaxTimeout] = useState("");
+
+  const { data: policy } = useQuery<SessionPolicy>({
+    queryKey: ["/api/admin/session-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setMaxTimeout(policy.maxSessionTimeout?.toString() ?? "");
+    }
+  }, [policy]);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (data: SessionPolicy) => {
+      const res = await apiRequest("PUT", "/api/admin/session-policy", data);
+      return await res.json();
+    },
+    onSuccess: (data: SessionPolicy) => {
+      queryClient.setQueryData(["/api/admin/session-policy"], data);
+      toast({
+        title: "Session policy updated",
+        description: data.maxSessionTimeout
+          ? `Sessions now end after at most ${data.maxSessionTimeout} idle minutes.`
+          : "Users' own session timeouts now apply without a maximum.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the session policy.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsedTimeout = maxTimeout ? parseInt(maxTimeout) : null;
+  const isValid = parsedTimeout === null || (parsedTimeout >= 5 && parsedTimeout <= 1440);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Session Policy</CardTitle>
+        <CardDescription>
+          Organisation-wide limits applied to every account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center">
+          <Clock className="h-4 w-4 mr-2" />
+          <span className="text-sm font-medium">Maximum Idle Timeout</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Users are signed out after this many minutes without activity, even if their own
+          setting is longer. Leave empty for no maximum.
+        </p>
+        <div className="flex items-center gap-2 pt-1">
+          <Input
+            type="number"
+            min={5}
+            max={1440}
+            placeholder="No maximum"
+            value={maxTimeout}
+            onChange={(e) => setMaxTimeout(e.target.value)}
+          />
+          <span className="text-sm text-muted-foreground">minutes</span>
+        </div>
+        {!isValid && (
+          <p className="text-sm font-medium text-destructive">
+            Enter a value between 5 and 1440 minutes
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        <Button
+          onClick={() => updatePolicyMutation.mutate({ maxSessionTimeout: parsedTimeout })}
+          disabled={!isValid || updatePolicyMutation.isPending}
+        >
+          {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
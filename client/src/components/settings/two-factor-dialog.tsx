@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Copy, Smartphone } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+interface TwoFactorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mode: "enable" | "disable";
+}
+
+export function TwoFactorDialog({ isOpen, onClose, mode }: TwoFactorDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+
+  // Request a fresh secret each time the enrolment dialog opens
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/users/${user?.id}/two-factor/setup`);
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not start two-factor setup",
+        description: error.message,
+        variant: "destructive",
+      });
+      onClose();
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (verificationCode: string) => {
+      const res = await apiRequest("POST", `/api/users/${user?.id}/two-factor/${mode}`, {
+        code: verificationCode,
+      });
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      toast({
+        title: mode === "enable" ? "Two-factor authentication enabled" : "Two-factor authentication disabled",
+        description: mode === "enable"
+          ? "You'll be asked for a code from your authenticator app when you sign in."
+          : "You'll only need your password to sign in.",
+      });
+
+      const currentUser = queryClient.getQueryData<any>(['/api/user']);
+      if (currentUser && response.security) {
+        queryClient.setQueryData(['/api/user'], {
+          ...currentUser,
+          settings: {
+            ...currentUser.settings,
+            security: response.security
+          }
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode("");
+    setSetup(null);
+    if (mode === "enable") {
+      setupMutation.mutate();
+    }
+  }, [isOpen, mode]);
+
+  const copySecret = () => {
+    if (!setup) return;
+    navigator.clipboard.writeText(setup.secret);
+    toast({
+      title: "Copied",
+      description: "Setup key copied to clipboard",
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            {mode === "enable" ? "Set Up Authenticator App" : "Disable Two-Factor Authentication"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "enable"
+              ? "Add MediVault to an authenticator app, then enter the 6-digit code it shows."
+              : "Enter a code from your authenticator app to confirm."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === "enable" && (
+          <div className="space-y-3">
+            {setupMutation.isPending || !setup ? (
+              <Skeleton className="h-20 w-full" />
+            ) : (
+              <div className="rounded-md bg-muted p-4 space-y-2">
+                <p className="text-xs text-muted-foreground">Setup key</p>
+                <div className="flex items-center justify-between gap-2">
+                  <code className="font-mono text-sm break-all">
+                    {setup.secret.match(/.{1,4}/g)?.join(" ")}
+                  </code>
+                  <Button type="button" variant="ghost" size="sm" onClick={copySecret}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <a href={setup.otpauthUri} className="text-xs text-primary underline">
+                  Open in authenticator app
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-center py-2">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            disabled={confirmMutation.isPending || (mode === "enable" && !setup)}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }).map((_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={mode === "disable" ? "destructive" : "default"}
+            disabled={confirmMutation.isPending || code.length !== 6}
+            onClick={() => confirmMutation.mutate(code)}
+          >
+            {confirmMutation.isPending
+              ? "Verifying..."
+              : mode === "enable" ? "Verify and Enable" : "Disable"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { DelegationScope, PatientDelegation, UserRole } from "@shared/schema";
+
+type DelegationParty = {
+  id: number;
+  username: string;
+  fullName?: string;
+};
+
+// A delegation as returned by the API, with both parties' names
+export type DelegationWithParties = PatientDelegation & {
+  active: boolean;
+  patient: DelegationParty | null;
+  delegate: DelegationParty | null;
+};
+
+export type DelegationOverview = {
+  granted: DelegationWithParties[];  // people the user has let act for them
+  received: DelegationWithParties[]; // patients the user can act for
+};
+
+type ActingPatientContextType = {
+  // Whose records, doctors and access requests the patient pages show
+  patientId: number | undefined;
+  // The delegation in use while acting for someone else, null when acting as yourself
+  actingFor: DelegationWithParties | null;
+  // Whether the pages may make changes (always true for your own records)
+  canManage: boolean;
+  delegations: DelegationOverview | undefined;
+  actFor: (patientId: number | null) => void;
+};
+
+const STORAGE_KEY = "actingPatientId";
+
+export const ActingPatientContext = createContext<ActingPatientContextType | null>(null);
+
+// Lets caregivers and guardians switch the patient pages over to a patient who
+// has delegated to them. The server checks the delegation on every request.
+export function ActingPatientProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+  const isPatient = user?.role === UserRole.PATIENT;
+  const [selectedId, setSelectedId] = useState<number | null>(() => {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? Number(stored) : null;
+  });
+
+  const { data: delegations } = useQuery<DelegationOverview>({
+    queryKey: ["/api/delegations"],
+    enabled: isPatient,
+  });
+
+  // Signing out (or in as someone else) goes back to acting as yourself
+  useEffect(() => {
+    if (!isLoading && !user) setSelectedId(null);
+  }, [user, isLoading]);
+
+  useEffect(() => {
+    if (selectedId) {
+      sessionStorage.setItem(STORAGE_KEY, String(selectedId));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }, [selectedId]);
+
+  // Drop back to your own records if the delegation has ended
+  const actingFor = (isPatient && selectedId
+    ? delegations?.received.find(delegation => delegation.patientId === selectedId)
+    : undefined) ?? null;
+
+  return (
+    <ActingPatientContext.Provider
+      value={{
+        patientId: actingFor ? actingFor.patientId : user?.id,
+        actingFor,
+        canManage: !actingFor || actingFor.scope === DelegationScope.MANAGE,
+        delegations,
+        actFor: (patientId) => setSelectedId(patientId === user?.id ? null : patientId),
+      }}
+    >
+      {children}
+    </ActingPatientContext.Provider>
+  );
+}
+
+export function useActingPatient() {
+  const context = useContext(ActingPatientContext);
+  if (!context) {
+    throw new Error("useActingPatient must be used within an ActingPatientProvider");
+  }
+  return context;
+}
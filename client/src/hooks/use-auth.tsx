@@ -20,13 +20,21 @@ export type User = {
   email?: string;
   specialty?: string | null;
   phone?: string | null;
+  // Set when the password policy's maximum age has passed
+  passwordExpired?: boolean;
+  // Doctors only: null until credentials have been submitted for review
+  doctorVerificationStatus?: string | null;
 };
 
+// A correct password for a two-factor account returns a challenge instead of the user
+export type LoginResult = User | { twoFactorRequired: true };
+
 type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<User, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<User, Error, RegisterData>;
 };
@@ -36,6 +44,12 @@ type LoginData = {
   password: string;
 };
 
+// Either an authenticator code or one of the user's recovery codes
+type TwoFactorData = {
+  code?: string;
+  recoveryCode?: string;
+};
+
 // Extend the insert schema with validation rules
 const registerSchemaExtended = insertUserSchema
   .pick({
@@ -48,6 +62,9 @@ const registerSchemaExtended = insertUserSchema
   })
   .extend({
     confirmPassword: z.string(),
+    // Doctors register with the licence an admin will verify
+    licenseNumber: z.string().optional(),
+    issuingAuthority: z.string().optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -74,6 +91,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      // The auth page asks for the code; the user isn't logged in yet
+      if ("twoFactorRequired" in result) return;
+      
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.fullName}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", data);
+      return await res.json();
+    },
     onSuccess: (user: User) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -83,7 +124,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -94,14 +135,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     mutationFn: async (data: RegisterData) => {
       // Extract confirmPassword before sending to API
       const { confirmPassword, ...userData } = data;
-      const res = await apiRequest("POST", "/api/register", userData);
+      const res = await apiRequest(
+        "POST",
+        data.role === UserRole.DOCTOR ? "/api/register/doctor" : "/api/register",
+        userData
+      );
       return await res.json();
     },
     onSuccess: (user: User) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Registration successful",
-        description: `Welcome to MediVault, ${user.fullName}`,
+        description: user.role === UserRole.DOCTOR
+          ? "Upload your licence documents so an administrator can verify your credentials"
+          : `Welcome to MediVault, ${user.fullName}`,
       });
     },
     onError: (error: Error) => {
@@ -140,6 +187,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Notification } from "@shared/schema";
+
+export type NotificationList = {
+  notifications: Notification[];
+  unreadCount: number;
+};
+
+const NOTIFICATIONS_KEY = ["/api/notifications"];
+
+// The signed-in user's latest notifications and unread count. New ones are
+// pushed over the realtime socket, which refetches this query.
+export function useNotifications() {
+  const { user } = useAuth();
+
+  const query = useQuery<NotificationList>({
+    queryKey: NOTIFICATIONS_KEY,
+    enabled: !!user,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("PATCH", `/api/notifications/${id}/read`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/read-all");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+
+  return {
+    notifications: query.data?.notifications ?? [],
+    unreadCount: query.data?.unreadCount ?? 0,
+    isLoading: query.isLoading,
+    markRead: markReadMutation.mutate,
+    markAllRead: markAllReadMutation.mutate,
+    isMarkingAllRead: markAllReadMutation.isPending,
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { Organization } from "@shared/schema";
+
+export type OrganizationWithCount = Organization & {
+  memberCount: number;
+};
+
+// The organisations the user belongs to, or every organisation for super admins
+export function useOrganizations() {
+  return useQuery<OrganizationWithCount[]>({
+    queryKey: ["/api/organizations"],
+  });
+}
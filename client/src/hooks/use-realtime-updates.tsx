@@ -0,0 +1,108 @@
+import { useEffect } from "react";
+import { Query } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { RealtimeEvent, REALTIME_PATH } from "@shared/schema";
+
+// Matches the server's close code for a session that has been ended
+const SESSION_ENDED = 4001;
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+function keyStartsWith(...prefixes: string[]) {
+  return (query: Query) => prefixes.some(prefix => String(query.queryKey[0]).startsWith(prefix));
+}
+
+const isAccessRequestQuery = keyStartsWith("/api/access-requests", "/api/patients", "patients");
+const isRecordQuery = (query: Query) => {
+  const key = String(query.queryKey[0]);
+  return key.startsWith("/api/records") || (key.startsWith("/api/patients/") && key.endsWith("/records"));
+};
+
+function refetchFor(event: RealtimeEvent) {
+  switch (event.type) {
+    case "access_request.created":
+    case "access_request.updated":
+      queryClient.invalidateQueries({ predicate: isAccessRequestQuery });
+      break;
+    case "record.created":
+      queryClient.invalidateQueries({ predicate: isRecordQuery });
+      break;
+    case "notification.created":
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      break;
+    case "sessions.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      break;
+    case "session.revoked":
+      // The server now answers 401, which signs the browser out
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      break;
+  }
+}
+
+// Anything could have changed while the socket was down
+function refetchAll() {
+  queryClient.invalidateQueries({ predicate: query => isAccessRequestQuery(query) || isRecordQuery(query) });
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+}
+
+// Keeps a WebSocket open while signed in and refetches the queries an event
+// touches, so open pages pick up other people's changes without a reload.
+// Reconnects with backoff, except after the server has ended the session.
+export function useRealtimeUpdates() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryMs = MIN_RETRY_MS;
+    let reconnecting = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+      socket = new WebSocket(`${protocol}://${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        retryMs = MIN_RETRY_MS;
+        if (reconnecting) refetchAll();
+      };
+      socket.onmessage = (message) => {
+        try {
+          refetchFor(JSON.parse(message.data) as RealtimeEvent);
+        } catch {
+          // Ignore anything that isn't an event
+        }
+      };
+      socket.onclose = (event) => {
+        if (stopped) return;
+        if (event.code === SESSION_ENDED) {
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+          return;
+        }
+        reconnecting = true;
+        retryTimer = setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [userId]);
+}
+
+// Mounted once inside AuthProvider
+export function RealtimeUpdates() {
+  useRealtimeUpdates();
+  return null;
+}
@@ -1,13 +1,44 @@
-import { useAuth } from "@/hooks/use-auth";
-import { UserRole } from "@shared/schema";
+import { useAuth, User } from "@/hooks/use-auth";
+import { UserRole, DoctorVerificationStatus, PermissionType, roleHasPermission } from "@shared/schema";
 
 export function useRole() {
   const { user } = useAuth();
 
   return {
-    isAdmin: user?.role === UserRole.ADMIN,
+    // Super admins can do everything an organisation admin can, in every organisation
+    isAdmin: user?.role === UserRole.ADMIN || user?.role === UserRole.SUPER_ADMIN,
+    isSuperAdmin: user?.role === UserRole.SUPER_ADMIN,
     isDoctor: user?.role === UserRole.DOCTOR,
+    isNurse: user?.role === UserRole.NURSE,
+    isReceptionist: user?.role === UserRole.RECEPTIONIST,
+    isAuditor: user?.role === UserRole.AUDITOR,
     isPatient: user?.role === UserRole.PATIENT,
-    role: user?.role || null
+    role: user?.role || null,
+    // Mirrors the server's permission checks so pages only offer what will be allowed
+    can: (permission: PermissionType) => roleHasPermission(user?.role, permission)
   };
 }
+
+// Where each role lands after signing in
+export function getHomePath(user: User): string {
+  switch (user.role) {
+    case UserRole.PATIENT:
+      return "/patient/records";
+    case UserRole.DOCTOR:
+      // Doctors can't see patients until their credentials are verified
+      return user.doctorVerificationStatus === DoctorVerificationStatus.VERIFIED
+        ? "/doctor/patients"
+        : "/doctor/verification";
+    case UserRole.NURSE:
+      return "/doctor/patients";
+    case UserRole.RECEPTIONIST:
+      return "/front-desk/patients";
+    case UserRole.AUDITOR:
+      return "/admin/system-logs";
+    case UserRole.ADMIN:
+    case UserRole.SUPER_ADMIN:
+      return "/admin/user-management";
+    default:
+      return "/settings";
+  }
+}
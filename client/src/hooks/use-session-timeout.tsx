@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+type SessionStatus = {
+  timeoutMinutes: number;
+  expiresAt: string;
+};
+
+// Show the warning this long before the server would end the session
+const WARNING_SECONDS = 120;
+// Re-check the server's view of the session this often
+const STATUS_POLL_MS = 60 * 1000;
+// Send at most one keepalive per minute while the user is interacting
+const KEEPALIVE_THROTTLE_MS = 60 * 1000;
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "scroll"] as const;
+
+// Tracks the server-side idle timeout: user interaction keeps the session alive,
+// and a warning countdown is exposed before the server logs the user out
+export function useSessionTimeout() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+  const lastKeepalive = useRef(0);
+
+  // Not cached once unused, so a previous login's expiry is never reused.
+  // A 401 (null) means the server has already ended the session.
+  const { data: status } = useQuery<SessionStatus | null>({
+    queryKey: ["/api/session/status"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!user,
+    refetchInterval: STATUS_POLL_MS,
+    gcTime: 0,
+  });
+
+  const secondsLeft = status === null
+    ? 0
+    : status
+      ? Math.max(0, Math.floor((new Date(status.expiresAt).getTime() - now) / 1000))
+      : null;
+  const showWarning = secondsLeft !== null && secondsLeft <= WARNING_SECONDS;
+
+  const staySignedIn = useCallback(async () => {
+    lastKeepalive.current = Date.now();
+    try {
+      const res = await apiRequest("POST", "/api/session/keepalive");
+      queryClient.setQueryData(["/api/session/status"], await res.json());
+    } catch {
+      // The session already ended; reloading the user signs them out
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    }
+  }, []);
+
+  // Tick once a second for the countdown
+  useEffect(() => {
+    if (!user) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [user]);
+
+  // Interaction counts as activity, except while the warning is showing so the
+  // user has to confirm explicitly
+  useEffect(() => {
+    if (!user || showWarning) return;
+
+    const onActivity = () => {
+      if (Date.now() - lastKeepalive.current > KEEPALIVE_THROTTLE_MS) {
+        staySignedIn();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+    };
+  }, [user, showWarning, staySignedIn]);
+
+  // The server has ended the session by now; drop the user locally too
+  useEffect(() => {
+    if (user && secondsLeft === 0) {
+      queryClient.setQueryData(["/api/user"], null);
+      toast({
+        title: "Signed out",
+        description: "Your session expired due to inactivity",
+      });
+    }
+  }, [user, secondsLeft, toast]);
+
+  return { secondsLeft, showWarning, staySignedIn };
+}
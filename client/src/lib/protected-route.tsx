@@ -1,14 +1,17 @@
 import { useAuth } from "@/hooks/use-auth";
+import { getHomePath } from "@/hooks/use-role";
 import { Loader2 } from "lucide-react";
 import { Redirect } from "wouter";
-import { UserRole } from "@shared/schema";
+import { UserRole, PermissionType, roleHasPermission } from "@shared/schema";
 
 export function ProtectedRoute({
   component: Component,
   requiredRole,
+  requiredPermission,
 }: {
   component: React.ComponentType;
   requiredRole?: string;
+  requiredPermission?: PermissionType;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -24,16 +27,12 @@ export function ProtectedRoute({
     return <Redirect to="/auth" />;
   }
 
-  // Check role if required
-  if (requiredRole && user.role !== requiredRole && user.role !== UserRole.ADMIN) {
-    // Redirect based on user role
-    if (user.role === UserRole.PATIENT) {
-      return <Redirect to="/patient/records" />;
-    } else if (user.role === UserRole.DOCTOR) {
-      return <Redirect to="/doctor/patients" />;
-    } else if (user.role === UserRole.ADMIN) {
-      return <Redirect to="/admin/user-management" />;
-    }
+  // Check role or permission if required, sending the user to their own home page otherwise
+  if (
+    (requiredRole && user.role !== requiredRole && user.role !== UserRole.ADMIN && user.role !== UserRole.SUPER_ADMIN) ||
+    (requiredPermission && !roleHasPermission(user.role, requiredPermission))
+  ) {
+    return <Redirect to={getHomePath(user)} />;
   }
 
   return <Component />;
@@ -23,6 +23,21 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart variant of apiRequest; the browser sets the boundary header itself
+export async function apiUpload(
+  url: string,
+  formData: FormData,
+): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { AccessScope } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -21,6 +22,25 @@ export function truncateText(text: string, maxLength: number): string {
   return `${text.slice(0, maxLength)}...`;
 }
 
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatAccessScope(scope: AccessScope | null | undefined): string {
+  if (!scope) return "Not set";
+  const parts: string[] = [];
+  if (scope.recordTypes?.length) parts.push(scope.recordTypes.join(", "));
+  if (scope.dateFrom || scope.dateTo) {
+    parts.push(`${scope.dateFrom ? formatDate(scope.dateFrom) : "…"} – ${scope.dateTo ? formatDate(scope.dateTo) : "…"}`);
+  }
+  if (scope.recordIds?.length) {
+    parts.push(`${scope.recordIds.length} selected record${scope.recordIds.length === 1 ? "" : "s"}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : "Not set";
+}
+
 export const recordTypes = [
   "General Checkup",
   "Lab Results",
@@ -54,8 +74,11 @@ export function getStatusBadgeColor(status: string) {
     case "pending":
       return "bg-warning/10 border-warning/20 text-warning";
     case "denied":
+    case "revoked":
       return "bg-destructive/10 border-destructive/20 text-destructive";
     case "expired":
+    case "cancelled":
+    case "superseded":
       return "bg-muted/30 border-muted/30 text-muted-foreground";
     default:
       return "bg-info/10 border-info/20 text-info";
@@ -67,8 +90,13 @@ export function getRoleBadgeColor(role: string) {
     case "patient":
       return "bg-info/10 border-info/20 text-info";
     case "doctor":
+    case "nurse":
       return "bg-success/10 border-success/20 text-success";
+    case "receptionist":
+      return "bg-warning/10 border-warning/20 text-warning";
+    case "auditor":
     case "admin":
+    case "super_admin":
       return "bg-primary/10 border-primary/20 text-primary";
     default:
       return "bg-muted/30 border-muted/30 text-muted-foreground";
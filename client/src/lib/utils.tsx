@@ -69,6 +69,7 @@ export function getRoleBadgeColor(role: string) {
     case "doctor":
       return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
     case "admin":
+    case "super_admin":
       return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200";
     default:
       return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300";
@@ -1,8 +1,9 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { useToast } from "@/hooks/use-toast";
-import { AccessRequest } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AccessRequest, EmergencyAccessGrant, EmergencyReviewStatus } from "@shared/schema";
 import { 
   Key,
   Search,
@@ -21,7 +22,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatDate, getStatusBadgeColor } from "@/lib/utils";
+import { formatDate, getStatusBadgeColor, formatAccessScope, accessDurations } from "@/lib/utils";
 import {
   Table,
   TableBody,
@@ -43,6 +44,15 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Pagination,
   PaginationContent,
@@ -55,19 +65,55 @@ import {
 
 // Extended type for access requests with doctor and patient info
 type ExtendedAccessRequest = AccessRequest & {
+  effectiveStatus: string;
   doctor?: {
     id: number;
     fullName: string;
     specialty?: string;
     email: string;
-  };
+  } | null;
   patient?: {
     id: number;
     fullName: string;
     email: string;
+  } | null;
+};
+
+// One page of the admin-wide access request listing
+type AccessRequestPage = {
+  requests: ExtendedAccessRequest[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  counts: {
+    pending: number;
+    active: number;
+    denied: number;
+    revoked: number;
+    expired: number;
+    cancelled: number;
+    superseded: number;
   };
 };
 
+type AdminAction = "revoke" | "extend" | "deny";
+
+// Break-glass grant with doctor and patient info
+type ExtendedEmergencyAccessGrant = EmergencyAccessGrant & {
+  doctor?: {
+    id: number;
+    fullName: string;
+    specialty?: string;
+  } | null;
+  patient?: {
+    id: number;
+    fullName: string;
+  } | null;
+};
+
+type EmergencyReviewDecision = typeof EmergencyReviewStatus.SIGNED_OFF | typeof EmergencyReviewStatus.ESCALATED;
+
 export default function AdminAccessControl() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
@@ -75,78 +121,136 @@ export default function AdminAccessControl() {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
-  // Fetch all access requests
-  const { data: accessRequests, isLoading } = useQuery<ExtendedAccessRequest[]>({
-    queryKey: ['/api/access-requests'],
+  // Fetch one page of access requests; filtering and pagination happen server-side
+  const params = new URLSearchParams({
+    page: String(currentPage),
+    pageSize: String(itemsPerPage),
+    status: statusFilter,
+  });
+  if (searchTerm.trim()) params.set("search", searchTerm.trim());
+  const { data: accessRequestPage, isLoading } = useQuery<AccessRequestPage>({
+    queryKey: [`/api/access-requests?${params.toString()}`],
   });
 
-  // Calculate stats
-  const pendingCount = accessRequests?.filter(req => req.status === "pending").length || 0;
-  const approvedCount = accessRequests?.filter(req => req.status === "approved").length || 0;
-  const deniedCount = accessRequests?.filter(req => req.status === "denied").length || 0;
-  const expiredCount = accessRequests?.filter(req => 
-    req.status === "approved" && req.expiryDate && new Date(req.expiryDate) < new Date()
-  ).length || 0;
-
-  // Handle access override (for emergency situations)
-  const handleOverrideAccess = (requestId: number) => {
-    toast({
-      title: "Access override initiated",
-      description: "Emergency access override has been logged and will be reviewed"
-    });
-  };
+  // Stats cover every request in the system, not just the current page
+  const pendingCount = accessRequestPage?.counts.pending || 0;
+  const activeCount = accessRequestPage?.counts.active || 0;
+  const deniedCount = accessRequestPage?.counts.denied || 0;
+  const expiredCount = accessRequestPage?.counts.expired || 0;
+
+  // Admin action dialog
+  const [actionTarget, setActionTarget] = useState<{
+    request: ExtendedAccessRequest;
+    action: AdminAction;
+  } | null>(null);
+  const [actionReason, setActionReason] = useState("");
+  const [extendDays, setExtendDays] = useState(accessDurations[0].value);
 
-  // Handle updating request status
-  const handleUpdateStatus = (requestId: number, status: string) => {
-    toast({
-      title: `Request ${status}`,
-      description: `Access request has been ${status}`
-    });
+  const closeActionDialog = () => {
+    setActionTarget(null);
+    setActionReason("");
+    setExtendDays(accessDurations[0].value);
   };
 
-  // Filter requests based on search and status
-  const filteredRequests = accessRequests?.filter(request => {
-    // Search filter
-    const matchesSearch = !searchTerm || 
-      (request.doctor?.fullName?.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (request.patient?.fullName?.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      request.purpose.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    // Status filter
-    let matchesStatus = statusFilter === "all";
-    if (statusFilter === "pending") {
-      matchesStatus = request.status === "pending";
-    } else if (statusFilter === "approved") {
-      matchesStatus = request.status === "approved" && 
-        (!request.expiryDate || new Date(request.expiryDate) >= new Date());
-    } else if (statusFilter === "denied") {
-      matchesStatus = request.status === "denied";
-    } else if (statusFilter === "expired") {
-      matchesStatus = request.status === "approved" && 
-        request.expiryDate && new Date(request.expiryDate) < new Date();
-    }
-    
-    return matchesSearch && matchesStatus;
-  }) || [];
-
-  // Sort requests by date (newest first)
-  const sortedRequests = [...filteredRequests].sort((a, b) => 
-    new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()
-  );
+  const adminActionMutation = useMutation({
+    mutationFn: async ({ id, action, reason, days }: { id: number; action: AdminAction; reason: string; days?: number }) => {
+      const res = await apiRequest("POST", `/api/access-requests/${id}/admin-action`, {
+        action,
+        reason,
+        ...(action === "extend" ? { days } : {})
+      });
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.action === "revoke"
+          ? "Access revoked"
+          : variables.action === "deny"
+            ? "Request denied"
+            : "Access extended",
+        description: variables.action === "extend"
+          ? `Access has been extended by ${variables.days} days`
+          : "The access request has been updated"
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/access-requests')
+      });
+      closeActionDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Paginate requests
-  const totalPages = Math.ceil(sortedRequests.length / itemsPerPage);
-  const paginatedRequests = sortedRequests.slice(
-    (currentPage - 1) * itemsPerPage,
-    currentPage * itemsPerPage
-  );
+  // Break-glass review queue
+  const [emergencyStatusFilter, setEmergencyStatusFilter] = useState<string>(EmergencyReviewStatus.PENDING);
+  const [reviewTarget, setReviewTarget] = useState<{
+    grant: ExtendedEmergencyAccessGrant;
+    decision: EmergencyReviewDecision;
+  } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+
+  const emergencyQueryKey = emergencyStatusFilter === "all"
+    ? '/api/emergency-access'
+    : `/api/emergency-access?status=${emergencyStatusFilter}`;
+  const { data: emergencyGrants, isLoading: isLoadingEmergency } = useQuery<ExtendedEmergencyAccessGrant[]>({
+    queryKey: [emergencyQueryKey],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, notes }: { id: number; decision: EmergencyReviewDecision; notes: string }) => {
+      const res = await apiRequest("PATCH", `/api/emergency-access/${id}/review`, {
+        decision,
+        notes: notes || undefined
+      });
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.decision === EmergencyReviewStatus.ESCALATED ? "Emergency access escalated" : "Emergency access signed off",
+        description: variables.decision === EmergencyReviewStatus.ESCALATED
+          ? "The grant has been ended and flagged for follow-up"
+          : "The emergency access has been reviewed"
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/emergency-access')
+      });
+      setReviewTarget(null);
+      setReviewNotes("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Check if a request is expired
-  const isExpired = (request: ExtendedAccessRequest) => {
-    return request.status === "approved" && 
-      request.expiryDate && new Date(request.expiryDate) < new Date();
+  const isEmergencyGrantActive = (grant: EmergencyAccessGrant) =>
+    !grant.revokedAt && new Date(grant.expiresAt) > new Date();
+
+  // Requests arrive sorted newest first and already paginated
+  const paginatedRequests = accessRequestPage?.requests || [];
+  const totalPages = accessRequestPage?.totalPages || 0;
+
+  // Changing a filter starts again from the first page
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1);
+  };
+
+  const handleStatusFilterChange = (value: string) => {
+    setStatusFilter(value);
+    setCurrentPage(1);
   };
 
+  const formatStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
   return (
     <MainLayout>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
@@ -179,7 +283,7 @@ export default function AdminAccessControl() {
                 <ShieldCheck className="h-4 w-4" />
               </span>
             </div>
-            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-2">{approvedCount - expiredCount}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-2">{activeCount}</p>
             <p className="text-sm text-green-600 dark:text-green-400 flex items-center mt-2">
               <CheckCircle className="h-3 w-3 mr-1" />
               Currently approved
@@ -234,7 +338,7 @@ export default function AdminAccessControl() {
                   placeholder="Search by doctor, patient, or purpose..." 
                   className="pl-9"
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                 />
               </div>
             </div>
@@ -245,7 +349,7 @@ export default function AdminAccessControl() {
               </label>
               <Select 
                 value={statusFilter} 
-                onValueChange={setStatusFilter}
+                onValueChange={handleStatusFilterChange}
               >
                 <SelectTrigger className="w-full md:w-[200px]">
                   <SelectValue placeholder="Filter by status" />
@@ -256,6 +360,9 @@ export default function AdminAccessControl() {
                   <SelectItem value="approved">Approved (Active)</SelectItem>
                   <SelectItem value="denied">Denied</SelectItem>
                   <SelectItem value="expired">Expired</SelectItem>
+                  <SelectItem value="revoked">Revoked</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="superseded">Superseded</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -339,9 +446,9 @@ export default function AdminAccessControl() {
                     <TableCell>
                       <Badge 
                         variant="outline"
-                        className={getStatusBadgeColor(isExpired(request) ? "expired" : request.status)}
+                        className={getStatusBadgeColor(request.effectiveStatus)}
                       >
-                        {isExpired(request) ? "Expired" : request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                        {formatStatus(request.effectiveStatus)}
                       </Badge>
                       <div className="text-xs text-gray-500 mt-1">
                         {request.requestDate ? formatDate(request.requestDate) : "Unknown date"}
@@ -350,7 +457,7 @@ export default function AdminAccessControl() {
                     <TableCell className="hidden md:table-cell">
                       <span className="text-sm">{request.purpose}</span>
                       {request.limitedScope && (
-                        <div className="text-xs text-gray-500 mt-1">Limited scope: specialty only</div>
+                        <div className="text-xs text-gray-500 mt-1">Limited scope: {formatAccessScope(request.scope)}</div>
                       )}
                     </TableCell>
                     <TableCell className="hidden lg:table-cell">
@@ -363,40 +470,34 @@ export default function AdminAccessControl() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2">
-                        {request.status === "pending" && (
-                          <>
-                            <Button 
-                              variant="destructive" 
-                              size="sm"
-                              onClick={() => handleUpdateStatus(request.id, "denied")}
-                            >
-                              <XCircle className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              variant="default" 
-                              size="sm"
-                              onClick={() => handleUpdateStatus(request.id, "approved")}
-                            >
-                              <CheckCircle className="h-4 w-4" />
-                            </Button>
-                          </>
+                        {request.effectiveStatus === "pending" && (
+                          <Button 
+                            variant="destructive" 
+                            size="sm"
+                            onClick={() => setActionTarget({ request, action: "deny" })}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Deny
+                          </Button>
                         )}
-                        {request.status === "denied" && (
+                        {/* Lapsed grants can be renewed until they are marked expired */}
+                        {request.status === "approved" && (
                           <Button 
                             variant="outline" 
                             size="sm"
-                            onClick={() => handleUpdateStatus(request.id, "approved")}
+                            onClick={() => setActionTarget({ request, action: "extend" })}
                           >
-                            Override
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            {request.effectiveStatus === "expired" ? "Renew" : "Extend"}
                           </Button>
                         )}
-                        {request.status === "approved" && (
+                        {request.effectiveStatus === "approved" && (
                           <Button 
-                            variant={isExpired(request) ? "outline" : "destructive"}
+                            variant="destructive" 
                             size="sm"
-                            onClick={() => handleUpdateStatus(request.id, isExpired(request) ? "approved" : "denied")}
+                            onClick={() => setActionTarget({ request, action: "revoke" })}
                           >
-                            {isExpired(request) ? "Renew" : "Revoke"}
+                            Revoke
                           </Button>
                         )}
                       </div>
@@ -499,6 +600,258 @@ export default function AdminAccessControl() {
 
 
 
+      {/* Emergency Access Review Queue */}
+      <Card className="overflow-hidden mb-6">
+        <CardContent className="p-0">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 p-5">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+                <ShieldAlert className="h-5 w-5 mr-2 text-destructive" />
+                Emergency Access Review
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Every break-glass access must be signed off or escalated
+              </p>
+            </div>
+            <Select value={emergencyStatusFilter} onValueChange={setEmergencyStatusFilter}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Filter by review status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EmergencyReviewStatus.PENDING}>Pending Review</SelectItem>
+                <SelectItem value={EmergencyReviewStatus.ESCALATED}>Escalated</SelectItem>
+                <SelectItem value={EmergencyReviewStatus.SIGNED_OFF}>Signed Off</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Doctor</TableHead>
+                <TableHead>Patient</TableHead>
+                <TableHead className="hidden md:table-cell">Reason</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead className="text-right">Review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingEmergency ? (
+                <TableRow>
+                  <TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : emergencyGrants && emergencyGrants.length > 0 ? (
+                emergencyGrants.map((grant) => (
+                  <TableRow key={grant.id}>
+                    <TableCell>
+                      <div className="font-medium">{grant.doctor?.fullName || `Doctor #${grant.doctorId}`}</div>
+                      <div className="text-xs text-gray-500">{grant.doctor?.specialty || "Healthcare Provider"}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{grant.patient?.fullName || `Patient #${grant.patientId}`}</div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <span className="text-sm">{grant.reason}</span>
+                      {grant.reviewNotes && (
+                        <div className="text-xs text-gray-500 mt-1">Review: {grant.reviewNotes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge 
+                        variant="outline"
+                        className={getStatusBadgeColor(isEmergencyGrantActive(grant) ? "approved" : "expired")}
+                      >
+                        {isEmergencyGrantActive(grant) ? "Active" : "Ended"}
+                      </Badge>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {grant.grantedAt ? formatDate(grant.grantedAt) : "Unknown date"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {grant.reviewStatus === EmergencyReviewStatus.PENDING ? (
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => setReviewTarget({ grant, decision: EmergencyReviewStatus.ESCALATED })}
+                          >
+                            <AlertTriangle className="h-4 w-4 mr-1" />
+                            Escalate
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => setReviewTarget({ grant, decision: EmergencyReviewStatus.SIGNED_OFF })}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Sign Off
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className={getStatusBadgeColor(
+                          grant.reviewStatus === EmergencyReviewStatus.ESCALATED ? "denied" : "approved"
+                        )}>
+                          {grant.reviewStatus === EmergencyReviewStatus.ESCALATED ? "Escalated" : "Signed Off"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <p className="text-gray-500 dark:text-gray-400">No emergency access to review</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Admin Action Dialog */}
+      <Dialog 
+        open={!!actionTarget} 
+        onOpenChange={(open) => {
+          if (!open) closeActionDialog();
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {actionTarget?.action === "revoke"
+                ? "Revoke Access"
+                : actionTarget?.action === "deny"
+                  ? "Deny Access Request"
+                  : "Extend Access"}
+            </DialogTitle>
+            <DialogDescription>
+              {actionTarget?.action === "revoke"
+                ? "The doctor loses access to this patient's records immediately."
+                : actionTarget?.action === "deny"
+                  ? "The request is closed without granting access."
+                  : "The grant is extended from its current expiry date, or from today if it has lapsed."}
+              {" "}A reason is required and is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          {actionTarget && (
+            <div className="space-y-4">
+              <div className="text-sm bg-gray-50 dark:bg-gray-800 p-4 rounded-md">
+                <p>
+                  <span className="font-medium">{actionTarget.request.doctor?.fullName || `Doctor #${actionTarget.request.doctorId}`}</span>
+                  {" → "}
+                  <span className="font-medium">{actionTarget.request.patient?.fullName || `Patient #${actionTarget.request.patientId}`}</span>
+                </p>
+                <p className="mt-2 text-gray-600 dark:text-gray-300">{actionTarget.request.purpose}</p>
+                {actionTarget.request.expiryDate && (
+                  <p className="mt-1 text-xs text-gray-500">Expires: {formatDate(actionTarget.request.expiryDate)}</p>
+                )}
+              </div>
+              {actionTarget.action === "extend" && (
+                <Select 
+                  value={String(extendDays)} 
+                  onValueChange={(value) => setExtendDays(Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Extend by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accessDurations.map((duration) => (
+                      <SelectItem key={duration.value} value={String(duration.value)}>
+                        {duration.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Textarea
+                placeholder="Reason..."
+                className="resize-none"
+                value={actionReason}
+                onChange={(e) => setActionReason(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeActionDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={actionTarget?.action === "extend" ? "default" : "destructive"}
+              disabled={adminActionMutation.isPending || !actionReason.trim()}
+              onClick={() => actionTarget && adminActionMutation.mutate({
+                id: actionTarget.request.id,
+                action: actionTarget.action,
+                reason: actionReason.trim(),
+                days: extendDays
+              })}
+            >
+              {adminActionMutation.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Emergency Access Review Dialog */}
+      <Dialog 
+        open={!!reviewTarget} 
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewTarget(null);
+            setReviewNotes("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.decision === EmergencyReviewStatus.ESCALATED ? "Escalate Emergency Access" : "Sign Off Emergency Access"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.decision === EmergencyReviewStatus.ESCALATED
+                ? "Escalating ends the grant immediately and flags it for follow-up. Notes are required."
+                : "Confirm that this emergency access was justified."}
+            </DialogDescription>
+          </DialogHeader>
+          {reviewTarget && (
+            <div className="space-y-4">
+              <div className="text-sm bg-gray-50 dark:bg-gray-800 p-4 rounded-md">
+                <p>
+                  <span className="font-medium">{reviewTarget.grant.doctor?.fullName || `Doctor #${reviewTarget.grant.doctorId}`}</span>
+                  {" → "}
+                  <span className="font-medium">{reviewTarget.grant.patient?.fullName || `Patient #${reviewTarget.grant.patientId}`}</span>
+                </p>
+                <p className="mt-2 text-gray-600 dark:text-gray-300">{reviewTarget.grant.reason}</p>
+              </div>
+              <Textarea
+                placeholder="Review notes..."
+                className="resize-none"
+                value={reviewNotes}
+                onChange={(e) => setReviewNotes(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewTarget?.decision === EmergencyReviewStatus.ESCALATED ? "destructive" : "default"}
+              disabled={
+                reviewMutation.isPending ||
+                (reviewTarget?.decision === EmergencyReviewStatus.ESCALATED && !reviewNotes.trim())
+              }
+              onClick={() => reviewTarget && reviewMutation.mutate({
+                id: reviewTarget.grant.id,
+                decision: reviewTarget.decision,
+                notes: reviewNotes.trim()
+              })}
+            >
+              {reviewMutation.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* HIPAA Compliance Notice */}
       <div className="p-5 bg-blue-50 dark:bg-blue-900/30 border-l-4 border-blue-500 rounded-md">
         <div className="flex">
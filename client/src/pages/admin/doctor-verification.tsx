@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { useToast } from "@/hooks/use-toast";
+import { DoctorProfile, DoctorVerificationDocument, DoctorVerificationStatus } from "@shared/schema";
+import {
+  Stethoscope,
+  CheckCircle,
+  XCircle,
+  FileText
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { getStatusBadgeColor, formatDate, formatFileSize } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+type VerificationDocument = Pick<DoctorVerificationDocument, "id" | "fileName" | "fileSize" | "mimeType" | "checksum" | "uploadedAt">;
+
+// Doctor credentials awaiting review, with the doctor's profile details and documents
+type DoctorApplication = DoctorProfile & {
+  username?: string;
+  fullName?: string;
+  email?: string;
+  specialty?: string | null;
+  documents: VerificationDocument[];
+};
+
+type DoctorApplicationDecision = "approve" | "reject";
+
+function DocumentLinks({ documents }: { documents: VerificationDocument[] }) {
+  if (documents.length === 0) {
+    return <span className="text-xs text-gray-500">No documents uploaded</span>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {documents.map(document => (
+        <li key={document.id}>
+          <a
+            href={`/api/doctor-verification/documents/${document.id}/download`}
+            className="inline-flex items-center text-sm text-primary hover:underline"
+          >
+            <FileText className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+            <span className="truncate max-w-[180px]">{document.fileName}</span>
+            <span className="ml-1 text-xs text-gray-500">({formatFileSize(document.fileSize)})</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function AdminDoctorVerification() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>(DoctorVerificationStatus.PENDING);
+  const [applicationReview, setApplicationReview] = useState<{
+    application: DoctorApplication;
+    decision: DoctorApplicationDecision;
+  } | null>(null);
+  const [applicationNotes, setApplicationNotes] = useState("");
+
+  const { data: doctorApplications, isLoading } = useQuery<DoctorApplication[]>({
+    queryKey: [`/api/admin/doctor-applications?status=${statusFilter}`],
+  });
+
+  // Mutation for approving or rejecting a doctor's credentials
+  const reviewApplicationMutation = useMutation({
+    mutationFn: async ({ userId, decision, notes }: { userId: number; decision: DoctorApplicationDecision; notes: string }) => {
+      const res = await apiRequest("POST", `/api/admin/doctor-applications/${userId}/review`, {
+        decision,
+        notes: notes || undefined
+      });
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.decision === "approve" ? "Doctor verified" : "Verification rejected",
+        description: variables.decision === "approve"
+          ? "The doctor can now find patients and request access"
+          : "The doctor has been notified"
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/doctor-applications')
+      });
+      setApplicationReview(null);
+      setApplicationNotes("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Doctor Verification</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Doctors can't find patients or request access until their licence is verified
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DoctorVerificationStatus.PENDING}>Pending</SelectItem>
+            <SelectItem value={DoctorVerificationStatus.VERIFIED}>Verified</SelectItem>
+            <SelectItem value={DoctorVerificationStatus.REJECTED}>Rejected</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Review Queue */}
+      <Card className="overflow-hidden mb-6">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Doctor</TableHead>
+                <TableHead>Licence</TableHead>
+                <TableHead className="hidden md:table-cell">Documents</TableHead>
+                <TableHead className="hidden md:table-cell">Submitted</TableHead>
+                <TableHead className="text-right">Decision</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : doctorApplications && doctorApplications.length > 0 ? (
+                doctorApplications.map((application) => (
+                  <TableRow key={application.id}>
+                    <TableCell>
+                      <div className="font-medium">{application.fullName || application.username || `User #${application.userId}`}</div>
+                      <div className="text-xs text-gray-500">
+                        {application.specialty || "Healthcare Provider"} · {application.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-mono text-sm">{application.licenseNumber}</span>
+                      <div className="text-xs text-gray-500">{application.issuingAuthority || "Issuing authority not given"}</div>
+                      {application.reviewNotes && (
+                        <div className="text-xs text-gray-500 mt-1">Review: {application.reviewNotes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <DocumentLinks documents={application.documents} />
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {application.submittedAt ? formatDate(application.submittedAt)
+                        : application.createdAt ? formatDate(application.createdAt)
+                        : "Unknown date"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {application.verificationStatus === DoctorVerificationStatus.PENDING ? (
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => setApplicationReview({ application, decision: "reject" })}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => setApplicationReview({ application, decision: "approve" })}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className={getStatusBadgeColor(
+                          application.verificationStatus === DoctorVerificationStatus.REJECTED ? "denied" : "approved"
+                        )}>
+                          {application.verificationStatus === DoctorVerificationStatus.REJECTED ? "Rejected" : "Verified"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Stethoscope className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500 dark:text-gray-400">No doctors to review</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={!!applicationReview} onOpenChange={(open) => !open && setApplicationReview(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {applicationReview?.decision === "reject" ? "Reject Doctor Credentials" : "Verify Doctor Credentials"}
+            </DialogTitle>
+            <DialogDescription>
+              {applicationReview?.decision === "reject"
+                ? "The doctor will be asked to correct their details or documents. Notes are required."
+                : "Confirm that you have checked this licence and its documents with the issuing authority."}
+            </DialogDescription>
+          </DialogHeader>
+          {applicationReview && (
+            <div className="space-y-4">
+              <div className="text-sm bg-gray-50 dark:bg-gray-800 p-4 rounded-md">
+                <p className="font-medium">{applicationReview.application.fullName || applicationReview.application.username}</p>
+                <p className="mt-2 text-gray-600 dark:text-gray-300">
+                  Licence {applicationReview.application.licenseNumber}
+                  {applicationReview.application.issuingAuthority ? ` · ${applicationReview.application.issuingAuthority}` : ""}
+                  {applicationReview.application.specialty ? ` · ${applicationReview.application.specialty}` : ""}
+                </p>
+                <div className="mt-3">
+                  <DocumentLinks documents={applicationReview.application.documents} />
+                </div>
+              </div>
+              <Textarea
+                placeholder="Review notes..."
+                className="resize-none"
+                value={applicationNotes}
+                onChange={(e) => setApplicationNotes(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplicationReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={applicationReview?.decision === "reject" ? "destructive" : "default"}
+              disabled={
+                reviewApplicationMutation.isPending ||
+                (applicationReview?.decision === "reject" && !applicationNotes.trim())
+              }
+              onClick={() => applicationReview && reviewApplicationMutation.mutate({
+                userId: applicationReview.application.userId,
+                decision: applicationReview.decision,
+                notes: applicationNotes.trim()
+              })}
+            >
+              {reviewApplicationMutation.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { useToast } from "@/hooks/use-toast";
+import { DelegationWithParties } from "@/hooks/use-acting-patient";
+import {
+  User,
+  UserRole,
+  DelegationScope,
+  DelegationScopeType,
+  delegationScopes,
+  delegationScopeLabels,
+  delegationRelationships,
+  isMinor,
+  ADULT_AGE_YEARS
+} from "@shared/schema";
+import { HeartHandshake, UserPlus, UserMinus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getStatusBadgeColor, formatDate } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+type GuardianForm = {
+  patientId: string;
+  delegateId: string;
+  relationship: string;
+  scope: DelegationScopeType;
+};
+
+const emptyGuardianForm: GuardianForm = {
+  patientId: "",
+  delegateId: "",
+  relationship: "parent",
+  scope: DelegationScope.MANAGE,
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const partyName = (party: DelegationWithParties["patient"]) =>
+  party?.fullName || party?.username || "Unknown user";
+
+// Caregivers and guardians of patients in the admin's organisations. Adults add
+// their own caregivers; admins add guardians for minors once guardianship has been checked.
+export default function AdminGuardians() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [guardianForm, setGuardianForm] = useState<GuardianForm>(emptyGuardianForm);
+
+  const { data: delegations, isLoading } = useQuery<DelegationWithParties[]>({
+    queryKey: ['/api/admin/delegations'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isAddDialogOpen,
+  });
+
+  const patients = users?.filter(user => user.role === UserRole.PATIENT) ?? [];
+  const minorPatients = patients.filter(patient => isMinor(patient.settings?.profile?.dateOfBirth));
+
+  const refreshDelegations = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/delegations'] });
+  };
+
+  const addGuardianMutation = useMutation({
+    mutationFn: async (form: GuardianForm) => {
+      const res = await apiRequest("POST", "/api/admin/delegations", {
+        patientId: Number(form.patientId),
+        delegateId: Number(form.delegateId),
+        relationship: form.relationship,
+        scope: form.scope,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Guardian added",
+        description: `Their access ends when the patient turns ${ADULT_AGE_YEARS}.`
+      });
+      setIsAddDialogOpen(false);
+      setGuardianForm(emptyGuardianForm);
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add guardian",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeScopeMutation = useMutation({
+    mutationFn: async ({ id, scope }: { id: number; scope: DelegationScopeType }) => {
+      const res = await apiRequest("PATCH", `/api/delegations/${id}`, { scope });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Access level updated" });
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (delegationId: number) => {
+      const res = await apiRequest("DELETE", `/api/delegations/${delegationId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Delegation ended" });
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredDelegations = delegations?.filter(delegation =>
+    partyName(delegation.patient).toLowerCase().includes(searchTerm.toLowerCase()) ||
+    partyName(delegation.delegate).toLowerCase().includes(searchTerm.toLowerCase())
+  ) || [];
+
+  const delegationStatus = (delegation: DelegationWithParties) =>
+    delegation.active ? "approved" : delegation.status === "revoked" ? "revoked" : "expired";
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Guardians & Caregivers</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Patients under {ADULT_AGE_YEARS} can't add caregivers themselves, so their guardians are added here
+          </p>
+        </div>
+        <Button onClick={() => setIsAddDialogOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Add Guardian
+        </Button>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search by patient or caregiver name..."
+            className="pl-9"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Card className="overflow-hidden">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Acting For Them</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead className="hidden md:table-cell">Until</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : filteredDelegations.length > 0 ? (
+                filteredDelegations.map(delegation => (
+                  <TableRow key={delegation.id}>
+                    <TableCell className="font-medium">{partyName(delegation.patient)}</TableCell>
+                    <TableCell>
+                      <div>{partyName(delegation.delegate)}</div>
+                      <div className="text-xs text-gray-500">
+                        {capitalize(delegation.relationship)}
+                        {delegation.grantedBy !== delegation.patientId ? " · added by an administrator" : ""}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {delegation.active ? (
+                        <Select
+                          value={delegation.scope}
+                          onValueChange={(scope) => changeScopeMutation.mutate({ id: delegation.id, scope: scope as DelegationScopeType })}
+                          disabled={changeScopeMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {delegationScopes.map(scope => (
+                              <SelectItem key={scope} value={scope}>{delegationScopeLabels[scope]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className={getStatusBadgeColor(delegationStatus(delegation))}>
+                          {delegation.status === "revoked" ? "Removed" : "Ended"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {delegation.revokedAt ? `Removed ${formatDate(delegation.revokedAt)}`
+                        : delegation.expiresAt ? formatDate(delegation.expiresAt)
+                        : "No end date"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {delegation.active && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={revokeMutation.isPending}
+                          onClick={() => revokeMutation.mutate(delegation.id)}
+                        >
+                          <UserMinus className="h-4 w-4 mr-1" />
+                          Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <HeartHandshake className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500 dark:text-gray-400">No caregivers or guardians</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Add Guardian Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Guardian</DialogTitle>
+            <DialogDescription>
+              Check proof of guardianship first. Only patients with a date of birth under {ADULT_AGE_YEARS} are
+              listed; the guardian needs their own patient account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select
+                value={guardianForm.patientId}
+                onValueChange={(patientId) => setGuardianForm({ ...guardianForm, patientId })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a minor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {minorPatients.map(patient => (
+                    <SelectItem key={patient.id} value={String(patient.id)}>
+                      {patient.fullName || patient.username} ({patient.settings?.profile?.dateOfBirth})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Guardian</Label>
+              <Select
+                value={guardianForm.delegateId}
+                onValueChange={(delegateId) => setGuardianForm({ ...guardianForm, delegateId })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the guardian's account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients
+                    .filter(patient => String(patient.id) !== guardianForm.patientId)
+                    .map(patient => (
+                      <SelectItem key={patient.id} value={String(patient.id)}>
+                        {patient.fullName || patient.username} ({patient.username})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Relationship</Label>
+                <Select
+                  value={guardianForm.relationship}
+                  onValueChange={(relationship) => setGuardianForm({ ...guardianForm, relationship })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {delegationRelationships.map(relationship => (
+                      <SelectItem key={relationship} value={relationship}>{capitalize(relationship)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Access</Label>
+                <Select
+                  value={guardianForm.scope}
+                  onValueChange={(scope) => setGuardianForm({ ...guardianForm, scope: scope as DelegationScopeType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {delegationScopes.map(scope => (
+                      <SelectItem key={scope} value={scope}>{delegationScopeLabels[scope]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={addGuardianMutation.isPending || !guardianForm.patientId || !guardianForm.delegateId}
+              onClick={() => addGuardianMutation.mutate(guardianForm)}
+            >
+              {addGuardianMutation.isPending ? "Adding..." : "Add Guardian"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
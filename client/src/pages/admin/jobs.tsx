@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { useToast } from "@/hooks/use-toast";
+import { JobRun, JobRunStatus, RetentionPolicy } from "@shared/schema";
+import { AlertTriangle, Archive, Clock, Play, RefreshCw, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+type JobStatus = {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: string | null;
+  consecutiveFailures: number;
+  running: boolean;
+};
+
+type JobRunPage = {
+  runs: JobRun[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+function formatTimestamp(timestamp: Date | string | null): string {
+  if (!timestamp) return "Never";
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return minutes === 24 * 60 ? "Daily" : `Every ${minutes / (24 * 60)} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? "Hourly" : `Every ${minutes / 60} hours`;
+  return `Every ${minutes} minutes`;
+}
+
+function getRunStatusBadgeColor(status: string | null) {
+  switch (status) {
+    case JobRunStatus.SUCCEEDED:
+      return "bg-success/10 border-success/20 text-success";
+    case JobRunStatus.FAILED:
+      return "bg-destructive/10 border-destructive/20 text-destructive";
+    case JobRunStatus.RUNNING:
+      return "bg-info/10 border-info/20 text-info";
+    default:
+      return "bg-muted/30 border-muted/30 text-muted-foreground";
+  }
+}
+
+const refreshJobs = () => {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/jobs')
+  });
+};
+
+// Background jobs that expire grants, send reminders and clear out old data:
+// when each last ran, what went wrong, and how long data is kept
+export default function AdminJobs() {
+  const { toast } = useToast();
+  const [jobFilter, setJobFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedRun, setSelectedRun] = useState<JobRun | null>(null);
+  const [policyForm, setPolicyForm] = useState({ auditLogDays: "", jobRunDays: "", expiredTokenDays: "" });
+
+  const { data: jobs, isLoading: isLoadingJobs } = useQuery<JobStatus[]>({
+    queryKey: ['/api/admin/jobs'],
+  });
+
+  const params = new URLSearchParams({ page: String(currentPage), status: statusFilter });
+  if (jobFilter !== "all") params.set("job", jobFilter);
+  const { data: runPage, isLoading: isLoadingRuns } = useQuery<JobRunPage>({
+    queryKey: [`/api/admin/jobs/runs?${params.toString()}`],
+  });
+
+  const { data: policy } = useQuery<RetentionPolicy>({
+    queryKey: ['/api/admin/retention-policy'],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setPolicyForm({
+        auditLogDays: policy.auditLogDays?.toString() ?? "",
+        jobRunDays: policy.jobRunDays.toString(),
+        expiredTokenDays: policy.expiredTokenDays.toString(),
+      });
+    }
+  }, [policy]);
+
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+      return await res.json();
+    },
+    onSuccess: (run: JobRun) => {
+      toast({
+        title: run.status === JobRunStatus.FAILED ? "Job failed" : "Job finished",
+        description: run.status === JobRunStatus.FAILED ? run.error ?? undefined : run.summary ?? undefined,
+        variant: run.status === JobRunStatus.FAILED ? "destructive" : "default",
+      });
+      refreshJobs();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't run job",
+        description: error.message,
+        variant: "destructive",
+      });
+      refreshJobs();
+    },
+  });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/admin/retention-policy", {
+        auditLogDays: policyForm.auditLogDays.trim() ? parseInt(policyForm.auditLogDays, 10) : null,
+        jobRunDays: parseInt(policyForm.jobRunDays, 10),
+        expiredTokenDays: parseInt(policyForm.expiredTokenDays, 10),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Retention policy saved" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/retention-policy'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save retention policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = runPage?.totalPages ?? 1;
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Background Jobs</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Scheduled work that expires grants, reminds doctors and clears out old data
+          </p>
+        </div>
+        <Button variant="outline" onClick={refreshJobs}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Jobs and their schedules */}
+      <Card className="mb-6 overflow-hidden">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead className="hidden md:table-cell">Runs</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead className="hidden md:table-cell">Next Run</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingJobs ? (
+                <TableRow>
+                  <TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : jobs?.map(job => (
+                <TableRow key={job.name}>
+                  <TableCell>
+                    <div className="font-medium font-mono text-sm">{job.name}</div>
+                    <div className="text-xs text-gray-500">{job.description}</div>
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell">{formatInterval(job.intervalMinutes)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {job.running ? (
+                        <Badge variant="outline" className={getRunStatusBadgeColor(JobRunStatus.RUNNING)}>running</Badge>
+                      ) : job.lastStatus && (
+                        <Badge variant="outline" className={getRunStatusBadgeColor(job.lastStatus)}>{job.lastStatus}</Badge>
+                      )}
+                      <span className="text-sm">{formatTimestamp(job.lastRunAt)}</span>
+                    </div>
+                    {job.consecutiveFailures > 1 && (
+                      <div className="flex items-center text-xs text-destructive mt-1">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Failed {job.consecutiveFailures} times in a row
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell text-sm">{formatTimestamp(job.nextRunAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={job.running || runJobMutation.isPending}
+                      onClick={() => runJobMutation.mutate(job.name)}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Run Now
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Run history */}
+      <Card className="mb-6 overflow-hidden">
+        <CardContent className="p-0">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="font-semibold">Run History</h2>
+            <div className="flex gap-2">
+              <Select value={jobFilter} onValueChange={(value) => { setJobFilter(value); setCurrentPage(1); }}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="All jobs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  {jobs?.map(job => (
+                    <SelectItem key={job.name} value={job.name}>{job.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="All runs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All runs</SelectItem>
+                  <SelectItem value={JobRunStatus.FAILED}>Failed</SelectItem>
+                  <SelectItem value={JobRunStatus.SUCCEEDED}>Succeeded</SelectItem>
+                  <SelectItem value={JobRunStatus.RUNNING}>Running</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="hidden md:table-cell">Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingRuns ? (
+                <TableRow>
+                  <TableCell colSpan={4}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : runPage && runPage.runs.length > 0 ? (
+                runPage.runs.map(run => (
+                  <TableRow
+                    key={run.id}
+                    className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                    onClick={() => setSelectedRun(run)}
+                  >
+                    <TableCell>
+                      <div className="font-mono text-sm">{run.jobName}</div>
+                      <div className="text-xs text-gray-500">{run.triggeredBy ? "Run by hand" : "Scheduled"}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getRunStatusBadgeColor(run.status)}>{run.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatTimestamp(run.startedAt)}</TableCell>
+                    <TableCell className="hidden md:table-cell text-sm text-gray-600 dark:text-gray-400 max-w-md truncate">
+                      {run.error || run.summary}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    <Clock className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500 dark:text-gray-400">No runs match these filters</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-800 px-6 py-3 text-sm">
+              <span className="text-gray-500">Page {currentPage} of {totalPages}</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={currentPage === 1} onClick={() => setCurrentPage(currentPage - 1)}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={currentPage === totalPages} onClick={() => setCurrentPage(currentPage + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Retention policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" /> Retention Policy
+          </CardTitle>
+          <CardDescription>
+            The apply_retention_policy job deletes data once it is older than this. Leave audit logs
+            empty to keep them indefinitely.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="audit-log-days">Audit logs (days)</Label>
+              <Input
+                id="audit-log-days"
+                type="number"
+                min={90}
+                placeholder="Keep indefinitely"
+                value={policyForm.auditLogDays}
+                onChange={(e) => setPolicyForm({ ...policyForm, auditLogDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-run-days">Job history (days)</Label>
+              <Input
+                id="job-run-days"
+                type="number"
+                min={7}
+                value={policyForm.jobRunDays}
+                onChange={(e) => setPolicyForm({ ...policyForm, jobRunDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="expired-token-days">Expired codes and tokens (days)</Label>
+              <Input
+                id="expired-token-days"
+                type="number"
+                min={1}
+                value={policyForm.expiredTokenDays}
+                onChange={(e) => setPolicyForm({ ...policyForm, expiredTokenDays: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button
+              disabled={updatePolicyMutation.isPending || !policyForm.jobRunDays || !policyForm.expiredTokenDays}
+              onClick={() => updatePolicyMutation.mutate()}
+            >
+              {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Run details */}
+      <Dialog open={!!selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" /> {selectedRun?.jobName} #{selectedRun?.id}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedRun?.triggeredBy ? `Run by hand by user #${selectedRun.triggeredBy}` : "Scheduled run"}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedRun && (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Started</p>
+                  <p className="font-medium">{formatTimestamp(selectedRun.startedAt)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Finished</p>
+                  <p className="font-medium">{selectedRun.finishedAt ? formatTimestamp(selectedRun.finishedAt) : "Still running"}</p>
+                </div>
+              </div>
+              {selectedRun.summary && (
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Summary</p>
+                  <p>{selectedRun.summary}</p>
+                </div>
+              )}
+              {selectedRun.error && (
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Error</p>
+                  <pre className="mt-1 whitespace-pre-wrap rounded-md bg-destructive/10 p-3 text-destructive text-xs">
+                    {selectedRun.error}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
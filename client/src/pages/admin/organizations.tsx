@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRole } from "@/hooks/use-role";
+import { useOrganizations } from "@/hooks/use-organizations";
+import { OrganizationMembership, Permission, UserRoleType, roleLabels } from "@shared/schema";
+import { Building2, Plus, UserPlus, UserMinus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getRoleBadgeColor, formatDate } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+type MemberWithUser = OrganizationMembership & {
+  user: {
+    id: number;
+    username: string;
+    fullName?: string;
+    email?: string;
+    role: string;
+  } | null;
+};
+
+// Organisations and who belongs to them. Staff only see patients and colleagues
+// who share an organisation with them; super admins create organisations and
+// can see into all of them.
+export default function AdminOrganizations() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = useRole();
+  const canCreate = can(Permission.ORG_MANAGE);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [organizationName, setOrganizationName] = useState("");
+  const [memberUsername, setMemberUsername] = useState("");
+
+  const { data: organizations, isLoading } = useOrganizations();
+  const selected = organizations?.find(organization => organization.id === selectedId) ?? organizations?.[0];
+
+  const { data: members, isLoading: isLoadingMembers } = useQuery<MemberWithUser[]>({
+    queryKey: [`/api/organizations/${selected?.id}/members`],
+    enabled: !!selected,
+  });
+
+  const refreshMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/organizations'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/organizations/${selected?.id}/members`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+  };
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/organizations", { name });
+      return await res.json();
+    },
+    onSuccess: (organization: { id: number; name: string }) => {
+      toast({ title: "Organisation created", description: organization.name });
+      setIsCreateDialogOpen(false);
+      setOrganizationName("");
+      setSelectedId(organization.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't create organisation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (username: string) => {
+      const res = await apiRequest("POST", `/api/organizations/${selected?.id}/members`, { username });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member added" });
+      setIsAddDialogOpen(false);
+      setMemberUsername("");
+      refreshMembers();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("DELETE", `/api/organizations/${selected?.id}/members/${userId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member removed" });
+      refreshMembers();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Organisations</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Staff can only find patients and colleagues in the organisations they belong to
+          </p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Organisation
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Organisation list */}
+        <div className="space-y-3">
+          {isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : organizations && organizations.length > 0 ? (
+            organizations.map(organization => (
+              <Card
+                key={organization.id}
+                className={`cursor-pointer transition-colors ${
+                  organization.id === selected?.id ? "border-primary" : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                }`}
+                onClick={() => setSelectedId(organization.id)}
+              >
+                <CardContent className="p-4 flex items-center">
+                  <Building2 className="h-5 w-5 text-primary mr-3 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{organization.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {organization.memberCount} {organization.memberCount === 1 ? "member" : "members"}
+                      {organization.createdAt ? ` · since ${formatDate(organization.createdAt)}` : ""}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <Building2 className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                <p className="text-gray-500 dark:text-gray-400">
+                  {canCreate ? "No organisations yet" : "You don't belong to an organisation yet. Ask a super admin to add you."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Members of the selected organisation */}
+        <Card className="lg:col-span-2 overflow-hidden">
+          <CardContent className="p-0">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="font-semibold">{selected ? selected.name : "Members"}</h2>
+              {selected && can(Permission.USER_MANAGE) && (
+                <Button size="sm" variant="outline" onClick={() => setIsAddDialogOpen(true)}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Add Member
+                </Button>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="hidden md:table-cell">Joined</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingMembers ? (
+                  <TableRow>
+                    <TableCell colSpan={4}><Skeleton className="h-8 w-full" /></TableCell>
+                  </TableRow>
+                ) : members && members.length > 0 ? (
+                  members.map(member => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">{member.user?.fullName || member.user?.username || `User #${member.userId}`}</div>
+                        <div className="text-xs text-gray-500">{member.user?.username} · {member.user?.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        {member.user && (
+                          <Badge variant="outline" className={getRoleBadgeColor(member.user.role)}>
+                            {roleLabels[member.user.role as UserRoleType] ?? member.user.role}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {member.createdAt ? formatDate(member.createdAt) : "Unknown date"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {can(Permission.USER_MANAGE) && (canCreate || member.userId !== user?.id) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={removeMemberMutation.isPending}
+                            onClick={() => removeMemberMutation.mutate(member.userId)}
+                          >
+                            <UserMinus className="h-4 w-4 mr-1" />
+                            Remove
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      <Users className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                      <p className="text-gray-500 dark:text-gray-400">No members</p>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* New Organisation Dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Organisation</DialogTitle>
+            <DialogDescription>
+              Create a clinic or practice, then add its admins and staff as members.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              placeholder="e.g. Riverside Medical Centre"
+              value={organizationName}
+              onChange={(e) => setOrganizationName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={createOrganizationMutation.isPending || organizationName.trim().length < 2}
+              onClick={() => createOrganizationMutation.mutate(organizationName.trim())}
+            >
+              {createOrganizationMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Member Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Member</DialogTitle>
+            <DialogDescription>
+              Add an existing account to {selected?.name}. People who already belong to
+              another organisation can only be added by a super admin.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="member-username">Username</Label>
+            <Input
+              id="member-username"
+              placeholder="Their username"
+              value={memberUsername}
+              onChange={(e) => setMemberUsername(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={addMemberMutation.isPending || !memberUsername.trim()}
+              onClick={() => addMemberMutation.mutate(memberUsername.trim())}
+            >
+              {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
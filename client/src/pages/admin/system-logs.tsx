@@ -64,13 +64,48 @@ const actionTypes = [
   { value: "all", label: "All Actions" },
   { value: "user_login", label: "User Login" },
   { value: "user_logout", label: "User Logout" },
+  { value: "login_failed", label: "Login Failed" },
+  { value: "password_reset_requested", label: "Password Reset Requested" },
+  { value: "password_reset_completed", label: "Password Reset Completed" },
+  { value: "password_changed", label: "Password Changed" },
   { value: "user_registered", label: "User Registration" },
+  { value: "patient_registered", label: "Patient Registered at Front Desk" },
+  { value: "doctor_application_submitted", label: "Doctor Application Submitted" },
+  { value: "doctor_application_rejected", label: "Doctor Application Rejected" },
+  { value: "doctor_verification_submitted", label: "Doctor Verification Submitted" },
+  { value: "verification_document_uploaded", label: "Verification Document Uploaded" },
+  { value: "verification_document_accessed", label: "Verification Document Accessed" },
+  { value: "role_granted", label: "Role Granted" },
   { value: "record_created", label: "Record Created" },
   { value: "record_accessed", label: "Record Accessed" },
   { value: "access_requested", label: "Access Requested" },
   { value: "access_approved", label: "Access Approved" },
   { value: "access_denied", label: "Access Denied" },
   { value: "access_revoked", label: "Access Revoked" },
+  { value: "access_cancelled", label: "Access Cancelled" },
+  { value: "access_extension_requested", label: "Extension Requested" },
+  { value: "access_extended", label: "Access Extended" },
+  { value: "delegation_granted", label: "Delegation Granted" },
+  { value: "delegation_updated", label: "Delegation Updated" },
+  { value: "delegation_revoked", label: "Delegation Revoked" },
+  { value: "organization_created", label: "Organisation Created" },
+  { value: "organization_member_added", label: "Organisation Member Added" },
+  { value: "organization_member_removed", label: "Organisation Member Removed" },
+  { value: "patient_search", label: "Patient Search" },
+  { value: "linking_code_created", label: "Linking Code Created" },
+  { value: "linking_code_revoked", label: "Linking Code Revoked" },
+  { value: "share_code_created", label: "Share Code Created" },
+  { value: "share_code_redeemed", label: "Share Code Redeemed" },
+  { value: "share_code_revoked", label: "Share Code Revoked" },
+  { value: "share_code_rejected", label: "Share Code Rejected" },
+  { value: "security_alert", label: "Security Alert" },
+  { value: "ip_blocked", label: "IP Blocked" },
+  { value: "session_expired", label: "Session Expired" },
+  { value: "session_revoked", label: "Session Revoked" },
+  { value: "sessions_force_ended", label: "Sessions Force Ended" },
+  { value: "two_factor_reset", label: "Two-Factor Reset" },
+  { value: "retention_policy_updated", label: "Retention Policy Updated" },
+  { value: "job_run_triggered", label: "Job Run Triggered" },
 ];
 
 // Get badge color based on action type
@@ -78,18 +113,50 @@ function getActionBadgeColor(action: string) {
   switch (action) {
     case "user_login":
     case "user_logout":
+    case "session_expired":
+    case "session_revoked":
+    case "sessions_force_ended":
+    case "retention_policy_updated":
+    case "job_run_triggered":
       return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
     case "user_registered":
+    case "patient_registered":
+    case "doctor_application_submitted":
+    case "doctor_verification_submitted":
+    case "verification_document_uploaded":
+    case "role_granted":
+    case "organization_created":
+    case "organization_member_added":
       return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
     case "record_created":
     case "record_accessed":
+    case "verification_document_accessed":
+    case "patient_search":
       return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200";
     case "access_requested":
+    case "access_extension_requested":
+    case "linking_code_created":
+    case "linking_code_revoked":
+    case "share_code_created":
+    case "access_cancelled":
       return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
     case "access_approved":
+    case "access_extended":
+    case "share_code_redeemed":
+    case "delegation_granted":
+    case "delegation_updated":
       return "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200";
     case "access_denied":
     case "access_revoked":
+    case "delegation_revoked":
+    case "organization_member_removed":
+    case "share_code_revoked":
+    case "share_code_rejected":
+    case "security_alert":
+    case "ip_blocked":
+    case "two_factor_reset":
+    case "login_failed":
+    case "doctor_application_rejected":
       return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
     default:
       return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300";
@@ -194,14 +261,31 @@ export default function AdminSystemLogs() {
       case "user_login":
       case "user_logout":
       case "user_registered":
+      case "patient_registered":
+      case "organization_member_added":
+      case "organization_member_removed":
         return <User className="h-4 w-4" />;
+      case "patient_search":
+        return <Search className="h-4 w-4" />;
       case "record_created":
       case "record_accessed":
         return <FileText className="h-4 w-4" />;
       case "access_requested":
+      case "access_extension_requested":
       case "access_approved":
       case "access_denied":
       case "access_revoked":
+      case "access_cancelled":
+      case "access_extended":
+      case "delegation_granted":
+      case "delegation_updated":
+      case "delegation_revoked":
+      case "linking_code_created":
+      case "linking_code_revoked":
+      case "share_code_created":
+      case "share_code_redeemed":
+      case "share_code_revoked":
+      case "share_code_rejected":
         return <Eye className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
@@ -432,6 +516,9 @@ export default function AdminSystemLogs() {
                     </TableCell>
                     <TableCell className="hidden md:table-cell">
                       <span className="text-sm">{log.details}</span>
+                      {log.onBehalfOfUserId && (
+                        <div className="text-xs text-gray-500">On behalf of patient #{log.onBehalfOfUserId}</div>
+                      )}
                     </TableCell>
                     <TableCell className="hidden lg:table-cell">
                       <span className="text-sm font-mono">{log.ipAddress}</span>
@@ -673,6 +760,13 @@ export default function AdminSystemLogs() {
                       {selectedLog?.details || 'No additional details available'}
                     </div>
                   </div>
+
+                  {selectedLog?.onBehalfOfUserId && (
+                    <div className="grid grid-cols-1 lg:grid-cols-4 text-sm mt-2">
+                      <span className="text-gray-500 lg:col-span-1">On Behalf Of:</span>
+                      <span className="lg:col-span-3">Patient #{selectedLog.onBehalfOfUserId}</span>
+                    </div>
+                  )}
                   
                   {selectedLog?.metadata && Object.keys(selectedLog.metadata).length > 0 && (
                     <div className="grid grid-cols-1 lg:grid-cols-4 text-sm mt-3">
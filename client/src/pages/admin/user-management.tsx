@@ -2,7 +2,9 @@ import React, { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { useToast } from "@/hooks/use-toast";
-import { User, UserRole } from "@shared/schema";
+import { useRole } from "@/hooks/use-role";
+import { useOrganizations } from "@/hooks/use-organizations";
+import { User, UserRole, UserRoleType, userRoles, roleLabels, Permission } from "@shared/schema";
 import { 
   PersonStanding,
   Download,
@@ -15,14 +17,19 @@ import {
   AlertTriangle,
   Save,
   X,
-  UserPlus
+  UserPlus,
+  MoreHorizontal,
+  Globe,
+  LogOut,
+  Unlock,
+  ShieldOff
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getRoleBadgeColor, formatDate } from "@/lib/utils";
+import { getRoleBadgeColor, getStatusBadgeColor, formatDate } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Table,
@@ -58,6 +65,13 @@ import {
   SelectTrigger,
   SelectValue
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Pagination,
   PaginationContent,
@@ -74,7 +88,10 @@ const editUserSchema = z.object({
   email: z.string().email("Please enter a valid email"),
   specialty: z.string().optional(),
   phone: z.string().optional(),
+  dateOfBirth: z.string().optional(),
   role: z.string(),
+  licenseNumber: z.string().optional(),
+  issuingAuthority: z.string().optional(),
 });
 
 // Define add user form schema
@@ -86,6 +103,9 @@ const addUserSchema = z.object({
   specialty: z.string().optional(),
   phone: z.string().optional(),
   role: z.string(),
+  licenseNumber: z.string().optional(),
+  issuingAuthority: z.string().optional(),
+  organizationId: z.string().optional(),
 });
 
 type EditUserFormValues = z.infer<typeof editUserSchema>;
@@ -93,6 +113,7 @@ type AddUserFormValues = z.infer<typeof addUserSchema>;
 
 export default function AdminUserManagement() {
   const { toast } = useToast();
+  const { can } = useRole();
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -105,6 +126,21 @@ export default function AdminUserManagement() {
     queryKey: ['/api/users'],
   });
 
+  // Accounts locked out after repeated failed sign-ins
+  const { data: lockouts } = useQuery<{ userId: number; failedAttempts: number; lockedUntil: string }[]>({
+    queryKey: ['/api/admin/account-lockouts'],
+  });
+  const lockedUntilByUser = new Map(lockouts?.map(lockout => [lockout.userId, lockout.lockedUntil]));
+
+  // New accounts join one of these; admins in a single organisation don't need to pick
+  const { data: organizations } = useOrganizations();
+  const showOrganizationPicker = (organizations?.length ?? 0) > 1 || can(Permission.ORG_MANAGE);
+
+  // Only super admins can appoint other super admins
+  const assignableRoles = can(Permission.ORG_MANAGE)
+    ? userRoles
+    : userRoles.filter(role => role !== UserRole.SUPER_ADMIN);
+
   // Setup form for editing user
   const editForm = useForm<EditUserFormValues>({
     resolver: zodResolver(editUserSchema),
@@ -113,7 +149,10 @@ export default function AdminUserManagement() {
       email: "",
       specialty: "",
       phone: "",
+      dateOfBirth: "",
       role: "",
+      licenseNumber: "",
+      issuingAuthority: "",
     },
   });
   
@@ -128,6 +167,9 @@ export default function AdminUserManagement() {
       specialty: "",
       phone: "",
       role: UserRole.PATIENT,
+      licenseNumber: "",
+      issuingAuthority: "",
+      organizationId: "",
     },
   });
 
@@ -139,7 +181,10 @@ export default function AdminUserManagement() {
         email: editingUser.email,
         specialty: editingUser.specialty || "",
         phone: editingUser.phone || "",
+        dateOfBirth: editingUser.settings?.profile?.dateOfBirth || "",
         role: editingUser.role,
+        licenseNumber: "",
+        issuingAuthority: "",
       });
     }
   }, [editingUser, editForm]);
@@ -147,8 +192,20 @@ export default function AdminUserManagement() {
   // Mutation for updating user
   const updateUserMutation = useMutation({
     mutationFn: async (data: EditUserFormValues & { id: number }) => {
-      const { id, ...userData } = data;
-      const res = await apiRequest("PATCH", `/api/users/${id}`, userData);
+      const { id, role, licenseNumber, issuingAuthority, dateOfBirth, ...userData } = data;
+      const res = await apiRequest("PATCH", `/api/users/${id}`, {
+        ...userData,
+        dateOfBirth: dateOfBirth || undefined
+      });
+      // Roles are granted through their own audited endpoint
+      if (editingUser && role !== editingUser.role) {
+        const roleRes = await apiRequest("PUT", `/api/admin/users/${id}/role`, {
+          role,
+          licenseNumber: licenseNumber || undefined,
+          issuingAuthority: issuingAuthority || undefined
+        });
+        return await roleRes.json();
+      }
       return await res.json();
     },
     onSuccess: () => {
@@ -176,7 +233,12 @@ export default function AdminUserManagement() {
   // Mutation for creating a new user
   const createUserMutation = useMutation({
     mutationFn: async (data: AddUserFormValues) => {
-      const res = await apiRequest("POST", "/api/register", data);
+      const res = await apiRequest("POST", "/api/admin/users", {
+        ...data,
+        licenseNumber: data.role === UserRole.DOCTOR ? data.licenseNumber : undefined,
+        issuingAuthority: data.role === UserRole.DOCTOR ? data.issuingAuthority : undefined,
+        organizationId: data.organizationId ? Number(data.organizationId) : undefined
+      });
       return await res.json();
     },
     onSuccess: () => {
@@ -201,6 +263,93 @@ export default function AdminUserManagement() {
     },
   });
 
+  // Mutation for clearing a user's IP restrictions (e.g. after a lockout)
+  const clearIpRestrictionsMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/clear-ip-restrictions`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "IP restrictions cleared",
+        description: "The user can now sign in from any network"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for turning off a user's two-factor authentication (e.g. a lost phone)
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/reset-two-factor`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor authentication reset",
+        description: "The user can sign in with their password and set it up again"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for lifting a failed sign-in lockout
+  const unlockAccountMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/unlock`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account unlocked",
+        description: "The user can sign in again"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/account-lockouts'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for signing a user out of every session
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/force-logout`);
+      return await res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      toast({
+        title: "User signed out",
+        description: `Ended ${data.revoked} active ${data.revoked === 1 ? "session" : "sessions"}`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter users based on search term
   const filteredUsers = users?.filter(user => 
     user.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -258,7 +407,7 @@ export default function AdminUserManagement() {
   const totalUsers = users?.length || 0;
   const totalDoctors = users?.filter(user => user.role === UserRole.DOCTOR).length || 0;
   const totalPatients = users?.filter(user => user.role === UserRole.PATIENT).length || 0;
-  const totalAdmins = users?.filter(user => user.role === UserRole.ADMIN).length || 0;
+  const totalAdmins = users?.filter(user => user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN).length || 0;
 
   return (
     <MainLayout>
@@ -318,9 +467,9 @@ export default function AdminUserManagement() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
-                        <SelectItem value={UserRole.DOCTOR}>Doctor</SelectItem>
-                        <SelectItem value={UserRole.PATIENT}>Patient</SelectItem>
+                        {assignableRoles.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -343,6 +492,37 @@ export default function AdminUserManagement() {
                   )}
                 />
               )}
+
+              {editForm.watch("role") === UserRole.DOCTOR && editingUser?.role !== UserRole.DOCTOR && (
+                <FormField
+                  control={editForm.control}
+                  name="licenseNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Medical Licence Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Required unless the user has applied" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {editForm.watch("role") === UserRole.DOCTOR && editingUser?.role !== UserRole.DOCTOR && (
+                <FormField
+                  control={editForm.control}
+                  name="issuingAuthority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuing Authority</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. General Medical Council" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <FormField
                 control={editForm.control}
@@ -357,6 +537,22 @@ export default function AdminUserManagement() {
                   </FormItem>
                 )}
               />
+
+              {editForm.watch("role") === UserRole.PATIENT && (
+                <FormField
+                  control={editForm.control}
+                  name="dateOfBirth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date of Birth</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <DialogFooter className="pt-4">
                 <Button
@@ -477,9 +673,9 @@ export default function AdminUserManagement() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
-                        <SelectItem value={UserRole.DOCTOR}>Doctor</SelectItem>
-                        <SelectItem value={UserRole.PATIENT}>Patient</SelectItem>
+                        {assignableRoles.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -487,6 +683,36 @@ export default function AdminUserManagement() {
                 )}
               />
 
+              {showOrganizationPicker && (
+                <FormField
+                  control={addForm.control}
+                  name="organizationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Organisation</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an organisation" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {organizations?.map(organization => (
+                            <SelectItem key={organization.id} value={String(organization.id)}>
+                              {organization.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {addForm.watch("role") === UserRole.DOCTOR && (
                 <FormField
                   control={addForm.control}
@@ -502,6 +728,37 @@ export default function AdminUserManagement() {
                   )}
                 />
               )}
+
+              {addForm.watch("role") === UserRole.DOCTOR && (
+                <FormField
+                  control={addForm.control}
+                  name="licenseNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Medical Licence Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter licence number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {addForm.watch("role") === UserRole.DOCTOR && (
+                <FormField
+                  control={addForm.control}
+                  name="issuingAuthority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuing Authority</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. General Medical Council" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <FormField
                 control={addForm.control}
@@ -709,28 +966,78 @@ export default function AdminUserManagement() {
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={getRoleBadgeColor(user.role)}>
-                          {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                          {roleLabels[user.role as UserRoleType] ?? user.role}
                         </Badge>
                         {user.specialty && (
                           <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{user.specialty}</div>
                         )}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-                          Active
-                        </Badge>
+                        {lockedUntilByUser.has(user.id) ? (
+                          <Badge
+                            variant="outline"
+                            className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                            title={`Locked until ${new Date(lockedUntilByUser.get(user.id)!).toLocaleString()}`}
+                          >
+                            Locked
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                            Active
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>{user.email}</TableCell>
                       <TableCell>{user.createdAt ? formatDate(user.createdAt) : "N/A"}</TableCell>
                       <TableCell className="text-right">
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          onClick={() => handleEditUser(user.id)}
-                          className="text-primary hover:text-primary-dark dark:text-primary-light dark:hover:text-primary"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
+                        <div className="flex justify-end">
+                          <Button 
+                            variant="ghost" 
+                            size="icon" 
+                            onClick={() => handleEditUser(user.id)}
+                            className="text-primary hover:text-primary-dark dark:text-primary-light dark:hover:text-primary"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Security</DropdownMenuLabel>
+                              <DropdownMenuItem
+                                disabled={!user.settings?.security?.ipRestrictions?.length || clearIpRestrictionsMutation.isPending}
+                                onClick={() => clearIpRestrictionsMutation.mutate(user.id)}
+                              >
+                                <Globe className="mr-2 h-4 w-4" />
+                                Clear IP restrictions
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={!user.settings?.security?.twoFactorEnabled || resetTwoFactorMutation.isPending}
+                                onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                              >
+                                <ShieldOff className="mr-2 h-4 w-4" />
+                                Reset two-factor
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={!lockedUntilByUser.has(user.id) || unlockAccountMutation.isPending}
+                                onClick={() => unlockAccountMutation.mutate(user.id)}
+                              >
+                                <Unlock className="mr-2 h-4 w-4" />
+                                Unlock account
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={forceLogoutMutation.isPending}
+                                onClick={() => forceLogoutMutation.mutate(user.id)}
+                              >
+                                <LogOut className="mr-2 h-4 w-4" />
+                                Sign out all sessions
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))
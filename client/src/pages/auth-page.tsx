@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { getHomePath } from "@/hooks/use-role";
 import { UserRole } from "@shared/schema";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { Eye, EyeOff, Shield } from "lucide-react";
+import { Eye, EyeOff, Shield, Smartphone } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -28,6 +29,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ForgotPasswordDialog } from "@/components/auth/forgot-password-dialog";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
 
 // Login form schema
 const loginSchema = z.object({
@@ -40,13 +44,24 @@ const registerSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   fullName: z.string().min(1, "Full name is required"),
   email: z.string().email("Invalid email address"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
   confirmPassword: z.string().min(1, "Please confirm your password"),
   role: z.string().min(1, "Role is required"),
   specialty: z.string().optional(),
+  licenseNumber: z.string().optional(),
+  issuingAuthority: z.string().optional(),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
+}).refine(data => data.role !== UserRole.DOCTOR || !!data.specialty?.trim(), {
+  message: "Specialty is required",
+  path: ["specialty"],
+}).refine(data => data.role !== UserRole.DOCTOR || (data.licenseNumber?.trim().length ?? 0) >= 3, {
+  message: "Licence number must be at least 3 characters",
+  path: ["licenseNumber"],
+}).refine(data => data.role !== UserRole.DOCTOR || (data.issuingAuthority?.trim().length ?? 0) >= 2, {
+  message: "Issuing authority is required",
+  path: ["issuingAuthority"],
 });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
@@ -54,23 +69,21 @@ type RegisterFormValues = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
   const [, navigate] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [showSpecialty, setShowSpecialty] = useState(false);
+  // Set once the password is accepted for an account with two-factor enabled
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
+  const [otpCode, setOtpCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [forgotPasswordOpen, setForgotPasswordOpen] = useState(false);
 
   // Redirect if already logged in
   useEffect(() => {
     if (user) {
-      if (user.role === UserRole.PATIENT) {
-        navigate("/patient/records");
-      } else if (user.role === UserRole.DOCTOR) {
-        navigate("/doctor/patients");
-      } else if (user.role === UserRole.ADMIN) {
-        navigate("/admin/user-management");
-      } else {
-        navigate("/");
-      }
+      navigate(getHomePath(user));
     }
   }, [user, navigate]);
 
@@ -94,12 +107,44 @@ export default function AuthPage() {
       confirmPassword: "",
       role: UserRole.PATIENT,
       specialty: "",
+      licenseNumber: "",
+      issuingAuthority: "",
     },
   });
 
   // Handle login submission
   const onLoginSubmit = (values: LoginFormValues) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setOtpCode("");
+          setRecoveryCode("");
+          setUseRecoveryCode(false);
+          setTwoFactorPending(true);
+        }
+      },
+    });
+  };
+
+  // Handle second factor submission
+  const onTwoFactorSubmit = (code: string) => {
+    verifyTwoFactorMutation.mutate(useRecoveryCode ? { recoveryCode: code } : { code }, {
+      onError: (error) => {
+        setOtpCode("");
+        setRecoveryCode("");
+        // The pending login expired or ran out of attempts; start over
+        if (error.message.includes("log in again")) {
+          setTwoFactorPending(false);
+          loginForm.resetField("password");
+        }
+      },
+    });
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorPending(false);
+    setOtpCode("");
+    loginForm.resetField("password");
   };
 
   // Handle registration submission
@@ -143,6 +188,89 @@ export default function AuthPage() {
                 
                 {/* Login Form */}
                 <TabsContent value="login">
+                  {twoFactorPending ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (useRecoveryCode) {
+                          if (recoveryCode.trim()) onTwoFactorSubmit(recoveryCode.trim());
+                        } else if (otpCode.length === 6) {
+                          onTwoFactorSubmit(otpCode);
+                        }
+                      }}
+                      className="space-y-4"
+                    >
+                      <div className="flex flex-col items-center text-center space-y-2">
+                        <Smartphone className="h-8 w-8 text-primary" />
+                        <h2 className="text-lg font-medium">Two-Factor Verification</h2>
+                        <p className="text-sm text-muted-foreground">
+                          {useRecoveryCode
+                            ? "Enter one of your recovery codes. Each code can only be used once."
+                            : "Enter the 6-digit code from your authenticator app"}
+                        </p>
+                      </div>
+                      
+                      {useRecoveryCode ? (
+                        <Input
+                          placeholder="xxxxx-xxxxx"
+                          className="font-mono text-center"
+                          value={recoveryCode}
+                          onChange={(e) => setRecoveryCode(e.target.value)}
+                          disabled={verifyTwoFactorMutation.isPending}
+                          autoComplete="off"
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="flex justify-center">
+                          <InputOTP
+                            maxLength={6}
+                            value={otpCode}
+                            onChange={setOtpCode}
+                            onComplete={onTwoFactorSubmit}
+                            disabled={verifyTwoFactorMutation.isPending}
+                            autoFocus
+                          >
+                            <InputOTPGroup>
+                              {Array.from({ length: 6 }).map((_, index) => (
+                                <InputOTPSlot key={index} index={index} />
+                              ))}
+                            </InputOTPGroup>
+                          </InputOTP>
+                        </div>
+                      )}
+                      
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={
+                          verifyTwoFactorMutation.isPending ||
+                          (useRecoveryCode ? !recoveryCode.trim() : otpCode.length !== 6)
+                        }
+                      >
+                        {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                      </Button>
+                      <Button 
+                        type="button" 
+                        variant="link" 
+                        className="w-full"
+                        onClick={() => {
+                          setUseRecoveryCode(!useRecoveryCode);
+                          setOtpCode("");
+                          setRecoveryCode("");
+                        }}
+                      >
+                        {useRecoveryCode ? "Use authenticator app instead" : "Use a recovery code instead"}
+                      </Button>
+                      <Button 
+                        type="button" 
+                        variant="ghost" 
+                        className="w-full"
+                        onClick={cancelTwoFactor}
+                      >
+                        Back to login
+                      </Button>
+                    </form>
+                  ) : (
                   <Form {...loginForm}>
                     <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
                       <FormField
@@ -188,6 +316,17 @@ export default function AuthPage() {
                         )}
                       />
                       
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="h-auto p-0 text-sm"
+                          onClick={() => setForgotPasswordOpen(true)}
+                        >
+                          Forgot your password?
+                        </Button>
+                      </div>
+                      
                       <Button 
                         type="submit" 
                         className="w-full" 
@@ -197,6 +336,7 @@ export default function AuthPage() {
                       </Button>
                     </form>
                   </Form>
+                  )}
                 </TabsContent>
                 
                 {/* Register Form */}
@@ -269,6 +409,7 @@ export default function AuthPage() {
                                 </Button>
                               </div>
                             </FormControl>
+                            <PasswordRequirements password={field.value} />
                             <FormMessage />
                           </FormItem>
                         )}
@@ -329,19 +470,54 @@ export default function AuthPage() {
                       />
                       
                       {showSpecialty && (
-                        <FormField
-                          control={registerForm.control}
-                          name="specialty"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Medical Specialty</FormLabel>
-                              <FormControl>
-                                <Input placeholder="e.g. Cardiology, Pediatrics" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                        <>
+                          <FormField
+                            control={registerForm.control}
+                            name="specialty"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Medical Specialty</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="e.g. Cardiology, Pediatrics" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <FormField
+                            control={registerForm.control}
+                            name="licenseNumber"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Medical Licence Number</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="As issued by your licensing body" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <FormField
+                            control={registerForm.control}
+                            name="issuingAuthority"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Issuing Authority</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="e.g. General Medical Council" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <p className="text-xs text-muted-foreground">
+                            You can see patients and request access to records once an administrator
+                            has verified your licence.
+                          </p>
+                        </>
                       )}
                       
                       <Button 
@@ -358,6 +534,11 @@ export default function AuthPage() {
             </CardContent>
           </Card>
           
+          <ForgotPasswordDialog
+            isOpen={forgotPasswordOpen}
+            onClose={() => setForgotPasswordOpen(false)}
+          />
+          
           {/* Right column - Info section */}
           <div className="hidden md:block md:w-1/2 p-6 bg-primary text-white rounded-lg md:rounded-l-none md:rounded-r-lg">
             <div className="h-full flex flex-col justify-center">
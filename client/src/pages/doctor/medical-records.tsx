@@ -7,6 +7,7 @@ import { RecordCard } from "@/components/medical/record-card";
 import { SearchFilters } from "@/components/medical/search-filters";
 import { UploadRecordModal } from "@/components/medical/upload-record-modal";
 import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/lib/utils";
 import { Record } from "@shared/schema";
 import { User } from "@shared/schema";
 import { 
@@ -94,7 +95,8 @@ export default function DoctorMedicalRecords() {
     // Create a temporary link element
     const link = document.createElement('a');
     link.href = downloadUrl;
-    link.download = `medical-record-${id}.txt`;
+    // Leave the file name to the server's Content-Disposition header
+    link.download = "";
     
     // Append to the document, click it, and remove it
     document.body.appendChild(link);
@@ -364,6 +366,12 @@ export default function DoctorMedicalRecords() {
               <div className="border rounded-md p-4 flex justify-center items-center">
                 <div className="text-center">
                   <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">File Preview</p>
+                  {viewRecord.fileName && (
+                    <p className="text-sm mb-2">
+                      {viewRecord.fileName}
+                      {viewRecord.fileSize != null && ` (${formatFileSize(viewRecord.fileSize)})`}
+                    </p>
+                  )}
                   <Button
                     onClick={() => handleDownloadRecord(viewRecord.id)}
                   >
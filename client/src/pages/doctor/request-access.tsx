@@ -1,8 +1,13 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useRole } from "@/hooks/use-role";
 import { MainLayout } from "@/components/layout/main-layout";
 import { RequestAccessModal } from "@/components/medical/request-access-modal";
+import { EmergencyAccessModal } from "@/components/medical/emergency-access-modal";
+import { RedeemShareCodeModal } from "@/components/medical/redeem-share-code-modal";
+import { ExtensionRequestModal } from "@/components/medical/extension-request-modal";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Link as LinkIcon, 
@@ -11,7 +16,10 @@ import {
   XCircle,
   RefreshCw,
   Search,
-  Loader2
+  Loader2,
+  ShieldAlert,
+  QrCode,
+  CalendarClock
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,13 +27,19 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AccessRequest } from "@shared/schema";
-import { formatDate, getStatusBadgeColor } from "@/lib/utils";
+import { AccessRequest, Permission } from "@shared/schema";
+import { formatDate, getStatusBadgeColor, formatAccessScope } from "@/lib/utils";
 
 export default function DoctorRequestAccess() {
   const { user } = useAuth();
+  const { can } = useRole();
   const { toast } = useToast();
   const [requestModalOpen, setRequestModalOpen] = useState(false);
+  const [emergencyModalOpen, setEmergencyModalOpen] = useState(false);
+  // A scanned patient QR code links here with ?shareCode=
+  const [sharedCode] = useState(() => new URLSearchParams(window.location.search).get("shareCode") ?? undefined);
+  const [redeemModalOpen, setRedeemModalOpen] = useState(!!sharedCode);
+  const [extensionGrant, setExtensionGrant] = useState<(AccessRequest & {patient?: any}) | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
 
   // Fetch access requests for the doctor
@@ -42,6 +56,28 @@ export default function DoctorRequestAccess() {
     });
   };
 
+  // Withdraw a request the patient hasn't answered yet
+  const cancelRequestMutation = useMutation({
+    mutationFn: async (requestId: number) => {
+      const res = await apiRequest("PATCH", `/api/access-requests/${requestId}`, { status: "cancelled" });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Request cancelled",
+        description: "The patient will no longer see this request"
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/doctor/${user?.id}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't cancel request",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Sort requests by status and date
   const pendingRequests = requests?.filter(req => req.status === "pending")
     .sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()) || [];
@@ -49,7 +85,11 @@ export default function DoctorRequestAccess() {
   const approvedRequests = requests?.filter(req => req.status === "approved")
     .sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()) || [];
   
-  const deniedRequests = requests?.filter(req => req.status === "denied")
+  // Grants with an extension waiting for the patient
+  const grantsWithPendingExtension = new Set(pendingRequests.map(req => req.extendsRequestId));
+  
+  // Cancelled requests are listed alongside denied ones
+  const deniedRequests = requests?.filter(req => req.status === "denied" || req.status === "cancelled")
     .sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()) || [];
 
   // Filter requests by search term
@@ -70,13 +110,31 @@ export default function DoctorRequestAccess() {
     <MainLayout>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Request Patient Access</h1>
-        <Button 
-          className="mt-4 sm:mt-0"
-          onClick={() => setRequestModalOpen(true)}
-        >
-          <LinkIcon className="mr-2 h-4 w-4" />
-          New Access Request
-        </Button>
+        <div className="mt-4 sm:mt-0 flex gap-2">
+          {can(Permission.EMERGENCY_OVERRIDE) && (
+            <Button 
+              variant="outline"
+              className="text-destructive border-destructive/40 hover:bg-destructive/10"
+              onClick={() => setEmergencyModalOpen(true)}
+            >
+              <ShieldAlert className="mr-2 h-4 w-4" />
+              Emergency Access
+            </Button>
+          )}
+          <Button 
+            variant="outline"
+            onClick={() => setRedeemModalOpen(true)}
+          >
+            <QrCode className="mr-2 h-4 w-4" />
+            Redeem Code
+          </Button>
+          <Button 
+            onClick={() => setRequestModalOpen(true)}
+          >
+            <LinkIcon className="mr-2 h-4 w-4" />
+            New Access Request
+          </Button>
+        </div>
       </div>
 
       {/* Search */}
@@ -178,7 +236,9 @@ export default function DoctorRequestAccess() {
                       <p className="font-medium text-gray-900 dark:text-white">{request.purpose}</p>
                     </div>
                     <div>
-                      <p className="text-gray-500 dark:text-gray-400">Requested Duration</p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {request.extendsRequestId ? "Extension Requested" : "Requested Duration"}
+                      </p>
                       <p className="font-medium text-gray-900 dark:text-white">{request.duration} days</p>
                     </div>
                     {request.notes && (
@@ -189,7 +249,15 @@ export default function DoctorRequestAccess() {
                     )}
                   </div>
                   
-                  <div className="mt-4 flex justify-end">
+                  <div className="mt-4 flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={cancelRequestMutation.isPending}
+                      onClick={() => cancelRequestMutation.mutate(request.id)}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel Request
+                    </Button>
                     <Button
                       variant="outline"
                       onClick={() => handleCheckStatus(request.id)}
@@ -291,20 +359,34 @@ export default function DoctorRequestAccess() {
                       </div>
                       <div>
                         <p className="text-gray-500 dark:text-gray-400">Limited Scope</p>
-                        <p className="font-medium text-gray-900 dark:text-white">{request.limitedScope ? "Yes" : "No"}</p>
+                        <p className="font-medium text-gray-900 dark:text-white">{request.limitedScope ? formatAccessScope(request.scope) : "No"}</p>
                       </div>
                     </div>
                     
-                    {isExpired && (
-                      <div className="mt-4 flex justify-end">
+                    <div className="mt-4 flex justify-end gap-2">
+                      {grantsWithPendingExtension.has(request.id) ? (
+                        <Button variant="outline" disabled>
+                          <Clock className="mr-2 h-4 w-4" />
+                          Extension Requested
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => setExtensionGrant(request)}
+                        >
+                          <CalendarClock className="mr-2 h-4 w-4" />
+                          Request Extension
+                        </Button>
+                      )}
+                      {isExpired && (
                         <Button
                           onClick={() => setRequestModalOpen(true)}
                         >
                           <LinkIcon className="mr-2 h-4 w-4" />
                           Request New Access
                         </Button>
-                      </div>
-                    )}
+                      )}
+                    </div>
                   </CardContent>
                 </Card>
               );
@@ -369,7 +451,7 @@ export default function DoctorRequestAccess() {
                       variant="outline"
                       className={getStatusBadgeColor(request.status)}
                     >
-                      Access Denied
+                      {request.status === "cancelled" ? "Cancelled" : "Access Denied"}
                     </Badge>
                   </div>
                   
@@ -415,6 +497,27 @@ export default function DoctorRequestAccess() {
         isOpen={requestModalOpen} 
         onClose={() => setRequestModalOpen(false)} 
       />
+
+      {/* Redeem Share Code Modal */}
+      <RedeemShareCodeModal
+        isOpen={redeemModalOpen}
+        onClose={() => setRedeemModalOpen(false)}
+        initialCode={sharedCode}
+      />
+
+      {/* Extension Request Modal */}
+      <ExtensionRequestModal
+        isOpen={!!extensionGrant}
+        onClose={() => setExtensionGrant(null)}
+        grant={extensionGrant}
+        patientName={extensionGrant?.patient?.fullName}
+      />
+
+      {/* Emergency Access Modal */}
+      <EmergencyAccessModal
+        isOpen={emergencyModalOpen}
+        onClose={() => setEmergencyModalOpen(false)}
+      />
     </MainLayout>
   );
 }
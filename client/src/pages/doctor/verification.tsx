@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { MainLayout } from "@/components/layout/main-layout";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
+import { formatDate, formatFileSize, getStatusBadgeColor } from "@/lib/utils";
+import { DoctorProfile, DoctorVerificationDocument, DoctorVerificationStatus } from "@shared/schema";
+import {
+  ShieldCheck,
+  CloudUpload,
+  FileText,
+  Trash2,
+  Loader2
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+// Keep in sync with MAX_UPLOAD_BYTES and allowedRecordMimeTypes in server/uploads.ts
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_FILE_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+const credentialsSchema = z.object({
+  licenseNumber: z.string().trim().min(3, "Licence number must be at least 3 characters"),
+  issuingAuthority: z.string().trim().min(2, "Issuing authority is required"),
+  specialty: z.string().trim().min(1, "Specialty is required"),
+});
+
+type CredentialsFormValues = z.infer<typeof credentialsSchema>;
+
+type VerificationDocument = Pick<DoctorVerificationDocument, "id" | "fileName" | "fileSize" | "mimeType" | "checksum" | "uploadedAt">;
+
+type VerificationDetails = {
+  profile: DoctorProfile | null;
+  documents: VerificationDocument[];
+};
+
+const statusLabels: Record<string, string> = {
+  [DoctorVerificationStatus.PENDING]: "Awaiting review",
+  [DoctorVerificationStatus.VERIFIED]: "Verified",
+  [DoctorVerificationStatus.REJECTED]: "Changes requested",
+};
+
+// Verification also changes what /api/user reports, which drives the banner and redirects
+function refreshVerification() {
+  queryClient.invalidateQueries({ queryKey: ["/api/doctor/verification"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+}
+
+export default function DoctorVerification() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: verification, isLoading } = useQuery<VerificationDetails>({
+    queryKey: ["/api/doctor/verification"],
+  });
+
+  const profile = verification?.profile;
+  const documents = verification?.documents ?? [];
+  const isVerified = profile?.verificationStatus === DoctorVerificationStatus.VERIFIED;
+
+  const form = useForm<CredentialsFormValues>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: {
+      licenseNumber: "",
+      issuingAuthority: "",
+      specialty: "",
+    },
+  });
+
+  useEffect(() => {
+    if (verification) {
+      form.reset({
+        licenseNumber: verification.profile?.licenseNumber ?? "",
+        issuingAuthority: verification.profile?.issuingAuthority ?? "",
+        specialty: user?.specialty ?? "",
+      });
+    }
+  }, [verification, user?.specialty, form]);
+
+  const submitCredentialsMutation = useMutation({
+    mutationFn: async (data: CredentialsFormValues) => {
+      const res = await apiRequest("PUT", "/api/doctor/verification", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Submitted for review",
+        description: "An administrator will check your licence with the issuing authority.",
+      });
+      refreshVerification();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Submission failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadDocumentMutation = useMutation({
+    mutationFn: async (selected: File) => {
+      const formData = new FormData();
+      formData.append("file", selected);
+      const res = await apiUpload("/api/doctor/verification/documents", formData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Document uploaded",
+        description: "It will be included in your credential review.",
+      });
+      setFile(null);
+      refreshVerification();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const res = await apiRequest("DELETE", `/api/doctor/verification/documents/${documentId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      refreshVerification();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't remove document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    if (!ACCEPTED_FILE_TYPES.includes(selected.type)) {
+      toast({
+        title: "Unsupported file",
+        description: "Please choose a PDF, JPG or PNG file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selected.size > MAX_FILE_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Files must be 10MB or smaller",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-2">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Credential Verification</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Patients see a verified badge once an administrator has checked your licence
+          </p>
+        </div>
+        {profile && (
+          <Badge variant="outline" className={getStatusBadgeColor(
+            profile.verificationStatus === DoctorVerificationStatus.VERIFIED ? "approved"
+              : profile.verificationStatus === DoctorVerificationStatus.REJECTED ? "denied"
+              : "pending"
+          )}>
+            {statusLabels[profile.verificationStatus] ?? profile.verificationStatus}
+          </Badge>
+        )}
+      </div>
+
+      {profile?.verificationStatus === DoctorVerificationStatus.REJECTED && profile.reviewNotes && (
+        <div className="mb-6 p-4 rounded-md border border-destructive/30 bg-destructive/5 text-sm">
+          <p className="font-medium text-destructive">Reviewer notes</p>
+          <p className="mt-1 text-gray-700 dark:text-gray-300">{profile.reviewNotes}</p>
+        </div>
+      )}
+
+      {isVerified && (
+        <div className="mb-6 p-4 rounded-md border border-success/30 bg-success/5 text-sm flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-success flex-shrink-0" />
+          <span>
+            Verified{profile?.reviewedAt ? ` on ${formatDate(profile.reviewedAt)}` : ""}. Contact an
+            administrator if your licence details change.
+          </span>
+        </div>
+      )}
+
+      {/* Licence Details */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Licence Details</CardTitle>
+          <CardDescription>
+            Submitting these details sends your credentials for review again.
+          </CardDescription>
+        </CardHeader>
+        {isLoading ? (
+          <CardContent>
+            <Skeleton className="h-32 w-full" />
+          </CardContent>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => submitCredentialsMutation.mutate(data))}>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="licenseNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Medical Licence Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your licence number" disabled={isVerified} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="issuingAuthority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuing Authority</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. General Medical Council" disabled={isVerified} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="specialty"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Specialty</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Cardiology" disabled={isVerified} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              {!isVerified && (
+                <CardFooter className="flex justify-end">
+                  <Button type="submit" disabled={submitCredentialsMutation.isPending}>
+                    {submitCredentialsMutation.isPending ? "Submitting..." : "Submit for Review"}
+                  </Button>
+                </CardFooter>
+              )}
+            </form>
+          </Form>
+        )}
+      </Card>
+
+      {/* Supporting Documents */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Supporting Documents</CardTitle>
+          <CardDescription>
+            Upload a copy of your licence or registration certificate. Documents are encrypted
+            and only visible to you and administrators.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : documents.length > 0 ? (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {documents.map(document => (
+                <li key={document.id} className="flex items-center justify-between py-3">
+                  <a
+                    href={`/api/doctor-verification/documents/${document.id}/download`}
+                    className="flex items-center min-w-0 text-sm text-primary hover:underline"
+                  >
+                    <FileText className="h-4 w-4 mr-2 flex-shrink-0" />
+                    <span className="truncate">{document.fileName}</span>
+                  </a>
+                  <div className="flex items-center gap-3 ml-4 flex-shrink-0">
+                    <span className="text-xs text-gray-500">
+                      {formatFileSize(document.fileSize)}
+                      {document.uploadedAt ? ` · ${formatDate(document.uploadedAt)}` : ""}
+                    </span>
+                    {!isVerified && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteDocumentMutation.isPending}
+                        onClick={() => deleteDocumentMutation.mutate(document.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No documents uploaded yet</p>
+          )}
+
+          {!isVerified && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-2">
+              <label
+                htmlFor="verification-document"
+                className="flex flex-1 items-center justify-center px-4 py-3 border-2 border-gray-300 dark:border-gray-600 border-dashed rounded-md cursor-pointer text-sm text-gray-600 dark:text-gray-400"
+              >
+                <CloudUpload className="h-5 w-5 mr-2 text-gray-400" />
+                <span className="truncate">{file ? file.name : "Choose a PDF, JPG or PNG up to 10MB"}</span>
+                <Input
+                  id="verification-document"
+                  type="file"
+                  className="sr-only"
+                  accept={ACCEPTED_FILE_TYPES.join(",")}
+                  onChange={handleFileChange}
+                />
+              </label>
+              <Button
+                disabled={!file || uploadDocumentMutation.isPending}
+                onClick={() => file && uploadDocumentMutation.mutate(file)}
+              >
+                {uploadDocumentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Upload
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </MainLayout>
+  );
+}
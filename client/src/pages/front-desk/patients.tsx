@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { MainLayout } from "@/components/layout/main-layout";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganizations } from "@/hooks/use-organizations";
+import { User } from "@shared/schema";
+import { Search, UserPlus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+const registerPatientSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().min(3, "Full name must be at least 3 characters"),
+  email: z.string().email("Please enter a valid email"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  phone: z.string().optional(),
+  organizationId: z.string().optional(),
+});
+
+type RegisterPatientFormValues = z.infer<typeof registerPatientSchema>;
+
+// Front desk: look up patients and open accounts for patients at the clinic
+export default function FrontDeskPatients() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isRegisterDialogOpen, setIsRegisterDialogOpen] = useState(false);
+
+  const { data: patients, isLoading } = useQuery<User[]>({
+    queryKey: ['/api/patients'],
+  });
+
+  // New patients join the clinic registering them; staff at several clinics pick one
+  const { data: organizations } = useOrganizations();
+  const showOrganizationPicker = (organizations?.length ?? 0) > 1;
+
+  const form = useForm<RegisterPatientFormValues>({
+    resolver: zodResolver(registerPatientSchema),
+    defaultValues: {
+      username: "",
+      fullName: "",
+      email: "",
+      password: "",
+      phone: "",
+      organizationId: "",
+    },
+  });
+
+  const registerPatientMutation = useMutation({
+    mutationFn: async (data: RegisterPatientFormValues) => {
+      const res = await apiRequest("POST", "/api/patients", {
+        ...data,
+        organizationId: data.organizationId ? Number(data.organizationId) : undefined
+      });
+      return await res.json();
+    },
+    onSuccess: (patient: User) => {
+      toast({
+        title: "Patient registered",
+        description: `${patient.fullName} can now sign in with the username ${patient.username}`
+      });
+      setIsRegisterDialogOpen(false);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredPatients = patients?.filter(patient =>
+    patient.fullName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    patient.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    patient.username.toLowerCase().includes(searchTerm.toLowerCase())
+  ) || [];
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Patient Registration</h1>
+        <Button onClick={() => setIsRegisterDialogOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Register Patient
+        </Button>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search patients by name, email or username..."
+            className="pl-9"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {/* Patient Directory */}
+      <Card className="overflow-hidden">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead className="hidden md:table-cell">Phone</TableHead>
+                <TableHead className="hidden md:table-cell">Registered</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ) : filteredPatients.length > 0 ? (
+                filteredPatients.map(patient => (
+                  <TableRow key={patient.id}>
+                    <TableCell>
+                      <div className="font-medium">{patient.fullName}</div>
+                      <div className="text-xs text-gray-500">{patient.username} · {patient.email}</div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{patient.phone || "—"}</TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {patient.createdAt ? formatDate(patient.createdAt) : "Unknown date"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8">
+                    <Users className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500 dark:text-gray-400">No patients found</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Register Patient Dialog */}
+      <Dialog open={isRegisterDialogOpen} onOpenChange={setIsRegisterDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Register Patient</DialogTitle>
+            <DialogDescription>
+              Open an account for a patient. Give them the username and temporary password
+              and ask them to change it when they first sign in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form
+              id="register-patient-form"
+              onSubmit={form.handleSubmit((data) => registerPatientMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter full name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter email address" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter phone number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Choose a username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Temporary Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="Enter a temporary password" {...field} />
+                    </FormControl>
+                    <PasswordRequirements password={field.value} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {showOrganizationPicker && (
+                <FormField
+                  control={form.control}
+                  name="organizationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Organisation</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an organisation" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {organizations?.map(organization => (
+                            <SelectItem key={organization.id} value={String(organization.id)}>
+                              {organization.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </form>
+          </Form>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRegisterDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="register-patient-form"
+              disabled={registerPatientMutation.isPending}
+            >
+              {registerPatientMutation.isPending ? "Registering..." : "Register Patient"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useEffect } from "react";
 import { useLocation } from "wouter";
-import { UserRole } from "@shared/schema";
+import { getHomePath } from "@/hooks/use-role";
 import { MainLayout } from "@/components/layout/main-layout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,13 +14,7 @@ export default function HomePage() {
   useEffect(() => {
     // Redirect to appropriate home page based on role
     if (user) {
-      if (user.role === UserRole.PATIENT) {
-        navigate("/patient/records");
-      } else if (user.role === UserRole.DOCTOR) {
-        navigate("/doctor/patients");
-      } else if (user.role === UserRole.ADMIN) {
-        navigate("/admin/user-management");
-      }
+      navigate(getHomePath(user));
     }
   }, [user, navigate]);
 
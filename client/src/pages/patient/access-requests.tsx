@@ -1,17 +1,19 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 import { MainLayout } from "@/components/layout/main-layout";
 import { ApprovalModal } from "@/components/medical/approval-modal";
+import { LinkingCodeCard } from "@/components/medical/linking-code-card";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, getStatusBadgeColor } from "@/lib/utils";
-import { AccessRequest } from "@shared/schema";
+import { formatDate, getStatusBadgeColor, formatAccessScope } from "@/lib/utils";
+import { AccessRequest, EmergencyAccessGrant } from "@shared/schema";
 import { 
   Shield,
   Clock,
   CheckCircle,
   XCircle,
-  Loader2 
+  Loader2,
+  ShieldAlert
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -21,17 +23,26 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 export default function PatientAccessRequests() {
-  const { user } = useAuth();
+  const { patientId, canManage } = useActingPatient();
   const { toast } = useToast();
   const [selectedRequest, setSelectedRequest] = useState<AccessRequest | null>(null);
   const [approvalModalOpen, setApprovalModalOpen] = useState(false);
 
   // Fetch access requests for the patient
   const { data: requests, isLoading } = useQuery<(AccessRequest & {doctor?: any})[]>({
-    queryKey: [`/api/access-requests/patient/${user?.id}`],
-    enabled: !!user?.id,
+    queryKey: [`/api/access-requests/patient/${patientId}`],
+    enabled: !!patientId,
   });
 
+  // Fetch break-glass emergency access to the patient's records
+  const { data: emergencyGrants } = useQuery<(EmergencyAccessGrant & {doctor?: any})[]>({
+    queryKey: [`/api/emergency-access/patient/${patientId}`],
+    enabled: !!patientId,
+  });
+  
+  const isEmergencyGrantActive = (grant: EmergencyAccessGrant) =>
+    !grant.revokedAt && new Date(grant.expiresAt) > new Date();
+
   // Sort requests by status and date
   // Ensure proper filtering of pending requests
   const pendingRequests = requests?.filter(req => req.status.toLowerCase() === "pending")
@@ -59,7 +70,7 @@ export default function PatientAccessRequests() {
         title: `Access request ${action}`,
         description: `You have ${action} the doctor's access request`,
       });
-      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${patientId}`] });
     },
     onError: (error: Error) => {
       toast({
@@ -86,6 +97,43 @@ export default function PatientAccessRequests() {
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Access Requests</h1>
       </div>
 
+      {patientId && canManage && <LinkingCodeCard patientId={patientId} />}
+
+      {/* Emergency (break-glass) access notices */}
+      {emergencyGrants && emergencyGrants.length > 0 && (
+        <div className="mb-6 p-5 bg-red-50 dark:bg-red-900/30 border-l-4 border-red-500 rounded-md">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <ShieldAlert className="text-red-500 h-5 w-5" />
+            </div>
+            <div className="ml-3 w-full">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">Emergency Access to Your Records</h3>
+              <p className="mt-1 text-sm text-red-700 dark:text-red-300">
+                These providers used emergency access without your approval. Every use is reviewed by an administrator.
+              </p>
+              <ul className="mt-3 space-y-2 text-sm text-red-800 dark:text-red-200">
+                {emergencyGrants.map((grant) => (
+                  <li key={grant.id} className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                    <span>
+                      <span className="font-medium">{grant.doctor?.fullName || `Doctor #${grant.doctorId}`}</span>
+                      {" "}on {formatDate(grant.grantedAt ?? "")}: {grant.reason}
+                    </span>
+                    <Badge 
+                      variant="outline" 
+                      className={getStatusBadgeColor(isEmergencyGrantActive(grant) ? "approved" : "expired")}
+                    >
+                      {isEmergencyGrantActive(grant)
+                        ? `Active until ${new Date(grant.expiresAt).toLocaleTimeString()}`
+                        : "Ended"}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       <Tabs defaultValue="pending" className="mb-6">
         <TabsList className="grid grid-cols-3 w-full md:w-auto">
           <TabsTrigger value="pending" className="flex items-center">
@@ -185,25 +233,27 @@ export default function PatientAccessRequests() {
                     )}
                   </div>
                   
-                  <div className="mt-4 flex justify-end gap-2">
-                    <Button 
-                      variant="outline" 
-                      className="action-button"
-                      onClick={() => handleDeny(request.id)}
-                      disabled={updateAccessMutation.isPending}
-                    >
-                      <XCircle className="mr-2 h-4 w-4" />
-                      Deny
-                    </Button>
-                    <Button
-                      className="action-button"
-                      onClick={() => handleApprove(request)}
-                      disabled={updateAccessMutation.isPending}
-                    >
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                      Approve
-                    </Button>
-                  </div>
+                  {canManage && (
+                    <div className="mt-4 flex justify-end gap-2">
+                      <Button 
+                        variant="outline" 
+                        className="action-button"
+                        onClick={() => handleDeny(request.id)}
+                        disabled={updateAccessMutation.isPending}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Deny
+                      </Button>
+                      <Button
+                        className="action-button"
+                        onClick={() => handleApprove(request)}
+                        disabled={updateAccessMutation.isPending}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))
@@ -289,11 +339,11 @@ export default function PatientAccessRequests() {
                       </div>
                       <div>
                         <p className="text-gray-500 dark:text-gray-400">Limited Scope</p>
-                        <p className="font-medium text-gray-900 dark:text-white">{request.limitedScope ? "Yes" : "No"}</p>
+                        <p className="font-medium text-gray-900 dark:text-white">{request.limitedScope ? formatAccessScope(request.scope) : "No"}</p>
                       </div>
                     </div>
                     
-                    {!isExpired && (
+                    {!isExpired && canManage && (
                       <div className="mt-4 flex justify-end">
                         <Button
                           variant="destructive"
@@ -0,0 +1,437 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient, DelegationWithParties } from "@/hooks/use-acting-patient";
+import { useToast } from "@/hooks/use-toast";
+import { MainLayout } from "@/components/layout/main-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import {
+  DelegationScope,
+  DelegationScopeType,
+  delegationScopes,
+  delegationScopeLabels,
+  delegationRelationships,
+  isMinor,
+  ADULT_AGE_YEARS
+} from "@shared/schema";
+import { HeartHandshake, UserPlus, UserMinus, ArrowRight, Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+const addCaregiverSchema = z.object({
+  username: z.string().trim().min(1, "Enter the username of their account"),
+  relationship: z.enum(delegationRelationships),
+  scope: z.enum(delegationScopes),
+  expiresAt: z.string().optional(),
+});
+
+type AddCaregiverFormValues = z.infer<typeof addCaregiverSchema>;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const partyName = (party: DelegationWithParties["patient"]) =>
+  party?.fullName || party?.username || "Unknown user";
+
+export default function PatientCaregivers() {
+  const { user } = useAuth();
+  const { delegations, actFor } = useActingPatient();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  // Minors' guardians are added and removed by administrators
+  const isMinorPatient = isMinor(user?.settings?.profile?.dateOfBirth);
+  const granted = delegations?.granted ?? [];
+  const received = delegations?.received ?? [];
+
+  const form = useForm<AddCaregiverFormValues>({
+    resolver: zodResolver(addCaregiverSchema),
+    defaultValues: {
+      username: "",
+      relationship: "caregiver",
+      scope: DelegationScope.VIEW,
+      expiresAt: "",
+    },
+  });
+
+  const refreshDelegations = () => queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+
+  const addCaregiverMutation = useMutation({
+    mutationFn: async (data: AddCaregiverFormValues) => {
+      const res = await apiRequest("POST", "/api/delegations", {
+        ...data,
+        expiresAt: data.expiresAt || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Caregiver added",
+        description: "They can now act for you from their own account.",
+      });
+      setIsAddDialogOpen(false);
+      form.reset();
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add caregiver",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeScopeMutation = useMutation({
+    mutationFn: async ({ id, scope }: { id: number; scope: DelegationScopeType }) => {
+      const res = await apiRequest("PATCH", `/api/delegations/${id}`, { scope });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Access level updated" });
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (delegation: DelegationWithParties) => {
+      const res = await apiRequest("DELETE", `/api/delegations/${delegation.id}`);
+      return await res.json();
+    },
+    onSuccess: (_, delegation) => {
+      toast({
+        title: delegation.delegateId === user?.id ? "You have stepped down" : "Caregiver removed",
+        description: delegation.delegateId === user?.id
+          ? `You can no longer act for ${partyName(delegation.patient)}.`
+          : `${partyName(delegation.delegate)} can no longer act for you.`,
+      });
+      if (delegation.delegateId === user?.id) actFor(null);
+      refreshDelegations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleActFor = (delegation: DelegationWithParties) => {
+    actFor(delegation.patientId);
+    navigate("/patient/records");
+  };
+
+  return (
+    <MainLayout>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Family & Caregivers</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Let someone you trust view or manage your records from their own account
+          </p>
+        </div>
+        {!isMinorPatient && (
+          <Button onClick={() => setIsAddDialogOpen(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Add Caregiver
+          </Button>
+        )}
+      </div>
+
+      {isMinorPatient && (
+        <div className="mb-6 p-4 rounded-md border border-amber-200 bg-amber-50 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-200 flex gap-2">
+          <Info className="h-5 w-5 flex-shrink-0" />
+          <span>
+            Until you turn {ADULT_AGE_YEARS}, your parents or guardians are added by an administrator.
+            Their access ends automatically on your {ADULT_AGE_YEARS}th birthday.
+          </span>
+        </div>
+      )}
+
+      {/* People who can act for the patient */}
+      <Card className="mb-6 overflow-hidden">
+        <CardHeader>
+          <CardTitle>People Who Can Act for You</CardTitle>
+          <CardDescription>
+            Everything they do is recorded in the audit log as done on your behalf.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead className="hidden md:table-cell">Until</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {granted.length > 0 ? (
+                granted.map(delegation => (
+                  <TableRow key={delegation.id}>
+                    <TableCell>
+                      <div className="font-medium">{partyName(delegation.delegate)}</div>
+                      <div className="text-xs text-gray-500">{capitalize(delegation.relationship)}</div>
+                    </TableCell>
+                    <TableCell>
+                      {isMinorPatient || !delegation.active ? (
+                        <Badge variant="outline">{delegationScopeLabels[delegation.scope as DelegationScopeType] ?? delegation.scope}</Badge>
+                      ) : (
+                        <Select
+                          value={delegation.scope}
+                          onValueChange={(scope) => changeScopeMutation.mutate({ id: delegation.id, scope: scope as DelegationScopeType })}
+                          disabled={changeScopeMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {delegationScopes.map(scope => (
+                              <SelectItem key={scope} value={scope}>{delegationScopeLabels[scope]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {!delegation.active ? "Ended"
+                        : delegation.expiresAt ? formatDate(delegation.expiresAt)
+                        : "Until you remove them"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isMinorPatient && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={revokeMutation.isPending}
+                          onClick={() => revokeMutation.mutate(delegation)}
+                        >
+                          <UserMinus className="h-4 w-4 mr-1" />
+                          Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    <HeartHandshake className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500 dark:text-gray-400">Nobody can act for you yet</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Patients the user can act for */}
+      <Card>
+        <CardHeader>
+          <CardTitle>People You Care For</CardTitle>
+          <CardDescription>
+            Switch to someone's records to view them or act on their behalf.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {received.length > 0 ? (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {received.map(delegation => (
+                <li key={delegation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                  <div>
+                    <p className="font-medium">{partyName(delegation.patient)}</p>
+                    <p className="text-xs text-gray-500">
+                      {capitalize(delegation.relationship)} · {delegationScopeLabels[delegation.scope as DelegationScopeType] ?? delegation.scope}
+                      {delegation.expiresAt ? ` · until ${formatDate(delegation.expiresAt)}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(delegation)}
+                    >
+                      Step Down
+                    </Button>
+                    <Button size="sm" onClick={() => handleActFor(delegation)}>
+                      Open Records
+                      <ArrowRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Nobody has asked you to act for them
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Caregiver Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Caregiver</DialogTitle>
+            <DialogDescription>
+              They need their own MediVault account. You can change their access or remove
+              them at any time.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form
+              id="add-caregiver-form"
+              onSubmit={form.handleSubmit((data) => addCaregiverMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Their Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter their username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="relationship"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Relationship</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {delegationRelationships.map(relationship => (
+                          <SelectItem key={relationship} value={relationship}>{capitalize(relationship)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Access</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {delegationScopes.map(scope => (
+                          <SelectItem key={scope} value={scope}>{delegationScopeLabels[scope]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Full management also lets them add records and approve or deny access requests.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </form>
+          </Form>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="add-caregiver-form"
+              disabled={addCaregiverMutation.isPending}
+            >
+              {addCaregiverMutation.isPending ? "Adding..." : "Add Caregiver"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
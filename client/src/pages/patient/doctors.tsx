@@ -1,45 +1,77 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 import { MainLayout } from "@/components/layout/main-layout";
+import { ShareCodeModal } from "@/components/medical/share-code-modal";
+import { ExtensionRequestPanel } from "@/components/medical/extension-request-panel";
 import { useToast } from "@/hooks/use-toast";
-import { User, AccessRequest } from "@shared/schema";
+import { User, AccessRequest, AccessShareCode } from "@shared/schema";
 import { 
   User as UserIcon,
   UserCheck,
   UserX,
   Search,
-  Loader2
+  Loader2,
+  ShieldCheck,
+  QrCode
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatDate } from "@/lib/utils";
+import { formatDate, formatAccessScope } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
+// Share codes as the API returns them, without the hash
+type ShareCodeSummary = Omit<AccessShareCode, "codeHash"> & { redeemable: boolean };
+
+// Shown next to doctors whose licence an administrator has checked
+function VerifiedBadge() {
+  return (
+    <Badge variant="outline" className="ml-2 align-middle bg-success/10 border-success/20 text-success">
+      <ShieldCheck className="h-3 w-3 mr-1" />
+      Verified
+    </Badge>
+  );
+}
+
 export default function PatientDoctors() {
-  const { user } = useAuth();
+  const { patientId, canManage } = useActingPatient();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
+  const [shareModalOpen, setShareModalOpen] = useState(false);
 
   // Fetch access requests to determine which doctors have access
   const { data: accessRequests, isLoading: isLoadingAccess } = useQuery<(AccessRequest & {doctor?: User})[]>({
-    queryKey: [`/api/access-requests/patient/${user?.id}`],
-    enabled: !!user?.id
+    queryKey: [`/api/access-requests/patient/${patientId}`],
+    enabled: !!patientId
   });
 
   // Fetch all doctors
-  const { data: doctors, isLoading: isLoadingDoctors } = useQuery<User[]>({
+  const { data: doctors, isLoading: isLoadingDoctors } = useQuery<(Pick<User, "id" | "username" | "fullName" | "specialty" | "email"> & { verified: boolean })[]>({
     queryKey: ['/api/doctors'],
   });
+  // Codes the patient has handed out, newest first
+  const { data: shareCodes } = useQuery<ShareCodeSummary[]>({
+    queryKey: [`/api/share-codes/patient/${patientId}`],
+    enabled: !!patientId
+  });
+  const redeemableShareCodes = shareCodes?.filter(shareCode => shareCode.redeemable) || [];
+
+  const verifiedDoctorIds = new Set(doctors?.filter(doctor => doctor.verified).map(doctor => doctor.id));
 
   // Filter doctors who have approved access
   const doctorsWithAccess = accessRequests?.filter(
     req => req.status === "approved" && 
     (req.expiryDate ? new Date(req.expiryDate) > new Date() : true)
   ) || [];
+  // Extensions doctors have asked for, by the grant they would replace
+  const pendingExtensions = new Map(
+    accessRequests
+      ?.filter(req => req.status === "pending" && req.extendsRequestId)
+      .map(req => [req.extendsRequestId, req])
+  );
 
   // Mutation for revoking access
   const revokeAccessMutation = useMutation({
@@ -51,7 +83,7 @@ export default function PatientDoctors() {
     },
     onSuccess: () => {
       // Invalidate the queries to refresh the data
-      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/access-requests/patient/${patientId}`] });
     },
     onError: (error: Error) => {
       toast({
@@ -62,6 +94,24 @@ export default function PatientDoctors() {
     },
   });
 
+  const revokeShareCodeMutation = useMutation({
+    mutationFn: async (shareCodeId: number) => {
+      const res = await apiRequest("DELETE", `/api/share-codes/${shareCodeId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Share code revoked" });
+      queryClient.invalidateQueries({ queryKey: [`/api/share-codes/patient/${patientId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handler for revoking access
   const handleRevokeAccess = (requestId: number, doctorName: string) => {
     // Show a loading toast
@@ -91,6 +141,12 @@ export default function PatientDoctors() {
     <MainLayout>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Healthcare Providers</h1>
+        {canManage && (
+          <Button className="mt-4 sm:mt-0" onClick={() => setShareModalOpen(true)}>
+            <QrCode className="mr-2 h-4 w-4" />
+            Share Access
+          </Button>
+        )}
       </div>
 
       {/* Search */}
@@ -146,6 +202,7 @@ export default function PatientDoctors() {
                     <div className="ml-4">
                       <h3 className="text-lg font-medium text-gray-900 dark:text-white">
                         {request.doctor?.fullName || `Doctor #${request.doctorId}`}
+                        {verifiedDoctorIds.has(request.doctorId) && <VerifiedBadge />}
                       </h3>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {request.doctor?.specialty || "Healthcare Provider"}
@@ -180,33 +237,43 @@ export default function PatientDoctors() {
                   <div>
                     <p className="text-gray-500 dark:text-gray-400">Limited Scope</p>
                     <p className="font-medium text-gray-900 dark:text-white">
-                      {request.limitedScope ? "Yes" : "No"}
+                      {request.limitedScope ? formatAccessScope(request.scope) : "No"}
                     </p>
                   </div>
                 </div>
                 
-                <div className="mt-4">
-                  <Button 
-                    variant="destructive"
-                    onClick={() => handleRevokeAccess(
-                      request.id, 
-                      request.doctor?.fullName || `Doctor #${request.doctorId}`
-                    )}
-                    disabled={revokeAccessMutation.isPending}
-                  >
-                    {revokeAccessMutation.isPending ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Revoking...
-                      </>
-                    ) : (
-                      <>
-                        <UserX className="mr-2 h-4 w-4" />
-                        Revoke Access
-                      </>
-                    )}
-                  </Button>
-                </div>
+                {patientId && canManage && pendingExtensions.has(request.id) && (
+                  <ExtensionRequestPanel
+                    extension={pendingExtensions.get(request.id)!}
+                    patientId={patientId}
+                    doctorName={request.doctor?.fullName || `Doctor #${request.doctorId}`}
+                  />
+                )}
+                
+                {canManage && (
+                  <div className="mt-4">
+                    <Button 
+                      variant="destructive"
+                      onClick={() => handleRevokeAccess(
+                        request.id, 
+                        request.doctor?.fullName || `Doctor #${request.doctorId}`
+                      )}
+                      disabled={revokeAccessMutation.isPending}
+                    >
+                      {revokeAccessMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Revoking...
+                        </>
+                      ) : (
+                        <>
+                          <UserX className="mr-2 h-4 w-4" />
+                          Revoke Access
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))
@@ -226,6 +293,45 @@ export default function PatientDoctors() {
         )}
       </div>
 
+      {/* Share codes that haven't been used up yet */}
+      {redeemableShareCodes.length > 0 && (
+        <>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Active Share Codes
+          </h2>
+          <Card className="mb-8">
+            <CardContent className="p-0 divide-y divide-gray-200 dark:divide-gray-700">
+              {redeemableShareCodes.map((shareCode) => (
+                <div key={shareCode.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {shareCode.purpose} · {shareCode.duration} days
+                      {shareCode.limitedScope ? ` · ${formatAccessScope(shareCode.scope)}` : ""}
+                    </p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {shareCode.singleUse
+                        ? "One doctor only"
+                        : `Used by ${shareCode.redemptionCount} ${shareCode.redemptionCount === 1 ? "doctor" : "doctors"}`}
+                      {" "}· redeemable until {new Date(shareCode.expiresAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokeShareCodeMutation.isPending}
+                      onClick={() => revokeShareCodeMutation.mutate(shareCode.id)}
+                    >
+                      Revoke Code
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
       {/* Available Doctors Section */}
       <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
         Available Healthcare Providers
@@ -265,6 +371,7 @@ export default function PatientDoctors() {
                     <div className="ml-4">
                       <h3 className="text-lg font-medium text-gray-900 dark:text-white">
                         {doctor.fullName}
+                        {doctor.verified && <VerifiedBadge />}
                       </h3>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {doctor.specialty || "Healthcare Provider"}
@@ -302,6 +409,14 @@ export default function PatientDoctors() {
           </div>
         )}
       </div>
+
+      {patientId && (
+        <ShareCodeModal
+          isOpen={shareModalOpen}
+          onClose={() => setShareModalOpen(false)}
+          patientId={patientId}
+        />
+      )}
     </MainLayout>
   );
 }
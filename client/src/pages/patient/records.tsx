@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import { useActingPatient } from "@/hooks/use-acting-patient";
 import { MainLayout } from "@/components/layout/main-layout";
 import { RecordCard } from "@/components/medical/record-card";
 import { UploadRecordModal } from "@/components/medical/upload-record-modal";
 import { SearchFilters } from "@/components/medical/search-filters";
 import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/lib/utils";
 import { Record, AccessRequest } from "@shared/schema";
 import { 
   Bell, 
@@ -25,7 +26,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
 
 export default function PatientRecords() {
-  const { user } = useAuth();
+  const { patientId, actingFor, canManage } = useActingPatient();
   const { toast } = useToast();
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [viewRecord, setViewRecord] = useState<Record | null>(null);
@@ -36,14 +37,14 @@ export default function PatientRecords() {
 
   // Fetch patient records
   const { data: records, isLoading } = useQuery<Record[]>({
-    queryKey: [`/api/patients/${user?.id}/records`],
-    enabled: !!user?.id,
+    queryKey: [`/api/patients/${patientId}/records`],
+    enabled: !!patientId,
   });
   
   // Fetch access requests to check for pending ones
   const { data: accessRequests, isLoading: isLoadingAccessRequests } = useQuery<AccessRequest[]>({
-    queryKey: [`/api/access-requests/patient/${user?.id}`],
-    enabled: !!user?.id,
+    queryKey: [`/api/access-requests/patient/${patientId}`],
+    enabled: !!patientId,
   });
   
   // Filter for pending requests only - use case-insensitive comparison for reliability
@@ -65,7 +66,8 @@ export default function PatientRecords() {
     // Create a temporary link element
     const link = document.createElement('a');
     link.href = downloadUrl;
-    link.download = `medical-record-${id}.txt`;
+    // Leave the file name to the server's Content-Disposition header
+    link.download = "";
     
     // Append to the document, click it, and remove it
     document.body.appendChild(link);
@@ -119,15 +121,19 @@ export default function PatientRecords() {
   return (
     <MainLayout>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 sm:mb-6">
-        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">My Medical Records</h1>
-        <Button 
-          className="mt-3 sm:mt-0"
-          size="sm"
-          onClick={() => setUploadModalOpen(true)}
-        >
-          <Upload className="mr-2 h-4 w-4" />
-          Upload Record
-        </Button>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+          {actingFor ? `${actingFor.patient?.fullName || "Patient"}'s Medical Records` : "My Medical Records"}
+        </h1>
+        {canManage && (
+          <Button 
+            className="mt-3 sm:mt-0"
+            size="sm"
+            onClick={() => setUploadModalOpen(true)}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Upload Record
+          </Button>
+        )}
       </div>
 
       {/* Search and filters */}
@@ -198,7 +204,7 @@ export default function PatientRecords() {
                 : "Get started by uploading your first medical record"
               }
             </p>
-            {!searchTerm && recordType === "all-types" && doctorFilter === "all-doctors" && dateRange === "all" && (
+            {canManage && !searchTerm && recordType === "all-types" && doctorFilter === "all-doctors" && dateRange === "all" && (
               <Button
                 className="mt-4"
                 onClick={() => setUploadModalOpen(true)}
@@ -245,6 +251,7 @@ export default function PatientRecords() {
       <UploadRecordModal 
         isOpen={uploadModalOpen} 
         onClose={() => setUploadModalOpen(false)} 
+        patientId={patientId}
       />
 
       {/* View Record Detail Modal */}
@@ -279,6 +286,12 @@ export default function PatientRecords() {
               <div className="border rounded-md p-4 flex justify-center items-center">
                 <div className="text-center">
                   <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">File Preview</p>
+                  {viewRecord.fileName && (
+                    <p className="text-sm mb-2">
+                      {viewRecord.fileName}
+                      {viewRecord.fileSize != null && ` (${formatFileSize(viewRecord.fileSize)})`}
+                    </p>
+                  )}
                   <Button
                     onClick={() => handleDownloadRecord(viewRecord.id)}
                   >
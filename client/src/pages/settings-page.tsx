@@ -30,6 +30,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
@@ -43,10 +44,15 @@ import {
   Mail,
   ShieldAlert,
   KeyRound,
-  Info
+  Info,
+  Globe,
+  Monitor,
+  FileText,
+  Moon
 } from "lucide-react";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
+import { formatDate } from "@/lib/utils";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -57,6 +63,12 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { TwoFactorDialog } from "@/components/settings/two-factor-dialog";
+import { SessionPolicyCard } from "@/components/settings/session-policy-card";
+import { ActiveSessionsCard } from "@/components/settings/active-sessions-card";
+import { PasswordPolicyCard } from "@/components/settings/password-policy-card";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
+import { Permission } from "@shared/schema";
 
 // Form schemas
 const profileFormSchema = z.object({
@@ -64,6 +76,7 @@ const profileFormSchema = z.object({
   email: z.string().email({ message: "Please enter a valid email address." }),
   specialty: z.string().optional(),
   phone: z.string().optional(),
+  dateOfBirth: z.string().optional(),
 });
 
 const securityFormSchema = z.object({
@@ -76,10 +89,9 @@ const securityFormSchema = z.object({
 });
 
 const advancedSecurityFormSchema = z.object({
-  twoFactorEnabled: z.boolean().default(false),
-  twoFactorMethod: z.enum(['sms', 'email', 'app']).nullable().optional(),
   requiredReauthForSensitive: z.boolean().default(true),
   sessionTimeout: z.number().min(5).max(1440).nullable().optional(), // 5 minutes to 24 hours
+  ipRestrictions: z.string().optional(), // one address or CIDR range per line
   receiveLoginAlerts: z.boolean().default(true),
   reviewAccessLogs: z.boolean().default(true),
   recoveryCodesGenerated: z.boolean().default(false)
@@ -90,15 +102,31 @@ const notificationFormSchema = z.object({
   smsNotifications: z.boolean(),
   accessRequestAlerts: z.boolean(),
   securityAlerts: z.boolean(),
-});
+  newRecordAlerts: z.boolean(),
+  quietHoursEnabled: z.boolean(),
+  quietHoursStart: z.string(),
+  quietHoursEnd: z.string(),
+}).refine(
+  data => !data.quietHoursEnabled || (data.quietHoursStart && data.quietHoursEnd && data.quietHoursStart !== data.quietHoursEnd),
+  { message: "Choose different start and end times", path: ["quietHoursEnd"] }
+);
 
 export default function SettingsPage() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const { isPatient, isDoctor, isAdmin } = useRole();
+  const { isPatient, isDoctor, can } = useRole();
   const [activeTab, setActiveTab] = useState("profile");
   const [recoveryCodesDialogOpen, setRecoveryCodesDialogOpen] = useState(false);
   const [generatedCodes, setGeneratedCodes] = useState<string[]>([]);
+  const [twoFactorDialogMode, setTwoFactorDialogMode] = useState<"enable" | "disable" | null>(null);
+  const twoFactorEnabled = user?.settings?.security?.twoFactorEnabled ?? false;
+  
+  // Unused recovery codes left for this account
+  const { data: recoveryCodeStatus } = useQuery<{ remaining: number }>({
+    queryKey: [`/api/users/${user?.id}/recovery-codes`],
+    enabled: !!user,
+  });
+  const remainingRecoveryCodes = recoveryCodeStatus?.remaining ?? 0;
   
   // Set up recovery codes generation mutation
   const generateRecoveryCodesMutation = useMutation({
@@ -113,6 +141,7 @@ export default function SettingsPage() {
       
       // Refresh user data to update recoveryCodesGenerated flag
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user?.id}/recovery-codes`] });
       
       toast({
         title: "Recovery codes generated",
@@ -136,6 +165,7 @@ export default function SettingsPage() {
       email: user?.settings?.profile?.email || user?.email || "",
       specialty: user?.settings?.profile?.specialty || user?.specialty || "",
       phone: user?.settings?.profile?.phone || user?.phone || "",
+      dateOfBirth: user?.settings?.profile?.dateOfBirth || "",
     },
   });
 
@@ -153,10 +183,9 @@ export default function SettingsPage() {
   const advancedSecurityForm = useForm<z.infer<typeof advancedSecurityFormSchema>>({
     resolver: zodResolver(advancedSecurityFormSchema),
     defaultValues: {
-      twoFactorEnabled: user?.settings?.security?.twoFactorEnabled ?? false,
-      twoFactorMethod: user?.settings?.security?.twoFactorMethod ?? null,
       requiredReauthForSensitive: user?.settings?.security?.requiredReauthForSensitive ?? true,
       sessionTimeout: user?.settings?.security?.sessionTimeout ?? null,
+      ipRestrictions: user?.settings?.security?.ipRestrictions?.join("\n") ?? "",
       receiveLoginAlerts: true,
       reviewAccessLogs: true,
       recoveryCodesGenerated: user?.settings?.security?.recoveryCodesGenerated ?? false
@@ -171,6 +200,10 @@ export default function SettingsPage() {
       smsNotifications: user?.settings?.notifications?.smsNotifications ?? false,
       accessRequestAlerts: user?.settings?.notifications?.accessRequestAlerts ?? true,
       securityAlerts: user?.settings?.notifications?.securityAlerts ?? true,
+      newRecordAlerts: user?.settings?.notifications?.newRecordAlerts ?? true,
+      quietHoursEnabled: user?.settings?.notifications?.quietHours?.enabled ?? false,
+      quietHoursStart: user?.settings?.notifications?.quietHours?.start ?? "22:00",
+      quietHoursEnd: user?.settings?.notifications?.quietHours?.end ?? "07:00",
     },
   });
 
@@ -235,6 +268,9 @@ export default function SettingsPage() {
         newPassword: "",
         confirmPassword: "",
       });
+      
+      // Picks up the new lastPasswordChange and passwordStrength
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
     },
     onError: (error: Error) => {
       toast({
@@ -247,8 +283,17 @@ export default function SettingsPage() {
 
   // Notification settings mutation
   const updateNotificationsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof notificationFormSchema>) => {
-      const res = await apiRequest("PATCH", `/api/users/${user?.id}/notifications`, data);
+    mutationFn: async ({ quietHoursEnabled, quietHoursStart, quietHoursEnd, ...data }: z.infer<typeof notificationFormSchema>) => {
+      const res = await apiRequest("PATCH", `/api/users/${user?.id}/notifications`, {
+        ...data,
+        // Quiet hours are kept in the browser's timezone so they follow the user's clock
+        quietHours: {
+          enabled: quietHoursEnabled,
+          start: quietHoursStart,
+          end: quietHoursEnd,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        }
+      });
       return await res.json();
     },
     onSuccess: (response) => {
@@ -281,7 +326,7 @@ export default function SettingsPage() {
   
   // Advanced security settings mutation
   const updateAdvancedSecurityMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof advancedSecurityFormSchema>) => {
+    mutationFn: async (data: Omit<z.infer<typeof advancedSecurityFormSchema>, "ipRestrictions"> & { ipRestrictions: string[] | null }) => {
       const res = await apiRequest("PATCH", `/api/users/${user?.id}/security`, data);
       return await res.json();
     },
@@ -317,7 +362,7 @@ export default function SettingsPage() {
 
   // Form submission handlers
   const onProfileSubmit = (data: z.infer<typeof profileFormSchema>) => {
-    updateProfileMutation.mutate(data);
+    updateProfileMutation.mutate({ ...data, dateOfBirth: data.dateOfBirth || undefined });
   };
 
   const onSecuritySubmit = (data: z.infer<typeof securityFormSchema>) => {
@@ -325,7 +370,14 @@ export default function SettingsPage() {
   };
   
   const onAdvancedSecuritySubmit = (data: z.infer<typeof advancedSecurityFormSchema>) => {
-    updateAdvancedSecurityMutation.mutate(data);
+    const ipRestrictions = (data.ipRestrictions || "")
+      .split("\n")
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    updateAdvancedSecurityMutation.mutate({
+      ...data,
+      ipRestrictions: ipRestrictions.length > 0 ? ipRestrictions : null
+    });
   };
 
   const onNotificationsSubmit = (data: z.infer<typeof notificationFormSchema>) => {
@@ -345,7 +397,7 @@ export default function SettingsPage() {
         <Separator className="my-6" />
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-3 h-auto">
+          <TabsList className="grid w-full grid-cols-4 h-auto">
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <User className="h-4 w-4" />
               <span className="hidden sm:inline">Profile</span>
@@ -354,6 +406,10 @@ export default function SettingsPage() {
               <Shield className="h-4 w-4" />
               <span className="hidden sm:inline">Security</span>
             </TabsTrigger>
+            <TabsTrigger value="sessions" className="flex items-center gap-2">
+              <Monitor className="h-4 w-4" />
+              <span className="hidden sm:inline">Sessions</span>
+            </TabsTrigger>
             <TabsTrigger value="notifications" className="flex items-center gap-2">
               <Bell className="h-4 w-4" />
               <span className="hidden sm:inline">Notifications</span>
@@ -433,6 +489,27 @@ export default function SettingsPage() {
                         </FormItem>
                       )}
                     />
+
+                    {isPatient && (
+                      <FormField
+                        control={profileForm.control}
+                        name="dateOfBirth"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Date of Birth</FormLabel>
+                            <FormControl>
+                              <Input type="date" disabled={!!user?.settings?.profile?.dateOfBirth} {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              {user?.settings?.profile?.dateOfBirth
+                                ? "Contact an administrator if this needs correcting."
+                                : "Decides whether you can add caregivers yourself. It can't be changed once saved."}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </form>
                 </Form>
               </CardContent>
@@ -462,6 +539,11 @@ export default function SettingsPage() {
                   <h3 className="text-lg font-medium">Change Password</h3>
                   <p className="text-sm text-muted-foreground mb-4">
                     Update your password to keep your account secure.
+                    {user?.settings?.security?.lastPasswordChange && (
+                      <> Last changed {formatDate(user.settings.security.lastPasswordChange)}
+                        {user.settings.security.passwordStrength && <>, strength: {user.settings.security.passwordStrength}</>}.
+                      </>
+                    )}
                   </p>
                   <Form {...securityForm}>
                     <form 
@@ -492,6 +574,7 @@ export default function SettingsPage() {
                             <FormControl>
                               <Input type="password" placeholder="Your new password" {...field} />
                             </FormControl>
+                            <PasswordRequirements password={field.value} />
                             <FormMessage />
                           </FormItem>
                         )}
@@ -526,67 +609,29 @@ export default function SettingsPage() {
                       onSubmit={advancedSecurityForm.handleSubmit(onAdvancedSecuritySubmit)}
                       className="space-y-4"
                     >
-                      <FormField
-                        control={advancedSecurityForm.control}
-                        name="twoFactorEnabled"
-                        render={({ field }) => (
-                          <div className="flex items-center justify-between">
-                            <div className="space-y-0.5">
-                              <div className="flex items-center">
-                                <Key className="h-4 w-4 mr-2" />
-                                <span className="text-sm font-medium">Two-Factor Authentication</span>
-                              </div>
-                              <p className="text-xs text-muted-foreground">
-                                Require a verification code when signing in
-                              </p>
-                            </div>
-                            <FormControl>
-                              <Switch 
-                                checked={field.value} 
-                                onCheckedChange={field.onChange} 
-                              />
-                            </FormControl>
-                          </div>
-                        )}
-                      />
-                      
-                      {advancedSecurityForm.watch("twoFactorEnabled") && (
-                        <div className="ml-6 border-l-2 pl-4 border-muted">
-                          <p className="text-sm mb-2">Choose verification method:</p>
-                          <div className="flex space-x-3">
-                            <Button 
-                              variant={advancedSecurityForm.watch("twoFactorMethod") === "sms" ? "default" : "outline"} 
-                              size="sm"
-                              type="button"
-                              onClick={() => advancedSecurityForm.setValue("twoFactorMethod", "sms")}
-                              className="flex items-center gap-1"
-                            >
-                              <Smartphone className="h-3 w-3" />
-                              <span>SMS</span>
-                            </Button>
-                            <Button 
-                              variant={advancedSecurityForm.watch("twoFactorMethod") === "email" ? "default" : "outline"} 
-                              size="sm"
-                              type="button"
-                              onClick={() => advancedSecurityForm.setValue("twoFactorMethod", "email")}
-                              className="flex items-center gap-1"
-                            >
-                              <Mail className="h-3 w-3" />
-                              <span>Email</span>
-                            </Button>
-                            <Button 
-                              variant={advancedSecurityForm.watch("twoFactorMethod") === "app" ? "default" : "outline"} 
-                              size="sm"
-                              type="button"
-                              onClick={() => advancedSecurityForm.setValue("twoFactorMethod", "app")}
-                              className="flex items-center gap-1"
-                            >
-                              <Key className="h-3 w-3" />
-                              <span>App</span>
-                            </Button>
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <div className="flex items-center">
+                            <Key className="h-4 w-4 mr-2" />
+                            <span className="text-sm font-medium">Two-Factor Authentication</span>
                           </div>
+                          <p className="text-xs text-muted-foreground">
+                            {twoFactorEnabled
+                              ? "A code from your authenticator app is required when signing in"
+                              : "Require a code from an authenticator app when signing in"}
+                          </p>
                         </div>
-                      )}
+                        <Button
+                          type="button"
+                          variant={twoFactorEnabled ? "outline" : "default"}
+                          size="sm"
+                          onClick={() => setTwoFactorDialogMode(twoFactorEnabled ? "disable" : "enable")}
+                          className="flex items-center gap-1"
+                        >
+                          <Smartphone className="h-3 w-3" />
+                          <span>{twoFactorEnabled ? "Disable" : "Set Up"}</span>
+                        </Button>
+                      </div>
 
                       <FormField
                         control={advancedSecurityForm.control}
@@ -644,9 +689,18 @@ export default function SettingsPage() {
                           </Button>
                         </div>
                         {user?.settings?.security?.recoveryCodesGenerated && (
-                          <div className="flex items-center text-xs rounded-md bg-muted p-2 text-muted-foreground">
+                          <div className={`flex items-center text-xs rounded-md p-2 ${
+                            remainingRecoveryCodes <= 2
+                              ? "bg-destructive/10 text-destructive"
+                              : "bg-muted text-muted-foreground"
+                          }`}>
                             <Info className="h-3.5 w-3.5 mr-1.5" />
-                            <span>Recovery codes are stored securely. Generate new ones to replace existing codes.</span>
+                            <span>
+                              {remainingRecoveryCodes} unused recovery {remainingRecoveryCodes === 1 ? "code" : "codes"} remaining.
+                              {remainingRecoveryCodes <= 2
+                                ? " Generate new codes so you don't get locked out."
+                                : " Generate new ones to replace existing codes."}
+                            </span>
                           </div>
                         )}
                       </div>
@@ -736,6 +790,32 @@ export default function SettingsPage() {
                           </div>
                         )}
                       />
+
+                      <FormField
+                        control={advancedSecurityForm.control}
+                        name="ipRestrictions"
+                        render={({ field }) => (
+                          <div className="space-y-2 pt-2">
+                            <div className="flex items-center">
+                              <Globe className="h-4 w-4 mr-2" />
+                              <span className="text-sm font-medium">Allowed IP Addresses</span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Only allow sign-in from these addresses or CIDR ranges, one per line
+                              (e.g. 203.0.113.0/24 or 2001:db8::/32). Leave empty to allow any network.
+                            </p>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="203.0.113.0/24"
+                                className="font-mono text-sm resize-none"
+                                rows={3}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </div>
+                        )}
+                      />
                     </form>
                   </Form>
                 </div>
@@ -762,6 +842,14 @@ export default function SettingsPage() {
                 </div>
               </CardFooter>
             </Card>
+
+            {can(Permission.SECURITY_MANAGE) && <SessionPolicyCard />}
+            {can(Permission.SECURITY_MANAGE) && <PasswordPolicyCard />}
+          </TabsContent>
+
+          {/* Sessions Tab */}
+          <TabsContent value="sessions">
+            <ActiveSessionsCard />
           </TabsContent>
 
           {/* Notifications Tab */}
@@ -829,7 +917,7 @@ export default function SettingsPage() {
                         )}
                       />
 
-                      {isPatient && (
+                      {(isPatient || isDoctor) && (
                         <FormField
                           control={notificationForm.control}
                           name="accessRequestAlerts"
@@ -841,7 +929,9 @@ export default function SettingsPage() {
                                   <FormLabel className="text-base">Access Request Alerts</FormLabel>
                                 </div>
                                 <FormDescription>
-                                  Get notified when a doctor requests access to your records
+                                  {isPatient
+                                    ? "Get notified when a doctor requests access to your records"
+                                    : "Get notified when patients respond to your access requests"}
                                 </FormDescription>
                               </div>
                               <FormControl>
@@ -878,6 +968,88 @@ export default function SettingsPage() {
                           </FormItem>
                         )}
                       />
+
+                      {isPatient && (
+                        <FormField
+                          control={notificationForm.control}
+                          name="newRecordAlerts"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                              <div className="space-y-0.5">
+                                <div className="flex items-center">
+                                  <FileText className="h-4 w-4 mr-2" />
+                                  <FormLabel className="text-base">New Record Alerts</FormLabel>
+                                </div>
+                                <FormDescription>
+                                  Get notified when your care team adds a record to your file
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch 
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      <div className="rounded-lg border p-4 space-y-4">
+                        <FormField
+                          control={notificationForm.control}
+                          name="quietHoursEnabled"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between">
+                              <div className="space-y-0.5">
+                                <div className="flex items-center">
+                                  <Moon className="h-4 w-4 mr-2" />
+                                  <FormLabel className="text-base">Quiet Hours</FormLabel>
+                                </div>
+                                <FormDescription>
+                                  Hold back notification emails overnight. They still appear in the app.
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch 
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        {notificationForm.watch("quietHoursEnabled") && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                              control={notificationForm.control}
+                              name="quietHoursStart"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>From</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={notificationForm.control}
+                              name="quietHoursEnd"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Until</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </form>
                 </Form>
@@ -896,6 +1068,13 @@ export default function SettingsPage() {
         </Tabs>
       </div>
 
+      {/* Two-Factor Setup Dialog */}
+      <TwoFactorDialog
+        isOpen={twoFactorDialogMode !== null}
+        mode={twoFactorDialogMode ?? "enable"}
+        onClose={() => setTwoFactorDialogMode(null)}
+      />
+
       {/* Recovery Codes Dialog */}
       <AlertDialog open={recoveryCodesDialogOpen} onOpenChange={setRecoveryCodesDialogOpen}>
         <AlertDialogContent className="max-w-md">
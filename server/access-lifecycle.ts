@@ -0,0 +1,154 @@
+import { storage } from "./storage";
+import { notifyAccessRequestChanged, notifyAccessRequestCreated } from "./notifications";
+import { publishAccessRequestChanged } from "./realtime";
+import {
+  AccessRequest,
+  AccessRequestAction,
+  AccessRequestActor,
+  AccessRequestActorType,
+  AccessRequestStatus,
+  AccessRequestTransitionType,
+  accessRequestTransitions
+} from "@shared/schema";
+
+// Every status change to an access request goes through here, so the rules in
+// accessRequestTransitions are enforced in one place and each change lands in
+// the request's history and notifies whoever it affects.
+
+// The person acting and every role they hold on this particular request, e.g. a
+// doctor who is also an admin in the patient's organisation
+export type AccessRequestActing = {
+  userId: number | null;
+  roles: AccessRequestActorType[];
+};
+
+export type TransitionResult =
+  | { accessRequest: AccessRequest; problem?: undefined; status?: undefined }
+  | { accessRequest?: undefined; problem: string; status: 403 | 409 };
+
+const pastTense: { [transition in AccessRequestTransitionType]: string } = {
+  approve: "approved",
+  deny: "denied",
+  cancel: "cancelled",
+  revoke: "revoked",
+  extend: "extended",
+  expire: "expired",
+  supersede: "superseded",
+};
+
+const actorNames: { [role in AccessRequestActorType]: string } = {
+  patient: "the patient",
+  requester: "the doctor who asked for access",
+  admin: "an administrator",
+  system: "the system",
+};
+
+export async function transitionAccessRequest(
+  accessRequest: AccessRequest,
+  transition: AccessRequestTransitionType,
+  acting: AccessRequestActing,
+  options: { reason?: string | null; update?: Partial<AccessRequest> } = {}
+): Promise<TransitionResult> {
+  const rule = accessRequestTransitions[transition];
+
+  const actorRole = rule.actors.find(role => acting.roles.includes(role));
+  if (!actorRole) {
+    const allowed = rule.actors.map(role => actorNames[role]).join(" or ");
+    return { problem: `Only ${allowed} can ${transition} this request`, status: 403 };
+  }
+  if (accessRequest.status !== rule.from) {
+    return { problem: `This request is ${accessRequest.status}, so it can't be ${pastTense[transition]}`, status: 409 };
+  }
+
+  const update: Partial<AccessRequest> = { ...options.update, status: rule.to };
+  // The grant's clock starts when the patient approves it
+  if (transition === AccessRequestAction.APPROVE && !update.expiryDate) {
+    const expiryDate = new Date();
+    expiryDate.setDate(expiryDate.getDate() + accessRequest.duration);
+    update.expiryDate = expiryDate;
+  }
+  // An extended grant gets a fresh reminder before its new end date
+  if (transition === AccessRequestAction.EXTEND) {
+    update.expiryReminderSentAt = null;
+  }
+
+  const updatedRequest = await storage.updateAccessRequestIfStatus(accessRequest.id, rule.from, update);
+  if (!updatedRequest) {
+    return { problem: "This request was changed by someone else. Reload it and try again.", status: 409 };
+  }
+
+  await storage.createAccessRequestHistoryEntry({
+    accessRequestId: accessRequest.id,
+    action: transition,
+    fromStatus: rule.from,
+    toStatus: rule.to,
+    actorId: acting.userId,
+    actorRole,
+    reason: options.reason ?? null,
+    expiryDate: updatedRequest.expiryDate
+  });
+  await notifyAccessRequestChanged(updatedRequest, transition);
+  await publishAccessRequestChanged(updatedRequest, false);
+  return { accessRequest: updatedRequest };
+}
+
+// Approving an extension makes it the grant: it takes the end date the patient
+// chose and the original's scope, and the original is marked superseded so the
+// doctor holds one grant at a time. Both keep their own history. The original
+// is superseded first, so a grant revoked or expired in the meantime stops the
+// approval instead of being brought back to life by it.
+export async function approveAccessExtension(
+  extension: AccessRequest,
+  original: AccessRequest,
+  acting: AccessRequestActing,
+  options: { reason?: string | null; expiryDate: Date }
+): Promise<TransitionResult> {
+  if (original.status !== AccessRequestStatus.APPROVED) {
+    return { problem: `The grant this extends is ${original.status}, so it can't be extended`, status: 409 };
+  }
+  if (extension.status !== AccessRequestStatus.PENDING) {
+    return { problem: `This request is ${extension.status}, so it can't be approved`, status: 409 };
+  }
+
+  const superseded = await transitionAccessRequest(original, AccessRequestAction.SUPERSEDE, acting, {
+    reason: `Replaced by extension ${extension.id}`
+  });
+  if (superseded.problem) {
+    return superseded.status === 409
+      ? { problem: "The grant this extends was changed by someone else. Reload it and try again.", status: 409 }
+      : superseded;
+  }
+
+  return transitionAccessRequest(extension, AccessRequestAction.APPROVE, acting, {
+    reason: options.reason,
+    update: {
+      expiryDate: options.expiryDate,
+      limitedScope: original.limitedScope,
+      scope: original.scope
+    }
+  });
+}
+
+// The first history entry, for a request that has just been created
+export async function recordAccessRequestCreated(
+  accessRequest: AccessRequest,
+  action:
+    | typeof AccessRequestAction.REQUEST
+    | typeof AccessRequestAction.REDEEM_SHARE_CODE
+    | typeof AccessRequestAction.REQUEST_EXTENSION,
+  actorId: number,
+  reason?: string
+) {
+  await storage.createAccessRequestHistoryEntry({
+    accessRequestId: accessRequest.id,
+    action,
+    fromStatus: null,
+    toStatus: accessRequest.status,
+    actorId,
+    actorRole: AccessRequestActor.REQUESTER,
+    reason: reason ?? null,
+    expiryDate: accessRequest.expiryDate
+  });
+  await notifyAccessRequestCreated(accessRequest, action);
+  await publishAccessRequestChanged(accessRequest, true);
+}
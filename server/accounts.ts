@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { validateNewPassword, recordPasswordChange } from "./password-policy";
+import { User, UserRoleType } from "@shared/schema";
+
+// Only these fields are ever taken from a sign-up or account-creation request
+export const accountDetailsSchema = z.object({
+  username: z.string({ required_error: "Username is required" }).trim().min(3, "Username must be at least 3 characters"),
+  password: z.string({ required_error: "Password is required" }),
+  fullName: z.string({ required_error: "Full name is required" }).trim().min(1, "Full name is required"),
+  email: z.string({ required_error: "Email is required" }).trim().email("Please enter a valid email"),
+  phone: z.string().trim().optional(),
+  specialty: z.string().trim().optional(),
+});
+
+export type AccountDetails = z.infer<typeof accountDetailsSchema>;
+
+export type CreateAccountResult =
+  | { user: User; problems?: undefined }
+  | { user?: undefined; problems: string[] };
+
+// Shared by patient self-registration, doctor applications and admin-created
+// accounts. The role is always decided by the caller, never by the request.
+export async function createAccount(details: AccountDetails, role: UserRoleType): Promise<CreateAccountResult> {
+  if (await storage.getUserByUsername(details.username)) {
+    return { problems: ["Username already exists"] };
+  }
+  if (await storage.getUserByEmail(details.email)) {
+    return { problems: ["Email already exists"] };
+  }
+
+  const problems = await validateNewPassword(details.password, {
+    username: details.username,
+    email: details.email
+  });
+  if (problems.length > 0) return { problems };
+
+  const passwordHash = await hashPassword(details.password);
+  const createdUser = await storage.createUser({
+    username: details.username,
+    password: passwordHash,
+    role,
+    fullName: details.fullName,
+    email: details.email,
+    phone: details.phone || null,
+    specialty: details.specialty || null
+  });
+  const user = (await recordPasswordChange(createdUser.id, passwordHash, details.password)) ?? createdUser;
+  return { user };
+}
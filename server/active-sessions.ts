@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage, StoredSession } from "./storage";
+import { ActiveSession } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // Details shown in the user's list of active sessions
+    createdAt?: number;
+    userAgent?: string;
+    ipAddress?: string;
+  }
+}
+
+// The session id is what the cookie carries, so clients only ever see a hash of it
+export function sessionHandle(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Remember where a freshly logged-in session came from
+export function recordSessionDetails(req: Request) {
+  req.session.createdAt = Date.now();
+  req.session.userAgent = req.get("user-agent");
+  req.session.ipAddress = req.ip;
+}
+
+// Keep the listed IP and user agent current as the client moves networks
+export function trackSessionClient(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    const userAgent = req.get("user-agent");
+    if (req.session.ipAddress !== req.ip) req.session.ipAddress = req.ip;
+    if (req.session.userAgent !== userAgent) req.session.userAgent = userAgent;
+  }
+  next();
+}
+
+function toActiveSession(stored: StoredSession, currentSid: string): ActiveSession {
+  const { data } = stored;
+  return {
+    id: sessionHandle(stored.sid),
+    userAgent: data.userAgent ?? null,
+    ipAddress: data.ipAddress ?? null,
+    createdAt: data.createdAt ? new Date(data.createdAt).toISOString() : null,
+    lastSeenAt: data.lastActivity ? new Date(data.lastActivity).toISOString() : null,
+    expiresAt: stored.expiresAt.toISOString(),
+    current: stored.sid === currentSid
+  };
+}
+
+// The user's sessions, most recently used first
+export async function listUserSessions(userId: number, currentSid: string): Promise<ActiveSession[]> {
+  const sessions = await storage.getSessionsByUserId(userId);
+  return sessions
+    .map(stored => toActiveSession(stored, currentSid))
+    .sort((a, b) => (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+}
+
+// Find one of the user's sessions by the handle it was listed under
+export async function findUserSession(userId: number, handle: string): Promise<StoredSession | undefined> {
+  const sessions = await storage.getSessionsByUserId(userId);
+  return sessions.find(stored => sessionHandle(stored.sid) === handle);
+}
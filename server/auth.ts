@@ -1,11 +1,40 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Response } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole } from "@shared/schema";
+import { verifyTotp } from "./totp";
+import { hashRecoveryCode } from "./recovery-codes";
+import { isIpAllowed } from "./ip-restrictions";
+import { raiseSecurityAlert } from "./security-alerts";
+import { enforceIdleTimeout, startSessionClock } from "./session-policy";
+import { recordSessionDetails, trackSessionClient } from "./active-sessions";
+import { getLoginLockout, recordLoginFailure, clearAccountFailures } from "./login-throttle";
+import { mailTransport } from "./mailer";
+import { publishSessionsRevoked } from "./realtime";
+import { accountDetailsSchema, createAccount } from "./accounts";
+import {
+  generateResetToken,
+  hashResetToken,
+  buildResetUrl,
+  RESET_TOKEN_TTL_MS,
+  RESET_REQUEST_COOLDOWN_MS
+} from "./password-reset";
+import {
+  validateNewPassword,
+  setUserPassword,
+  isPasswordExpired,
+  enforcePasswordExpiry
+} from "./password-policy";
+import { z } from "zod";
+import {
+  User as SelectUser,
+  UserRole,
+  DoctorVerificationStatus,
+  DEFAULT_SESSION_TIMEOUT_MINUTES
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,6 +42,23 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for an account with two-factor enabled;
+    // the user is only logged in once a valid code is supplied
+    pendingSecondFactor?: {
+      userId: number;
+      expiresAt: number;
+      attempts: number;
+    };
+  }
+}
+
+// How long a password-verified login may wait for its second factor
+const SECOND_FACTOR_TIMEOUT_MS = 5 * 60 * 1000;
+// Failed codes allowed before the pending login is discarded
+const MAX_SECOND_FACTOR_ATTEMPTS = 5;
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -28,21 +74,101 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Account state the client acts on beyond the user's own fields. Unverified
+// doctors are steered to the verification page instead of patient lists.
+async function getAccountStatus(user: SelectUser) {
+  const doctorProfile = user.role === UserRole.DOCTOR ? await storage.getDoctorProfile(user.id) : undefined;
+  return {
+    passwordExpired: await isPasswordExpired(user),
+    ...(user.role === UserRole.DOCTOR
+      ? { doctorVerificationStatus: doctorProfile?.verificationStatus ?? null }
+      : {})
+  };
+}
+
+// Fields returned to the client after register/login
+async function toUserResponse(user: SelectUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    email: user.email,
+    role: user.role,
+    specialty: user.specialty,
+    settings: user.settings,
+    ...(await getAccountStatus(user))
+  };
+}
+
+// Audit and alert on a request from outside the user's allowed IP ranges
+async function recordBlockedIp(user: SelectUser, ip: string | undefined, context: string) {
+  await storage.createAuditLog({
+    userId: user.id,
+    action: "ip_blocked",
+    details: `${context} blocked: ${ip || "unknown"} is outside the allowed IP ranges`,
+    ipAddress: ip
+  });
+  await raiseSecurityAlert({
+    userId: user.id,
+    event: "ip_blocked",
+    details: `${context} attempted from unrecognised address ${ip || "unknown"}`,
+    ipAddress: ip
+  });
+}
+
+// Refuse a sign-in attempt from a locked account or address
+function sendLockedOut(res: Response, lockedUntil: Date) {
+  const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  res.set("Retry-After", String(retryAfterSeconds));
+  res.status(429).send(`Too many failed sign-in attempts. Try again in ${minutes} ${minutes === 1 ? "minute" : "minutes"}.`);
+}
+
+// Count a failed password or code against the account and address, raising an
+// alert when this failure locks the account. Returns the lockout, if any.
+async function recordFailedAttempt(user: SelectUser | undefined, ip: string | undefined, reason: string) {
+  const throttle = await recordLoginFailure(user?.id, ip);
+  if (!user || !throttle) return null;
+  
+  await storage.createAuditLog({
+    userId: user.id,
+    action: "login_failed",
+    details: `${reason} (${throttle.failedAttempts} consecutive ${throttle.failedAttempts === 1 ? "failure" : "failures"})` +
+      (throttle.lockedUntil ? `; account locked until ${throttle.lockedUntil.toISOString()}` : ""),
+    ipAddress: ip
+  });
+  
+  if (throttle.lockedUntil) {
+    await raiseSecurityAlert({
+      userId: user.id,
+      event: "account_locked",
+      details: `Sign-in locked after ${throttle.failedAttempts} failed attempts`,
+      ipAddress: ip
+    });
+  }
+  return throttle.lockedUntil;
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "medivault-secret-key",
     resave: false,
     saveUninitialized: false,
+    // Re-send the cookie on every response so its expiry follows user activity
+    rolling: true,
     store: storage.sessionStore,
     cookie: {
-      maxAge: 1000 * 60 * 60 * 24, // 24 hours
+      // Replaced with the user's idle timeout once they log in
+      maxAge: DEFAULT_SESSION_TIMEOUT_MINUTES * 60 * 1000,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax"
     }
   };
 
+  const sessionParser = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -63,24 +189,49 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
+  // Enforce the user's IP restrictions on every authenticated request. req.ip
+  // already honours the "trust proxy" setting above. Offending sessions are ended.
+  app.use(async (req, res, next) => {
+    if (!req.isAuthenticated() || !req.user) return next();
+    if (isIpAllowed(req.ip, req.user.settings?.security?.ipRestrictions)) return next();
+    
+    try {
+      await recordBlockedIp(req.user, req.ip, "Request");
+      req.logout((err) => {
+        if (err) return next(err);
+        res.status(403).json({ message: "Access from this network is not allowed for this account" });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // End sessions that have been idle longer than the user's configured timeout
+  app.use(enforceIdleTimeout);
+  
+  // Keep each session's last IP and device current for the active sessions list
+  app.use(trackSessionClient);
+  
+  // Users with an expired password may only change it
+  app.use(enforcePasswordExpiry);
+
+  // Public sign-up is for patients only. Doctors apply through
+  // /api/register/doctor; every other role is granted by an admin.
   app.post("/api/register", async (req, res, next) => {
     try {
-      // Check if username or email already exists
-      const existingUsername = await storage.getUserByUsername(req.body.username);
-      if (existingUsername) {
-        return res.status(400).send("Username already exists");
+      if (req.body.role !== undefined && req.body.role !== UserRole.PATIENT) {
+        return res.status(403).send("Public registration is for patients only");
       }
       
-      const existingEmail = await storage.getUserByEmail(req.body.email);
-      if (existingEmail) {
-        return res.status(400).send("Email already exists");
+      const details = accountDetailsSchema.omit({ specialty: true }).safeParse(req.body);
+      if (!details.success) {
+        return res.status(400).send(details.error.errors.map(e => e.message).join(". "));
+      }
+      
+      const { user, problems } = await createAccount(details.data, UserRole.PATIENT);
+      if (!user) {
+        return res.status(400).send(problems.join(". "));
       }
-
-      // Create new user with hashed password
-      const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-      });
 
       // Log the registration
       await storage.createAuditLog({
@@ -91,50 +242,364 @@ export function setupAuth(app: Express) {
       });
 
       // Log in the newly registered user
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) return next(err);
-        res.status(201).json({
-          id: user.id,
-          username: user.username,
-          fullName: user.fullName,
-          email: user.email,
-          role: user.role,
-          specialty: user.specialty,
-          settings: user.settings
-        });
+        try {
+          await startSessionClock(req, user);
+          recordSessionDetails(req);
+          res.status(201).json(await toUserResponse(user));
+        } catch (error) {
+          next(error);
+        }
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  // Doctor sign-up. The account is created with its credentials awaiting review and
+  // is logged in so the doctor can upload supporting documents straight away.
+  app.post("/api/register/doctor", async (req, res, next) => {
+    try {
+      const application = accountDetailsSchema.extend({
+        specialty: z.string({ required_error: "Specialty is required" }).trim().min(1, "Specialty is required"),
+        licenseNumber: z.string({ required_error: "Licence number is required" }).trim()
+          .min(3, "Licence number must be at least 3 characters")
+          .max(50, "Licence number must be at most 50 characters"),
+        issuingAuthority: z.string({ required_error: "Issuing authority is required" }).trim()
+          .min(2, "Issuing authority is required")
+          .max(100, "Issuing authority must be at most 100 characters"),
+      }).safeParse(req.body);
+      if (!application.success) {
+        return res.status(400).send(application.error.errors.map(e => e.message).join(". "));
+      }
+      
+      const { user, problems } = await createAccount(application.data, UserRole.DOCTOR);
+      if (!user) {
+        return res.status(400).send(problems.join(". "));
+      }
+      
+      await storage.createDoctorProfile({
+        userId: user.id,
+        licenseNumber: application.data.licenseNumber,
+        issuingAuthority: application.data.issuingAuthority,
+        verificationStatus: DoctorVerificationStatus.PENDING,
+        submittedAt: new Date()
+      });
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "doctor_application_submitted",
+        details: `Doctor application submitted with licence ${application.data.licenseNumber} issued by ${application.data.issuingAuthority}`,
+        ipAddress: req.ip
+      });
+      
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        try {
+          await startSessionClock(req, user);
+          recordSessionDetails(req);
+          res.status(201).json(await toUserResponse(user));
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", async (req, res, next) => {
+    // Locked accounts and addresses are refused before the password is even checked
+    let account: SelectUser | undefined;
+    try {
+      const username = typeof req.body.username === "string" ? req.body.username : "";
+      account = username ? await storage.getUserByUsername(username) : undefined;
+      
+      const lockedUntil = await getLoginLockout(account?.id, req.ip);
+      if (lockedUntil) {
+        if (account) {
+          await storage.createAuditLog({
+            userId: account.id,
+            action: "login_failed",
+            details: `Sign-in refused while locked until ${lockedUntil.toISOString()}`,
+            ipAddress: req.ip
+          });
+        }
+        return sendLockedOut(res, lockedUntil);
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
     passport.authenticate("local", async (err: Error, user: SelectUser) => {
       if (err) return next(err);
-      if (!user) return res.status(401).send("Invalid username or password");
+      try {
+        if (!user) {
+          const lockedUntil = await recordFailedAttempt(account, req.ip, "Invalid password");
+          if (lockedUntil) return sendLockedOut(res, lockedUntil);
+          return res.status(401).send("Invalid username or password");
+        }
+        
+        // Checked only after the password so the restriction isn't revealed to guessers
+        if (!isIpAllowed(req.ip, user.settings?.security?.ipRestrictions)) {
+          await recordBlockedIp(user, req.ip, "Login");
+          return res.status(403).send("Sign-in from this network is not allowed for this account");
+        }
+        
+        // Accounts with an authenticator app enrolled must complete a second step.
+        // The session is regenerated and only remembers who is mid-login.
+        const credential = await storage.getTwoFactorCredential(user.id);
+        if (credential?.enabledAt) {
+          return req.session.regenerate((regenerateErr) => {
+            if (regenerateErr) return next(regenerateErr);
+            req.session.pendingSecondFactor = {
+              userId: user.id,
+              expiresAt: Date.now() + SECOND_FACTOR_TIMEOUT_MS,
+              attempts: 0
+            };
+            req.session.save((saveErr) => {
+              if (saveErr) return next(saveErr);
+              res.status(200).json({ twoFactorRequired: true });
+            });
+          });
+        }
+        
+        req.login(user, async (loginErr) => {
+          if (loginErr) return next(loginErr);
+          try {
+            await startSessionClock(req, user);
+            recordSessionDetails(req);
+            await clearAccountFailures(user.id);
+            
+            // Log the login
+            await storage.createAuditLog({
+              userId: user.id,
+              action: "user_login",
+              details: `User logged in with role: ${user.role}`,
+              ipAddress: req.ip
+            });
+            
+            res.status(200).json(await toUserResponse(user));
+          } catch (error) {
+            next(error);
+          }
+        });
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  // Second step of login: exchange a TOTP code, or a single-use recovery code, for a full session
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingSecondFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingSecondFactor;
+        return res.status(401).send("Your sign-in has expired. Please log in again.");
+      }
       
-      req.login(user, async (loginErr) => {
-        if (loginErr) return next(loginErr);
+      const code = typeof req.body.code === "string" ? req.body.code : "";
+      const recoveryCode = typeof req.body.recoveryCode === "string" ? req.body.recoveryCode : "";
+      const user = await storage.getUser(pending.userId);
+      const credential = await storage.getTwoFactorCredential(pending.userId);
+      if (!user || !credential?.enabledAt) {
+        delete req.session.pendingSecondFactor;
+        return res.status(401).send("Your sign-in has expired. Please log in again.");
+      }
+      
+      const lockedUntil = await getLoginLockout(user.id, req.ip);
+      if (lockedUntil) {
+        delete req.session.pendingSecondFactor;
+        return sendLockedOut(res, lockedUntil);
+      }
+      
+      let verified = false;
+      if (recoveryCode) {
+        verified = await storage.useRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+        if (verified) {
+          const remaining = await storage.getRemainingRecoveryCodeCount(user.id);
+          await storage.createAuditLog({
+            userId: user.id,
+            action: "recovery_code_used",
+            details: `Recovery code used to sign in (${remaining} remaining)`,
+            ipAddress: req.ip
+          });
+        }
+      } else {
+        const step = verifyTotp(credential.secret, code, credential.lastUsedStep);
+        if (step !== null) {
+          verified = true;
+          await storage.updateTwoFactorCredential(user.id, { lastUsedStep: step });
+        }
+      }
+      
+      if (!verified) {
+        pending.attempts++;
+        const exhausted = pending.attempts >= MAX_SECOND_FACTOR_ATTEMPTS;
+        if (exhausted) delete req.session.pendingSecondFactor;
         
-        // Log the login
         await storage.createAuditLog({
           userId: user.id,
-          action: "user_login",
-          details: `User logged in with role: ${user.role}`,
+          action: "two_factor_failed",
+          details: `Invalid ${recoveryCode ? "recovery" : "two-factor"} code (attempt ${pending.attempts})`,
           ipAddress: req.ip
         });
         
-        return res.status(200).json({
-          id: user.id,
-          username: user.username,
-          fullName: user.fullName,
-          email: user.email,
-          role: user.role,
-          specialty: user.specialty,
-          settings: user.settings
+        // Wrong codes also count towards the account lockout
+        const lockedUntil = await recordFailedAttempt(user, req.ip, "Invalid second factor");
+        if (lockedUntil) {
+          delete req.session.pendingSecondFactor;
+          return sendLockedOut(res, lockedUntil);
+        }
+        
+        return res.status(401).send(exhausted
+          ? "Too many invalid codes. Please log in again."
+          : "Invalid verification code");
+      }
+      
+      delete req.session.pendingSecondFactor;
+      
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          await startSessionClock(req, user);
+          recordSessionDetails(req);
+          await clearAccountFailures(user.id);
+          
+          await storage.createAuditLog({
+            userId: user.id,
+            action: "user_login",
+            details: `User logged in with role: ${user.role} (${recoveryCode ? "recovery code" : "two-factor verified"})`,
+            ipAddress: req.ip
+          });
+          
+          res.status(200).json(await toUserResponse(user));
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Email a single-use reset link. The response is the same whether or not the
+  // address matches an account, so this can't be used to discover accounts.
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+      if (!email) return res.status(400).send("Email is required");
+      
+      const user = await storage.getUserByEmail(email);
+      if (user?.email) {
+        const latest = await storage.getLatestPasswordResetToken(user.id);
+        const coolingDown = latest?.createdAt &&
+          Date.now() - latest.createdAt.getTime() < RESET_REQUEST_COOLDOWN_MS;
+        
+        if (!coolingDown) {
+          const token = generateResetToken();
+          await storage.createPasswordResetToken(
+            user.id,
+            hashResetToken(token),
+            new Date(Date.now() + RESET_TOKEN_TTL_MS)
+          );
+          
+          await mailTransport.send({
+            to: user.email,
+            subject: "Reset your MediVault password",
+            text: [
+              `Hello ${user.fullName || user.username},`,
+              "",
+              "Someone asked to reset the password for your MediVault account.",
+              `Use this link within ${RESET_TOKEN_TTL_MS / 60000} minutes to choose a new password:`,
+              "",
+              buildResetUrl(req, token),
+              "",
+              "If you didn't ask for this, you can ignore this email; your password won't change."
+            ].join("\n")
+          });
+          
+          await storage.createAuditLog({
+            userId: user.id,
+            action: "password_reset_requested",
+            details: "Password reset link emailed",
+            ipAddress: req.ip
+          });
+        }
+      }
+      
+      res.status(200).json({ message: "If an account matches that email, a reset link is on its way." });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Set a new password with an emailed token, then sign the account out everywhere
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const token = typeof req.body.token === "string" ? req.body.token : "";
+      const password = typeof req.body.password === "string" ? req.body.password : "";
+      
+      const tokenHash = hashResetToken(token);
+      const resetToken = token ? await storage.getPasswordResetToken(tokenHash) : undefined;
+      const owner = resetToken && !resetToken.usedAt && resetToken.expiresAt > new Date()
+        ? await storage.getUser(resetToken.userId)
+        : undefined;
+      if (!owner) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+      
+      // Checked before the token is used up so a rejected password doesn't waste the link
+      const problems = await validateNewPassword(password, { user: owner });
+      if (problems.length > 0) {
+        return res.status(400).send(problems.join(". "));
+      }
+      
+      // Using the token is atomic, so the same link can't complete two resets
+      if (!(await storage.usePasswordResetToken(tokenHash))) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+      
+      const user = await setUserPassword(owner.id, password);
+      if (!user) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+      
+      // Whoever knew the old password may still be signed in
+      const revoked = await storage.deleteSessionsByUserId(user.id);
+      publishSessionsRevoked(user.id);
+      await clearAccountFailures(user.id);
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "password_reset_completed",
+        details: `Password reset with emailed link; ${revoked} active ${revoked === 1 ? "session" : "sessions"} signed out`,
+        ipAddress: req.ip
+      });
+      
+      if (user.email) {
+        await mailTransport.send({
+          to: user.email,
+          subject: "Your MediVault password was changed",
+          text: [
+            `Hello ${user.fullName || user.username},`,
+            "",
+            "The password for your MediVault account was just reset, and all devices were signed out.",
+            "If this wasn't you, contact your administrator immediately."
+          ].join("\n")
         });
+      }
+      
+      // The browser completing the reset may itself hold a session for the account
+      req.session.destroy((err) => {
+        if (err) return next(err);
+        res.status(200).json({ message: "Your password has been reset. You can now sign in." });
       });
-    })(req, res, next);
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/logout", async (req, res, next) => {
@@ -155,12 +620,19 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
-    // Don't send password to client
-    const { password, ...user } = req.user;
-    console.log('Current user in session:', user);
-    res.json(user);
+    try {
+      // Don't send password to client
+      const { password, ...user } = req.user;
+      console.log('Current user in session:', user);
+      res.json({ ...user, ...(await getAccountStatus(req.user)) });
+    } catch (error) {
+      next(error);
+    }
   });
+
+  // Also used to authenticate the realtime WebSocket
+  return sessionParser;
 }
@@ -0,0 +1,55 @@
+// Frequently used passwords, checked case-insensitively when a password is set.
+// Compiled from public breach corpora; kept in the bundle so the check works offline.
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111", "1234567",
+  "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein", "696969", "shadow",
+  "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890", "michael", "654321",
+  "superman", "1qaz2wsx", "7777777", "121212", "000000", "qazwsx", "123qwe", "killer", "trustno1",
+  "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter", "buster", "soccer", "harley", "batman",
+  "andrew", "tigger", "sunshine", "iloveyou", "2000", "charlie", "robert", "thomas", "hockey",
+  "ranger", "daniel", "starwars", "klaster", "112233", "george", "computer", "michelle", "jessica",
+  "pepper", "1111", "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass",
+  "maggie", "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer",
+  "love", "ashley", "nicole", "chelsea", "matthew", "access", "yankees", "987654321", "dallas",
+  "austin", "thunder", "taylor", "matrix", "william", "corvette", "hello", "martin", "heather",
+  "secret", "merlin", "diamond", "1234qwer", "gfhjkm", "hammer", "silver", "222222", "88888888",
+  "anthony", "justin", "test", "bailey", "q1w2e3r4t5", "patrick", "internet", "scooter", "orange",
+  "11111", "golfer", "cookie", "richard", "samantha", "bigdog", "guitar", "jackson", "whatever",
+  "mickey", "chicken", "sparky", "snoopy", "maverick", "phoenix", "camaro", "peanut", "morgan",
+  "welcome", "falcon", "cowboy", "ferrari", "samsung", "andrea", "smokey", "steelers", "joseph",
+  "mercedes", "dakota", "arsenal", "eagles", "melissa", "boomer", "booboo", "spider", "nascar",
+  "monster", "tigers", "yellow", "xxxxxx", "123123123", "gateway", "marina", "diablo", "bulldog",
+  "qwer1234", "compaq", "purple", "banana", "junior", "hannah", "123654", "porsche", "lakers",
+  "iceman", "money", "cowboys", "987654", "london", "tennis", "999999", "ncc1701", "coffee",
+  "scooby", "0000", "miller", "boston", "q1w2e3r4", "brandon", "yamaha", "chester", "mother",
+  "forever", "johnny", "edward", "333333", "oliver", "redsox", "player", "nikita", "knight",
+  "fender", "barney", "midnight", "please", "brandy", "chicago", "badboy", "slayer", "rangers",
+  "charles", "angel", "flower", "bigdaddy", "rabbit", "wizard", "jasper", "enter", "rachel",
+  "chris", "steven", "winner", "adidas", "victoria", "natasha", "1q2w3e4r", "jasmine", "winter",
+  "prince", "marine", "ghbdtn", "fishing", "cocacola", "casper", "james", "232323", "raiders",
+  "888888", "marlboro", "gandalf", "asdfasdf", "crystal", "87654321", "12344321", "golden",
+  "8675309", "panther", "lauren", "angela", "thx1138", "angels", "madison", "winston", "shannon",
+  "mike", "toyota", "jordan23", "canada", "sophie", "apples", "tiger", "hahaha", "1q2w3e",
+  "1qazxsw2", "zaq12wsx", "zaq1zaq1", "password1", "password12", "password123", "password1234",
+  "passw0rd", "p@ssw0rd", "p@ssword", "pa55word", "pa55w0rd", "qwerty123", "qwerty1", "qwerty12",
+  "qwerty1234", "qwertyui", "asdfghjkl", "asdf1234", "zxcvbnm1", "abcd1234", "abcdef", "abcdefg",
+  "abcdefgh", "1q2w3e4r5t", "1q2w3e4r5t6y", "aa123456", "a123456", "a12345678", "123abc",
+  "abc12345", "abcabc", "iloveyou1", "iloveyou2", "loveyou", "lovely", "welcome1", "welcome123",
+  "letmein1", "letmein123", "admin", "admin1", "admin123", "admin1234", "administrator", "root",
+  "toor", "changeme", "changeme1", "default", "guest", "login", "login123", "user", "user123",
+  "test123", "test1234", "testing", "qazwsxedc", "1qaz2wsx3edc", "!qaz2wsx", "1qaz!qaz", "monkey1",
+  "monkey123", "dragon1", "sunshine1", "princess1", "football1", "baseball1", "superman1",
+  "batman1", "shadow1", "master1", "master123", "michael1", "jordan1", "jennifer1", "charlie1",
+  "hello123", "hello1", "hellohello", "secret1", "secret123", "freedom1", "whatever1", "starwars1",
+  "summer1", "summer2020", "summer2021", "summer2022", "summer2023", "summer2024", "summer2025",
+  "winter2020", "winter2021", "winter2022", "winter2023", "winter2024", "winter2025", "spring2024",
+  "autumn2024", "january", "february", "march", "april", "may", "june", "july", "august",
+  "september", "october", "november", "december", "monday", "friday", "11223344", "12341234",
+  "12121212", "123454321", "1234554321", "123456a", "123456q", "123456qwerty", "1234567a",
+  "123456789a", "0123456789", "147258369", "159357", "741852963", "789456123", "147258",
+  "963852741", "00000000", "99999999", "12qwaszx", "q1w2e3", "qwe123", "qweasd", "qweasdzxc",
+  "zxc123", "asd123", "55555555", "aaaaaaaa", "1password", "mypassword", "mypass", "passpass",
+  "secretpassword", "superpassword", "nopassword", "letmeinnow", "iamthebest", "trustme", "doctor",
+  "nurse", "hospital", "health", "medical", "patient", "clinic", "medicine", "medivault",
+  "healthcare"
+];
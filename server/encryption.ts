@@ -0,0 +1,113 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Envelope encryption for record attachments.
+// Each attachment is encrypted with its own random data key (AES-256-GCM), and that
+// data key is stored wrapped (encrypted) by a master key taken from configuration.
+// Rotating the master key only re-wraps data keys; file bodies are never re-encrypted.
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+type MasterKeyring = {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+// Parse RECORD_MASTER_KEYS ("keyId:base64key,keyId:base64key") and RECORD_MASTER_KEY_ID.
+// Retired keys stay listed so existing data keys can still be unwrapped until re-wrapped.
+function loadMasterKeys(): MasterKeyring {
+  const configured = process.env.RECORD_MASTER_KEYS;
+
+  if (!configured) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(
+        "RECORD_MASTER_KEYS must be set. Did you forget to configure the attachment master key?",
+      );
+    }
+    console.warn("RECORD_MASTER_KEYS is not set; using an insecure development master key");
+    return {
+      currentKeyId: "dev",
+      keys: new Map([["dev", createHash("sha256").update("medivault-dev-master-key").digest()]]),
+    };
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of configured.split(",")) {
+    const [keyId, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded || "", "base64");
+    if (!keyId || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid master key entry "${keyId}": expected keyId:<32 bytes base64>`);
+    }
+    keys.set(keyId, key);
+  }
+
+  // Default to the last listed key so appending a new key rotates to it
+  const currentKeyId = process.env.RECORD_MASTER_KEY_ID || Array.from(keys.keys()).pop()!;
+  if (!keys.has(currentKeyId)) {
+    throw new Error(`RECORD_MASTER_KEY_ID "${currentKeyId}" is not listed in RECORD_MASTER_KEYS`);
+  }
+
+  return { currentKeyId, keys };
+}
+
+const keyring = loadMasterKeys();
+
+function getMasterKey(keyId: string): Buffer {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Master key "${keyId}" is not configured`);
+  }
+  return key;
+}
+
+export function getCurrentMasterKeyId(): string {
+  return keyring.currentKeyId;
+}
+
+// Encrypt a data key under a master key; output is base64(iv | tag | ciphertext)
+function wrapKey(dataKey: Buffer, keyId: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getMasterKey(keyId), iv);
+  const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+export function unwrapDataKey(wrappedKey: string, keyId: string): Buffer {
+  const raw = Buffer.from(wrappedKey, "base64");
+  const iv = raw.subarray(0, IV_BYTES);
+  const tag = raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const ciphertext = raw.subarray(IV_BYTES + TAG_BYTES);
+
+  const decipher = createDecipheriv(ALGORITHM, getMasterKey(keyId), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// Generate a fresh data key, returning it alongside its wrapped form for storage
+export function createDataKey() {
+  const dataKey = randomBytes(KEY_BYTES);
+  const keyId = keyring.currentKeyId;
+  return { dataKey, keyId, wrappedKey: wrapKey(dataKey, keyId) };
+}
+
+// Re-wrap a stored data key under the current master key
+export function rewrapDataKey(wrappedKey: string, keyId: string) {
+  const dataKey = unwrapDataKey(wrappedKey, keyId);
+  const currentKeyId = keyring.currentKeyId;
+  return { keyId: currentKeyId, wrappedKey: wrapKey(dataKey, currentKeyId) };
+}
+
+// Streaming cipher for a file body; read the auth tag with getAuthTag() once it ends
+export function createEncryptStream(dataKey: Buffer) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, dataKey, iv);
+  return { cipher, iv: iv.toString("base64") };
+}
+
+export function createDecryptStream(dataKey: Buffer, iv: string, authTag: string) {
+  const decipher = createDecipheriv(ALGORITHM, dataKey, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return decipher;
+}
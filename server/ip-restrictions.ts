@@ -0,0 +1,53 @@
+import { BlockList, isIP } from "net";
+
+// Per-user IP allow-lists from SecuritySettings.ipRestrictions.
+// Entries are single addresses or CIDR ranges, IPv4 or IPv6.
+
+// Clients reached over a dual-stack socket show up as IPv4-mapped IPv6 (::ffff:10.0.0.1)
+export function normalizeIp(ip: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  return mapped ? mapped[1] : ip;
+}
+
+function parseEntry(entry: string): { address: string; prefix?: number; family: "ipv4" | "ipv6" } | null {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const address = normalizeIp(rawAddress);
+  const version = isIP(address);
+  if (version === 0) return null;
+  const family = version === 4 ? "ipv4" : "ipv6";
+
+  if (rawPrefix === undefined) return { address, family };
+  if (!/^\d+$/.test(rawPrefix)) return null;
+  const prefix = parseInt(rawPrefix, 10);
+  if (prefix > (version === 4 ? 32 : 128)) return null;
+  return { address, prefix, family };
+}
+
+export function isValidIpRestriction(entry: string): boolean {
+  return parseEntry(entry) !== null;
+}
+
+// An empty or missing list means no restriction. Invalid entries never match.
+export function isIpAllowed(ip: string | undefined, restrictions: string[] | null | undefined): boolean {
+  if (!restrictions || restrictions.length === 0) return true;
+  if (!ip) return false;
+
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+  if (version === 0) return false;
+
+  const allowList = new BlockList();
+  for (const entry of restrictions) {
+    const parsed = parseEntry(entry);
+    if (!parsed) continue;
+    if (parsed.prefix === undefined) {
+      allowList.addAddress(parsed.address, parsed.family);
+    } else {
+      allowList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return allowList.check(address, version === 4 ? "ipv4" : "ipv6");
+}
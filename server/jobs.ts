@@ -0,0 +1,230 @@
+import { storage } from "./storage";
+import { notifyUser } from "./notifications";
+import { transitionAccessRequest } from "./access-lifecycle";
+import { applyRetentionPolicy } from "./retention-policy";
+import {
+  AccessRequestAction,
+  AccessRequestActor,
+  JobRun,
+  JobRunStatus,
+  NotificationCategory
+} from "@shared/schema";
+
+// In-process scheduler for expiry and housekeeping. Every server checks once a
+// minute for jobs that are due. Job state lives in the database, so a restart
+// picks up where the last run left off, and each job is written so that running
+// it twice does no harm.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TICK_MS = MINUTE_MS;
+// A run still holding its lease after this long is treated as interrupted
+const LEASE_MS = 10 * MINUTE_MS;
+// A failed job is retried after this long, or its interval if that's sooner
+const RETRY_MS = 5 * MINUTE_MS;
+
+// Doctors are reminded this many days before a grant ends
+export const EXPIRY_REMINDER_DAYS = 3;
+
+type JobResult = { itemsProcessed: number; summary: string };
+
+export type JobDefinition = {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  run: (now: Date) => Promise<JobResult>;
+};
+
+async function expireAccessGrants(now: Date): Promise<JobResult> {
+  const lapsed = await storage.getLapsedAccessGrants(now);
+  let expired = 0;
+  for (const grant of lapsed) {
+    const { problem } = await transitionAccessRequest(grant, AccessRequestAction.EXPIRE, {
+      userId: null,
+      roles: [AccessRequestActor.SYSTEM]
+    });
+    // Grants revoked since they were read are left as they are
+    if (!problem) expired++;
+  }
+  return { itemsProcessed: expired, summary: `Marked ${expired} of ${lapsed.length} lapsed grants expired` };
+}
+
+async function sendExpiryReminders(now: Date): Promise<JobResult> {
+  const grants = await storage.getAccessGrantsDueReminder(now, new Date(now.getTime() + EXPIRY_REMINDER_DAYS * DAY_MS));
+  let sent = 0;
+  for (const grant of grants) {
+    // Recorded before sending, so a run retried after a crash never sends twice
+    if (!(await storage.markExpiryReminderSent(grant.id, now))) continue;
+
+    const patient = await storage.getUser(grant.patientId);
+    await notifyUser(grant.doctorId, {
+      category: NotificationCategory.ACCESS_REQUEST,
+      title: "Your access ends soon",
+      message: `Your access to ${patient?.fullName || `patient #${grant.patientId}`}'s records for ` +
+        `${grant.purpose.toLowerCase()} ends on ${grant.expiryDate?.toDateString()}. ` +
+        "If you still need it, ask the patient for an extension from the Request Access page.",
+      link: "/doctor/request-access"
+    });
+    sent++;
+  }
+  return { itemsProcessed: sent, summary: `Sent ${sent} expiry reminders` };
+}
+
+async function purgeStaleSessions(): Promise<JobResult> {
+  const purged = await storage.deleteExpiredSessions();
+  return { itemsProcessed: purged, summary: `Removed ${purged} expired sessions` };
+}
+
+async function runRetentionPolicy(now: Date): Promise<JobResult> {
+  const deleted = await applyRetentionPolicy(now);
+  return {
+    itemsProcessed: Object.values(deleted).reduce((total, count) => total + count, 0),
+    summary: `Removed ${deleted.auditLogs} audit log entries, ${deleted.jobRuns} job runs, ` +
+      `${deleted.passwordResetTokens} reset tokens, ${deleted.linkingCodes} linking codes ` +
+      `and ${deleted.loginThrottles} sign-in throttles`
+  };
+}
+
+export const jobs: JobDefinition[] = [
+  {
+    name: "expire_access_grants",
+    description: "Marks approved grants past their end date as expired",
+    intervalMinutes: 15,
+    run: expireAccessGrants
+  },
+  {
+    name: "send_expiry_reminders",
+    description: `Reminds doctors ${EXPIRY_REMINDER_DAYS} days before their access ends`,
+    intervalMinutes: 60,
+    run: sendExpiryReminders
+  },
+  {
+    name: "purge_stale_sessions",
+    description: "Removes sign-in sessions that have expired",
+    intervalMinutes: 60,
+    run: purgeStaleSessions
+  },
+  {
+    name: "apply_retention_policy",
+    description: "Deletes data older than the retention policy keeps",
+    intervalMinutes: 24 * 60,
+    run: runRetentionPolicy
+  }
+];
+
+export function findJob(name: string): JobDefinition | undefined {
+  return jobs.find(job => job.name === name);
+}
+
+// Run the job if this server can take its lease. Scheduled runs also wait until
+// the job is due; a run started by an admin doesn't. Returns the finished run,
+// or undefined when the job wasn't run.
+async function runJob(job: JobDefinition, triggeredBy: number | null): Promise<JobRun | undefined> {
+  const now = new Date();
+  await storage.ensureScheduledJob(job.name, now);
+  const state = await storage.claimScheduledJob(job.name, now, new Date(now.getTime() + LEASE_MS), triggeredBy === null);
+  if (!state) return undefined;
+
+  // The previous holder's lease ran out before it recorded the end of its run
+  if (state.currentRunId) {
+    await storage.updateJobRun(state.currentRunId, {
+      status: JobRunStatus.FAILED,
+      finishedAt: now,
+      error: "Interrupted before it finished"
+    });
+  }
+
+  const run = await storage.createJobRun(job.name, triggeredBy);
+  await storage.updateScheduledJob(job.name, { currentRunId: run.id });
+
+  const intervalMs = job.intervalMinutes * MINUTE_MS;
+  try {
+    const result = await job.run(now);
+    const finished = await storage.updateJobRun(run.id, {
+      status: JobRunStatus.SUCCEEDED,
+      finishedAt: new Date(),
+      itemsProcessed: result.itemsProcessed,
+      summary: result.summary
+    });
+    await storage.updateScheduledJob(job.name, {
+      lockedUntil: null,
+      currentRunId: null,
+      lastRunAt: now,
+      lastStatus: JobRunStatus.SUCCEEDED,
+      consecutiveFailures: 0,
+      nextRunAt: new Date(now.getTime() + intervalMs)
+    });
+    return finished;
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+    const finished = await storage.updateJobRun(run.id, {
+      status: JobRunStatus.FAILED,
+      finishedAt: new Date(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    await storage.updateScheduledJob(job.name, {
+      lockedUntil: null,
+      currentRunId: null,
+      lastRunAt: now,
+      lastStatus: JobRunStatus.FAILED,
+      consecutiveFailures: state.consecutiveFailures + 1,
+      nextRunAt: new Date(now.getTime() + Math.min(RETRY_MS, intervalMs))
+    });
+    return finished;
+  }
+}
+
+// Run every job that is due, one after another
+export async function runDueJobs() {
+  for (const job of jobs) {
+    await runJob(job, null);
+  }
+}
+
+// Run a job straight away for an admin. Returns undefined if it is already running.
+export async function runJobNow(job: JobDefinition, adminId: number): Promise<JobRun | undefined> {
+  return await runJob(job, adminId);
+}
+
+// Each job with its schedule and the outcome of its last run
+export async function getJobStatuses() {
+  const now = new Date();
+  const states = new Map((await storage.getScheduledJobs()).map(state => [state.name, state]));
+  return jobs.map(job => {
+    const state = states.get(job.name);
+    return {
+      name: job.name,
+      description: job.description,
+      intervalMinutes: job.intervalMinutes,
+      nextRunAt: state?.nextRunAt ?? null,
+      lastRunAt: state?.lastRunAt ?? null,
+      lastStatus: state?.lastStatus ?? null,
+      consecutiveFailures: state?.consecutiveFailures ?? 0,
+      running: !!state?.lockedUntil && new Date(state.lockedUntil) > now
+    };
+  });
+}
+
+let schedulerTimer: NodeJS.Timeout | undefined;
+let ticking = false;
+
+export function startJobScheduler() {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    // Skip a tick while the previous one is still working through its jobs
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error("Job scheduler tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  void tick();
+  schedulerTimer = setInterval(tick, TICK_MS);
+  schedulerTimer.unref();
+}
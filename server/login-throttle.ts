@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { normalizeIp } from "./ip-restrictions";
+import type { LoginThrottle } from "@shared/schema";
+
+// Failed sign-ins are counted per account and per client address. Once a count
+// reaches the threshold the key is locked out, and every further failure after
+// the lockout expires doubles its length, up to the maximum.
+type ThrottlePolicy = {
+  threshold: number;
+  baseLockMs: number;
+  maxLockMs: number;
+  // A key with no failures for this long starts counting from zero again
+  resetAfterMs: number;
+};
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  threshold: 5,
+  baseLockMs: 5 * 60 * 1000,
+  maxLockMs: 24 * 60 * 60 * 1000,
+  resetAfterMs: 24 * 60 * 60 * 1000
+};
+
+// Addresses get more room since many users can share one, e.g. behind a hospital NAT
+const IP_POLICY: ThrottlePolicy = {
+  threshold: 20,
+  baseLockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000
+};
+
+const ACCOUNT_KEY_PREFIX = "account:";
+const IP_KEY_PREFIX = "ip:";
+
+function accountKey(userId: number) {
+  return `${ACCOUNT_KEY_PREFIX}${userId}`;
+}
+
+function ipKey(ip: string | undefined) {
+  return `${IP_KEY_PREFIX}${ip ? normalizeIp(ip) : "unknown"}`;
+}
+
+function activeLock(throttle: LoginThrottle | undefined): Date | null {
+  return throttle?.lockedUntil && throttle.lockedUntil > new Date() ? throttle.lockedUntil : null;
+}
+
+function lockDuration(failedAttempts: number, policy: ThrottlePolicy): number {
+  if (failedAttempts < policy.threshold) return 0;
+  return Math.min(policy.baseLockMs * 2 ** (failedAttempts - policy.threshold), policy.maxLockMs);
+}
+
+async function recordFailure(key: string, policy: ThrottlePolicy): Promise<LoginThrottle> {
+  const now = new Date();
+  const existing = await storage.getLoginThrottle(key);
+  const stale = !existing?.lastFailedAt || now.getTime() - existing.lastFailedAt.getTime() > policy.resetAfterMs;
+  const failedAttempts = (stale ? 0 : existing!.failedAttempts) + 1;
+  const lockMs = lockDuration(failedAttempts, policy);
+
+  return await storage.saveLoginThrottle({
+    key,
+    failedAttempts,
+    lastFailedAt: now,
+    lockedUntil: lockMs ? new Date(now.getTime() + lockMs) : null
+  });
+}
+
+// When the account or the address may next try to sign in, if either is locked out
+export async function getLoginLockout(userId: number | undefined, ip: string | undefined): Promise<Date | null> {
+  const locks = [activeLock(await storage.getLoginThrottle(ipKey(ip)))];
+  if (userId !== undefined) {
+    locks.push(activeLock(await storage.getLoginThrottle(accountKey(userId))));
+  }
+  const active = locks.filter((lock): lock is Date => lock !== null);
+  return active.length ? new Date(Math.max(...active.map(lock => lock.getTime()))) : null;
+}
+
+// Count a failed sign-in against the address and, if the username matched, the
+// account. Returns the account's updated count and any lockout it now has.
+export async function recordLoginFailure(
+  userId: number | undefined,
+  ip: string | undefined
+): Promise<{ failedAttempts: number; lockedUntil: Date | null } | null> {
+  const ipThrottle = await recordFailure(ipKey(ip), IP_POLICY);
+  if (ipThrottle.lockedUntil) {
+    console.warn(`Sign-in from ${ip || "unknown"} locked until ${ipThrottle.lockedUntil.toISOString()} after ${ipThrottle.failedAttempts} failures`);
+  }
+
+  if (userId === undefined) return null;
+  const accountThrottle = await recordFailure(accountKey(userId), ACCOUNT_POLICY);
+  return {
+    failedAttempts: accountThrottle.failedAttempts,
+    lockedUntil: accountThrottle.lockedUntil
+  };
+}
+
+// A successful sign-in, or an admin unlock, wipes the account's failure history
+export async function clearAccountFailures(userId: number) {
+  await storage.deleteLoginThrottle(accountKey(userId));
+}
+
+export async function getLockedAccounts(): Promise<{ userId: number; failedAttempts: number; lockedUntil: Date }[]> {
+  const lockouts = await storage.getActiveLockouts(ACCOUNT_KEY_PREFIX);
+  return lockouts.map(throttle => ({
+    userId: parseInt(throttle.key.slice(ACCOUNT_KEY_PREFIX.length)),
+    failedAttempts: throttle.failedAttempts,
+    lockedUntil: throttle.lockedUntil!
+  }));
+}
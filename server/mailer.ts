@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Interface for outgoing email delivery
+export interface IMailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development implementation: appends each message to a local outbox file
+// instead of delivering it, so links can be copied out by hand
+export class OutboxFileTransport implements IMailTransport {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const entry = [
+      `Date: ${new Date().toISOString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "",
+      "-".repeat(72),
+      ""
+    ].join("\n");
+    await fs.promises.appendFile(this.filePath, entry);
+  }
+}
+
+// Swap in a real transport (SMTP, provider API) here for production; override
+// the outbox location with MAIL_OUTBOX
+export const mailTransport: IMailTransport = new OutboxFileTransport(
+  process.env.MAIL_OUTBOX || path.join(process.cwd(), "mail-outbox.log")
+);
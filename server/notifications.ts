@@ -0,0 +1,213 @@
+import { storage } from "./storage";
+import { mailTransport } from "./mailer";
+import { publishToUsers } from "./realtime";
+import {
+  AccessRequest,
+  AccessRequestAction,
+  AccessRequestActionType,
+  EmergencyAccessGrant,
+  EMERGENCY_ACCESS_MINUTES,
+  Notification,
+  NotificationCategory,
+  NotificationCategoryType,
+  NotificationPreferences,
+  Record,
+  User
+} from "@shared/schema";
+
+// Notifications are kept in the app for every category the user has switched
+// on, and always for the few that are required. Users who asked for email get a
+// copy too, except during their quiet hours; the in-app notification is still
+// there when they next sign in.
+
+type NotificationContent = {
+  category: NotificationCategoryType;
+  title: string;
+  message: string;
+  link?: string;
+  // Kept even when the user has switched the category off
+  required?: boolean;
+};
+
+const categoryPreference: { [category in NotificationCategoryType]: keyof NotificationPreferences } = {
+  access_request: "accessRequestAlerts",
+  new_record: "newRecordAlerts",
+  security: "securityAlerts",
+};
+
+export function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Whether the time falls in the user's quiet hours, read in their timezone when
+// they set one. A window such as 22:00 to 07:00 runs past midnight.
+export function isQuietTime(quietHours: NotificationPreferences["quietHours"], now: Date = new Date()): boolean {
+  if (!quietHours?.enabled || !quietHours.start || !quietHours.end) return false;
+
+  const format = (timeZone?: string) => new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone
+  }).format(now);
+  let time: string;
+  try {
+    time = format(quietHours.timezone);
+  } catch {
+    // An unrecognised timezone falls back to the server's
+    time = format();
+  }
+
+  const { start, end } = quietHours;
+  return start <= end
+    ? time >= start && time < end
+    : time >= start || time < end;
+}
+
+function wantsEmail(preferences: NotificationPreferences): boolean {
+  return preferences.emailNotifications !== false &&
+    preferences.communicationPreference !== "sms" &&
+    preferences.communicationPreference !== "none";
+}
+
+function displayName(user: User | undefined, fallback: string): string {
+  return user?.fullName || user?.username || fallback;
+}
+
+// Create a notification for the user, unless they've switched its category off
+// and it isn't required. Never throws: a notification that can't be delivered
+// doesn't fail the action behind it.
+export async function notifyUser(userId: number, content: NotificationContent): Promise<Notification | undefined> {
+  try {
+    const user = await storage.getUser(userId);
+    if (!user) return undefined;
+
+    const preferences = user.settings?.notifications ?? {};
+    if (!content.required && preferences[categoryPreference[content.category]] === false) return undefined;
+
+    const emailTo = wantsEmail(preferences) && !isQuietTime(preferences.quietHours) ? user.email : undefined;
+    const notification = await storage.createNotification({
+      userId,
+      category: content.category,
+      title: content.title,
+      message: content.message,
+      link: content.link ?? null,
+      emailed: !!emailTo
+    });
+    publishToUsers([userId], { type: "notification.created" });
+
+    if (emailTo) {
+      await mailTransport.send({
+        to: emailTo,
+        subject: content.title,
+        text: [
+          `Hello ${displayName(user, "there")},`,
+          "",
+          content.message,
+          "",
+          "Sign in to MediVault for the details. You can choose which notifications you get in your settings."
+        ].join("\n")
+      });
+    }
+    return notification;
+  } catch (error) {
+    console.error(`Failed to notify user ${userId}:`, error);
+    return undefined;
+  }
+}
+
+// Tell the patient about a request for their records that has just been made
+export async function notifyAccessRequestCreated(accessRequest: AccessRequest, action: AccessRequestActionType) {
+  const doctorName = displayName(await storage.getUser(accessRequest.doctorId), `Doctor #${accessRequest.doctorId}`);
+  const purpose = accessRequest.purpose.toLowerCase();
+
+  if (action === AccessRequestAction.REQUEST) {
+    await notifyUser(accessRequest.patientId, {
+      category: NotificationCategory.ACCESS_REQUEST,
+      title: "New access request",
+      message: `${doctorName} asked to see your records for ${purpose} for ${accessRequest.duration} days.`,
+      link: "/patient/access-requests"
+    });
+  } else if (action === AccessRequestAction.REQUEST_EXTENSION) {
+    await notifyUser(accessRequest.patientId, {
+      category: NotificationCategory.ACCESS_REQUEST,
+      title: "Access extension requested",
+      message: `${doctorName} asked to keep access to your records for ${accessRequest.duration} more days.`,
+      link: "/patient/doctors"
+    });
+  } else if (action === AccessRequestAction.REDEEM_SHARE_CODE) {
+    await notifyUser(accessRequest.patientId, {
+      category: NotificationCategory.ACCESS_REQUEST,
+      title: "Share code used",
+      message: `${doctorName} used your share code and can now see your records for ${purpose}.`,
+      link: "/patient/doctors"
+    });
+  }
+}
+
+// Tell the doctor when the patient answers their request or takes access away.
+// Other transitions, such as expiry, aren't worth an interruption.
+export async function notifyAccessRequestChanged(accessRequest: AccessRequest, transition: AccessRequestActionType) {
+  const patientName = displayName(await storage.getUser(accessRequest.patientId), `Patient #${accessRequest.patientId}`);
+  const until = accessRequest.expiryDate ? ` until ${new Date(accessRequest.expiryDate).toDateString()}` : "";
+
+  let content: Omit<NotificationContent, "category" | "link"> | undefined;
+  if (transition === AccessRequestAction.APPROVE) {
+    content = accessRequest.extendsRequestId
+      ? { title: "Access extended", message: `${patientName} extended your access to their records${until}.` }
+      : { title: "Access approved", message: `${patientName} approved your request to see their records${until}.` };
+  } else if (transition === AccessRequestAction.DENY) {
+    content = accessRequest.extendsRequestId
+      ? { title: "Extension declined", message: `${patientName} declined your request to extend access to their records.` }
+      : { title: "Access request denied", message: `${patientName} denied your request to see their records.` };
+  } else if (transition === AccessRequestAction.REVOKE) {
+    content = { title: "Access revoked", message: `Your access to ${patientName}'s records was revoked.` };
+  }
+
+  if (content) {
+    await notifyUser(accessRequest.doctorId, {
+      ...content,
+      category: NotificationCategory.ACCESS_REQUEST,
+      link: "/doctor/request-access"
+    });
+  }
+}
+
+// Break-glass access is never something the patient agreed to, so they always
+// hear about it, whatever their access request alerts are set to
+export async function notifyEmergencyAccess(grant: EmergencyAccessGrant, doctor: User) {
+  await notifyUser(grant.patientId, {
+    category: NotificationCategory.ACCESS_REQUEST,
+    required: true,
+    title: "Emergency access to your records",
+    message: `${displayName(doctor, `Doctor #${doctor.id}`)} used emergency access to see your records for ` +
+      `the next ${EMERGENCY_ACCESS_MINUTES} minutes. Reason given: ${grant.reason}`,
+    link: "/patient/access-requests"
+  });
+}
+
+// Tell the patient about a record someone else added to their file
+export async function notifyRecordAdded(record: Record, addedBy: User) {
+  if (record.patientId === addedBy.id) return;
+  await notifyUser(record.patientId, {
+    category: NotificationCategory.NEW_RECORD,
+    title: "New record added",
+    message: `${displayName(addedBy, "Your care team")} added "${record.title}" to your records.`,
+    link: "/patient/records"
+  });
+}
+
+// Tell the user about a change to how their account is secured
+export async function notifySecurityChange(userId: number, title: string, message: string) {
+  await notifyUser(userId, {
+    category: NotificationCategory.SECURITY,
+    title,
+    message: `${message} If you didn't expect this, change your password and contact an administrator.`,
+    link: "/settings"
+  });
+}
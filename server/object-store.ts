@@ -0,0 +1,82 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// Interface for binary object storage (record attachments)
+export interface IObjectStore {
+  // Generate a fresh, unguessable key for a new object
+  createKey(prefix?: string): string;
+  // Stream an object into the store, resolving with the number of bytes written
+  put(key: string, body: Readable): Promise<number>;
+  // Open a stream over a stored object
+  get(key: string): Promise<Readable | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// Local disk implementation, used in development and single-node deployments
+export class LocalDiskObjectStore implements IObjectStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+    fs.mkdirSync(this.root, { recursive: true });
+  }
+
+  createKey(prefix: string = "objects"): string {
+    return `${prefix}/${randomUUID()}`;
+  }
+
+  // Resolve a key to a path, refusing anything that escapes the store root
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Readable): Promise<number> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so a failed upload never leaves a partial object
+    const tempPath = `${filePath}.partial`;
+    try {
+      await pipeline(body, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+    return size;
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const filePath = this.resolveKey(key);
+    if (!(await this.exists(key))) return undefined;
+    return fs.createReadStream(filePath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolveKey(key), { force: true });
+  }
+}
+
+// Attachments are kept outside the web root; override the location with UPLOAD_DIR
+export const objectStore: IObjectStore = new LocalDiskObjectStore(
+  process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads")
+);
@@ -0,0 +1,124 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage, TenantScope } from "./storage";
+import { Permission, PermissionType, roleHasPermission, User, UserRole } from "@shared/schema";
+
+// Comma-separated usernames promoted to super admin at startup, so a fresh
+// deployment has someone who can create the first organisations
+const SUPER_ADMIN_USERNAMES = (process.env.SUPER_ADMIN_USERNAMES || "")
+  .split(",")
+  .map(username => username.trim())
+  .filter(Boolean);
+
+// The organisations whose people this user may see: all of them for super
+// admins, otherwise only the ones the user belongs to
+export async function getTenantScope(user: Pick<User, "id" | "role">): Promise<TenantScope> {
+  if (roleHasPermission(user.role, Permission.ORG_MANAGE)) return null;
+  const memberships = await storage.getOrganizationMembershipsByUserId(user.id);
+  return memberships.map(membership => membership.organizationId);
+}
+
+export async function isInTenant(tenant: TenantScope, userId: number): Promise<boolean> {
+  if (!tenant) return true;
+  const memberships = await storage.getOrganizationMembershipsByUserId(userId);
+  return memberships.some(membership => tenant.includes(membership.organizationId));
+}
+
+// Admins, then super admins, sit above everyone else
+function roleRank(role: string | null | undefined): number {
+  if (roleHasPermission(role, Permission.ORG_MANAGE)) return 2;
+  if (roleHasPermission(role, Permission.USER_MANAGE)) return 1;
+  return 0;
+}
+
+// Whether the user's role is above the other account's, e.g. before resetting
+// their password without the current one
+export function outranks(user: Pick<User, "role">, other: Pick<User, "role">): boolean {
+  return roleRank(user.role) > roleRank(other.role);
+}
+
+export function isSuperAdmin(user: Pick<User, "role">): boolean {
+  return roleRank(user.role) === 2;
+}
+
+// The other person shares one of the user's organisations. Super admins can be
+// members of an organisation too, but only other super admins act on them.
+async function canActOn(user: Pick<User, "id" | "role">, userId: number): Promise<boolean> {
+  if (!(await isInTenant(await getTenantScope(user), userId))) return false;
+  if (isSuperAdmin(user)) return true;
+  const other = await storage.getUser(userId);
+  return !other || !isSuperAdmin(other);
+}
+
+// The user's role carries the permission and the other person shares one of
+// their organisations. Use this rather than roleHasPermission whenever staff
+// act on someone else's account or data.
+export async function hasPermissionOver(
+  user: Pick<User, "id" | "role">,
+  permission: PermissionType,
+  userId: number
+): Promise<boolean> {
+  if (!roleHasPermission(user.role, permission)) return false;
+  return canActOn(user, userId);
+}
+
+// Route guard for admin actions on the user named by a route parameter. Users
+// outside the admin's organisations, and super admins to anyone else, are
+// reported as not found.
+export function requireSameOrganization(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params[param]);
+      if (isNaN(userId) || !req.user) return next();
+
+      if (await canActOn(req.user, userId)) return next();
+      res.status(404).json({ message: "User not found" });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Where a new account opened by staff should belong: the organisation they
+// picked, or their only organisation if they belong to just one. Super admins
+// may leave it unset.
+export async function resolveNewMemberOrganization(
+  user: Pick<User, "id" | "role">,
+  organizationId: number | undefined
+): Promise<{ organizationId: number | null; problem?: undefined } | { organizationId?: undefined; problem: string }> {
+  const tenant = await getTenantScope(user);
+  if (organizationId !== undefined) {
+    if (tenant && !tenant.includes(organizationId)) {
+      return { problem: "You can only add people to your own organisations" };
+    }
+    if (!(await storage.getOrganization(organizationId))) {
+      return { problem: "Organisation not found" };
+    }
+    return { organizationId };
+  }
+  if (!tenant) return { organizationId: null };
+  if (tenant.length === 1) return { organizationId: tenant[0] };
+  return {
+    problem: tenant.length === 0
+      ? "You don't belong to an organisation yet"
+      : "Choose which organisation to add them to"
+  };
+}
+
+export async function promoteConfiguredSuperAdmins() {
+  for (const username of SUPER_ADMIN_USERNAMES) {
+    const user = await storage.getUserByUsername(username);
+    if (!user) {
+      console.warn(`SUPER_ADMIN_USERNAMES: no user called ${username}`);
+      continue;
+    }
+    if ((user.role as string) === UserRole.SUPER_ADMIN) continue;
+
+    await storage.updateUser(user.id, { role: UserRole.SUPER_ADMIN });
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "role_granted",
+      details: `User ${user.id} (${user.username}) promoted from ${user.role} to super_admin by SUPER_ADMIN_USERNAMES`,
+      ipAddress: null
+    });
+  }
+}
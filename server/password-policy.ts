@@ -0,0 +1,145 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { comparePasswords, hashPassword } from "./auth";
+import { COMMON_PASSWORDS } from "./common-passwords";
+import {
+  User,
+  PasswordPolicy,
+  DEFAULT_PASSWORD_POLICY,
+  passwordPolicyViolations,
+  estimatePasswordStrength,
+  parseUserSettings
+} from "@shared/schema";
+
+const PASSWORD_POLICY_KEY = "password_policy";
+
+// History is always kept this deep so raising historyCount takes effect at once
+const MIN_HISTORY_KEPT = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read on every sign-in and authenticated request; refreshed by updatePasswordPolicy()
+let cachedPolicy: PasswordPolicy | undefined;
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  if (!cachedPolicy) {
+    const stored = await storage.getSystemSetting<Partial<PasswordPolicy>>(PASSWORD_POLICY_KEY);
+    cachedPolicy = { ...DEFAULT_PASSWORD_POLICY, ...stored };
+  }
+  return cachedPolicy;
+}
+
+export async function updatePasswordPolicy(policy: PasswordPolicy, adminId: number): Promise<PasswordPolicy> {
+  await storage.setSystemSetting(PASSWORD_POLICY_KEY, policy, adminId);
+  cachedPolicy = policy;
+  return policy;
+}
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+// Also catches a common password with digits or symbols tacked on, e.g. "Sunshine2024!"
+export function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+  const base = lowered.replace(/[^a-z]+$/, "");
+  return commonPasswords.has(lowered) || (base.length >= 4 && commonPasswords.has(base));
+}
+
+// Every reason the password can't be used, or an empty list if it is acceptable.
+// Pass the existing user when changing a password so reuse can be checked.
+export async function validateNewPassword(
+  password: string,
+  context: { username?: string; email?: string; user?: User }
+): Promise<string[]> {
+  const policy = await getPasswordPolicy();
+  const problems = passwordPolicyViolations(password, policy);
+
+  if (isCommonPassword(password)) {
+    problems.push("This password is too common; choose something harder to guess");
+  }
+
+  const lowered = password.toLowerCase();
+  const username = context.username ?? context.user?.username;
+  const emailName = (context.email ?? context.user?.email)?.split("@")[0];
+  if ((username && lowered.includes(username.toLowerCase())) ||
+      (emailName && emailName.length >= 3 && lowered.includes(emailName.toLowerCase()))) {
+    problems.push("Password must not contain your username or email");
+  }
+
+  if (context.user && policy.historyCount > 0) {
+    const history = await storage.getPasswordHistory(context.user.id, policy.historyCount);
+    const recentHashes = [context.user.password, ...history.map(entry => entry.passwordHash)];
+    for (const hash of recentHashes) {
+      if (await comparePasswords(password, hash)) {
+        problems.push(`Password must not match any of your last ${policy.historyCount} passwords`);
+        break;
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Store a freshly hashed password's history entry, change date and strength.
+// Used directly on registration, where the user is created with the hash.
+export async function recordPasswordChange(userId: number, passwordHash: string, password: string) {
+  const policy = await getPasswordPolicy();
+  await storage.addPasswordHistory(userId, passwordHash, Math.max(policy.historyCount, MIN_HISTORY_KEPT));
+
+  const currentUser = await storage.getUser(userId);
+  if (!currentUser) return undefined;
+
+  const settings = parseUserSettings(currentUser.userSettings as object | null);
+  return await storage.updateUser(userId, {
+    settings: {
+      ...settings,
+      security: {
+        ...settings.security,
+        lastPasswordChange: new Date().toISOString(),
+        passwordStrength: isCommonPassword(password) ? "weak" : estimatePasswordStrength(password)
+      }
+    }
+  });
+}
+
+// Hash and save a new (already validated) password
+export async function setUserPassword(userId: number, password: string) {
+  const passwordHash = await hashPassword(password);
+  const updatedUser = await storage.updateUser(userId, { password: passwordHash });
+  if (!updatedUser) return undefined;
+  return await recordPasswordChange(userId, passwordHash, password);
+}
+
+export async function isPasswordExpired(user: User): Promise<boolean> {
+  const policy = await getPasswordPolicy();
+  if (!policy.maxAgeDays) return false;
+
+  // Accounts from before passwords were tracked count from when they were created
+  const lastChange = user.settings?.security?.lastPasswordChange ?? user.createdAt;
+  if (!lastChange) return false;
+  return Date.now() - new Date(lastChange).getTime() > policy.maxAgeDays * DAY_MS;
+}
+
+// Requests still allowed while the user's password has expired
+function isAllowedWithExpiredPassword(req: Request): boolean {
+  if (!req.path.startsWith("/api/")) return true;
+  return [
+    "/api/user",
+    "/api/logout",
+    "/api/password-policy",
+    "/api/session/status",
+    "/api/session/keepalive",
+    `/api/users/${req.user!.id}/change-password`
+  ].includes(req.path);
+}
+
+// Once a password passes the policy's maximum age, the only thing the user can do is change it
+export async function enforcePasswordExpiry(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) return next();
+
+  try {
+    if (isAllowedWithExpiredPassword(req) || !(await isPasswordExpired(req.user))) return next();
+    res.status(403).json({ message: "Your password has expired and must be changed", reason: "password_expired" });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,24 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+
+// "Forgot password" links carry a random token; only its hash is stored.
+// 256 random bits make a fast SHA-256 hash sufficient.
+
+// How long an emailed link stays valid
+export const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+// Minimum gap between links sent to the same account
+export const RESET_REQUEST_COOLDOWN_MS = 60 * 1000;
+
+export function generateResetToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links point at APP_URL when set, otherwise at the host the request came in on
+export function buildResetUrl(req: Request, token: string): string {
+  const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl.replace(/\/$/, "")}/reset-password?token=${encodeURIComponent(token)}`;
+}
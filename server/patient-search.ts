@@ -0,0 +1,69 @@
+import { createHash, randomInt } from "crypto";
+import { storage } from "./storage";
+
+// Clinicians find a patient either by their exact name and date of birth, or by
+// a linking code the patient has given them. Both are strong enough that a
+// search can't be used to browse the patient list, and the rate limit below
+// stops anyone guessing their way through it.
+
+export const SEARCH_PAGE_SIZE = 10;
+
+// Linking codes are short enough to read out over the phone and expire after a day
+export const LINKING_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+const LINKING_CODE_GROUP_LENGTH = 4;
+// Uppercase letters and digits without easily confused characters (0/O, 1/I)
+const LINKING_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+// Each clinician gets this many searches per window. Counts live in the login
+// throttle table under "search:<userId>", so they're shared across servers.
+const SEARCH_LIMIT = 20;
+const SEARCH_WINDOW_MS = 15 * 60 * 1000;
+const SEARCH_KEY_PREFIX = "search:";
+
+function randomGroup(): string {
+  let group = "";
+  for (let i = 0; i < LINKING_CODE_GROUP_LENGTH; i++) {
+    group += LINKING_CODE_ALPHABET[randomInt(LINKING_CODE_ALPHABET.length)];
+  }
+  return group;
+}
+
+// A fresh code formatted as "XXXX-XXXX"
+export function generateLinkingCode(): string {
+  return `${randomGroup()}-${randomGroup()}`;
+}
+
+// Hash a code as typed by the clinician, ignoring case, spaces and dashes
+export function hashLinkingCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// The patient a live linking code belongs to
+export async function findPatientByLinkingCode(code: string): Promise<number | null> {
+  const linkingCode = await storage.getPatientLinkingCodeByHash(hashLinkingCode(code));
+  if (!linkingCode || linkingCode.expiresAt <= new Date()) return null;
+  return linkingCode.patientId;
+}
+
+// Count a search against the user. Returns when they may search again if
+// they've used up this window's allowance, otherwise null.
+export async function recordPatientSearch(userId: number): Promise<Date | null> {
+  const key = `${SEARCH_KEY_PREFIX}${userId}`;
+  const now = new Date();
+  const existing = await storage.getLoginThrottle(key);
+  const windowStart = existing?.lastFailedAt;
+  const fresh = !windowStart || now.getTime() - windowStart.getTime() >= SEARCH_WINDOW_MS;
+
+  if (!fresh && existing!.failedAttempts >= SEARCH_LIMIT) {
+    return new Date(windowStart!.getTime() + SEARCH_WINDOW_MS);
+  }
+
+  await storage.saveLoginThrottle({
+    key,
+    failedAttempts: fresh ? 1 : existing!.failedAttempts + 1,
+    lastFailedAt: fresh ? now : windowStart!,
+    lockedUntil: null
+  });
+  return null;
+}
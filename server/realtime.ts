@@ -0,0 +1,162 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import {
+  AccessRequest,
+  Record,
+  RealtimeEvent,
+  REALTIME_PATH,
+  isDelegationActive
+} from "@shared/schema";
+
+// Pushes events to signed-in browsers over a WebSocket on the main HTTP server,
+// so open pages update without a reload. Events only name what changed; the
+// browser refetches through the API, where every permission check still runs.
+
+const HEARTBEAT_MS = 30 * 1000;
+
+// Close code telling the browser its session has ended, so it shouldn't reconnect
+const SESSION_ENDED = 4001;
+
+type Client = {
+  socket: WebSocket;
+  userId: number;
+  sid: string;
+  alive: boolean;
+};
+
+const clients = new Set<Client>();
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+// Only pages served by this app may open the channel
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+export function setupRealtime(httpServer: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    // Other upgrades, such as Vite's hot reload socket, are left to their own handlers
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== REALTIME_PATH) return;
+    if (!isSameOrigin(req)) return rejectUpgrade(socket, "403 Forbidden");
+
+    // Read the session from the cookie the same way HTTP requests do
+    const request = req as Request;
+    sessionParser(request, {} as Response, () => {
+      const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+      if (!userId) return rejectUpgrade(socket, "401 Unauthorized");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: Client = { socket: ws, userId, sid: request.sessionID, alive: true };
+        clients.add(client);
+        ws.on("pong", () => { client.alive = true; });
+        ws.on("close", () => clients.delete(client));
+        ws.on("error", () => ws.terminate());
+      });
+    });
+  });
+
+  // Drop sockets that stopped answering, and those whose session has since
+  // expired or been removed
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+      storage.sessionStore.get(client.sid, (error: unknown, session: unknown) => {
+        if (!error && !session) endSocket(client);
+      });
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+}
+
+function send(client: Client, event: RealtimeEvent) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function endSocket(client: Client) {
+  send(client, { type: "session.revoked" });
+  client.socket.close(SESSION_ENDED, "Session ended");
+  clients.delete(client);
+}
+
+export function publishToUsers(userIds: Iterable<number>, event: RealtimeEvent) {
+  const recipients = new Set(userIds);
+  clients.forEach(client => {
+    if (recipients.has(client.userId)) send(client, event);
+  });
+}
+
+// The patient and everyone currently acting for them see the patient's pages
+async function patientAudience(patientId: number): Promise<number[]> {
+  const delegations = await storage.getPatientDelegationsByPatientId(patientId);
+  return [
+    patientId,
+    ...delegations.filter(delegation => isDelegationActive(delegation)).map(delegation => delegation.delegateId)
+  ];
+}
+
+// Like notifications, a push that fails never fails the action behind it
+export async function publishAccessRequestChanged(accessRequest: AccessRequest, created: boolean) {
+  if (clients.size === 0) return;
+  try {
+    publishToUsers([accessRequest.doctorId, ...(await patientAudience(accessRequest.patientId))], {
+      type: created ? "access_request.created" : "access_request.updated",
+      accessRequestId: accessRequest.id,
+      patientId: accessRequest.patientId,
+      doctorId: accessRequest.doctorId
+    });
+  } catch (error) {
+    console.error(`Failed to publish access request ${accessRequest.id}:`, error);
+  }
+}
+
+export async function publishRecordCreated(record: Record) {
+  if (clients.size === 0) return;
+  try {
+    const audience = await patientAudience(record.patientId);
+    if (record.doctorId) audience.push(record.doctorId);
+    publishToUsers(audience, { type: "record.created", recordId: record.id, patientId: record.patientId });
+  } catch (error) {
+    console.error(`Failed to publish record ${record.id}:`, error);
+  }
+}
+
+// Close the sockets of sessions that were just ended, matching
+// storage.deleteSessionsByUserId. The user's remaining sessions are told their
+// session list changed.
+export function publishSessionsRevoked(userId: number, exceptSid?: string) {
+  clients.forEach(client => {
+    if (client.userId !== userId) return;
+    if (client.sid === exceptSid) send(client, { type: "sessions.changed" });
+    else endSocket(client);
+  });
+}
+
+// As above for a single session, matching storage.deleteSession
+export function publishSessionRevoked(userId: number, sid: string) {
+  clients.forEach(client => {
+    if (client.userId !== userId) return;
+    if (client.sid === sid) endSocket(client);
+    else send(client, { type: "sessions.changed" });
+  });
+}
@@ -0,0 +1,28 @@
+import { createHash, randomInt } from "crypto";
+
+// Recovery codes stand in for the authenticator app when it is lost.
+// Each code carries about 50 random bits, so a fast SHA-256 hash is enough to store it.
+
+const CODE_COUNT = 10;
+const GROUP_LENGTH = 5;
+// Lowercase letters and digits without easily confused characters (0/o, 1/l)
+const CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+
+function randomGroup(): string {
+  let group = "";
+  for (let i = 0; i < GROUP_LENGTH; i++) {
+    group += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return group;
+}
+
+// Generate a fresh set of codes formatted as "xxxxx-xxxxx"
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: CODE_COUNT }, () => `${randomGroup()}-${randomGroup()}`);
+}
+
+// Hash a code as typed by the user, ignoring case, spaces and dashes
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
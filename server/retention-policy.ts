@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { RetentionPolicy, DEFAULT_RETENTION_POLICY } from "@shared/schema";
+
+const RETENTION_POLICY_KEY = "retention_policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const stored = await storage.getSystemSetting<Partial<RetentionPolicy>>(RETENTION_POLICY_KEY);
+  return { ...DEFAULT_RETENTION_POLICY, ...stored };
+}
+
+export async function updateRetentionPolicy(policy: RetentionPolicy, adminId: number): Promise<RetentionPolicy> {
+  await storage.setSystemSetting(RETENTION_POLICY_KEY, policy, adminId);
+  return policy;
+}
+
+// Delete whatever the policy no longer keeps. Each step only removes rows older
+// than its cutoff, so running it again straight away removes nothing more.
+export async function applyRetentionPolicy(now: Date = new Date()) {
+  const policy = await getRetentionPolicy();
+  const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS);
+  const tokenCutoff = cutoff(policy.expiredTokenDays);
+
+  return {
+    auditLogs: policy.auditLogDays ? await storage.deleteAuditLogsBefore(cutoff(policy.auditLogDays)) : 0,
+    jobRuns: await storage.deleteJobRunsBefore(cutoff(policy.jobRunDays)),
+    passwordResetTokens: await storage.deletePasswordResetTokensExpiredBefore(tokenCutoff),
+    linkingCodes: await storage.deletePatientLinkingCodesExpiredBefore(tokenCutoff),
+    loginThrottles: await storage.deleteLoginThrottlesIdleSince(tokenCutoff),
+  };
+}
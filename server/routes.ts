@@ -1,15 +1,93 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, comparePasswords, hashPassword } from "./auth";
+import { setupAuth, comparePasswords } from "./auth";
+import { objectStore } from "./object-store";
+import { unwrapDataKey, createDecryptStream, rewrapDataKey, getCurrentMasterKeyId } from "./encryption";
+import { handleRecordUpload, handleVerificationDocumentUpload, discardUpload } from "./uploads";
+import { generateTotpSecret, buildOtpAuthUri, verifyTotp } from "./totp";
+import { generateRecoveryCodes, hashRecoveryCode } from "./recovery-codes";
+import { isIpAllowed, isValidIpRestriction } from "./ip-restrictions";
+import { getSessionPolicy, updateSessionPolicy, getSessionExpiry } from "./session-policy";
+import { listUserSessions, findUserSession } from "./active-sessions";
+import { getLockedAccounts, clearAccountFailures } from "./login-throttle";
+import { getPasswordPolicy, updatePasswordPolicy, validateNewPassword, setUserPassword } from "./password-policy";
+import { getRetentionPolicy, updateRetentionPolicy } from "./retention-policy";
+import { findJob, getJobStatuses, runJobNow } from "./jobs";
+import { accountDetailsSchema, createAccount } from "./accounts";
+import { mailTransport } from "./mailer";
+import { setupRealtime, publishRecordCreated, publishSessionsRevoked, publishSessionRevoked } from "./realtime";
+import { isKnownTimeZone, notifyEmergencyAccess, notifyRecordAdded, notifySecurityChange } from "./notifications";
+import {
+  SEARCH_PAGE_SIZE,
+  LINKING_CODE_TTL_MS,
+  generateLinkingCode,
+  hashLinkingCode,
+  findPatientByLinkingCode,
+  recordPatientSearch
+} from "./patient-search";
+import {
+  SHARE_CODE_DEFAULT_VALID_HOURS,
+  SHARE_CODE_MAX_VALID_HOURS,
+  generateShareCode,
+  hashShareCode
+} from "./share-codes";
+import {
+  AccessRequestActing,
+  transitionAccessRequest,
+  approveAccessExtension,
+  recordAccessRequestCreated
+} from "./access-lifecycle";
+import {
+  getTenantScope,
+  isInTenant,
+  hasPermissionOver,
+  isSuperAdmin,
+  outranks,
+  requireSameOrganization,
+  resolveNewMemberOrganization,
+  promoteConfiguredSuperAdmins
+} from "./organizations";
 import { z } from "zod";
 import { 
   insertRecordSchema, 
   insertAccessRequestSchema, 
+  accessScopeSchema,
+  EmergencyReviewStatus,
+  EMERGENCY_ACCESS_MINUTES,
+  DoctorVerificationStatus,
   UserRole,
+  userRoles,
+  Permission,
+  PermissionType,
+  roleHasPermission,
   userSettingsToString,
   parseUserSettings,
-  SecuritySettings
+  SecuritySettings,
+  RecordAttachment,
+  Record as MedicalRecord,
+  DoctorVerificationDocument,
+  DelegationScope,
+  DelegationScopeType,
+  DelegationStatus,
+  delegationScopes,
+  delegationRelationships,
+  isDelegationActive,
+  PatientDelegation,
+  AccessShareCode,
+  isShareCodeRedeemable,
+  AccessRequest,
+  AccessRequestStatus,
+  AccessRequestAction,
+  AccessRequestActor,
+  AccessRequestActorType,
+  AccessRequestTransitionType,
+  extendedExpiryDate,
+  effectiveAccessStatus,
+  JobRunStatus,
+  ageOn,
+  isMinor,
+  adulthoodDate
 } from "@shared/schema";
 
 // Type guard to ensure req.user is defined
@@ -28,13 +106,13 @@ const isAuthenticated = (req: Request, res: Response, next: Function) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
-// Middleware to check user role
-const hasRole = (roles: string[]) => {
+// Middleware to check the user's role carries a permission (see rolePermissions)
+const requirePermission = (permission: PermissionType) => {
   return (req: Request, res: Response, next: Function) => {
     try {
       ensureAuthenticated(req);
       
-      if (roles.includes(req.user.role)) {
+      if (roleHasPermission(req.user.role, permission)) {
         return next();
       }
       
@@ -45,13 +123,198 @@ const hasRole = (roles: string[]) => {
   };
 };
 
+// Doctors can sign in before their credentials are verified, but can't see
+// patients or ask for access to records until an admin has approved them
+const requireVerifiedDoctor = async (req: Request, res: Response, next: Function) => {
+  try {
+    ensureAuthenticated(req);
+    if ((req.user.role as string) !== UserRole.DOCTOR) return next();
+    
+    const profile = await storage.getDoctorProfile(req.user.id);
+    if (profile?.verificationStatus === DoctorVerificationStatus.VERIFIED) return next();
+    
+    res.status(403).json({
+      message: "Your medical credentials must be verified by an administrator first",
+      reason: "doctor_unverified"
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// A caregiver or guardian's active delegation from the patient, if it allows at
+// least the given scope. Manage delegations also allow everything view ones do.
+async function getDelegationFor(user: Express.User, patientId: number, scope: DelegationScopeType) {
+  if (patientId === user.id) return undefined;
+  const delegation = await storage.getActivePatientDelegation(patientId, user.id);
+  if (!delegation) return undefined;
+  if (scope === DelegationScope.MANAGE && delegation.scope !== DelegationScope.MANAGE) return undefined;
+  return delegation;
+}
+
+// The patient themselves, or someone they have delegated to with at least this scope
+async function actsForPatient(user: Express.User, patientId: number, scope: DelegationScopeType) {
+  return patientId === user.id || !!(await getDelegationFor(user, patientId, scope));
+}
+
+// For audit logs: the patient a delegate is acting for, or null when the user acts as themselves
+async function delegatedPatientId(user: Express.User, patientId: number) {
+  return (await getDelegationFor(user, patientId, DelegationScope.VIEW)) ? patientId : null;
+}
+
+// Patients under ADULT_AGE_YEARS can't add or remove their own caregivers
+function isMinorPatient(user: Pick<Express.User, 'userSettings'>) {
+  return isMinor(parseUserSettings(user.userSettings as object | null).profile?.dateOfBirth);
+}
+
+// Delegations joined with both parties' names for display
+async function withDelegationParties(delegations: PatientDelegation[]) {
+  return Promise.all(delegations.map(async (delegation) => {
+    const [patient, delegate] = await Promise.all([
+      storage.getUser(delegation.patientId),
+      storage.getUser(delegation.delegateId)
+    ]);
+    return {
+      ...delegation,
+      active: isDelegationActive(delegation),
+      patient: patient ? { id: patient.id, username: patient.username, fullName: patient.fullName } : null,
+      delegate: delegate ? { id: delegate.id, username: delegate.username, fullName: delegate.fullName } : null
+    };
+  }));
+}
+
+// Patients (and their delegates) can read their own records. Other patients' records
+// need either a grant the patient approved (record:read) or blanket access (record:read_any)
+// to patients in the user's organisations.
+async function canReadPatientRecords(user: Express.User, patientId: number) {
+  if (await hasPermissionOver(user, Permission.RECORD_READ_ANY, patientId)) return true;
+  if (await actsForPatient(user, patientId, DelegationScope.VIEW)) return true;
+  return roleHasPermission(user.role, Permission.RECORD_READ) && await storage.hasAccess(user.id, patientId);
+}
+
+// As canReadPatientRecords, but also honouring the record types a limited grant covers
+async function canReadRecord(user: Express.User, record: MedicalRecord) {
+  if (await hasPermissionOver(user, Permission.RECORD_READ_ANY, record.patientId)) return true;
+  if (await actsForPatient(user, record.patientId, DelegationScope.VIEW)) return true;
+  return roleHasPermission(user.role, Permission.RECORD_READ) && await storage.hasRecordAccess(user.id, record);
+}
+
+async function canCreateRecordFor(user: Express.User, patientId: number) {
+  if (await hasPermissionOver(user, Permission.RECORD_CREATE_ANY, patientId)) return true;
+  if (await actsForPatient(user, patientId, DelegationScope.MANAGE)) return true;
+  return roleHasPermission(user.role, Permission.RECORD_CREATE) && await storage.hasAccess(user.id, patientId);
+}
+
+// Access requests belong to the organisations of both the doctor and the
+// patient, so managers in either can see them. Changing one
+// touches the patient's records, so that needs authority over the patient.
+async function hasPermissionOverParties(
+  user: Express.User,
+  permission: PermissionType,
+  { doctorId, patientId }: { doctorId: number; patientId: number }
+) {
+  return await hasPermissionOver(user, permission, patientId) ||
+    await hasPermissionOver(user, permission, doctorId);
+}
+
+// Every role the user holds on an access request, for the lifecycle rules
+async function accessRequestActing(user: Express.User, accessRequest: AccessRequest): Promise<AccessRequestActing> {
+  const roles: AccessRequestActorType[] = [];
+  if (await actsForPatient(user, accessRequest.patientId, DelegationScope.MANAGE)) {
+    roles.push(AccessRequestActor.PATIENT);
+  }
+  if (accessRequest.doctorId === user.id) {
+    roles.push(AccessRequestActor.REQUESTER);
+  }
+  if (await hasPermissionOver(user, Permission.ACCESS_MANAGE, accessRequest.patientId)) {
+    roles.push(AccessRequestActor.ADMIN);
+  }
+  return { userId: user.id, roles };
+}
+
+// Stream a stored file (a record attachment or verification document) to the client,
+// decrypting it on the way out. Only call this once access to the file has been checked.
+async function sendStoredFile(res: Response, file: RecordAttachment & { storageKey: string }, defaultName: string) {
+  const stored = await objectStore.get(file.storageKey);
+  if (!stored) {
+    return res.status(404).json({ message: "File not found" });
+  }
+  
+  let stream: NodeJS.ReadableStream = stored;
+  if (file.wrappedDataKey && file.encryptionKeyId && file.encryptionIv && file.encryptionAuthTag) {
+    try {
+      const dataKey = unwrapDataKey(file.wrappedDataKey, file.encryptionKeyId);
+      const decipher = createDecryptStream(dataKey, file.encryptionIv, file.encryptionAuthTag);
+      // The GCM tag is only verified at the end of the stream, so a tampered file
+      // aborts the response part-way rather than completing the download
+      decipher.on('error', (error) => {
+        console.error("Error decrypting stored file:", error);
+        res.destroy(error);
+      });
+      stream = stored.pipe(decipher);
+    } catch (error) {
+      stored.destroy();
+      console.error("Error unwrapping data key:", error);
+      return res.status(500).json({ message: "Failed to decrypt file" });
+    }
+  }
+  
+  // res.attachment encodes non-ASCII file names safely in Content-Disposition
+  res.attachment(file.fileName || defaultName);
+  res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+  if (file.fileSize != null) {
+    res.setHeader('Content-Length', file.fileSize.toString());
+  }
+  if (file.checksum) {
+    res.setHeader('X-Content-SHA256', file.checksum);
+  }
+  
+  stored.on('error', (error) => {
+    console.error("Error streaming stored file:", error);
+    res.destroy(error);
+  });
+  return stream.pipe(res);
+}
+
+// Verification document details safe to send to the client; storage and key fields stay server-side
+function toDocumentSummary({ id, fileName, fileSize, mimeType, checksum, uploadedAt }: DoctorVerificationDocument) {
+  return { id, fileName, fileSize, mimeType, checksum, uploadedAt };
+}
+
+// Record details safe to send to the client; storage and key fields stay server-side
+function toRecordResponse<T extends MedicalRecord>({
+  storageKey, encryptionKeyId, wrappedDataKey, encryptionIv, encryptionAuthTag, ...record
+}: T) {
+  return record;
+}
+
+// Merge changes into a user's stored security settings, returning the result
+async function updateSecuritySettings(userId: number, changes: Partial<SecuritySettings>) {
+  const currentUser = await storage.getUser(userId);
+  if (!currentUser) return undefined;
+  
+  const currentSettings = parseUserSettings(currentUser.userSettings as object | null);
+  const updatedSettings = {
+    ...currentSettings,
+    security: {
+      ...currentSettings.security,
+      ...changes
+    }
+  };
+  
+  const updatedUser = await storage.updateUser(userId, { settings: updatedSettings });
+  return updatedUser ? updatedSettings.security : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+  await promoteConfiguredSuperAdmins();
   
   // Users routes
-  app.get('/api/users', isAuthenticated, hasRole(["admin"]), async (req, res) => {
-    const users = await storage.getAllUsers();
+  app.get('/api/users', isAuthenticated, requirePermission(Permission.USER_READ), async (req, res) => {
+    ensureAuthenticated(req);
+    const users = await storage.getAllUsers(await getTenantScope(req.user));
     // Don't send passwords to client
     const sanitizedUsers = users.map(({ password, ...user }) => user);
     res.json(sanitizedUsers);
@@ -68,12 +331,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ensureAuthenticated(req);
       const user = req.user;
     
-      // Users can only access their own data unless they're a doctor accessing patient data 
-      // or an admin who can access any user data
+      // Users can only access their own data unless they can list the accounts in
+      // this user's organisation or have been granted access to this patient's records
       if (
         userId !== user.id && 
-        !((user.role as string) === 'doctor' && await storage.hasAccess(user.id, userId)) &&
-        user.role !== 'admin'
+        !(await hasPermissionOver(user, Permission.USER_READ, userId)) &&
+        !(await canReadPatientRecords(user, userId))
       ) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -93,16 +356,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The doctors in the caller's organisations
   app.get('/api/doctors', isAuthenticated, async (req, res) => {
-    const doctors = await storage.getDoctors();
-    // Don't send passwords to client
-    const sanitizedDoctors = doctors.map(({ password, ...doctor }) => doctor);
+    ensureAuthenticated(req);
+    const tenant = await getTenantScope(req.user);
+    const doctors = await storage.getDoctors(tenant);
+    const verifiedIds = new Set(
+      (await storage.getDoctorProfiles(DoctorVerificationStatus.VERIFIED, tenant)).map(profile => profile.userId)
+    );
+    // Only directory details go to the client, never passwords or settings; flag
+    // doctors whose credentials an admin has checked
+    const sanitizedDoctors = doctors.map(doctor => ({
+      id: doctor.id,
+      username: doctor.username,
+      fullName: doctor.fullName,
+      specialty: doctor.specialty,
+      email: doctor.email,
+      verified: verifiedIds.has(doctor.id)
+    }));
     res.json(sanitizedDoctors);
   });
   
-  app.get('/api/patients', isAuthenticated, hasRole(["doctor", "admin"]), async (req, res) => {
-    // Get all users with role "patient"
-    const users = await storage.getAllUsers();
+  app.get('/api/patients', isAuthenticated, requirePermission(Permission.PATIENT_READ), async (req, res) => {
+    ensureAuthenticated(req);
+    // Patients registered with any of the caller's organisations
+    const users = await storage.getAllUsers(await getTenantScope(req.user));
     const patients = users.filter(user => (user.role as string) === 'patient');
     
     // Don't send passwords to client
@@ -110,6 +388,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(sanitizedPatients);
   });
   
+  // Clinicians look a patient up by exact name and date of birth within their
+  // organisations, or by a linking code the patient gave them, which works across
+  // organisations. Only enough is returned to confirm it's the right person.
+  app.get('/api/patients/search', isAuthenticated, requirePermission(Permission.PATIENT_SEARCH), requireVerifiedDoctor, async (req, res) => {
+    ensureAuthenticated(req);
+    
+    const parsed = z.object({
+      fullName: z.string().trim().min(2).optional(),
+      dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD").optional(),
+      code: z.string().trim().min(8).max(20).optional(),
+      page: z.coerce.number().int().min(1).default(1)
+    }).refine(
+      query => !!query.code || (!!query.fullName && !!query.dateOfBirth),
+      "Search by full name and date of birth, or by the patient's linking code"
+    ).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid search", errors: parsed.error.errors });
+    }
+    const { fullName, dateOfBirth, code, page } = parsed.data;
+    const method = code ? "linking code" : "name and date of birth";
+    
+    const retryAt = await recordPatientSearch(req.user.id);
+    if (retryAt) {
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "patient_search",
+        details: `Patient search by ${method} refused: too many searches`,
+        ipAddress: req.ip
+      });
+      res.setHeader("Retry-After", Math.ceil((retryAt.getTime() - Date.now()) / 1000).toString());
+      return res.status(429).json({ message: "Too many searches. Try again later.", retryAt });
+    }
+    
+    let matches: Express.User[];
+    if (code) {
+      const patientId = await findPatientByLinkingCode(code);
+      const patient = patientId ? await storage.getUser(patientId) : undefined;
+      matches = patient ? [patient] : [];
+      // Codes are single use: once a clinician has found the patient it's spent
+      if (patient) await storage.deletePatientLinkingCode(patient.id);
+    } else {
+      matches = await storage.findPatientsByNameAndBirthDate(fullName!, dateOfBirth!, await getTenantScope(req.user));
+    }
+    
+    const pageOfMatches = matches.slice((page - 1) * SEARCH_PAGE_SIZE, page * SEARCH_PAGE_SIZE);
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "patient_search",
+      details: `Patient search by ${method}: ${matches.length} ${matches.length === 1 ? "match" : "matches"}` +
+        (matches.length ? ` (patient ${matches.map(match => match.id).join(", ")})` : ""),
+      ipAddress: req.ip
+    });
+    
+    res.json({
+      patients: pageOfMatches.map(patient => ({
+        id: patient.id,
+        fullName: patient.fullName || patient.username,
+        dateOfBirth: parseUserSettings(patient.userSettings as object | null).profile?.dateOfBirth ?? null
+      })),
+      page,
+      pageSize: SEARCH_PAGE_SIZE,
+      total: matches.length
+    });
+  });
+  
+  // A patient's linking code, for them (or a caregiver who manages their
+  // account) to read out to a clinician. Only its expiry can be read back.
+  app.get('/api/users/:id/linking-code', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const patientId = parseInt(req.params.id, 10);
+    
+    if (!(await actsForPatient(req.user, patientId, DelegationScope.MANAGE))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const linkingCode = await storage.getPatientLinkingCode(patientId);
+    const live = linkingCode && linkingCode.expiresAt > new Date();
+    res.json({ expiresAt: live ? linkingCode.expiresAt : null });
+  });
+  
+  app.post('/api/users/:id/linking-code', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const patientId = parseInt(req.params.id, 10);
+    
+    if (!(await actsForPatient(req.user, patientId, DelegationScope.MANAGE))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const patient = await storage.getUser(patientId);
+    if (!patient || (patient.role as string) !== UserRole.PATIENT) {
+      return res.status(400).json({ message: "Only patients have linking codes" });
+    }
+    
+    const code = generateLinkingCode();
+    const expiresAt = new Date(Date.now() + LINKING_CODE_TTL_MS);
+    await storage.savePatientLinkingCode({ patientId, codeHash: hashLinkingCode(code), expiresAt });
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "linking_code_created",
+      details: `Linking code created for patient ${patientId}, valid until ${expiresAt.toISOString()}`,
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(req.user, patientId)
+    });
+    
+    // Shown once; only the hash is kept
+    res.status(201).json({ code, expiresAt });
+  });
+  
+  app.delete('/api/users/:id/linking-code', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const patientId = parseInt(req.params.id, 10);
+    
+    if (!(await actsForPatient(req.user, patientId, DelegationScope.MANAGE))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    await storage.deletePatientLinkingCode(patientId);
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "linking_code_revoked",
+      details: `Linking code revoked for patient ${patientId}`,
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(req.user, patientId)
+    });
+    
+    res.json({ success: true });
+  });
+  
+  // Front desk sign-up: staff open an account for a patient who is in the clinic.
+  // Only patient accounts can be created this way.
+  app.post('/api/patients', isAuthenticated, requirePermission(Permission.PATIENT_REGISTER), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const { organizationId: requestedOrganizationId, ...details } = accountDetailsSchema
+        .omit({ specialty: true })
+        .extend({ organizationId: z.number().int().optional() })
+        .parse(req.body);
+      const { organizationId, problem } = await resolveNewMemberOrganization(req.user, requestedOrganizationId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const { user, problems } = await createAccount(details, UserRole.PATIENT);
+      if (!user) {
+        return res.status(400).json({ message: problems.join(". ") });
+      }
+      
+      // The patient joins the clinic that registered them, so its staff can find them
+      if (organizationId) {
+        await storage.createOrganizationMembership({ organizationId, userId: user.id, addedBy: req.user.id });
+      }
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "patient_registered",
+        details: `${req.user.role} registered patient ${user.id} (${user.username})` +
+          (organizationId ? ` with organisation ${organizationId}` : ""),
+        ipAddress: req.ip
+      });
+      
+      const { password, ...sanitizedUser } = user;
+      res.status(201).json(sanitizedUser);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid patient details", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error registering patient:", error);
+      res.status(500).json({ message: "Failed to register patient" });
+    }
+  });
+  
   // Medical records routes
   app.get('/api/records/:id', isAuthenticated, async (req, res) => {
     const recordId = parseInt(req.params.id);
@@ -125,26 +579,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Ensure user is authenticated using type guard
     ensureAuthenticated(req);
     
-    // Check if user has access to this record
-    if (
-      (req.user.role as string) === "patient" && record.patientId !== req.user.id ||
-      (req.user.role as string) === "doctor" && record.patientId !== req.user.id && 
-      !(await storage.hasAccess(req.user.id, record.patientId))
-    ) {
+    // Check if user has access to this record, honouring limited-scope grants
+    if (!(await canReadRecord(req.user, record))) {
       return res.status(403).json({ message: "Access denied to this record" });
     }
     
     // Log the record access
-    if ((req.user.role as string) === "doctor" && record.patientId !== req.user.id) {
+    if (record.patientId !== req.user.id) {
       await storage.createAuditLog({
         userId: req.user.id,
         action: "record_accessed",
-        details: `Doctor accessed record ${recordId} of patient ${record.patientId}`,
-        ipAddress: req.ip
+        details: `${req.user.role} accessed record ${recordId} of patient ${record.patientId}`,
+        ipAddress: req.ip,
+        onBehalfOfUserId: await delegatedPatientId(req.user, record.patientId)
       });
     }
     
-    res.json(record);
+    res.json(toRecordResponse(record));
   });
   
   // Download a medical record
@@ -162,12 +613,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Ensure user is authenticated using type guard
     ensureAuthenticated(req);
     
-    // Check if user has access to this record
-    if (
-      (req.user.role as string) === "patient" && record.patientId !== req.user.id ||
-      (req.user.role as string) === "doctor" && record.patientId !== req.user.id && 
-      !(await storage.hasAccess(req.user.id, record.patientId))
-    ) {
+    // Check if user has access to this record, honouring limited-scope grants
+    if (!(await canReadRecord(req.user, record))) {
       return res.status(403).json({ message: "Access denied to this record" });
     }
     
@@ -176,11 +623,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       userId: req.user.id,
       action: "record_downloaded",
       details: `User downloaded record ${recordId}`,
-      ipAddress: req.ip
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(req.user, record.patientId)
     });
     
-    // In a real application, this would stream the file for download
-    // For this demo, we'll generate a simple text file with the record data
+    // Stream the stored attachment when the record has one, decrypting only
+    // here, after the access check above has passed
+    if (record.storageKey) {
+      return sendStoredFile(res, { ...record, storageKey: record.storageKey }, `medical-record-${recordId}`);
+    }
+    
+    // Records without an attachment download as a text summary of the record data
     const recordData = `
 Medical Record: ${record.title}
 Date: ${record.recordDate}
@@ -210,31 +663,33 @@ Verified: ${record.verified ? "Yes" : "No"}
     const user = req.user;
     
     // Check if user has access to patient records
-    if (
-      (user.role as string) === "patient" && patientId !== user.id ||
-      (user.role as string) === "doctor" && patientId !== user.id && 
-      !(await storage.hasAccess(user.id, patientId))
-    ) {
+    if (!(await canReadPatientRecords(user, patientId))) {
       return res.status(403).json({ message: "Access denied to patient records" });
     }
     
-    const records = await storage.getRecordsByPatientId(patientId);
+    // Access through a grant only shows the records the grant covers; the patient's
+    // own delegates see everything the patient would
+    const onBehalfOfUserId = await delegatedPatientId(user, patientId);
+    const records = patientId === user.id || onBehalfOfUserId || await hasPermissionOver(user, Permission.RECORD_READ_ANY, patientId)
+      ? await storage.getRecordsByPatientId(patientId)
+      : await storage.getAccessibleRecords(user.id, patientId);
     
-    // Log the records access if it's a doctor accessing patient records
-    if ((user.role as string) === "doctor" && patientId !== user.id) {
+    // Log the records access when someone else's records are read
+    if (patientId !== user.id) {
       await storage.createAuditLog({
         userId: user.id,
         action: "records_accessed",
-        details: `Doctor accessed records of patient ${patientId}`,
-        ipAddress: req.ip
+        details: `${user.role} accessed records of patient ${patientId}`,
+        ipAddress: req.ip,
+        onBehalfOfUserId
       });
     }
     
-    res.json(records);
+    res.json(records.map(toRecordResponse));
   });
   
   // Get all records for a doctor (across all patients they have access to)
-  app.get('/api/records/doctor/:doctorId', isAuthenticated, hasRole(["doctor"]), async (req, res) => {
+  app.get('/api/records/doctor/:doctorId', isAuthenticated, requirePermission(Permission.RECORD_READ), async (req, res) => {
     const doctorId = parseInt(req.params.doctorId);
     if (isNaN(doctorId)) {
       return res.status(400).json({ message: "Invalid doctor ID" });
@@ -251,26 +706,48 @@ Verified: ${record.verified ? "Yes" : "No"}
     
     // Get all active access requests for this doctor
     const accessRequests = await storage.getAccessRequestsByDoctorId(doctorId);
-    const activeRequests = accessRequests.filter(req => req.status === "approved");
+    const now = new Date();
+    const activeRequests = accessRequests.filter(req =>
+      req.status === "approved" && (!req.expiryDate || new Date(req.expiryDate) > now)
+    );
     
     // Get all records for patients the doctor has access to
     const allRecords = [];
     
-    // Add the doctor's own records if they are also a patient
-    if ((user.role as string) === "doctor") {
-      const ownRecords = await storage.getRecordsByPatientId(doctorId);
-      allRecords.push(...ownRecords);
-    }
+    // Add the clinician's own records, since they may also be a patient
+    const ownRecords = await storage.getRecordsByPatientId(doctorId);
+    allRecords.push(...ownRecords);
+    
+    // Include patients reached through an active break-glass grant
+    const emergencyGrants = (await storage.getEmergencyAccessGrantsByDoctorId(doctorId))
+      .filter(grant => !grant.revokedAt && new Date(grant.expiresAt) > now);
     
-    // Get records for each patient the doctor has access to
-    for (const request of activeRequests) {
-      const patientRecords = await storage.getRecordsByPatientId(request.patientId);
+    // Get records for each patient the doctor has access to, once per patient
+    const patientIds = Array.from(new Set([
+      ...activeRequests.map(request => request.patientId),
+      ...emergencyGrants.map(grant => grant.patientId)
+    ]));
+    for (const patientId of patientIds) {
+      const patientRecords = await storage.getAccessibleRecords(doctorId, patientId);
+      // Report the latest expiry across the doctor's grants for this patient
+      const expiryDates = [
+        ...activeRequests
+          .filter(request => request.patientId === patientId)
+          .map(request => request.expiryDate),
+        ...emergencyGrants
+          .filter(grant => grant.patientId === patientId)
+          .map(grant => grant.expiresAt)
+      ];
+      const accessExpiryDate = expiryDates.some(date => !date)
+        ? null
+        : expiryDates.reduce((latest, date) => (date! > latest! ? date : latest));
+      
       // For each record, add doctor access info as additional non-DB properties
       patientRecords.forEach(record => {
         // Use type assertion to add the properties that don't exist in the record schema
         // but are needed for the frontend to display access status
         (record as any).accessGranted = true;
-        (record as any).accessExpiryDate = request.expiryDate;
+        (record as any).accessExpiryDate = accessExpiryDate;
       });
       allRecords.push(...patientRecords);
     }
@@ -283,29 +760,25 @@ Verified: ${record.verified ? "Yes" : "No"}
       ipAddress: req.ip
     });
     
-    res.json(allRecords);
+    res.json(allRecords.map(toRecordResponse));
   });
 
   app.post('/api/records', isAuthenticated, async (req, res) => {
     try {
-      const recordData = insertRecordSchema.parse(req.body);
+      // Attachments only come through the upload route, which sets fileUrl itself
+      const recordData = insertRecordSchema.omit({ fileUrl: true, verified: true }).parse(req.body);
       
       // Use type guard to ensure req.user is defined
       ensureAuthenticated(req);
       const user = req.user;
       
       // Verify access rights
-      if (
-        (user.role as string) === "patient" && recordData.patientId !== user.id ||
-        (user.role as string) === "doctor" && 
-        recordData.patientId !== user.id && 
-        !(await storage.hasAccess(user.id, recordData.patientId))
-      ) {
+      if (!(await canCreateRecordFor(user, recordData.patientId))) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Auto-verify if doctor is uploading
-      const verified = (user.role as string) === "doctor";
+      // Records added by clinicians who can vouch for them are verified straight away
+      const verified = roleHasPermission(user.role, Permission.RECORD_VERIFY);
       
       const record = await storage.createRecord({
         ...recordData,
@@ -317,10 +790,13 @@ Verified: ${record.verified ? "Yes" : "No"}
         userId: user.id,
         action: "record_created",
         details: `${user.role} created record ${record.id} for patient ${record.patientId}`,
-        ipAddress: req.ip
+        ipAddress: req.ip,
+        onBehalfOfUserId: await delegatedPatientId(user, record.patientId)
       });
+      await notifyRecordAdded(record, user);
+      await publishRecordCreated(record);
       
-      res.status(201).json(record);
+      res.status(201).json(toRecordResponse(record));
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ 
@@ -332,7 +808,240 @@ Verified: ${record.verified ? "Yes" : "No"}
     }
   });
   
+  // Create a record with an uploaded file (multipart/form-data, file in the "file" field)
+  app.post('/api/records/upload', isAuthenticated, handleRecordUpload, async (req, res) => {
+    const file = req.file;
+    // Once the record row exists it points at the stored file, so the file has to stay
+    let record: MedicalRecord | undefined;
+    try {
+      if (!file || !file.storageKey) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+      
+      // Multipart fields arrive as strings, so coerce the numeric ones
+      const uploadSchema = insertRecordSchema
+        .omit({ fileUrl: true, verified: true })
+        .extend({
+          patientId: z.coerce.number().int(),
+          doctorId: z.coerce.number().int().nullable().optional(),
+        });
+      const recordData = uploadSchema.parse(req.body);
+      
+      // Use type guard to ensure req.user is defined
+      ensureAuthenticated(req);
+      const user = req.user;
+      
+      // Verify access rights
+      if (!(await canCreateRecordFor(user, recordData.patientId))) {
+        await discardUpload(file);
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Records added by clinicians who can vouch for them are verified straight away
+      const verified = roleHasPermission(user.role, Permission.RECORD_VERIFY);
+      
+      record = await storage.createRecord({
+        ...recordData,
+        verified,
+        fileName: file.originalname,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        checksum: file.checksum,
+        storageKey: file.storageKey,
+        encryptionKeyId: file.encryptionKeyId,
+        wrappedDataKey: file.wrappedDataKey,
+        encryptionIv: file.encryptionIv,
+        encryptionAuthTag: file.encryptionAuthTag,
+      });
+      
+      // Point the record at its download route now that the ID is known
+      const updatedRecord = await storage.updateRecord(record.id, {
+        fileUrl: `/api/records/${record.id}/download`
+      });
+      
+      // Log the record creation
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "record_created",
+        details: `${user.role} uploaded record ${record.id} (${file.size} bytes, sha256 ${file.checksum}) for patient ${record.patientId}`,
+        ipAddress: req.ip,
+        onBehalfOfUserId: await delegatedPatientId(user, record.patientId)
+      });
+      await notifyRecordAdded(record, user);
+      await publishRecordCreated(record);
+      
+      res.status(201).json(toRecordResponse(updatedRecord || record));
+    } catch (error) {
+      if (!record) await discardUpload(file);
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid record data", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error uploading record:", error);
+      res.status(500).json({ message: "Failed to upload record" });
+    }
+  });
+  
   // Access request routes
+  // Admin-wide listing, paginated and filterable, joined with doctor and patient summaries
+  app.get('/api/access-requests', isAuthenticated, requirePermission(Permission.ACCESS_MANAGE), async (req, res) => {
+    const querySchema = z.object({
+      page: z.coerce.number().int().min(1).default(1),
+      pageSize: z.coerce.number().int().min(1).max(100).default(10),
+      status: z.enum(["all", "pending", "approved", "denied", "cancelled", "revoked", "expired", "superseded"]).default("all"),
+      search: z.string().trim().optional(),
+      doctorId: z.coerce.number().int().optional(),
+      patientId: z.coerce.number().int().optional(),
+    });
+    
+    const parsed = querySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Invalid query parameters", 
+        errors: parsed.error.errors 
+      });
+    }
+    const { page, pageSize, status, search, doctorId, patientId } = parsed.data;
+    
+    ensureAuthenticated(req);
+    const tenant = await getTenantScope(req.user);
+    const [{ requests, total }, statusCounts] = await Promise.all([
+      storage.getAccessRequestsPage(
+        tenant,
+        { status: status === "all" ? undefined : status, doctorId, patientId, search: search || undefined },
+        pageSize,
+        (page - 1) * pageSize
+      ),
+      storage.countAccessRequestsByStatus(tenant)
+    ]);
+    // Only the people named on this page, some of whom may be in other organisations
+    const partyIds = Array.from(new Set(requests.flatMap(request => [request.doctorId, request.patientId])));
+    const parties = await Promise.all(partyIds.map(id => storage.getUser(id)));
+    const usersById = new Map(parties.filter(user => !!user).map(user => [user.id, user]));
+    
+    const now = new Date();
+    const requestsWithUsers = requests.map(request => {
+      const doctor = usersById.get(request.doctorId);
+      const patient = usersById.get(request.patientId);
+      return {
+        ...request,
+        effectiveStatus: effectiveAccessStatus(request, now),
+        doctor: doctor ? {
+          id: doctor.id,
+          fullName: doctor.fullName,
+          specialty: doctor.specialty,
+          email: doctor.email
+        } : null,
+        patient: patient ? {
+          id: patient.id,
+          fullName: patient.fullName,
+          email: patient.email
+        } : null
+      };
+    });
+    
+    // Totals for the summary cards, across every request the admin can see
+    const counts = { pending: 0, active: 0, denied: 0, cancelled: 0, revoked: 0, expired: 0, superseded: 0 };
+    for (const [requestStatus, count] of Object.entries(statusCounts)) {
+      if (requestStatus === "approved") counts.active += count;
+      else if (requestStatus in counts) counts[requestStatus as keyof typeof counts] += count;
+    }
+    
+    res.json({
+      requests: requestsWithUsers,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      counts
+    });
+  });
+  
+  // Administrative actions on an access request: force-revoke, extend or deny
+  app.post('/api/access-requests/:id/admin-action', isAuthenticated, requirePermission(Permission.ACCESS_MANAGE), async (req, res) => {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ message: "Invalid request ID" });
+    }
+    
+    try {
+      ensureAuthenticated(req);
+      const user = req.user;
+      
+      const actionSchema = z.discriminatedUnion("action", [
+        z.object({ action: z.literal("revoke"), reason: z.string().trim().min(1, "A reason is required") }),
+        z.object({ action: z.literal("deny"), reason: z.string().trim().min(1, "A reason is required") }),
+        z.object({
+          action: z.literal("extend"),
+          reason: z.string().trim().min(1, "A reason is required"),
+          days: z.number().int().min(1).max(365)
+        }),
+      ]);
+      const data = actionSchema.parse(req.body);
+      
+      const accessRequest = await storage.getAccessRequest(requestId);
+      if (!accessRequest || !(await hasPermissionOverParties(user, Permission.ACCESS_MANAGE, accessRequest))) {
+        return res.status(404).json({ message: "Access request not found" });
+      }
+      if (!(await hasPermissionOver(user, Permission.ACCESS_MANAGE, accessRequest.patientId))) {
+        return res.status(403).json({ message: "Only admins in the patient's organisation can change this request" });
+      }
+      
+      const now = new Date();
+      const isActive = accessRequest.status === AccessRequestStatus.APPROVED &&
+        (!accessRequest.expiryDate || new Date(accessRequest.expiryDate) > now);
+      const acting = { userId: user.id, roles: [AccessRequestActor.ADMIN] };
+      
+      let transition: AccessRequestTransitionType;
+      let update: Partial<AccessRequest> = {};
+      let details: string;
+      
+      if (data.action === "revoke") {
+        if (!isActive) {
+          return res.status(409).json({ message: "Only active grants can be revoked" });
+        }
+        transition = AccessRequestAction.REVOKE;
+        details = `Admin force-revoked access for doctor ${accessRequest.doctorId} to patient ${accessRequest.patientId}`;
+      } else if (data.action === "deny") {
+        transition = AccessRequestAction.DENY;
+        details = `Admin denied access request from doctor ${accessRequest.doctorId} to patient ${accessRequest.patientId}`;
+      } else {
+        // Counted the same way as an extension the patient approves
+        const expiryDate = extendedExpiryDate(accessRequest.expiryDate, data.days);
+        transition = AccessRequestAction.EXTEND;
+        update = { expiryDate };
+        details = `Admin extended access for doctor ${accessRequest.doctorId} to patient ${accessRequest.patientId} by ${data.days} days until ${expiryDate.toISOString()}`;
+      }
+      
+      const { accessRequest: updatedRequest, problem, status } = await transitionAccessRequest(
+        accessRequest, transition, acting, { reason: data.reason, update }
+      );
+      if (problem) {
+        return res.status(status).json({ message: problem });
+      }
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: data.action === "revoke" ? "access_revoked" : data.action === "deny" ? "access_denied" : "access_extended",
+        details: `${details}. Reason: ${data.reason}`,
+        ipAddress: req.ip
+      });
+      
+      res.json(updatedRequest);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid admin action", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error applying admin action:", error);
+      res.status(500).json({ message: "Failed to apply admin action" });
+    }
+  });
+  
   app.get('/api/access-requests/patient/:patientId', isAuthenticated, async (req, res) => {
     const patientId = parseInt(req.params.patientId);
     if (isNaN(patientId)) {
@@ -343,8 +1052,11 @@ Verified: ${record.verified ? "Yes" : "No"}
     ensureAuthenticated(req);
     const user = req.user;
     
-    // Patients can only view their own access requests
-    if ((user.role as string) === "patient" && patientId !== user.id) {
+    // Patients (and their delegates) can only view their own access requests
+    if (
+      !(await hasPermissionOver(user, Permission.ACCESS_MANAGE, patientId)) &&
+      !(await actsForPatient(user, patientId, DelegationScope.VIEW))
+    ) {
       return res.status(403).json({ message: "Access denied" });
     }
     
@@ -377,8 +1089,8 @@ Verified: ${record.verified ? "Yes" : "No"}
     ensureAuthenticated(req);
     const user = req.user;
     
-    // Doctors can only view their own access requests
-    if ((user.role as string) === "doctor" && doctorId !== user.id) {
+    // Requesters can only view their own access requests
+    if (doctorId !== user.id && !(await hasPermissionOver(user, Permission.ACCESS_MANAGE, doctorId))) {
       return res.status(403).json({ message: "Access denied" });
     }
     
@@ -405,7 +1117,7 @@ Verified: ${record.verified ? "Yes" : "No"}
     res.json(requestsWithPatient);
   });
   
-  app.post('/api/access-requests', isAuthenticated, hasRole(["doctor"]), async (req, res) => {
+  app.post('/api/access-requests', isAuthenticated, requirePermission(Permission.ACCESS_REQUEST), requireVerifiedDoctor, async (req, res) => {
     try {
       const requestData = insertAccessRequestSchema.parse(req.body);
       
@@ -413,14 +1125,9 @@ Verified: ${record.verified ? "Yes" : "No"}
       ensureAuthenticated(req);
       const user = req.user;
       
-      // Only doctors can create access requests
-      if ((user.role as string) !== 'doctor') {
-        return res.status(403).json({ message: "Only doctors can request access" });
-      }
-      
-      // Ensure doctor is requesting for themselves
+      // Ensure the requester is asking for themselves
       if (requestData.doctorId !== user.id) {
-        return res.status(403).json({ message: "Cannot request access on behalf of another doctor" });
+        return res.status(403).json({ message: "Cannot request access on behalf of another user" });
       }
       
       // Check if patient exists
@@ -429,14 +1136,18 @@ Verified: ${record.verified ? "Yes" : "No"}
         return res.status(404).json({ message: "Patient not found" });
       }
       
-      // Create access request
-      const accessRequest = await storage.createAccessRequest(requestData);
+      // Requests always start pending; only the patient can approve them
+      const accessRequest = await storage.createAccessRequest({
+        ...requestData,
+        status: AccessRequestStatus.PENDING
+      });
+      await recordAccessRequestCreated(accessRequest, AccessRequestAction.REQUEST, user.id);
       
       // Log the access request
       await storage.createAuditLog({
         userId: user.id,
         action: "access_requested",
-        details: `Doctor requested access to patient ${requestData.patientId} records for ${requestData.duration} days`,
+        details: `${user.role} requested access to patient ${requestData.patientId} records for ${requestData.duration} days`,
         ipAddress: req.ip
       });
       
@@ -452,14 +1163,79 @@ Verified: ${record.verified ? "Yes" : "No"}
     }
   });
   
-  app.patch('/api/access-requests/:id', isAuthenticated, async (req, res) => {
+  // A doctor asks to keep a grant they hold for longer. The extension is a new
+  // pending request linked to the grant, with its purpose and scope, which the
+  // patient approves with the end date they choose.
+  app.post('/api/access-requests/:id/extension', isAuthenticated, requirePermission(Permission.ACCESS_REQUEST), requireVerifiedDoctor, async (req, res) => {
     const requestId = parseInt(req.params.id);
     if (isNaN(requestId)) {
       return res.status(400).json({ message: "Invalid request ID" });
     }
     
-    const accessRequest = await storage.getAccessRequest(requestId);
-    if (!accessRequest) {
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const grant = await storage.getAccessRequest(requestId);
+    if (!grant || grant.doctorId !== user.id) {
+      return res.status(404).json({ message: "Access request not found" });
+    }
+    if (grant.status !== AccessRequestStatus.APPROVED) {
+      return res.status(409).json({ message: `This grant is ${grant.status}, so it can't be extended` });
+    }
+    
+    const parsed = z.object({
+      duration: z.number().int().min(1).max(365),
+      notes: z.string().trim().max(500).optional()
+    }).strict().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Invalid extension request", 
+        errors: parsed.error.errors 
+      });
+    }
+    const { duration, notes } = parsed.data;
+    
+    const patientRequests = await storage.getAccessRequestsByPatientId(grant.patientId);
+    if (patientRequests.some(r => r.extendsRequestId === grant.id && r.status === AccessRequestStatus.PENDING)) {
+      return res.status(409).json({ message: "An extension of this grant is already waiting for the patient" });
+    }
+    
+    const extension = await storage.createAccessRequest({
+      doctorId: user.id,
+      patientId: grant.patientId,
+      purpose: grant.purpose,
+      duration,
+      notes: notes || null,
+      status: AccessRequestStatus.PENDING,
+      limitedScope: grant.limitedScope,
+      scope: grant.scope,
+      extendsRequestId: grant.id,
+      // Until the patient picks a date, the expiry shows the end date being asked for
+      expiryDate: extendedExpiryDate(grant.expiryDate, duration)
+    });
+    await recordAccessRequestCreated(extension, AccessRequestAction.REQUEST_EXTENSION, user.id, `Extends grant ${grant.id}`);
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "access_extension_requested",
+      details: `${user.role} requested a ${duration} day extension of grant ${grant.id} to patient ${grant.patientId} records`,
+      ipAddress: req.ip
+    });
+    
+    res.status(201).json(extension);
+  });
+  
+  // Moves a request along its lifecycle: the patient approves or denies, the
+  // doctor cancels, and the patient or an admin revokes. Nothing else about the
+  // request can be changed here.
+  app.patch('/api/access-requests/:id', isAuthenticated, async (req, res) => {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ message: "Invalid request ID" });
+    }
+    
+    const accessRequest = await storage.getAccessRequest(requestId);
+    if (!accessRequest) {
       return res.status(404).json({ message: "Access request not found" });
     }
     
@@ -467,46 +1243,560 @@ Verified: ${record.verified ? "Yes" : "No"}
     ensureAuthenticated(req);
     const user = req.user;
     
-    // Verify permissions: patient can only update their own requests,
-    // doctor can only update requests they made, admin can update any
-    if (
-      ((user.role as string) === 'patient' && accessRequest.patientId !== user.id) ||
-      ((user.role as string) === 'doctor' && accessRequest.doctorId !== user.id)
-    ) {
-      // Admin role is excluded from this check (admins can update any)
-      if (user.role as string !== 'admin') {
-        return res.status(403).json({ message: "Access denied" });
+    const acting = await accessRequestActing(user, accessRequest);
+    if (acting.roles.length === 0) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const parsed = z.object({
+      status: z.enum([
+        AccessRequestStatus.APPROVED,
+        AccessRequestStatus.DENIED,
+        AccessRequestStatus.CANCELLED,
+        AccessRequestStatus.REVOKED
+      ]),
+      limitedScope: z.boolean().optional(),
+      scope: accessScopeSchema.nullable().optional(),
+      // The end date the patient chose when approving an extension
+      expiryDate: z.coerce.date().optional(),
+      reason: z.string().trim().max(500).optional()
+    }).strict().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Invalid access request update", 
+        errors: parsed.error.errors 
+      });
+    }
+    const { status, reason, expiryDate, ...scopeChange } = parsed.data;
+    
+    const transitions = {
+      [AccessRequestStatus.APPROVED]: AccessRequestAction.APPROVE,
+      [AccessRequestStatus.DENIED]: AccessRequestAction.DENY,
+      [AccessRequestStatus.CANCELLED]: AccessRequestAction.CANCEL,
+      [AccessRequestStatus.REVOKED]: AccessRequestAction.REVOKE,
+    } as const;
+    const transition = transitions[status];
+    
+    const original = accessRequest.extendsRequestId
+      ? await storage.getAccessRequest(accessRequest.extendsRequestId)
+      : undefined;
+    const approvingExtension = !!original && transition === AccessRequestAction.APPROVE;
+    if (expiryDate && !approvingExtension) {
+      return res.status(400).json({ message: "An end date can only be chosen when approving an extension" });
+    }
+    
+    // The scope of a grant is the patient's decision, made when they approve it
+    let update: Partial<AccessRequest> = {};
+    if (scopeChange.limitedScope !== undefined || scopeChange.scope !== undefined) {
+      if (transition !== AccessRequestAction.APPROVE) {
+        return res.status(400).json({ message: "The scope of a grant can only be set when approving it" });
+      }
+      if (original) {
+        return res.status(400).json({ message: "An extension keeps the scope of the grant it extends" });
+      }
+    }
+    if (approvingExtension) {
+      const maxExpiryDate = new Date();
+      maxExpiryDate.setDate(maxExpiryDate.getDate() + 365);
+      if (expiryDate && (expiryDate <= new Date() || expiryDate > maxExpiryDate)) {
+        return res.status(400).json({ message: "The new end date must be within the next year" });
+      }
+    } else if (transition === AccessRequestAction.APPROVE) {
+      // A limited grant must carry an explicit scope
+      const limitedScope = scopeChange.limitedScope ?? accessRequest.limitedScope ?? false;
+      if (limitedScope) {
+        const scopeResult = accessScopeSchema.safeParse(scopeChange.scope ?? accessRequest.scope);
+        if (!scopeResult.success) {
+          return res.status(400).json({ 
+            message: "Invalid access scope", 
+            errors: scopeResult.error.errors 
+          });
+        }
+        update = { limitedScope, scope: scopeResult.data };
+      } else {
+        update = { limitedScope, scope: null };
       }
     }
     
-    // Update access request
-    const updatedRequest = await storage.updateAccessRequest(requestId, req.body);
-    if (!updatedRequest) {
-      return res.status(404).json({ message: "Access request not found" });
+    const { accessRequest: updatedRequest, problem, status: problemStatus } =
+      original && approvingExtension
+        ? await approveAccessExtension(accessRequest, original, acting, {
+            reason,
+            expiryDate: expiryDate ?? extendedExpiryDate(original.expiryDate, accessRequest.duration)
+          })
+        : await transitionAccessRequest(accessRequest, transition, acting, { reason, update });
+    if (problem) {
+      return res.status(problemStatus).json({ message: problem });
     }
     
     // Log the action
-    const action = req.body.status === "approved" 
-      ? "access_approved" 
-      : req.body.status === "denied" 
-        ? "access_denied" 
-        : req.body.status === "revoked"
-          ? "access_revoked"
-          : "access_updated";
+    const action = {
+      [AccessRequestAction.APPROVE]: "access_approved",
+      [AccessRequestAction.DENY]: "access_denied",
+      [AccessRequestAction.CANCEL]: "access_cancelled",
+      [AccessRequestAction.REVOKE]: "access_revoked",
+    }[transition];
         
     await storage.createAuditLog({
       userId: user.id,
       action,
-      details: `${user.role} ${action.replace('_', ' ')} for doctor ${accessRequest.doctorId} to patient ${accessRequest.patientId}`,
-      ipAddress: req.ip
+      details: `${user.role} ${action.replace('_', ' ')} for doctor ${accessRequest.doctorId} to patient ${accessRequest.patientId}` +
+        (original ? ` (extension of grant ${original.id})` : "") +
+        (reason ? `. Reason: ${reason}` : ""),
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(user, accessRequest.patientId)
     });
     
     res.json(updatedRequest);
   });
   
+  // Every change to a request, oldest first, with who made it
+  app.get('/api/access-requests/:id/history', isAuthenticated, async (req, res) => {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ message: "Invalid request ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const accessRequest = await storage.getAccessRequest(requestId);
+    const canView = accessRequest && (
+      accessRequest.doctorId === req.user.id ||
+      await actsForPatient(req.user, accessRequest.patientId, DelegationScope.VIEW) ||
+      await hasPermissionOverParties(req.user, Permission.ACCESS_MANAGE, accessRequest)
+    );
+    if (!accessRequest || !canView) {
+      return res.status(404).json({ message: "Access request not found" });
+    }
+    
+    const history = await storage.getAccessRequestHistory(requestId);
+    res.json(await Promise.all(history.map(async (entry) => {
+      const actor = entry.actorId ? await storage.getUser(entry.actorId) : undefined;
+      return {
+        ...entry,
+        actor: actor ? { id: actor.id, fullName: actor.fullName || actor.username } : null
+      };
+    })));
+  });
+  
+  // Patient share codes: the patient chooses the purpose, duration and scope up
+  // front, and whichever doctor redeems the code gets that grant straight away
+  const withoutCodeHash = ({ codeHash, ...shareCode }: AccessShareCode) => ({
+    ...shareCode,
+    redeemable: isShareCodeRedeemable(shareCode)
+  });
+  
+  app.get('/api/share-codes/patient/:patientId', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const patientId = parseInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      return res.status(400).json({ message: "Invalid patient ID" });
+    }
+    
+    if (!(await actsForPatient(req.user, patientId, DelegationScope.VIEW))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const shareCodes = await storage.getAccessShareCodesByPatientId(patientId);
+    res.json(shareCodes.map(withoutCodeHash));
+  });
+  
+  app.post('/api/share-codes', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const parsed = z.object({
+      patientId: z.number().int().positive(),
+      purpose: z.string().trim().min(1, "Purpose is required"),
+      duration: z.number().int().positive().max(365),
+      validForHours: z.number().int().positive().max(SHARE_CODE_MAX_VALID_HOURS).default(SHARE_CODE_DEFAULT_VALID_HOURS),
+      singleUse: z.boolean().default(true),
+      limitedScope: z.boolean().default(false),
+      scope: accessScopeSchema.nullable().optional()
+    }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid share code details", errors: parsed.error.errors });
+    }
+    const { patientId, validForHours, ...details } = parsed.data;
+    
+    if (!(await actsForPatient(user, patientId, DelegationScope.MANAGE))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    // A limited grant must carry an explicit scope
+    if (details.limitedScope && !details.scope) {
+      return res.status(400).json({ message: "Choose what the doctor will be able to see" });
+    }
+    
+    const code = generateShareCode();
+    const shareCode = await storage.createAccessShareCode({
+      ...details,
+      scope: details.limitedScope ? details.scope : null,
+      patientId,
+      codeHash: hashShareCode(code),
+      expiresAt: new Date(Date.now() + validForHours * 60 * 60 * 1000),
+      createdBy: user.id
+    });
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "share_code_created",
+      details: `Share code ${shareCode.id} created for patient ${patientId}: ${shareCode.duration} days of ` +
+        `${shareCode.limitedScope ? "limited" : "full"} access, ${shareCode.singleUse ? "single use" : "reusable"}, ` +
+        `redeemable until ${shareCode.expiresAt.toISOString()}`,
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(user, patientId)
+    });
+    
+    // The code is only ever shown here; the client turns it into a QR link
+    res.status(201).json({ ...withoutCodeHash(shareCode), code });
+  });
+  
+  app.delete('/api/share-codes/:id', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const shareCodeId = parseInt(req.params.id);
+    if (isNaN(shareCodeId)) {
+      return res.status(400).json({ message: "Invalid share code ID" });
+    }
+    
+    const shareCode = await storage.getAccessShareCode(shareCodeId);
+    if (!shareCode || !(await actsForPatient(req.user, shareCode.patientId, DelegationScope.MANAGE))) {
+      return res.status(404).json({ message: "Share code not found" });
+    }
+    if (shareCode.revokedAt) {
+      return res.status(400).json({ message: "This share code has already been revoked" });
+    }
+    
+    const revoked = await storage.updateAccessShareCode(shareCodeId, {
+      revokedAt: new Date(),
+      revokedBy: req.user.id
+    });
+    
+    // Grants already made from the code stay until the patient revokes them
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "share_code_revoked",
+      details: `Share code ${shareCodeId} for patient ${shareCode.patientId} revoked`,
+      ipAddress: req.ip,
+      onBehalfOfUserId: await delegatedPatientId(req.user, shareCode.patientId)
+    });
+    
+    res.json(withoutCodeHash(revoked!));
+  });
+  
+  // A doctor turns a patient's share code into an approved grant. Failed
+  // attempts count against the same allowance as patient searches.
+  app.post('/api/share-codes/redeem', isAuthenticated, requirePermission(Permission.ACCESS_REQUEST), requireVerifiedDoctor, async (req, res) => {
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const parsed = z.object({ code: z.string().trim().min(1, "Enter the code") }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid share code", errors: parsed.error.errors });
+    }
+    
+    const retryAt = await recordPatientSearch(user.id);
+    if (retryAt) {
+      res.setHeader("Retry-After", Math.ceil((retryAt.getTime() - Date.now()) / 1000).toString());
+      return res.status(429).json({ message: "Too many attempts. Try again later.", retryAt });
+    }
+    
+    const shareCode = await storage.getAccessShareCodeByHash(hashShareCode(parsed.data.code));
+    const redeemed = shareCode && shareCode.patientId !== user.id
+      ? await storage.redeemAccessShareCode(shareCode.id)
+      : undefined;
+    if (!shareCode || !redeemed) {
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "share_code_rejected",
+        details: shareCode
+          ? `${user.role} tried to redeem share code ${shareCode.id} for patient ${shareCode.patientId}, which is no longer valid`
+          : `${user.role} tried to redeem an unknown share code`,
+        ipAddress: req.ip
+      });
+      return res.status(404).json({ message: "This code is wrong, has expired, has been revoked or has already been used" });
+    }
+    
+    const accessRequest = await storage.createAccessRequest({
+      doctorId: user.id,
+      patientId: redeemed.patientId,
+      purpose: redeemed.purpose,
+      duration: redeemed.duration,
+      notes: `Granted with the patient's share code ${redeemed.id}`,
+      status: AccessRequestStatus.APPROVED,
+      limitedScope: redeemed.limitedScope,
+      scope: redeemed.limitedScope ? redeemed.scope : null
+    });
+    await recordAccessRequestCreated(accessRequest, AccessRequestAction.REDEEM_SHARE_CODE, user.id, `Share code ${redeemed.id}`);
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "share_code_redeemed",
+      details: `${user.role} redeemed share code ${redeemed.id} for ${redeemed.duration} days of ` +
+        `${redeemed.limitedScope ? "limited" : "full"} access to patient ${redeemed.patientId} (grant ${accessRequest.id})`,
+      ipAddress: req.ip
+    });
+    
+    const patient = await storage.getUser(redeemed.patientId);
+    res.status(201).json({
+      accessRequest,
+      patient: { id: redeemed.patientId, fullName: patient?.fullName || patient?.username }
+    });
+  });
+  
+  // Caregiver and guardian delegation routes
+  // Delegations the user has given to others, and active ones they hold for other patients
+  app.get('/api/delegations', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const [granted, received] = await Promise.all([
+      storage.getPatientDelegationsByPatientId(user.id),
+      storage.getPatientDelegationsByDelegateId(user.id)
+    ]);
+    
+    res.json({
+      granted: await withDelegationParties(granted.filter(delegation => delegation.status === DelegationStatus.ACTIVE)),
+      received: await withDelegationParties(received.filter(delegation => isDelegationActive(delegation)))
+    });
+  });
+  
+  // A patient lets another patient account act for them. Creating the delegation
+  // is the patient's consent; minors need an administrator to add their guardian.
+  app.post('/api/delegations', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      const user = req.user;
+      
+      if ((user.role as string) !== UserRole.PATIENT) {
+        return res.status(403).json({ message: "Only patients can delegate access to their records" });
+      }
+      if (isMinorPatient(user)) {
+        return res.status(403).json({ 
+          message: "Patients under 18 can't add caregivers themselves. Ask an administrator to add your parent or guardian." 
+        });
+      }
+      
+      const delegationSchema = z.object({
+        username: z.string().trim().min(1, "Username is required"),
+        scope: z.enum(delegationScopes),
+        relationship: z.enum(delegationRelationships),
+        expiresAt: z.coerce.date().optional(),
+      });
+      const { username, scope, relationship, expiresAt } = delegationSchema.parse(req.body);
+      
+      if (expiresAt && expiresAt <= new Date()) {
+        return res.status(400).json({ message: "The end date must be in the future" });
+      }
+      
+      // Caregivers act through the patient pages, so they need a patient account
+      const delegate = await storage.getUserByUsername(username);
+      if (!delegate || (delegate.role as string) !== UserRole.PATIENT) {
+        return res.status(404).json({ message: "No patient account with that username" });
+      }
+      if (delegate.id === user.id) {
+        return res.status(400).json({ message: "You can't delegate access to yourself" });
+      }
+      if (await storage.getActivePatientDelegation(user.id, delegate.id)) {
+        return res.status(409).json({ message: "This person already has access. Change their access level instead." });
+      }
+      
+      const delegation = await storage.createPatientDelegation({
+        patientId: user.id,
+        delegateId: delegate.id,
+        scope,
+        relationship,
+        grantedBy: user.id,
+        expiresAt: expiresAt ?? null
+      });
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "delegation_granted",
+        details: `Patient ${user.id} gave ${delegate.id} (${relationship}) ${scope} access to their records`,
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json(delegation);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid delegation", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error creating delegation:", error);
+      res.status(500).json({ message: "Failed to create delegation" });
+    }
+  });
+  
+  // Change what a caregiver may do. Adult patients manage their own delegations;
+  // user managers manage a minor's guardians.
+  app.patch('/api/delegations/:id', isAuthenticated, async (req, res) => {
+    const delegationId = parseInt(req.params.id);
+    if (isNaN(delegationId)) {
+      return res.status(400).json({ message: "Invalid delegation ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const delegation = await storage.getPatientDelegation(delegationId);
+    if (!delegation) {
+      return res.status(404).json({ message: "Delegation not found" });
+    }
+    
+    const isManager = await hasPermissionOver(user, Permission.USER_MANAGE, delegation.patientId);
+    if (!isManager && (delegation.patientId !== user.id || isMinorPatient(user))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    if (!isDelegationActive(delegation)) {
+      return res.status(400).json({ message: "This delegation is no longer active" });
+    }
+    
+    const parsed = z.object({ scope: z.enum(delegationScopes) }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Invalid delegation", 
+        errors: parsed.error.errors 
+      });
+    }
+    
+    const updatedDelegation = await storage.updatePatientDelegation(delegationId, { scope: parsed.data.scope });
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "delegation_updated",
+      details: `${user.role} changed ${delegation.delegateId}'s access to patient ${delegation.patientId} from ${delegation.scope} to ${parsed.data.scope}`,
+      ipAddress: req.ip
+    });
+    
+    res.json(updatedDelegation);
+  });
+  
+  // End a delegation. The caregiver can always step down; the patient can remove
+  // them once they are an adult, and user managers can remove any.
+  app.delete('/api/delegations/:id', isAuthenticated, async (req, res) => {
+    const delegationId = parseInt(req.params.id);
+    if (isNaN(delegationId)) {
+      return res.status(400).json({ message: "Invalid delegation ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    const delegation = await storage.getPatientDelegation(delegationId);
+    if (!delegation) {
+      return res.status(404).json({ message: "Delegation not found" });
+    }
+    
+    const canRevoke =
+      delegation.delegateId === user.id ||
+      (delegation.patientId === user.id && !isMinorPatient(user)) ||
+      await hasPermissionOver(user, Permission.USER_MANAGE, delegation.patientId);
+    if (!canRevoke) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    if (delegation.status === DelegationStatus.REVOKED) {
+      return res.status(400).json({ message: "This delegation has already been removed" });
+    }
+    
+    const updatedDelegation = await storage.updatePatientDelegation(delegationId, {
+      status: DelegationStatus.REVOKED,
+      revokedAt: new Date(),
+      revokedBy: user.id
+    });
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "delegation_revoked",
+      details: `${user.role} ended ${delegation.delegateId}'s ${delegation.scope} access to patient ${delegation.patientId}`,
+      ipAddress: req.ip
+    });
+    
+    res.json(updatedDelegation);
+  });
+  
+  // Delegations for patients in the manager's organisations, for reviewing caregivers and guardians
+  app.get('/api/admin/delegations', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    ensureAuthenticated(req);
+    const delegations = await storage.getPatientDelegations(await getTenantScope(req.user));
+    res.json(await withDelegationParties(delegations));
+  });
+  
+  // Add a parent or guardian for a minor, after checking their guardianship
+  // offline. The delegation ends automatically when the patient comes of age.
+  app.post('/api/admin/delegations', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const guardianSchema = z.object({
+        patientId: z.number().int(),
+        delegateId: z.number().int(),
+        scope: z.enum(delegationScopes),
+        relationship: z.enum(delegationRelationships),
+      });
+      const { patientId, delegateId, scope, relationship } = guardianSchema.parse(req.body);
+      
+      const patient = await storage.getUser(patientId);
+      if (
+        !patient ||
+        (patient.role as string) !== UserRole.PATIENT ||
+        !(await hasPermissionOver(req.user, Permission.USER_MANAGE, patient.id))
+      ) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const delegate = await storage.getUser(delegateId);
+      if (!delegate || (delegate.role as string) !== UserRole.PATIENT) {
+        return res.status(404).json({ message: "The guardian needs a patient account" });
+      }
+      if (delegate.id === patient.id) {
+        return res.status(400).json({ message: "A patient can't be their own guardian" });
+      }
+      
+      // Adults give their own consent from their account
+      const dateOfBirth = parseUserSettings(patient.userSettings as object | null).profile?.dateOfBirth;
+      if (!isMinor(dateOfBirth)) {
+        return res.status(400).json({ 
+          message: "Guardians can only be added for patients under 18. Check the patient's date of birth." 
+        });
+      }
+      if (await storage.getActivePatientDelegation(patient.id, delegate.id)) {
+        return res.status(409).json({ message: "This guardian already has access to the patient" });
+      }
+      
+      const delegation = await storage.createPatientDelegation({
+        patientId: patient.id,
+        delegateId: delegate.id,
+        scope,
+        relationship,
+        grantedBy: req.user.id,
+        expiresAt: adulthoodDate(dateOfBirth)
+      });
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "delegation_granted",
+        details: `${req.user.role} added ${delegate.id} (${relationship}) as guardian of minor patient ${patient.id} with ${scope} access`,
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json(delegation);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid guardian details", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error creating guardian delegation:", error);
+      res.status(500).json({ message: "Failed to create delegation" });
+    }
+  });
+  
   // Audit logs routes
-  app.get('/api/audit-logs', isAuthenticated, hasRole(["admin"]), async (req, res) => {
-    const logs = await storage.getAuditLogs();
+  // Entries by or on behalf of people in the reader's organisations
+  app.get('/api/audit-logs', isAuthenticated, requirePermission(Permission.AUDIT_READ), async (req, res) => {
+    ensureAuthenticated(req);
+    const logs = await storage.getAuditLogs(await getTenantScope(req.user));
     
     // Fetch user information for each log
     const logsWithUser = await Promise.all(logs.map(async (log) => {
@@ -535,8 +1825,8 @@ Verified: ${record.verified ? "Yes" : "No"}
     ensureAuthenticated(req);
     const user = req.user;
     
-    // Users can only view their own logs, admins can view any
-    if ((user.role as string) !== 'admin' && userId !== user.id) {
+    // Users can only view their own logs, audit readers those of anyone in their organisations
+    if (userId !== user.id && !(await hasPermissionOver(user, Permission.AUDIT_READ, userId))) {
       return res.status(403).json({ message: "Access denied" });
     }
     
@@ -555,8 +1845,8 @@ Verified: ${record.verified ? "Yes" : "No"}
       ensureAuthenticated(req);
       const user = req.user;
       
-      // Users can only update their own profile, admins can update any
-      if ((user.role as string) !== 'admin' && userId !== user.id) {
+      // Users can only update their own profile, user managers those of anyone in their organisations
+      if (userId !== user.id && !(await hasPermissionOver(user, Permission.USER_MANAGE, userId))) {
         return res.status(403).json({ message: "Access denied" });
       }
   
@@ -566,22 +1856,47 @@ Verified: ${record.verified ? "Yes" : "No"}
         email: z.string().email().optional(),
         specialty: z.string().optional(),
         phone: z.string().optional(),
+        dateOfBirth: z.string()
+          .refine(value => (ageOn(value) ?? -1) >= 0, "Date of birth must be a past date in YYYY-MM-DD format")
+          .optional(),
       });
   
       const validatedData = profileSchema.parse(req.body);
       
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const currentProfile = parseUserSettings(existingUser.userSettings as object | null).profile;
+      
+      // Age decides whether a patient can manage their own caregivers, so once a
+      // date of birth is on file only user managers can correct it
+      if (
+        validatedData.dateOfBirth &&
+        currentProfile?.dateOfBirth &&
+        validatedData.dateOfBirth !== currentProfile.dateOfBirth &&
+        !roleHasPermission(user.role, Permission.USER_MANAGE)
+      ) {
+        return res.status(403).json({ message: "Contact an administrator to correct your date of birth" });
+      }
+      
       // Debug log to see what's coming in
       console.log('Profile update request:', req.body);
       console.log('Validated data:', validatedData);
       
-      // Transform flat profile data into settings structure
+      // Transform flat profile data into settings structure, keeping profile
+      // fields the request doesn't mention
       const transformedData = {
         settings: {
           profile: {
+            fullName: existingUser.fullName ?? "",
+            email: existingUser.email ?? "",
+            ...currentProfile,
             ...(validatedData.fullName ? { fullName: validatedData.fullName } : {}),
             ...(validatedData.email ? { email: validatedData.email } : {}),
             ...(validatedData.specialty ? { specialty: validatedData.specialty } : {}),
             ...(validatedData.phone ? { phone: validatedData.phone } : {}),
+            ...(validatedData.dateOfBirth ? { dateOfBirth: validatedData.dateOfBirth } : {}),
             lastUpdated: new Date().toISOString(),
           }
         }
@@ -631,37 +1946,44 @@ Verified: ${record.verified ? "Yes" : "No"}
       ensureAuthenticated(req);
       const user = req.user;
       
-      // Users can only change their own password, admins can force change
-      if ((user.role as string) !== 'admin' && userId !== user.id) {
+      // Users can only change their own password, user managers can force change
+      if (userId !== user.id && !(await hasPermissionOver(user, Permission.USER_MANAGE, userId))) {
         return res.status(403).json({ message: "Access denied" });
       }
   
-      const { currentPassword, newPassword } = req.body;
+      const { currentPassword } = req.body;
+      const newPassword = typeof req.body.newPassword === "string" ? req.body.newPassword : "";
   
-      if (!newPassword || newPassword.length < 8) {
-        return res.status(400).json({ message: "New password must be at least 8 characters" });
+      const userToUpdate = await storage.getUser(userId);
+      if (!userToUpdate) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Resetting someone's password takes over their account, so admins can
+      // only do it for roles below their own
+      if (userId !== user.id && !outranks(user, userToUpdate)) {
+        return res.status(403).json({ message: "You can't change the password of someone with your role or above" });
       }
   
       // For regular users, verify current password
-      if (userId === user.id && (user.role as string) !== 'admin') {
+      if (userId === user.id && !roleHasPermission(user.role, Permission.USER_MANAGE)) {
         if (!currentPassword) {
           return res.status(400).json({ message: "Current password is required" });
         }
   
-        const userToUpdate = await storage.getUser(userId);
-        if (!userToUpdate) {
-          return res.status(404).json({ message: "User not found" });
-        }
-  
         const passwordValid = await comparePasswords(currentPassword, userToUpdate.password);
         if (!passwordValid) {
           return res.status(401).json({ message: "Current password is incorrect" });
         }
       }
   
+      const problems = await validateNewPassword(newPassword, { user: userToUpdate });
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems.join(". "), errors: problems });
+      }
+  
       // Update password
-      const hashedPassword = await hashPassword(newPassword);
-      const updatedUser = await storage.updateUser(userId, { password: hashedPassword });
+      const updatedUser = await setUserPassword(userId, newPassword);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
@@ -676,6 +1998,9 @@ Verified: ${record.verified ? "Yes" : "No"}
           : `Admin changed password for user ${userId}`,
         ipAddress: req.ip
       });
+      await notifySecurityChange(userId, "Password changed", userId === user.id
+        ? "Your password was changed."
+        : "An administrator changed your password.");
   
       res.json({ message: "Password updated successfully" });
     } catch (error) {
@@ -701,11 +2026,22 @@ Verified: ${record.verified ? "Yes" : "No"}
         return res.status(403).json({ message: "Access denied" });
       }
   
+      const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour time such as 22:00");
       const notificationSchema = z.object({
         emailNotifications: z.boolean().optional(),
         smsNotifications: z.boolean().optional(),
         accessRequestAlerts: z.boolean().optional(),
         securityAlerts: z.boolean().optional(),
+        newRecordAlerts: z.boolean().optional(),
+        quietHours: z.object({
+          enabled: z.boolean(),
+          start: timeOfDay.optional(),
+          end: timeOfDay.optional(),
+          timezone: z.string().refine(isKnownTimeZone, "Unknown timezone").optional(),
+        }).refine(
+          quietHours => !quietHours.enabled || (quietHours.start && quietHours.end && quietHours.start !== quietHours.end),
+          "Quiet hours need different start and end times"
+        ).optional(),
       });
   
       const validatedData = notificationSchema.parse(req.body);
@@ -725,10 +2061,7 @@ Verified: ${record.verified ? "Yes" : "No"}
         ...userSettings,
         notifications: {
           ...(userSettings.notifications || {}),
-          emailNotifications: validatedData.emailNotifications,
-          smsNotifications: validatedData.smsNotifications,
-          accessRequestAlerts: validatedData.accessRequestAlerts,
-          securityAlerts: validatedData.securityAlerts
+          ...validatedData
         }
       };
       
@@ -783,12 +2116,15 @@ Verified: ${record.verified ? "Yes" : "No"}
       }
   
       // Create schema for validating security settings data
+      // Two-factor settings are only changed through the enrolment endpoints below
       const securitySchema = z.object({
-        twoFactorEnabled: z.boolean().optional(),
-        twoFactorMethod: z.enum(['sms', 'email', 'app']).nullable().optional(),
         requiredReauthForSensitive: z.boolean().optional(),
-        ipRestrictions: z.array(z.string()).nullable().optional(),
-        sessionTimeout: z.number().nullable().optional(),
+        ipRestrictions: z.array(
+          z.string().trim().refine(isValidIpRestriction, (entry) => ({
+            message: `Invalid IP address or CIDR range: ${entry}`
+          }))
+        ).max(50).nullable().optional(),
+        sessionTimeout: z.number().int().min(5).max(1440).nullable().optional(), // 5 minutes to 24 hours
         securityQuestions: z.array(
           z.object({
             question: z.string(),
@@ -801,6 +2137,13 @@ Verified: ${record.verified ? "Yes" : "No"}
       const validatedData = securitySchema.parse(req.body);
       console.log('Security settings update received:', validatedData);
       
+      // Refuse restrictions that would immediately lock the user out of this session
+      if (validatedData.ipRestrictions?.length && !isIpAllowed(req.ip, validatedData.ipRestrictions)) {
+        return res.status(400).json({
+          message: `These IP restrictions don't include your current address (${req.ip}). Add it to avoid locking yourself out.`
+        });
+      }
+      
       // Get the current user to retrieve existing settings
       const currentUser = await storage.getUser(userId);
       
@@ -855,135 +2198,1540 @@ Verified: ${record.verified ? "Yes" : "No"}
     }
   });
   
-  // Handle emergency override
-  app.post('/api/emergency-override', isAuthenticated, hasRole(["doctor", "admin"]), async (req, res) => {
+  // Two-factor enrolment: issue a new authenticator secret. It only takes
+  // effect once the user proves their app works by verifying a code.
+  app.post('/api/users/:id/two-factor/setup', isAuthenticated, async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    if (userId !== user.id) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const existing = await storage.getTwoFactorCredential(userId);
+    if (existing?.enabledAt) {
+      return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+    }
+    
+    const secret = generateTotpSecret();
+    await storage.createTwoFactorCredential(userId, secret);
+    
+    res.json({
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email || user.username)
+    });
+  });
+  
+  // Confirm enrolment with a code from the authenticator app
+  app.post('/api/users/:id/two-factor/enable', isAuthenticated, async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    if (userId !== user.id) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!credential) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+    if (credential.enabledAt) {
+      return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+    }
+    
+    const step = verifyTotp(credential.secret, String(req.body.code ?? ""));
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+    
+    await storage.updateTwoFactorCredential(userId, { enabledAt: new Date(), lastUsedStep: step });
+    const security = await updateSecuritySettings(userId, {
+      twoFactorEnabled: true,
+      twoFactorMethod: 'app'
+    });
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "two_factor_enabled",
+      details: "User enabled two-factor authentication (authenticator app)",
+      ipAddress: req.ip
+    });
+    await notifySecurityChange(user.id, "Two-factor authentication on", "Two-factor authentication was turned on for your account.");
+    
+    res.json({
+      message: "Two-factor authentication enabled",
+      security
+    });
+  });
+  
+  // Turn two-factor off; requires a current code so a hijacked session can't do it
+  app.post('/api/users/:id/two-factor/disable', isAuthenticated, async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    if (userId !== user.id) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!credential?.enabledAt) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    
+    const step = verifyTotp(credential.secret, String(req.body.code ?? ""), credential.lastUsedStep);
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+    
+    await storage.deleteTwoFactorCredential(userId);
+    const security = await updateSecuritySettings(userId, {
+      twoFactorEnabled: false,
+      twoFactorMethod: null
+    });
+    
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "two_factor_disabled",
+      details: "User disabled two-factor authentication",
+      ipAddress: req.ip
+    });
+    await notifySecurityChange(user.id, "Two-factor authentication off", "Two-factor authentication was turned off for your account.");
+    
+    res.json({
+      message: "Two-factor authentication disabled",
+      security
+    });
+  });
+  
+  // Admin: remove a user's IP restrictions, e.g. after they locked themselves out
+  app.post('/api/admin/users/:id/clear-ip-restrictions', isAuthenticated, requirePermission(Permission.USER_MANAGE), requireSameOrganization('id'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    const security = await updateSecuritySettings(userId, { ipRestrictions: null });
+    if (!security) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "ip_restrictions_cleared",
+      details: `Admin cleared IP restrictions for user ${userId}`,
+      ipAddress: req.ip
+    });
+    await notifySecurityChange(userId, "IP restrictions removed", "An administrator removed the IP address restrictions on your account.");
+    
+    res.json({
+      message: "IP restrictions cleared",
+      security
+    });
+  });
+  
+  // Admin: turn off a user's two-factor authentication and revoke their recovery
+  // codes, e.g. after they lost their phone. The user sets it up again themselves.
+  app.post('/api/admin/users/:id/reset-two-factor', isAuthenticated, requirePermission(Permission.USER_MANAGE), requireSameOrganization('id'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    // Turning off your own two-factor needs a current code, see two-factor/disable
+    if (userId === req.user.id) {
+      return res.status(400).json({ message: "Turn off your own two-factor authentication in your settings" });
+    }
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!outranks(req.user, user)) {
+      return res.status(403).json({ message: "You can't reset two-factor for someone with your role or above" });
+    }
+    
+    await storage.deleteTwoFactorCredential(userId);
+    await storage.replaceRecoveryCodes(userId, []);
+    const security = await updateSecuritySettings(userId, {
+      twoFactorEnabled: false,
+      twoFactorMethod: null,
+      recoveryCodesGenerated: false
+    });
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "two_factor_reset",
+      details: `Admin turned off two-factor authentication and revoked recovery codes for user ${userId}`,
+      ipAddress: req.ip
+    });
+    await notifySecurityChange(userId, "Two-factor authentication reset", "An administrator turned off two-factor authentication for your account and revoked your recovery codes.");
+    
+    res.json({
+      message: "Two-factor authentication reset",
+      security
+    });
+  });
+  
+  // Accounts currently locked out after repeated failed sign-ins
+  app.get('/api/admin/account-lockouts', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      const tenant = await getTenantScope(req.user);
+      const lockouts = await getLockedAccounts();
+      const visible = await Promise.all(lockouts.map(lockout => isInTenant(tenant, lockout.userId)));
+      res.json(lockouts.filter((_lockout, index) => visible[index]));
+    } catch (error) {
+      console.error("Error fetching account lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch account lockouts" });
+    }
+  });
+  
+  app.post('/api/admin/users/:id/unlock', isAuthenticated, requirePermission(Permission.USER_MANAGE), requireSameOrganization('id'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
     try {
       ensureAuthenticated(req);
       
-      // Create an audit log for the emergency access
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (!outranks(req.user, user)) {
+        return res.status(403).json({ message: "You can't unlock someone with your role or above" });
+      }
+      
+      await clearAccountFailures(userId);
+      
       await storage.createAuditLog({
         userId: req.user.id,
-        action: "emergency_override",
-        details: `Emergency override initiated by ${req.user.role} ${req.user.fullName}`,
-        resourceType: "access_control",
-        resourceId: null,
-        metadata: JSON.stringify({
-          reason: req.body.reason || "Emergency medical situation",
-          timestamp: req.body.timestamp || new Date().toISOString()
-        }),
-        ipAddress: req.ip || "unknown"
+        action: "account_unlocked",
+        details: `Admin unlocked sign-in for user ${userId}`,
+        ipAddress: req.ip
       });
+      await notifySecurityChange(userId, "Account unlocked", "An administrator unlocked sign-in to your account.");
       
-      res.status(200).json({ 
-        success: true, 
-        message: "Emergency access granted and logged" 
-      });
+      res.json({ message: "Account unlocked" });
     } catch (error) {
-      console.error("Error processing emergency override:", error);
-      res.status(500).json({ message: "Failed to process emergency override" });
+      console.error("Error unlocking account:", error);
+      res.status(500).json({ message: "Failed to unlock account" });
     }
   });
   
-  // Update session timeout
-  app.post('/api/session-timeout', isAuthenticated, async (req, res) => {
+  // End every session a user has, e.g. for a lost device or compromised account
+  app.post('/api/admin/users/:id/force-logout', isAuthenticated, requirePermission(Permission.USER_MANAGE), requireSameOrganization('id'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
     try {
       ensureAuthenticated(req);
       
-      // Get current user
-      const user = await storage.getUser(req.user.id);
-      if (!user || !user.settings) {
+      const user = await storage.getUser(userId);
+      if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Get timeout value from settings
-      const sessionTimeout = user.settings.security?.sessionTimeout;
+      if (userId !== req.user.id && !outranks(req.user, user)) {
+        return res.status(403).json({ message: "You can't sign out someone with your role or above" });
+      }
+      
+      // An admin signing themselves out everywhere keeps the session they are using
+      const revoked = await storage.deleteSessionsByUserId(
+        userId,
+        userId === req.user.id ? req.sessionID : undefined
+      );
+      publishSessionsRevoked(userId, userId === req.user.id ? req.sessionID : undefined);
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "sessions_force_ended",
+        details: `Admin signed out ${revoked} ${revoked === 1 ? "session" : "sessions"} for user ${userId}`,
+        ipAddress: req.ip
+      });
+      await notifySecurityChange(userId, "Signed out everywhere", "An administrator signed your account out of every session.");
+      
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+  
+  // Admin-created accounts are the only way to add admins, and the invitation
+  // path for doctors: the admin vouches for the licence, so it starts verified.
+  // New accounts join one of the admin's organisations.
+  app.post('/api/admin/users', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const newUserSchema = accountDetailsSchema.extend({
+        role: z.enum(userRoles),
+        licenseNumber: z.string().trim().min(3).max(50).optional(),
+        issuingAuthority: z.string().trim().max(100).optional(),
+        organizationId: z.number().int().optional(),
+      });
+      const { role, licenseNumber, issuingAuthority, organizationId: requestedOrganizationId, ...details } = newUserSchema.parse(req.body);
+      
+      if (role === UserRole.SUPER_ADMIN && !roleHasPermission(req.user.role, Permission.ORG_MANAGE)) {
+        return res.status(403).json({ message: "Only super admins can create super admin accounts" });
+      }
+      if (role === UserRole.DOCTOR && !licenseNumber) {
+        return res.status(400).json({ message: "A licence number is required for doctor accounts" });
+      }
+      
+      const { organizationId, problem } = await resolveNewMemberOrganization(req.user, requestedOrganizationId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const { user, problems } = await createAccount(details, role);
+      if (!user) {
+        return res.status(400).json({ message: problems.join(". ") });
+      }
+      
+      if (organizationId) {
+        await storage.createOrganizationMembership({ organizationId, userId: user.id, addedBy: req.user.id });
+      }
       
-      // If no session timeout is set, return default value
-      if (!sessionTimeout) {
-        return res.status(200).json({ 
-          success: true,
-          sessionTimeout: 30 // Default 30 minutes
+      if (role === UserRole.DOCTOR && licenseNumber) {
+        await storage.createDoctorProfile({
+          userId: user.id,
+          licenseNumber,
+          issuingAuthority: issuingAuthority || null,
+          verificationStatus: DoctorVerificationStatus.VERIFIED,
+          reviewedBy: req.user.id,
+          reviewedAt: new Date()
         });
       }
       
-      // Return the session timeout
-      res.status(200).json({ 
-        success: true,
-        sessionTimeout
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "role_granted",
+        details: `Admin created user ${user.id} (${user.username}) with role: ${role}` +
+          (organizationId ? ` in organisation ${organizationId}` : ""),
+        ipAddress: req.ip
       });
+      
+      const { password, ...sanitizedUser } = user;
+      res.status(201).json(sanitizedUser);
     } catch (error) {
-      console.error("Error getting session timeout:", error);
-      res.status(500).json({ message: "Failed to get session timeout" });
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid user data", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
     }
   });
   
-  // Generate recovery codes
-  app.post('/api/users/:id/generate-recovery-codes', isAuthenticated, async (req, res) => {
+  app.put('/api/admin/users/:id/role', isAuthenticated, requirePermission(Permission.USER_MANAGE), requireSameOrganization('id'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
     try {
       ensureAuthenticated(req);
-      const userId = parseInt(req.params.id, 10);
       
-      // Check authorization - users can only generate their own recovery codes
-      if (req.user.id !== userId && req.user.role !== 'admin') {
-        return res.status(403).json({ message: "Unauthorized to generate recovery codes for this user" });
-      }
+      const roleSchema = z.object({
+        role: z.enum(userRoles),
+        licenseNumber: z.string().trim().min(3).max(50).optional(),
+        issuingAuthority: z.string().trim().max(100).optional(),
+      });
+      const { role, licenseNumber, issuingAuthority } = roleSchema.parse(req.body);
       
-      // Generate 10 random recovery codes
-      const recoveryCodes: string[] = [];
-      for (let i = 0; i < 10; i++) {
-        const code = Array.from(
-          { length: 4 },
-          () => Math.random().toString(36).substring(2, 6)
-        ).join('-');
-        recoveryCodes.push(code);
+      // Stops the last admin from demoting themselves out of the admin pages
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
       }
       
-      // Get current user settings
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Update user's security settings
-      const currentSettings = user.settings || {};
-      const updatedSettings = {
-        ...currentSettings,
-        security: {
-          ...(currentSettings.security || {}),
-          recoveryCodesGenerated: true,
-          recoveryCodes: recoveryCodes
+      // Organisation admins only change the roles of people below them, and only
+      // to roles below their own; super admins can grant and remove any role
+      if (!isSuperAdmin(req.user) && !(outranks(req.user, user) && outranks(req.user, { role }))) {
+        return res.status(403).json({ message: "You can only give roles below your own to someone below your role" });
+      }
+      
+      if (user.role === role) {
+        return res.status(409).json({ message: `User already has the ${role} role` });
+      }
+      
+      // Promoting to doctor needs a verified licence, like an admin-created doctor
+      if (role === UserRole.DOCTOR) {
+        const profile = await storage.getDoctorProfile(userId);
+        if (!profile && !licenseNumber) {
+          return res.status(400).json({ message: "A licence number is required to grant the doctor role" });
         }
-      };
+        const verification = {
+          verificationStatus: DoctorVerificationStatus.VERIFIED,
+          reviewedBy: req.user.id,
+          reviewedAt: new Date(),
+          ...(issuingAuthority ? { issuingAuthority } : {})
+        };
+        if (profile) {
+          await storage.updateDoctorProfile(userId, { ...verification, ...(licenseNumber ? { licenseNumber } : {}) });
+        } else {
+          await storage.createDoctorProfile({ userId, licenseNumber: licenseNumber!, ...verification });
+        }
+      }
       
-      // Save updated settings using the new settings structure
-      await storage.updateUser(userId, {
-        settings: updatedSettings
-      });
+      const updatedUser = await storage.updateUser(userId, { role });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
       
-      // Create audit log
       await storage.createAuditLog({
         userId: req.user.id,
-        action: "recovery_codes_generated",
-        details: `Recovery codes generated for user`,
-        resourceType: "user_security",
-        resourceId: userId,
-        metadata: JSON.stringify({
-          timestamp: new Date().toISOString()
-        }),
-        ipAddress: req.ip || "unknown"
+        action: "role_granted",
+        details: `Admin changed the role of user ${userId} from ${user.role} to ${role}`,
+        ipAddress: req.ip
       });
       
-      // Return the codes to display once to the user
-      res.status(200).json({ 
-        success: true, 
-        recoveryCodes
-      });
+      const { password, ...sanitizedUser } = updatedUser;
+      res.json(sanitizedUser);
     } catch (error) {
-      console.error("Error generating recovery codes:", error);
-      res.status(500).json({ message: "Failed to generate recovery codes" });
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid role data", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error changing role:", error);
+      res.status(500).json({ message: "Failed to change role" });
     }
   });
+  
+  // Organisation routes
+  // The caller's own organisations, or every organisation for super admins
+  app.get('/api/organizations', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    
+    const organizations = await storage.getOrganizations(await getTenantScope(req.user));
+    const organizationsWithCounts = await Promise.all(organizations.map(async (organization) => ({
+      ...organization,
+      memberCount: (await storage.getOrganizationMemberships(organization.id)).length
+    })));
+    
+    res.json(organizationsWithCounts);
+  });
+  
+  app.post('/api/organizations', isAuthenticated, requirePermission(Permission.ORG_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const organizationSchema = z.object({
+        name: z.string().trim().min(2, "Name must be at least 2 characters").max(100),
+      });
+      const { name } = organizationSchema.parse(req.body);
+      
+      if (await storage.getOrganizationByName(name)) {
+        return res.status(409).json({ message: "An organisation with this name already exists" });
+      }
+      
+      const organization = await storage.createOrganization({ name, createdBy: req.user.id });
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "organization_created",
+        details: `Super admin created organisation ${organization.id} (${organization.name})`,
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json({ ...organization, memberCount: 0 });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid organisation", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error creating organisation:", error);
+      res.status(500).json({ message: "Failed to create organisation" });
+    }
+  });
+  
+  app.get('/api/organizations/:id/members', isAuthenticated, requirePermission(Permission.USER_READ), async (req, res) => {
+    const organizationId = parseInt(req.params.id);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ message: "Invalid organisation ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    const tenant = await getTenantScope(req.user);
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (tenant && !tenant.includes(organization.id))) {
+      return res.status(404).json({ message: "Organisation not found" });
+    }
+    
+    const memberships = await storage.getOrganizationMemberships(organizationId);
+    const members = await Promise.all(memberships.map(async (membership) => {
+      const member = await storage.getUser(membership.userId);
+      return {
+        ...membership,
+        user: member ? {
+          id: member.id,
+          username: member.username,
+          fullName: member.fullName,
+          email: member.email,
+          role: member.role
+        } : null
+      };
+    }));
+    
+    res.json(members);
+  });
+  
+  // Add an existing account to an organisation. Organisation admins can take in
+  // people who don't belong anywhere yet (self-registered patients, new doctors);
+  // moving someone in from another organisation needs a super admin.
+  app.post('/api/organizations/:id/members', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    const organizationId = parseInt(req.params.id);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ message: "Invalid organisation ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    const tenant = await getTenantScope(req.user);
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (tenant && !tenant.includes(organization.id))) {
+      return res.status(404).json({ message: "Organisation not found" });
+    }
+    
+    const parsed = z.object({ username: z.string().trim().min(1, "Username is required") }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Invalid member", 
+        errors: parsed.error.errors 
+      });
+    }
+    
+    const member = await storage.getUserByUsername(parsed.data.username);
+    if (!member) {
+      return res.status(404).json({ message: "No user with that username" });
+    }
+    if (isSuperAdmin(member) && !isSuperAdmin(req.user)) {
+      return res.status(403).json({ message: "Only super admins can add super admins to an organisation" });
+    }
+    
+    const memberships = await storage.getOrganizationMembershipsByUserId(member.id);
+    if (memberships.some(membership => membership.organizationId === organizationId)) {
+      return res.status(409).json({ message: "Already a member of this organisation" });
+    }
+    if (tenant && memberships.some(membership => !tenant.includes(membership.organizationId))) {
+      return res.status(403).json({ message: "This person belongs to another organisation. Ask a super admin to add them." });
+    }
+    
+    const membership = await storage.createOrganizationMembership({
+      organizationId,
+      userId: member.id,
+      addedBy: req.user.id
+    });
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "organization_member_added",
+      details: `${req.user.role} added user ${member.id} (${member.username}) to organisation ${organizationId}`,
+      ipAddress: req.ip
+    });
+    
+    res.status(201).json(membership);
+  });
+  
+  app.delete('/api/organizations/:id/members/:userId', isAuthenticated, requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    const organizationId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+    if (isNaN(organizationId) || isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid organisation or user ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    const tenant = await getTenantScope(req.user);
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (tenant && !tenant.includes(organization.id))) {
+      return res.status(404).json({ message: "Organisation not found" });
+    }
+    
+    // Stops an organisation admin locking themselves out of it
+    if (userId === req.user.id && tenant) {
+      return res.status(400).json({ message: "You can't remove yourself from an organisation" });
+    }
+    
+    const member = await storage.getUser(userId);
+    if (member && isSuperAdmin(member) && !isSuperAdmin(req.user)) {
+      return res.status(403).json({ message: "Only super admins can remove super admins from an organisation" });
+    }
+    
+    const memberships = await storage.getOrganizationMemberships(organizationId);
+    if (!memberships.some(membership => membership.userId === userId)) {
+      return res.status(404).json({ message: "Not a member of this organisation" });
+    }
+    
+    await storage.deleteOrganizationMembership(organizationId, userId);
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "organization_member_removed",
+      details: `${req.user.role} removed user ${userId} from organisation ${organizationId}`,
+      ipAddress: req.ip
+    });
+    
+    res.json({ message: "Member removed" });
+  });
+  
+  // Doctor credential verification: a doctor's own licence details and supporting documents
+  app.get('/api/doctor/verification', isAuthenticated, requirePermission(Permission.CREDENTIALS_SUBMIT), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const profile = await storage.getDoctorProfile(req.user.id);
+      const documents = await storage.getDoctorVerificationDocuments(req.user.id);
+      res.json({
+        profile: profile ?? null,
+        documents: documents.map(toDocumentSummary)
+      });
+    } catch (error) {
+      console.error("Error fetching doctor verification:", error);
+      res.status(500).json({ message: "Failed to fetch verification details" });
+    }
+  });
+  
+  // Send licence details for review. Verified credentials can only be changed by an admin.
+  app.put('/api/doctor/verification', isAuthenticated, requirePermission(Permission.CREDENTIALS_SUBMIT), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const verificationSchema = z.object({
+        licenseNumber: z.string().trim().min(3, "Licence number must be at least 3 characters").max(50),
+        issuingAuthority: z.string().trim().min(2, "Issuing authority is required").max(100),
+        specialty: z.string().trim().min(1, "Specialty is required").max(100),
+      });
+      const { licenseNumber, issuingAuthority, specialty } = verificationSchema.parse(req.body);
+      
+      const existing = await storage.getDoctorProfile(req.user.id);
+      if (existing?.verificationStatus === DoctorVerificationStatus.VERIFIED) {
+        return res.status(409).json({ message: "Your credentials are already verified. Contact an administrator to change them." });
+      }
+      
+      const submission = {
+        licenseNumber,
+        issuingAuthority,
+        verificationStatus: DoctorVerificationStatus.PENDING,
+        submittedAt: new Date()
+      };
+      const profile = existing
+        ? await storage.updateDoctorProfile(req.user.id, { ...submission, reviewNotes: null })
+        : await storage.createDoctorProfile({ userId: req.user.id, ...submission });
+      
+      const settings = parseUserSettings(req.user.userSettings as object | null);
+      if (settings.profile) {
+        await storage.updateUser(req.user.id, {
+          settings: {
+            ...settings,
+            profile: {
+              ...settings.profile,
+              specialty,
+              lastUpdated: new Date().toISOString()
+            }
+          }
+        });
+      }
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "doctor_verification_submitted",
+        details: `Doctor submitted licence ${licenseNumber} issued by ${issuingAuthority} for verification`,
+        ipAddress: req.ip
+      });
+      
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid verification details", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error updating verification details:", error);
+      res.status(500).json({ message: "Failed to update verification details" });
+    }
+  });
+  
+  // Upload a supporting document (multipart/form-data, file in the "file" field)
+  app.post('/api/doctor/verification/documents', isAuthenticated, requirePermission(Permission.CREDENTIALS_SUBMIT), handleVerificationDocumentUpload, async (req, res) => {
+    const file = req.file;
+    try {
+      ensureAuthenticated(req);
+      
+      if (!file || !file.storageKey || !file.checksum || !file.encryptionKeyId ||
+          !file.wrappedDataKey || !file.encryptionIv || !file.encryptionAuthTag) {
+        await discardUpload(file);
+        return res.status(400).json({ message: "A file is required" });
+      }
+      
+      const profile = await storage.getDoctorProfile(req.user.id);
+      if (profile?.verificationStatus === DoctorVerificationStatus.VERIFIED) {
+        await discardUpload(file);
+        return res.status(409).json({ message: "Your credentials are already verified" });
+      }
+      
+      const document = await storage.createDoctorVerificationDocument({
+        doctorId: req.user.id,
+        fileName: file.originalname,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        checksum: file.checksum,
+        storageKey: file.storageKey,
+        encryptionKeyId: file.encryptionKeyId,
+        wrappedDataKey: file.wrappedDataKey,
+        encryptionIv: file.encryptionIv,
+        encryptionAuthTag: file.encryptionAuthTag
+      });
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "verification_document_uploaded",
+        details: `Doctor uploaded verification document ${document.id} (${file.size} bytes, sha256 ${file.checksum})`,
+        ipAddress: req.ip
+      });
+      
+      res.status(201).json(toDocumentSummary(document));
+    } catch (error) {
+      await discardUpload(file);
+      console.error("Error uploading verification document:", error);
+      res.status(500).json({ message: "Failed to upload verification document" });
+    }
+  });
+  
+  app.delete('/api/doctor/verification/documents/:id', isAuthenticated, requirePermission(Permission.CREDENTIALS_SUBMIT), async (req, res) => {
+    const documentId = parseInt(req.params.id);
+    if (isNaN(documentId)) {
+      return res.status(400).json({ message: "Invalid document ID" });
+    }
+    
+    try {
+      ensureAuthenticated(req);
+      
+      const document = await storage.getDoctorVerificationDocument(documentId);
+      if (!document || document.doctorId !== req.user.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Documents behind a completed review are kept as the evidence for it
+      const profile = await storage.getDoctorProfile(req.user.id);
+      if (profile?.verificationStatus === DoctorVerificationStatus.VERIFIED) {
+        return res.status(409).json({ message: "Documents can't be removed once your credentials are verified" });
+      }
+      
+      await storage.deleteDoctorVerificationDocument(documentId);
+      await objectStore.delete(document.storageKey);
+      
+      res.json({ message: "Document removed" });
+    } catch (error) {
+      console.error("Error removing verification document:", error);
+      res.status(500).json({ message: "Failed to remove document" });
+    }
+  });
+  
+  // Download a verification document: its doctor or a reviewer in their organisation
+  app.get('/api/doctor-verification/documents/:id/download', isAuthenticated, async (req, res) => {
+    const documentId = parseInt(req.params.id);
+    if (isNaN(documentId)) {
+      return res.status(400).json({ message: "Invalid document ID" });
+    }
+    
+    ensureAuthenticated(req);
+    
+    const document = await storage.getDoctorVerificationDocument(documentId);
+    if (
+      !document ||
+      (document.doctorId !== req.user.id && !(await hasPermissionOver(req.user, Permission.CREDENTIALS_REVIEW, document.doctorId)))
+    ) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    
+    if (document.doctorId !== req.user.id) {
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "verification_document_accessed",
+        details: `Admin downloaded verification document ${documentId} of doctor ${document.doctorId}`,
+        ipAddress: req.ip
+      });
+    }
+    
+    return sendStoredFile(res, document, `verification-document-${documentId}`);
+  });
+  
+  // Doctors' credentials awaiting review, pending ones by default. Applicants who
+  // don't belong to an organisation yet are only seen by super admins.
+  app.get('/api/admin/doctor-applications', isAuthenticated, requirePermission(Permission.CREDENTIALS_REVIEW), async (req, res) => {
+    const status = typeof req.query.status === "string" ? req.query.status : DoctorVerificationStatus.PENDING;
+    
+    try {
+      ensureAuthenticated(req);
+      const profiles = await storage.getDoctorProfiles(
+        status === "all" ? undefined : status,
+        await getTenantScope(req.user)
+      );
+      const applications = await Promise.all(profiles.map(async (profile) => {
+        const applicant = await storage.getUser(profile.userId);
+        const documents = await storage.getDoctorVerificationDocuments(profile.userId);
+        return {
+          ...profile,
+          username: applicant?.username,
+          fullName: applicant?.fullName,
+          email: applicant?.email,
+          specialty: applicant?.specialty,
+          documents: documents.map(toDocumentSummary)
+        };
+      }));
+      res.json(applications);
+    } catch (error) {
+      console.error("Error fetching doctor applications:", error);
+      res.status(500).json({ message: "Failed to fetch doctor applications" });
+    }
+  });
+  
+  // Approve or reject a doctor's credentials. Approval is what grants the doctor
+  // role in practice, since unverified doctors can't see patients or request access.
+  app.post('/api/admin/doctor-applications/:userId/review', isAuthenticated, requirePermission(Permission.CREDENTIALS_REVIEW), requireSameOrganization('userId'), async (req, res) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    try {
+      ensureAuthenticated(req);
+      
+      const reviewSchema = z.object({
+        decision: z.enum(["approve", "reject"]),
+        notes: z.string().trim().optional(),
+      });
+      const { decision, notes } = reviewSchema.parse(req.body);
+      
+      const profile = await storage.getDoctorProfile(userId);
+      const applicant = await storage.getUser(userId);
+      if (!profile || !applicant) {
+        return res.status(404).json({ message: "Doctor application not found" });
+      }
+      
+      if (profile.verificationStatus !== DoctorVerificationStatus.PENDING) {
+        return res.status(409).json({ message: "Doctor application has already been reviewed" });
+      }
+      
+      if (decision === "reject" && !notes) {
+        return res.status(400).json({ message: "Rejections require review notes" });
+      }
+      
+      const approved = decision === "approve";
+      const updatedProfile = await storage.updateDoctorProfile(userId, {
+        verificationStatus: approved ? DoctorVerificationStatus.VERIFIED : DoctorVerificationStatus.REJECTED,
+        reviewedBy: req.user.id,
+        reviewedAt: new Date(),
+        reviewNotes: notes || null
+      });
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: approved ? "role_granted" : "doctor_application_rejected",
+        details: approved
+          ? `Admin verified licence ${profile.licenseNumber} and granted the doctor role to user ${userId}`
+          : `Admin rejected the doctor application of user ${userId}. Notes: ${notes}`,
+        ipAddress: req.ip
+      });
+      
+      if (applicant.email) {
+        await mailTransport.send({
+          to: applicant.email,
+          subject: approved
+            ? "Your MediVault doctor account is ready"
+            : "Your MediVault doctor application",
+          text: [
+            `Hello ${applicant.fullName || applicant.username},`,
+            "",
+            approved
+              ? "Your credentials have been verified. You can now find patients and request access to their records."
+              : "We couldn't verify your credentials. You can update your details or documents and submit them again.",
+            ...(!approved && notes ? ["", `Reason: ${notes}`] : [])
+          ].join("\n")
+        });
+      }
+      
+      res.json(updatedProfile);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid review data", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error reviewing doctor application:", error);
+      res.status(500).json({ message: "Failed to review application" });
+    }
+  });
+  
+  // Re-wrap attachment data keys under the current master key after a rotation.
+  // Only the wrapped keys change; encrypted file bodies are left untouched.
+  app.post('/api/admin/encryption/rewrap', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const currentKeyId = getCurrentMasterKeyId();
+      const staleRecords = await storage.getRecordsWithStaleEncryptionKey(currentKeyId);
+      
+      let rewrapped = 0;
+      const failed: number[] = [];
+      
+      for (const record of staleRecords) {
+        try {
+          const { keyId, wrappedKey } = rewrapDataKey(record.wrappedDataKey!, record.encryptionKeyId!);
+          await storage.updateRecord(record.id, {
+            encryptionKeyId: keyId,
+            wrappedDataKey: wrappedKey
+          });
+          rewrapped++;
+        } catch (error) {
+          console.error(`Error re-wrapping data key for record ${record.id}:`, error);
+          failed.push(record.id);
+        }
+      }
+      
+      // Doctors' verification documents are encrypted the same way
+      const staleDocuments = await storage.getDoctorVerificationDocumentsWithStaleEncryptionKey(currentKeyId);
+      let rewrappedDocuments = 0;
+      const failedDocuments: number[] = [];
+      
+      for (const document of staleDocuments) {
+        try {
+          const { keyId, wrappedKey } = rewrapDataKey(document.wrappedDataKey, document.encryptionKeyId);
+          await storage.updateDoctorVerificationDocument(document.id, {
+            encryptionKeyId: keyId,
+            wrappedDataKey: wrappedKey
+          });
+          rewrappedDocuments++;
+        } catch (error) {
+          console.error(`Error re-wrapping data key for verification document ${document.id}:`, error);
+          failedDocuments.push(document.id);
+        }
+      }
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "encryption_keys_rewrapped",
+        details: `Admin re-wrapped ${rewrapped} record and ${rewrappedDocuments} verification document data keys under master key ${currentKeyId}` +
+          (failed.length > 0 ? `; failed for records ${failed.join(", ")}` : "") +
+          (failedDocuments.length > 0 ? `; failed for verification documents ${failedDocuments.join(", ")}` : ""),
+        ipAddress: req.ip
+      });
+      
+      res.json({
+        currentKeyId,
+        rewrapped,
+        failed,
+        rewrappedDocuments,
+        failedDocuments
+      });
+    } catch (error) {
+      console.error("Error re-wrapping data keys:", error);
+      res.status(500).json({ message: "Failed to re-wrap data keys" });
+    }
+  });
+  
+  // Break-glass emergency access: a doctor takes a short, time-boxed grant without
+  // patient approval. The patient is told immediately and an admin must review it.
+  app.post('/api/emergency-override', isAuthenticated, requirePermission(Permission.EMERGENCY_OVERRIDE), requireVerifiedDoctor, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      const user = req.user;
+      
+      const overrideSchema = z.object({
+        patientId: z.number().int().positive(),
+        reason: z.string().trim().min(10, "Describe the emergency in at least 10 characters"),
+      });
+      const { patientId, reason } = overrideSchema.parse(req.body);
+      
+      const patient = await storage.getUser(patientId);
+      if (!patient || (patient.role as string) !== 'patient') {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      
+      // Only for patients in the doctor's organisations, or patients who belong to
+      // none yet; super admins review those, since no organisation admin can
+      const unaffiliated = (await storage.getOrganizationMembershipsByUserId(patientId)).length === 0;
+      if (!unaffiliated && !(await isInTenant(await getTenantScope(user), patientId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + EMERGENCY_ACCESS_MINUTES * 60 * 1000);
+      
+      const grant = await storage.createEmergencyAccessGrant({
+        doctorId: user.id,
+        patientId,
+        reason,
+        expiresAt
+      });
+      
+      // The grant shows up on the patient's access page straight away
+      const notifiedGrant = await storage.updateEmergencyAccessGrant(grant.id, {
+        patientNotifiedAt: now
+      });
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "emergency_override",
+        details: `Doctor invoked emergency access to patient ${patientId} until ${expiresAt.toISOString()}. Reason: ${reason}`,
+        ipAddress: req.ip
+      });
+      await notifyEmergencyAccess(grant, user);
+      
+      res.status(201).json(notifiedGrant || grant);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid emergency access request", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error processing emergency override:", error);
+      res.status(500).json({ message: "Failed to process emergency override" });
+    }
+  });
+  
+  // Admin review queue for break-glass grants on patients in the admin's organisations
+  app.get('/api/emergency-access', isAuthenticated, requirePermission(Permission.EMERGENCY_REVIEW), async (req, res) => {
+    ensureAuthenticated(req);
+    const reviewStatus = typeof req.query.status === "string" ? req.query.status : undefined;
+    const grants = await storage.getEmergencyAccessGrants(reviewStatus, await getTenantScope(req.user));
+    
+    // Fetch doctor and patient information for each grant
+    const grantsWithUsers = await Promise.all(grants.map(async (grant) => {
+      const doctor = await storage.getUser(grant.doctorId);
+      const patient = await storage.getUser(grant.patientId);
+      return {
+        ...grant,
+        doctor: doctor ? {
+          id: doctor.id,
+          fullName: doctor.fullName,
+          specialty: doctor.specialty,
+          email: doctor.email
+        } : null,
+        patient: patient ? {
+          id: patient.id,
+          fullName: patient.fullName,
+          email: patient.email
+        } : null
+      };
+    }));
+    
+    res.json(grantsWithUsers);
+  });
+  
+  app.get('/api/emergency-access/patient/:patientId', isAuthenticated, async (req, res) => {
+    const patientId = parseInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      return res.status(400).json({ message: "Invalid patient ID" });
+    }
+    
+    // Use type guard to ensure req.user is defined
+    ensureAuthenticated(req);
+    const user = req.user;
+    
+    // Patients (and their delegates) can only view emergency access to their own records
+    if (
+      !(await hasPermissionOver(user, Permission.EMERGENCY_REVIEW, patientId)) &&
+      !(await actsForPatient(user, patientId, DelegationScope.VIEW))
+    ) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const grants = await storage.getEmergencyAccessGrantsByPatientId(patientId);
+    
+    // For each grant, fetch the doctor's information
+    const grantsWithDoctor = await Promise.all(grants.map(async (grant) => {
+      const doctor = await storage.getUser(grant.doctorId);
+      return {
+        ...grant,
+        doctor: doctor ? {
+          id: doctor.id,
+          fullName: doctor.fullName,
+          specialty: doctor.specialty,
+          email: doctor.email
+        } : null
+      };
+    }));
+    
+    res.json(grantsWithDoctor);
+  });
+  
+  // Sign off or escalate a break-glass grant. Escalating also ends the grant.
+  app.patch('/api/emergency-access/:id/review', isAuthenticated, requirePermission(Permission.EMERGENCY_REVIEW), async (req, res) => {
+    const grantId = parseInt(req.params.id);
+    if (isNaN(grantId)) {
+      return res.status(400).json({ message: "Invalid emergency access ID" });
+    }
+    
+    try {
+      ensureAuthenticated(req);
+      const user = req.user;
+      
+      const reviewSchema = z.object({
+        decision: z.enum([EmergencyReviewStatus.SIGNED_OFF, EmergencyReviewStatus.ESCALATED]),
+        notes: z.string().trim().optional(),
+      });
+      const { decision, notes } = reviewSchema.parse(req.body);
+      
+      // The same admins who see the grant in the review queue
+      const grant = await storage.getEmergencyAccessGrant(grantId);
+      if (!grant || !(await hasPermissionOver(user, Permission.EMERGENCY_REVIEW, grant.patientId))) {
+        return res.status(404).json({ message: "Emergency access not found" });
+      }
+      
+      if (grant.reviewStatus !== EmergencyReviewStatus.PENDING) {
+        return res.status(409).json({ message: "Emergency access has already been reviewed" });
+      }
+      
+      if (decision === EmergencyReviewStatus.ESCALATED && !notes) {
+        return res.status(400).json({ message: "Escalations require review notes" });
+      }
+      
+      const now = new Date();
+      const stillActive = !grant.revokedAt && new Date(grant.expiresAt) > now;
+      
+      const updatedGrant = await storage.updateEmergencyAccessGrant(grantId, {
+        reviewStatus: decision,
+        reviewedBy: user.id,
+        reviewedAt: now,
+        reviewNotes: notes || null,
+        ...(decision === EmergencyReviewStatus.ESCALATED && stillActive ? { revokedAt: now } : {})
+      });
+      
+      await storage.createAuditLog({
+        userId: user.id,
+        action: decision === EmergencyReviewStatus.ESCALATED
+          ? "emergency_access_escalated"
+          : "emergency_access_signed_off",
+        details: `Admin ${decision === EmergencyReviewStatus.ESCALATED ? "escalated" : "signed off"} emergency access ${grantId} by doctor ${grant.doctorId} to patient ${grant.patientId}` +
+          (notes ? `. Notes: ${notes}` : ""),
+        ipAddress: req.ip
+      });
+      
+      res.json(updatedGrant);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Invalid review data", 
+          errors: (error as unknown as { errors: any }).errors 
+        });
+      }
+      console.error("Error reviewing emergency access:", error);
+      res.status(500).json({ message: "Failed to review emergency access" });
+    }
+  });
+  
+  // Effective idle timeout for the current user, after the organisation-wide cap
+  app.post('/api/session-timeout', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      const { timeoutMinutes } = await getSessionExpiry(req, req.user);
+      
+      res.status(200).json({ 
+        success: true,
+        sessionTimeout: timeoutMinutes
+      });
+    } catch (error) {
+      console.error("Error getting session timeout:", error);
+      res.status(500).json({ message: "Failed to get session timeout" });
+    }
+  });
+  
+  // When the session will expire if idle. Polling this does not count as activity.
+  app.get('/api/session/status', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const { timeoutMinutes, expiresAt } = await getSessionExpiry(req, req.user);
+    res.json({ timeoutMinutes, expiresAt });
+  });
+  
+  // Explicit "stay signed in"; like any other request it renews the idle timer
+  app.post('/api/session/keepalive', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const { timeoutMinutes, expiresAt } = await getSessionExpiry(req, req.user);
+    res.json({ timeoutMinutes, expiresAt });
+  });
+  
+  // The current user's signed-in sessions across devices
+  app.get('/api/sessions', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      res.json(await listUserSessions(req.user.id, req.sessionID));
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res.status(500).json({ message: "Failed to list sessions" });
+    }
+  });
+  
+  // Sign out every session except the one making the request
+  app.delete('/api/sessions', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const revoked = await storage.deleteSessionsByUserId(req.user.id, req.sessionID);
+      publishSessionsRevoked(req.user.id, req.sessionID);
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "session_revoked",
+        details: `Signed out ${revoked} other ${revoked === 1 ? "session" : "sessions"}`,
+        ipAddress: req.ip
+      });
+      
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+  
+  // Sign out a single other session, by the id it was listed under
+  app.delete('/api/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const target = await findUserSession(req.user.id, req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Use sign out to end the current session" });
+      }
+      
+      await storage.deleteSession(target.sid);
+      publishSessionRevoked(req.user.id, target.sid);
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "session_revoked",
+        details: `Signed out session from ${target.data.ipAddress || "unknown address"}`,
+        ipAddress: req.ip
+      });
+      
+      res.json({ revoked: 1 });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+  
+  // The current user's notifications, newest first, with how many are unread
+  app.get('/api/notifications', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    
+    const parsed = z.object({
+      limit: z.coerce.number().int().min(1).max(100).default(20)
+    }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid query parameters",
+        errors: parsed.error.errors
+      });
+    }
+    
+    const [notifications, unreadCount] = await Promise.all([
+      storage.getNotificationsByUserId(req.user.id, parsed.data.limit),
+      storage.countUnreadNotifications(req.user.id)
+    ]);
+    res.json({ notifications, unreadCount });
+  });
+  
+  app.patch('/api/notifications/:id/read', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid notification ID" });
+    }
+    
+    const notification = await storage.markNotificationRead(id, req.user.id);
+    if (!notification) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
+    res.json(notification);
+  });
+  
+  app.post('/api/notifications/read-all', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    res.json({ updated: await storage.markAllNotificationsRead(req.user.id) });
+  });
+  
+  // Organisation-wide session policy
+  app.get('/api/admin/session-policy', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    res.json(await getSessionPolicy());
+  });
+  
+  app.put('/api/admin/session-policy', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const policySchema = z.object({
+        maxSessionTimeout: z.number().int().min(5).max(1440).nullable()
+      });
+      const policy = policySchema.parse(req.body);
+      
+      await updateSessionPolicy(policy, req.user.id);
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "session_policy_updated",
+        details: policy.maxSessionTimeout
+          ? `Maximum idle session timeout set to ${policy.maxSessionTimeout} minutes`
+          : "Maximum idle session timeout removed",
+        ipAddress: req.ip
+      });
+      
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid session policy",
+          errors: (error as unknown as { errors: any }).errors
+        });
+      }
+      console.error("Error updating session policy:", error);
+      res.status(500).json({ message: "Failed to update session policy" });
+    }
+  });
+  
+  // Password rules, public so the registration and reset forms can show them
+  app.get('/api/password-policy', async (req, res) => {
+    res.json(await getPasswordPolicy());
+  });
+  
+  app.put('/api/admin/password-policy', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      
+      const policySchema = z.object({
+        minLength: z.number().int().min(8).max(128),
+        requireUppercase: z.boolean(),
+        requireLowercase: z.boolean(),
+        requireNumber: z.boolean(),
+        requireSymbol: z.boolean(),
+        historyCount: z.number().int().min(0).max(24),
+        maxAgeDays: z.number().int().min(1).max(3650).nullable()
+      });
+      const policy = policySchema.parse(req.body);
+      
+      await updatePasswordPolicy(policy, req.user.id);
+      
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "password_policy_updated",
+        details: `Password policy set: minimum ${policy.minLength} characters, ` +
+          `no reuse of last ${policy.historyCount}, ` +
+          (policy.maxAgeDays ? `expires after ${policy.maxAgeDays} days` : "no expiry"),
+        ipAddress: req.ip
+      });
+      
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid password policy",
+          errors: (error as unknown as { errors: any }).errors
+        });
+      }
+      console.error("Error updating password policy:", error);
+      res.status(500).json({ message: "Failed to update password policy" });
+    }
+  });
+  
+  // How long housekeeping keeps old data; applied by the apply_retention_policy job
+  app.get('/api/admin/retention-policy', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    res.json(await getRetentionPolicy());
+  });
+  
+  app.put('/api/admin/retention-policy', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    ensureAuthenticated(req);
+    
+    const parsed = z.object({
+      auditLogDays: z.number().int().min(90).max(3650).nullable(),
+      jobRunDays: z.number().int().min(7).max(3650),
+      expiredTokenDays: z.number().int().min(1).max(365)
+    }).strict().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid retention policy",
+        errors: parsed.error.errors
+      });
+    }
+    const policy = await updateRetentionPolicy(parsed.data, req.user.id);
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "retention_policy_updated",
+      details: `Retention policy set: audit logs ${policy.auditLogDays ? `${policy.auditLogDays} days` : "kept indefinitely"}, ` +
+        `job history ${policy.jobRunDays} days, expired tokens ${policy.expiredTokenDays} days`,
+      ipAddress: req.ip
+    });
+    
+    res.json(policy);
+  });
+  
+  // Background jobs: their schedules, run history, and running one by hand
+  app.get('/api/admin/jobs', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    res.json(await getJobStatuses());
+  });
+  
+  app.get('/api/admin/jobs/runs', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    const parsed = z.object({
+      page: z.coerce.number().int().min(1).default(1),
+      pageSize: z.coerce.number().int().min(1).max(100).default(20),
+      job: z.string().optional(),
+      status: z.enum(["all", JobRunStatus.RUNNING, JobRunStatus.SUCCEEDED, JobRunStatus.FAILED]).default("all")
+    }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid query parameters",
+        errors: parsed.error.errors
+      });
+    }
+    const { page, pageSize, job, status } = parsed.data;
+    
+    const { runs, total } = await storage.getJobRuns(
+      { jobName: job, status: status === "all" ? undefined : status },
+      pageSize,
+      (page - 1) * pageSize
+    );
+    res.json({
+      runs,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(total / pageSize))
+    });
+  });
+  
+  app.post('/api/admin/jobs/:name/run', isAuthenticated, requirePermission(Permission.SECURITY_MANAGE), async (req, res) => {
+    ensureAuthenticated(req);
+    const job = findJob(req.params.name);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    
+    const run = await runJobNow(job, req.user.id);
+    if (!run) {
+      return res.status(409).json({ message: "This job is already running" });
+    }
+    
+    await storage.createAuditLog({
+      userId: req.user.id,
+      action: "job_run_triggered",
+      details: `Ran ${job.name} by hand: ${run.status}` + (run.summary ? ` (${run.summary})` : ""),
+      ipAddress: req.ip
+    });
+    
+    res.json(run);
+  });
+  
+  // Generate recovery codes. The plaintext codes are returned once and only
+  // their hashes are kept; generating a new set invalidates the old one.
+  // Recovery codes get past two-factor at sign-in, so only the account owner
+  // ever sees them; admins use reset-two-factor instead.
+  app.post('/api/users/:id/generate-recovery-codes', isAuthenticated, async (req, res) => {
+    try {
+      ensureAuthenticated(req);
+      const userId = parseInt(req.params.id, 10);
+      
+      if (req.user.id !== userId) {
+        return res.status(403).json({ message: "You can only generate your own recovery codes" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+      
+      // Drop any plaintext codes stored in settings by earlier versions
+      const { recoveryCodes: _legacyCodes, ...security } = (user.settings?.security || {}) as SecuritySettings & { recoveryCodes?: string[] };
+      await storage.updateUser(userId, {
+        settings: {
+          ...user.settings,
+          security: {
+            ...security,
+            recoveryCodesGenerated: true
+          }
+        }
+      });
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "recovery_codes_generated",
+        details: `Recovery codes generated`,
+        ipAddress: req.ip || "unknown"
+      });
+      await notifySecurityChange(userId, "New recovery codes", "New recovery codes were generated for your account and the old ones no longer work.");
+      
+      // Return the codes to display once to the user
+      res.status(200).json({ 
+        success: true, 
+        recoveryCodes,
+        remaining: recoveryCodes.length
+      });
+    } catch (error) {
+      console.error("Error generating recovery codes:", error);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
+  
+  // Number of unused recovery codes left, shown on the settings page
+  app.get('/api/users/:id/recovery-codes', isAuthenticated, async (req, res) => {
+    ensureAuthenticated(req);
+    const userId = parseInt(req.params.id, 10);
+    
+    if (req.user.id !== userId && !(await hasPermissionOver(req.user, Permission.USER_MANAGE, userId))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    
+    const remaining = await storage.getRemainingRecoveryCodeCount(userId);
+    res.json({ remaining });
+  });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionParser);
   return httpServer;
 }
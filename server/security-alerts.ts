@@ -0,0 +1,21 @@
+import { storage } from "./storage";
+import { notifySecurityChange } from "./notifications";
+
+// Security alerts are recorded as "security_alert" audit entries so admins can
+// filter for them in the system logs, alongside the specific audited event. The
+// user the alert is about is notified too.
+export async function raiseSecurityAlert(alert: {
+  userId: number;
+  event: string;
+  details: string;
+  ipAddress?: string;
+}) {
+  console.warn(`Security alert for user ${alert.userId}: ${alert.event} - ${alert.details}`);
+  await storage.createAuditLog({
+    userId: alert.userId,
+    action: "security_alert",
+    details: `${alert.event}: ${alert.details}`,
+    ipAddress: alert.ipAddress
+  });
+  await notifySecurityChange(alert.userId, "Security alert", `${alert.details}.`);
+}
@@ -0,0 +1,97 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import {
+  User,
+  SessionPolicy,
+  DEFAULT_SESSION_TIMEOUT_MINUTES
+} from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // Time of the last request that counted as user activity (ms since epoch)
+    lastActivity?: number;
+  }
+}
+
+const SESSION_POLICY_KEY = "session_policy";
+
+// Requests to these paths report on the session without counting as activity
+const PASSIVE_PATHS = new Set(["/api/session/status"]);
+
+// The policy is read on every authenticated request, so keep it in memory
+// and refresh it whenever an admin changes it through updateSessionPolicy()
+let cachedPolicy: SessionPolicy | undefined;
+
+export async function getSessionPolicy(): Promise<SessionPolicy> {
+  if (!cachedPolicy) {
+    cachedPolicy = (await storage.getSystemSetting<SessionPolicy>(SESSION_POLICY_KEY)) || {
+      maxSessionTimeout: null
+    };
+  }
+  return cachedPolicy;
+}
+
+export async function updateSessionPolicy(policy: SessionPolicy, adminId: number): Promise<SessionPolicy> {
+  await storage.setSystemSetting(SESSION_POLICY_KEY, policy, adminId);
+  cachedPolicy = policy;
+  return policy;
+}
+
+// The user's own idle timeout, capped by the organisation-wide maximum
+export async function getIdleTimeoutMinutes(user: User): Promise<number> {
+  const policy = await getSessionPolicy();
+  const requested = user.settings?.security?.sessionTimeout || DEFAULT_SESSION_TIMEOUT_MINUTES;
+  return policy.maxSessionTimeout ? Math.min(requested, policy.maxSessionTimeout) : requested;
+}
+
+// Start the idle clock for a freshly logged-in session
+export async function startSessionClock(req: Request, user: User) {
+  const timeoutMinutes = await getIdleTimeoutMinutes(user);
+  req.session.lastActivity = Date.now();
+  req.session.cookie.maxAge = timeoutMinutes * 60 * 1000;
+}
+
+// When the session will expire if there is no further activity
+export async function getSessionExpiry(req: Request, user: User) {
+  const timeoutMinutes = await getIdleTimeoutMinutes(user);
+  const lastActivity = req.session.lastActivity ?? Date.now();
+  return {
+    timeoutMinutes,
+    expiresAt: new Date(lastActivity + timeoutMinutes * 60 * 1000)
+  };
+}
+
+// Log out sessions that have been idle longer than the user's timeout, and
+// otherwise roll the expiry forward. The cookie maxAge also sets the session
+// store's TTL, so abandoned sessions are purged server-side as well.
+export async function enforceIdleTimeout(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) return next();
+
+  try {
+    const user = req.user;
+    const timeoutMs = (await getIdleTimeoutMinutes(user)) * 60 * 1000;
+    const now = Date.now();
+    const lastActivity = req.session.lastActivity ?? now;
+
+    if (now - lastActivity > timeoutMs) {
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "session_expired",
+        details: "Session ended after inactivity",
+        ipAddress: req.ip
+      });
+      return req.logout((err) => {
+        if (err) return next(err);
+        res.status(401).json({ message: "Your session expired due to inactivity", reason: "idle_timeout" });
+      });
+    }
+
+    if (!PASSIVE_PATHS.has(req.path)) {
+      req.session.lastActivity = now;
+      req.session.cookie.maxAge = timeoutMs;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { createHash, randomInt } from "crypto";
+
+// Share codes turn into an approved grant without the patient looking at a
+// request first, so they carry more randomness than linking codes: three groups
+// of four characters, about 60 bits. Only a SHA-256 hash is stored.
+
+const GROUP_COUNT = 3;
+const GROUP_LENGTH = 4;
+// Uppercase letters and digits without easily confused characters (0/O, 1/I)
+const CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+// How long a code can wait to be redeemed, in hours
+export const SHARE_CODE_DEFAULT_VALID_HOURS = 24;
+export const SHARE_CODE_MAX_VALID_HOURS = 30 * 24;
+
+function randomGroup(): string {
+  let group = "";
+  for (let i = 0; i < GROUP_LENGTH; i++) {
+    group += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return group;
+}
+
+// A fresh code formatted as "XXXX-XXXX-XXXX"
+export function generateShareCode(): string {
+  return Array.from({ length: GROUP_COUNT }, randomGroup).join("-");
+}
+
+// Hash a code as typed or scanned by the doctor, ignoring case, spaces and dashes
+export function hashShareCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
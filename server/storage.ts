@@ -1,20 +1,66 @@
 import { 
   users, User, InsertUser, 
+  organizations, Organization, InsertOrganization,
+  organizationMemberships, OrganizationMembership, InsertOrganizationMembership,
   records, Record, InsertRecord,
   accessRequests, AccessRequest, InsertAccessRequest,
+  accessRequestHistory, AccessRequestHistoryEntry, InsertAccessRequestHistoryEntry,
+  accessShareCodes, AccessShareCode, InsertAccessShareCode,
+  emergencyAccessGrants, EmergencyAccessGrant, InsertEmergencyAccessGrant,
+  patientDelegations, PatientDelegation, InsertPatientDelegation, DelegationStatus,
+  twoFactorCredentials, TwoFactorCredential,
+  recoveryCodes, RecoveryCode,
+  patientLinkingCodes, PatientLinkingCode,
+  doctorProfiles, DoctorProfile, InsertDoctorProfile,
+  doctorVerificationDocuments, DoctorVerificationDocument, InsertDoctorVerificationDocument,
+  passwordResetTokens, PasswordResetToken,
+  passwordHistory, PasswordHistoryEntry,
+  systemSettings,
+  loginThrottles, LoginThrottle,
   auditLogs, AuditLog, InsertAuditLog, UserRole,
-  UserSettings, parseUserSettings, userSettingsToString
+  notifications, Notification, InsertNotification,
+  scheduledJobs, ScheduledJob, jobRuns, JobRun, JobRunStatus,
+  UserSettings, parseUserSettings, userSettingsToString,
+  effectiveAccessStatus, grantCoversRecord, isDelegationActive, isShareCodeRedeemable, normalizeFullName
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, ne, and, or, desc, gt, lt, lte, like, ilike, isNull, isNotNull, inArray, sql } from "drizzle-orm";
 import { pool } from "./db";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// A login session as held by the session store
+export type StoredSession = {
+  sid: string;
+  data: session.SessionData;
+  expiresAt: Date;
+};
+
+// Narrows a job run listing; unset fields match every run
+export type JobRunFilter = {
+  jobName?: string;
+  status?: string;
+};
+
+// Narrows an access request listing; unset fields match every request. The status
+// is the effective one, so approved grants past their expiry count as expired.
+export type AccessRequestFilter = {
+  status?: string;
+  doctorId?: number;
+  patientId?: number;
+  // Matched against the doctor's and patient's names and the purpose
+  search?: string;
+};
+
+// The organisations a caller may see into, or null for every organisation (super
+// admins). List queries only return rows about members of those organisations. The
+// scope is always required, so unrestricted lookups have to pass null on purpose.
+export type TenantScope = number[] | null;
+
 // Interface for database operations
 export interface IStorage {
   // User operations
@@ -23,8 +69,59 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
-  getAllUsers(): Promise<User[]>;
-  getDoctors(): Promise<User[]>;
+  getAllUsers(tenant: TenantScope): Promise<User[]>;
+  getDoctors(tenant: TenantScope): Promise<User[]>;
+  // Patients whose profile has exactly this name (see normalizeFullName) and YYYY-MM-DD date of birth
+  findPatientsByNameAndBirthDate(fullName: string, dateOfBirth: string, tenant: TenantScope): Promise<User[]>;
+  
+  // Organisation operations
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByName(name: string): Promise<Organization | undefined>;
+  getOrganizations(tenant: TenantScope): Promise<Organization[]>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganizationMemberships(organizationId: number): Promise<OrganizationMembership[]>;
+  getOrganizationMembershipsByUserId(userId: number): Promise<OrganizationMembership[]>;
+  createOrganizationMembership(membership: InsertOrganizationMembership): Promise<OrganizationMembership>;
+  deleteOrganizationMembership(organizationId: number, userId: number): Promise<void>;
+  
+  // Two-factor (TOTP) credential operations
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  createTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential>;
+  updateTwoFactorCredential(userId: number, credential: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: number): Promise<void>;
+  
+  // Recovery code operations (codes are passed in already hashed)
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  getRemainingRecoveryCodeCount(userId: number): Promise<number>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  
+  // Patient linking code operations (codes are passed in already hashed)
+  getPatientLinkingCode(patientId: number): Promise<PatientLinkingCode | undefined>;
+  getPatientLinkingCodeByHash(codeHash: string): Promise<PatientLinkingCode | undefined>;
+  savePatientLinkingCode(code: Omit<PatientLinkingCode, 'createdAt'>): Promise<PatientLinkingCode>;
+  deletePatientLinkingCode(patientId: number): Promise<void>;
+  
+  // Doctor credential verification operations
+  getDoctorProfile(userId: number): Promise<DoctorProfile | undefined>;
+  getDoctorProfiles(verificationStatus: string | undefined, tenant: TenantScope): Promise<DoctorProfile[]>;
+  createDoctorProfile(profile: InsertDoctorProfile): Promise<DoctorProfile>;
+  updateDoctorProfile(userId: number, profile: Partial<DoctorProfile>): Promise<DoctorProfile | undefined>;
+  getDoctorVerificationDocument(id: number): Promise<DoctorVerificationDocument | undefined>;
+  getDoctorVerificationDocuments(doctorId: number): Promise<DoctorVerificationDocument[]>;
+  getDoctorVerificationDocumentsWithStaleEncryptionKey(currentKeyId: string): Promise<DoctorVerificationDocument[]>;
+  createDoctorVerificationDocument(document: InsertDoctorVerificationDocument): Promise<DoctorVerificationDocument>;
+  updateDoctorVerificationDocument(id: number, document: Partial<DoctorVerificationDocument>): Promise<DoctorVerificationDocument | undefined>;
+  deleteDoctorVerificationDocument(id: number): Promise<void>;
+  
+  // Password reset token operations
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined>;
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  
+  // Password history operations
+  getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]>;
+  addPasswordHistory(userId: number, passwordHash: string, keep: number): Promise<void>;
   
   // Record operations
   getRecord(id: number): Promise<Record | undefined>;
@@ -32,25 +129,133 @@ export interface IStorage {
   getRecordsByDoctorId(doctorId: number): Promise<Record[]>;
   createRecord(record: InsertRecord): Promise<Record>;
   updateRecord(id: number, record: Partial<Record>): Promise<Record | undefined>;
+  getRecordsWithStaleEncryptionKey(currentKeyId: string): Promise<Record[]>;
   
   // Access request operations
   getAccessRequest(id: number): Promise<AccessRequest | undefined>;
+  getAllAccessRequests(tenant: TenantScope): Promise<AccessRequest[]>;
+  // One page of matching requests, newest first, with how many match in total
+  getAccessRequestsPage(tenant: TenantScope, filter: AccessRequestFilter, limit: number, offset: number): Promise<{ requests: AccessRequest[]; total: number }>;
+  // How many requests are in each effective status
+  countAccessRequestsByStatus(tenant: TenantScope): Promise<{ [status: string]: number }>;
   getAccessRequestsByPatientId(patientId: number): Promise<AccessRequest[]>;
   getAccessRequestsByDoctorId(doctorId: number): Promise<AccessRequest[]>;
   getActiveAccessRequests(doctorId: number, patientId: number): Promise<AccessRequest[]>;
   hasAccess(doctorId: number, patientId: number): Promise<boolean>;
+  hasRecordAccess(doctorId: number, record: Record): Promise<boolean>;
+  getAccessibleRecords(doctorId: number, patientId: number): Promise<Record[]>;
   createAccessRequest(request: InsertAccessRequest): Promise<AccessRequest>;
   updateAccessRequest(id: number, request: Partial<AccessRequest>): Promise<AccessRequest | undefined>;
+  // Applies the update only while the request is still in the expected status
+  updateAccessRequestIfStatus(id: number, expectedStatus: string, request: Partial<AccessRequest>): Promise<AccessRequest | undefined>;
+  getAccessRequestHistory(accessRequestId: number): Promise<AccessRequestHistoryEntry[]>;
+  createAccessRequestHistoryEntry(entry: InsertAccessRequestHistoryEntry): Promise<AccessRequestHistoryEntry>;
+  // Approved grants whose expiry has passed but which haven't been marked expired
+  getLapsedAccessGrants(now: Date): Promise<AccessRequest[]>;
+  // Approved grants ending between now and the cutoff that haven't had a reminder
+  getAccessGrantsDueReminder(now: Date, cutoff: Date): Promise<AccessRequest[]>;
+  // Returns false if a reminder for the grant was already recorded
+  markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean>;
+  
+  // Patient share code operations (codes are passed in already hashed)
+  getAccessShareCode(id: number): Promise<AccessShareCode | undefined>;
+  getAccessShareCodeByHash(codeHash: string): Promise<AccessShareCode | undefined>;
+  getAccessShareCodesByPatientId(patientId: number): Promise<AccessShareCode[]>;
+  createAccessShareCode(shareCode: InsertAccessShareCode): Promise<AccessShareCode>;
+  updateAccessShareCode(id: number, shareCode: Partial<AccessShareCode>): Promise<AccessShareCode | undefined>;
+  redeemAccessShareCode(id: number): Promise<AccessShareCode | undefined>;
+  
+  // Emergency (break-glass) access operations
+  getEmergencyAccessGrant(id: number): Promise<EmergencyAccessGrant | undefined>;
+  // Scoped by the patient, since only admins over the patient can review a grant
+  getEmergencyAccessGrants(reviewStatus: string | undefined, tenant: TenantScope): Promise<EmergencyAccessGrant[]>;
+  getEmergencyAccessGrantsByPatientId(patientId: number): Promise<EmergencyAccessGrant[]>;
+  getEmergencyAccessGrantsByDoctorId(doctorId: number): Promise<EmergencyAccessGrant[]>;
+  getActiveEmergencyAccessGrants(doctorId: number, patientId: number): Promise<EmergencyAccessGrant[]>;
+  createEmergencyAccessGrant(grant: InsertEmergencyAccessGrant): Promise<EmergencyAccessGrant>;
+  updateEmergencyAccessGrant(id: number, grant: Partial<EmergencyAccessGrant>): Promise<EmergencyAccessGrant | undefined>;
+  
+  // Caregiver and guardian delegation operations
+  getPatientDelegation(id: number): Promise<PatientDelegation | undefined>;
+  getPatientDelegations(tenant: TenantScope): Promise<PatientDelegation[]>;
+  getPatientDelegationsByPatientId(patientId: number): Promise<PatientDelegation[]>;
+  getPatientDelegationsByDelegateId(delegateId: number): Promise<PatientDelegation[]>;
+  getActivePatientDelegation(patientId: number, delegateId: number): Promise<PatientDelegation | undefined>;
+  createPatientDelegation(delegation: InsertPatientDelegation): Promise<PatientDelegation>;
+  updatePatientDelegation(id: number, delegation: Partial<PatientDelegation>): Promise<PatientDelegation | undefined>;
+  
+  // System settings operations
+  getSystemSetting<T>(key: string): Promise<T | undefined>;
+  setSystemSetting<T>(key: string, value: T, updatedBy: number): Promise<void>;
+  
+  // Login session operations (sessions held in sessionStore)
+  getSessionsByUserId(userId: number): Promise<StoredSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteSessionsByUserId(userId: number, exceptSid?: string): Promise<number>;
+  deleteExpiredSessions(): Promise<number>;
+  
+  // Failed sign-in tracking
+  getLoginThrottle(key: string): Promise<LoginThrottle | undefined>;
+  saveLoginThrottle(throttle: LoginThrottle): Promise<LoginThrottle>;
+  deleteLoginThrottle(key: string): Promise<void>;
+  getActiveLockouts(keyPrefix: string): Promise<LoginThrottle[]>;
   
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(): Promise<AuditLog[]>;
+  getAuditLogs(tenant: TenantScope): Promise<AuditLog[]>;
   getAuditLogsByUserId(userId: number): Promise<AuditLog[]>;
   
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUserId(userId: number, limit: number): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  
+  // Retention operations, each returning how many rows were removed
+  deleteAuditLogsBefore(cutoff: Date): Promise<number>;
+  deleteJobRunsBefore(cutoff: Date): Promise<number>;
+  deletePasswordResetTokensExpiredBefore(cutoff: Date): Promise<number>;
+  deletePatientLinkingCodesExpiredBefore(cutoff: Date): Promise<number>;
+  deleteLoginThrottlesIdleSince(cutoff: Date): Promise<number>;
+  
+  // Background job operations
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  // Adds the job's state row the first time the scheduler sees it
+  ensureScheduledJob(name: string, nextRunAt: Date): Promise<void>;
+  // Takes the job's lease when no run holds it and, if dueOnly, the job is due
+  claimScheduledJob(name: string, now: Date, lockedUntil: Date, dueOnly: boolean): Promise<ScheduledJob | undefined>;
+  updateScheduledJob(name: string, update: Partial<ScheduledJob>): Promise<ScheduledJob | undefined>;
+  // One page of matching runs, newest first, with how many match in total
+  getJobRuns(filter: JobRunFilter, limit: number, offset: number): Promise<{ runs: JobRun[]; total: number }>;
+  createJobRun(jobName: string, triggeredBy: number | null): Promise<JobRun>;
+  updateJobRun(id: number, update: Partial<JobRun>): Promise<JobRun | undefined>;
+  
   // Session store
   sessionStore: any;
 }
 
+// Subquery of everyone who belongs to one of the tenant's organisations
+function tenantMembers(tenant: number[]) {
+  return db
+    .select({ userId: organizationMemberships.userId })
+    .from(organizationMemberships)
+    .where(inArray(organizationMemberships.organizationId, tenant));
+}
+
+// Only requests where the doctor or the patient is one of the tenant's members
+function accessRequestInTenant(tenant: TenantScope) {
+  return tenant
+    ? or(
+        inArray(accessRequests.patientId, tenantMembers(tenant)),
+        inArray(accessRequests.doctorId, tenantMembers(tenant))
+      )
+    : undefined;
+}
+
+// The status with approved grants past their expiry reported as expired
+const effectiveAccessRequestStatus = sql<string>`case when ${accessRequests.status} = 'approved' and ${accessRequests.expiryDate} <= now() then 'expired' else ${accessRequests.status} end`;
+
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
   sessionStore: any;
@@ -129,7 +334,7 @@ export class DatabaseStorage implements IStorage {
     try {
       // In the new structure, email is in the userSettings.profile
       // We need to get all users and filter by settings
-      const users = await this.getAllUsers();
+      const users = await this.getAllUsers(null);
       const user = users.find(u => u.email === email);
       return user;
     } catch (error) {
@@ -344,9 +549,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAllUsers(): Promise<User[]> {
+  async getAllUsers(tenant: TenantScope): Promise<User[]> {
     try {
-      const userList = await db.select().from(users);
+      const userList = await db
+        .select()
+        .from(users)
+        .where(tenant ? inArray(users.id, tenantMembers(tenant)) : undefined);
       
       // Process each user to have proper settings
       return userList.map(user => {
@@ -374,12 +582,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async getDoctors(): Promise<User[]> {
+  async getDoctors(tenant: TenantScope): Promise<User[]> {
     try {
       const doctorList = await db
         .select()
         .from(users)
-        .where(eq(users.role, "doctor"));
+        .where(and(
+          eq(users.role, "doctor"),
+          tenant ? inArray(users.id, tenantMembers(tenant)) : undefined
+        ));
         
       // Process each doctor to have proper settings
       return doctorList.map(doctor => {
@@ -407,6 +618,422 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async findPatientsByNameAndBirthDate(fullName: string, dateOfBirth: string, tenant: TenantScope): Promise<User[]> {
+    const profileName = sql`lower(regexp_replace(btrim(${users.userSettings} -> 'profile' ->> 'fullName'), '\\s+', ' ', 'g'))`;
+    const patientList = await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          eq(users.role, UserRole.PATIENT),
+          sql`${profileName} = ${normalizeFullName(fullName)}`,
+          sql`${users.userSettings} -> 'profile' ->> 'dateOfBirth' = ${dateOfBirth}`,
+          tenant ? inArray(users.id, tenantMembers(tenant)) : undefined
+        )
+      )
+      .orderBy(users.id);
+    
+    return patientList.map(patient => {
+      const settings = parseUserSettings(patient.userSettings as object | null);
+      return {
+        ...patient,
+        settings,
+        fullName: settings?.profile?.fullName,
+        email: settings?.profile?.email,
+        specialty: settings?.profile?.specialty,
+        phone: settings?.profile?.phone
+      } as User;
+    });
+  }
+
+  // Organisation operations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async getOrganizationByName(name: string): Promise<Organization | undefined> {
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.name, name));
+    return organization || undefined;
+  }
+
+  async getOrganizations(tenant: TenantScope): Promise<Organization[]> {
+    const organizationList = await db
+      .select()
+      .from(organizations)
+      .where(tenant ? inArray(organizations.id, tenant) : undefined)
+      .orderBy(organizations.name);
+    return organizationList;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await db
+      .insert(organizations)
+      .values(insertOrganization)
+      .returning();
+    return organization;
+  }
+
+  async getOrganizationMemberships(organizationId: number): Promise<OrganizationMembership[]> {
+    const membershipList = await db
+      .select()
+      .from(organizationMemberships)
+      .where(eq(organizationMemberships.organizationId, organizationId))
+      .orderBy(organizationMemberships.createdAt);
+    return membershipList;
+  }
+
+  async getOrganizationMembershipsByUserId(userId: number): Promise<OrganizationMembership[]> {
+    const membershipList = await db
+      .select()
+      .from(organizationMemberships)
+      .where(eq(organizationMemberships.userId, userId));
+    return membershipList;
+  }
+
+  async createOrganizationMembership(insertMembership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const [membership] = await db
+      .insert(organizationMemberships)
+      .values(insertMembership)
+      .returning();
+    return membership;
+  }
+
+  async deleteOrganizationMembership(organizationId: number, userId: number): Promise<void> {
+    await db
+      .delete(organizationMemberships)
+      .where(
+        and(
+          eq(organizationMemberships.organizationId, organizationId),
+          eq(organizationMemberships.userId, userId)
+        )
+      );
+  }
+
+  // Two-factor (TOTP) credential operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  // Starting a new enrolment replaces any previous secret for the user
+  async createTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential> {
+    try {
+      await db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      const [credential] = await db
+        .insert(twoFactorCredentials)
+        .values({ userId, secret, createdAt: new Date() })
+        .returning();
+      return credential;
+    } catch (error) {
+      console.error('Error in createTwoFactorCredential:', error);
+      throw error;
+    }
+  }
+
+  async updateTwoFactorCredential(userId: number, update: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    try {
+      const [credential] = await db
+        .update(twoFactorCredentials)
+        .set(update)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      return credential || undefined;
+    } catch (error) {
+      console.error('Error in updateTwoFactorCredential:', error);
+      throw error;
+    }
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<void> {
+    await db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // Recovery code operations
+  // Generating a new set invalidates every earlier code, used or not
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+        await tx.insert(recoveryCodes).values(
+          codeHashes.map(codeHash => ({ userId, codeHash, createdAt: new Date() }))
+        );
+      });
+    } catch (error) {
+      console.error('Error in replaceRecoveryCodes:', error);
+      throw error;
+    }
+  }
+
+  async getRemainingRecoveryCodeCount(userId: number): Promise<number> {
+    const codeList = await db
+      .select()
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return codeList.length;
+  }
+
+  // Burn a code; the usedAt check in the update keeps two concurrent uses from both succeeding
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const [code] = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt)
+        )
+      )
+      .returning();
+    return !!code;
+  }
+
+  // Patient linking code operations
+  async getPatientLinkingCode(patientId: number): Promise<PatientLinkingCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(patientLinkingCodes)
+      .where(eq(patientLinkingCodes.patientId, patientId));
+    return code || undefined;
+  }
+
+  async getPatientLinkingCodeByHash(codeHash: string): Promise<PatientLinkingCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(patientLinkingCodes)
+      .where(eq(patientLinkingCodes.codeHash, codeHash));
+    return code || undefined;
+  }
+
+  // A new code replaces the patient's previous one
+  async savePatientLinkingCode(code: Omit<PatientLinkingCode, 'createdAt'>): Promise<PatientLinkingCode> {
+    const { patientId, ...rest } = code;
+    const [saved] = await db
+      .insert(patientLinkingCodes)
+      .values({ ...code, createdAt: new Date() })
+      .onConflictDoUpdate({ target: patientLinkingCodes.patientId, set: { ...rest, createdAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async deletePatientLinkingCode(patientId: number): Promise<void> {
+    await db.delete(patientLinkingCodes).where(eq(patientLinkingCodes.patientId, patientId));
+  }
+
+  // Doctor credential verification operations
+  async getDoctorProfile(userId: number): Promise<DoctorProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(doctorProfiles)
+      .where(eq(doctorProfiles.userId, userId));
+    return profile || undefined;
+  }
+
+  async getDoctorProfiles(verificationStatus: string | undefined, tenant: TenantScope): Promise<DoctorProfile[]> {
+    const profileList = await db
+      .select()
+      .from(doctorProfiles)
+      .where(
+        and(
+          verificationStatus ? eq(doctorProfiles.verificationStatus, verificationStatus) : undefined,
+          tenant ? inArray(doctorProfiles.userId, tenantMembers(tenant)) : undefined
+        )
+      )
+      .orderBy(desc(doctorProfiles.createdAt));
+    return profileList;
+  }
+
+  async createDoctorProfile(insertProfile: InsertDoctorProfile): Promise<DoctorProfile> {
+    try {
+      const [profile] = await db
+        .insert(doctorProfiles)
+        .values({
+          ...insertProfile,
+          createdAt: new Date()
+        })
+        .returning();
+      return profile;
+    } catch (error) {
+      console.error('Error in createDoctorProfile:', error);
+      throw error;
+    }
+  }
+
+  async updateDoctorProfile(userId: number, update: Partial<DoctorProfile>): Promise<DoctorProfile | undefined> {
+    try {
+      const [profile] = await db
+        .update(doctorProfiles)
+        .set(update)
+        .where(eq(doctorProfiles.userId, userId))
+        .returning();
+      return profile || undefined;
+    } catch (error) {
+      console.error('Error in updateDoctorProfile:', error);
+      throw error;
+    }
+  }
+
+  async getDoctorVerificationDocument(id: number): Promise<DoctorVerificationDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(doctorVerificationDocuments)
+      .where(eq(doctorVerificationDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getDoctorVerificationDocuments(doctorId: number): Promise<DoctorVerificationDocument[]> {
+    const documentList = await db
+      .select()
+      .from(doctorVerificationDocuments)
+      .where(eq(doctorVerificationDocuments.doctorId, doctorId))
+      .orderBy(desc(doctorVerificationDocuments.uploadedAt));
+    return documentList;
+  }
+
+  async getDoctorVerificationDocumentsWithStaleEncryptionKey(currentKeyId: string): Promise<DoctorVerificationDocument[]> {
+    const documentList = await db
+      .select()
+      .from(doctorVerificationDocuments)
+      .where(ne(doctorVerificationDocuments.encryptionKeyId, currentKeyId));
+    return documentList;
+  }
+
+  async createDoctorVerificationDocument(insertDocument: InsertDoctorVerificationDocument): Promise<DoctorVerificationDocument> {
+    try {
+      const [document] = await db
+        .insert(doctorVerificationDocuments)
+        .values({
+          ...insertDocument,
+          uploadedAt: new Date()
+        })
+        .returning();
+      return document;
+    } catch (error) {
+      console.error('Error in createDoctorVerificationDocument:', error);
+      throw error;
+    }
+  }
+
+  async updateDoctorVerificationDocument(id: number, update: Partial<DoctorVerificationDocument>): Promise<DoctorVerificationDocument | undefined> {
+    try {
+      const [document] = await db
+        .update(doctorVerificationDocuments)
+        .set(update)
+        .where(eq(doctorVerificationDocuments.id, id))
+        .returning();
+      return document || undefined;
+    } catch (error) {
+      console.error('Error in updateDoctorVerificationDocument:', error);
+      throw error;
+    }
+  }
+
+  async deleteDoctorVerificationDocument(id: number): Promise<void> {
+    await db
+      .delete(doctorVerificationDocuments)
+      .where(eq(doctorVerificationDocuments.id, id));
+  }
+
+  // Password reset token operations
+  // Issuing a new link invalidates any the user hasn't used yet
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx
+          .delete(passwordResetTokens)
+          .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+        const [token] = await tx
+          .insert(passwordResetTokens)
+          .values({ userId, tokenHash, expiresAt, createdAt: new Date() })
+          .returning();
+        return token;
+      });
+    } catch (error) {
+      console.error('Error in createPasswordResetToken:', error);
+      throw error;
+    }
+  }
+
+  async getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // Burn an unexpired token, returning it only to the first caller
+  async usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return token;
+  }
+
+  // Password history operations
+  // Most recent first
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]> {
+    return await db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+  }
+
+  // Record a newly set password, keeping only the most recent entries
+  async addPasswordHistory(userId: number, passwordHash: string, keep: number): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(passwordHistory).values({ userId, passwordHash, createdAt: new Date() });
+        
+        const retained = await tx
+          .select({ id: passwordHistory.id })
+          .from(passwordHistory)
+          .where(eq(passwordHistory.userId, userId))
+          .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+          .limit(keep);
+        const oldestRetained = retained[retained.length - 1];
+        if (oldestRetained) {
+          await tx
+            .delete(passwordHistory)
+            .where(and(eq(passwordHistory.userId, userId), lt(passwordHistory.id, oldestRetained.id)));
+        }
+      });
+    } catch (error) {
+      console.error('Error in addPasswordHistory:', error);
+      throw error;
+    }
+  }
+
   // Record operations
   async getRecord(id: number): Promise<Record | undefined> {
     const [record] = await db
@@ -461,6 +1088,20 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Encrypted records whose data key is wrapped by a master key other than the current one
+  async getRecordsWithStaleEncryptionKey(currentKeyId: string): Promise<Record[]> {
+    const recordList = await db
+      .select()
+      .from(records)
+      .where(
+        and(
+          isNotNull(records.wrappedDataKey),
+          ne(records.encryptionKeyId, currentKeyId)
+        )
+      );
+    return recordList;
+  }
+
   // Access request operations
   async getAccessRequest(id: number): Promise<AccessRequest | undefined> {
     const [request] = await db
@@ -470,6 +1111,60 @@ export class DatabaseStorage implements IStorage {
     return request || undefined;
   }
 
+  async getAllAccessRequests(tenant: TenantScope): Promise<AccessRequest[]> {
+    const requestList = await db
+      .select()
+      .from(accessRequests)
+      .where(accessRequestInTenant(tenant))
+      .orderBy(desc(accessRequests.requestDate));
+    return requestList;
+  }
+
+  async getAccessRequestsPage(tenant: TenantScope, filter: AccessRequestFilter, limit: number, offset: number): Promise<{ requests: AccessRequest[]; total: number }> {
+    const pattern = filter.search ? `%${filter.search.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const namedUsers = (pattern: string) =>
+      db
+        .select({ id: users.id })
+        .from(users)
+        .where(ilike(sql`${users.userSettings} -> 'profile' ->> 'fullName'`, pattern));
+    const where = and(
+      accessRequestInTenant(tenant),
+      filter.status ? eq(effectiveAccessRequestStatus, filter.status) : undefined,
+      filter.doctorId !== undefined ? eq(accessRequests.doctorId, filter.doctorId) : undefined,
+      filter.patientId !== undefined ? eq(accessRequests.patientId, filter.patientId) : undefined,
+      pattern
+        ? or(
+            ilike(accessRequests.purpose, pattern),
+            inArray(accessRequests.doctorId, namedUsers(pattern)),
+            inArray(accessRequests.patientId, namedUsers(pattern))
+          )
+        : undefined
+    );
+    const [requests, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(accessRequests)
+        .where(where)
+        .orderBy(desc(accessRequests.requestDate), desc(accessRequests.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(accessRequests)
+        .where(where)
+    ]);
+    return { requests, total };
+  }
+
+  async countAccessRequestsByStatus(tenant: TenantScope): Promise<{ [status: string]: number }> {
+    const rows = await db
+      .select({ status: effectiveAccessRequestStatus, count: sql<number>`count(*)::int` })
+      .from(accessRequests)
+      .where(accessRequestInTenant(tenant))
+      .groupBy(effectiveAccessRequestStatus);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
   async getAccessRequestsByPatientId(patientId: number): Promise<AccessRequest[]> {
     const requestList = await db
       .select()
@@ -511,14 +1206,41 @@ export class DatabaseStorage implements IStorage {
 
   async hasAccess(doctorId: number, patientId: number): Promise<boolean> {
     const activeRequests = await this.getActiveAccessRequests(doctorId, patientId);
-    return activeRequests.length > 0;
+    if (activeRequests.length > 0) return true;
+    
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, patientId);
+    return emergencyGrants.length > 0;
+  }
+
+  // Whether any active grant covers this specific record, honouring limited scopes.
+  // Break-glass grants always cover the patient's full record.
+  async hasRecordAccess(doctorId: number, record: Record): Promise<boolean> {
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, record.patientId);
+    if (emergencyGrants.length > 0) return true;
+    
+    const activeRequests = await this.getActiveAccessRequests(doctorId, record.patientId);
+    return activeRequests.some(request => grantCoversRecord(request, record));
+  }
+
+  // A patient's records filtered down to those covered by the doctor's active grants
+  async getAccessibleRecords(doctorId: number, patientId: number): Promise<Record[]> {
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, patientId);
+    if (emergencyGrants.length > 0) return this.getRecordsByPatientId(patientId);
+    
+    const activeRequests = await this.getActiveAccessRequests(doctorId, patientId);
+    if (activeRequests.length === 0) return [];
+    
+    const recordList = await this.getRecordsByPatientId(patientId);
+    return recordList.filter(record =>
+      activeRequests.some(request => grantCoversRecord(request, record))
+    );
   }
 
   async createAccessRequest(insertRequest: InsertAccessRequest): Promise<AccessRequest> {
     try {
-      // Calculate expiry date based on duration (in days)
-      let expiryDate = null;
-      if (insertRequest.duration) {
+      // Calculate expiry date based on duration (in days), unless one was given
+      let expiryDate = insertRequest.expiryDate ?? null;
+      if (!expiryDate && insertRequest.duration) {
         expiryDate = new Date();
         expiryDate.setDate(expiryDate.getDate() + insertRequest.duration);
       }
@@ -566,67 +1288,693 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Audit log operations
-  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
-    try {
-      const [log] = await db
-        .insert(auditLogs)
-        .values({
-          ...insertLog,
-          timestamp: new Date()
-        })
-        .returning();
-      return log;
-    } catch (error) {
-      console.error('Error in createAuditLog:', error);
-      throw error;
-    }
+  // The status check in the update keeps two people acting on the same request
+  // at once from both succeeding, e.g. a patient approving as the doctor cancels
+  async updateAccessRequestIfStatus(id: number, expectedStatus: string, update: Partial<AccessRequest>): Promise<AccessRequest | undefined> {
+    const [updatedRequest] = await db
+      .update(accessRequests)
+      .set(update)
+      .where(and(eq(accessRequests.id, id), eq(accessRequests.status, expectedStatus)))
+      .returning();
+    return updatedRequest || undefined;
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
-    const logList = await db
+  async getAccessRequestHistory(accessRequestId: number): Promise<AccessRequestHistoryEntry[]> {
+    return await db
       .select()
-      .from(auditLogs)
-      .orderBy(desc(auditLogs.timestamp));
-    return logList;
+      .from(accessRequestHistory)
+      .where(eq(accessRequestHistory.accessRequestId, accessRequestId))
+      .orderBy(accessRequestHistory.createdAt, accessRequestHistory.id);
   }
 
-  async getAuditLogsByUserId(userId: number): Promise<AuditLog[]> {
-    const logList = await db
-      .select()
-      .from(auditLogs)
-      .where(eq(auditLogs.userId, userId))
-      .orderBy(desc(auditLogs.timestamp));
-    return logList;
+  async createAccessRequestHistoryEntry(insertEntry: InsertAccessRequestHistoryEntry): Promise<AccessRequestHistoryEntry> {
+    const [entry] = await db
+      .insert(accessRequestHistory)
+      .values({ ...insertEntry, createdAt: new Date() })
+      .returning();
+    return entry;
   }
-}
+
+  async getLapsedAccessGrants(now: Date): Promise<AccessRequest[]> {
+    return await db
+      .select()
+      .from(accessRequests)
+      .where(and(
+        eq(accessRequests.status, 'approved'),
+        isNotNull(accessRequests.expiryDate),
+        lt(accessRequests.expiryDate, now)
+      ));
+  }
+
+  async getAccessGrantsDueReminder(now: Date, cutoff: Date): Promise<AccessRequest[]> {
+    return await db
+      .select()
+      .from(accessRequests)
+      .where(and(
+        eq(accessRequests.status, 'approved'),
+        isNull(accessRequests.expiryReminderSentAt),
+        gt(accessRequests.expiryDate, now),
+        lt(accessRequests.expiryDate, cutoff)
+      ));
+  }
+
+  async markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean> {
+    const [updatedRequest] = await db
+      .update(accessRequests)
+      .set({ expiryReminderSentAt: sentAt })
+      .where(and(eq(accessRequests.id, id), isNull(accessRequests.expiryReminderSentAt)))
+      .returning();
+    return !!updatedRequest;
+  }
+
+  // Patient share code operations
+  async getAccessShareCode(id: number): Promise<AccessShareCode | undefined> {
+    const [shareCode] = await db
+      .select()
+      .from(accessShareCodes)
+      .where(eq(accessShareCodes.id, id));
+    return shareCode || undefined;
+  }
+
+  async getAccessShareCodeByHash(codeHash: string): Promise<AccessShareCode | undefined> {
+    const [shareCode] = await db
+      .select()
+      .from(accessShareCodes)
+      .where(eq(accessShareCodes.codeHash, codeHash));
+    return shareCode || undefined;
+  }
+
+  async getAccessShareCodesByPatientId(patientId: number): Promise<AccessShareCode[]> {
+    return await db
+      .select()
+      .from(accessShareCodes)
+      .where(eq(accessShareCodes.patientId, patientId))
+      .orderBy(desc(accessShareCodes.createdAt));
+  }
+
+  async createAccessShareCode(insertShareCode: InsertAccessShareCode): Promise<AccessShareCode> {
+    const [shareCode] = await db
+      .insert(accessShareCodes)
+      .values({ ...insertShareCode, createdAt: new Date() })
+      .returning();
+    return shareCode;
+  }
+
+  async updateAccessShareCode(id: number, update: Partial<AccessShareCode>): Promise<AccessShareCode | undefined> {
+    const [shareCode] = await db
+      .update(accessShareCodes)
+      .set(update)
+      .where(eq(accessShareCodes.id, id))
+      .returning();
+    return shareCode || undefined;
+  }
+
+  // Count a use of the code; the conditions in the update keep two doctors from
+  // both redeeming a single-use code at once
+  async redeemAccessShareCode(id: number): Promise<AccessShareCode | undefined> {
+    const [shareCode] = await db
+      .update(accessShareCodes)
+      .set({
+        redemptionCount: sql`${accessShareCodes.redemptionCount} + 1`,
+        lastRedeemedAt: new Date()
+      })
+      .where(
+        and(
+          eq(accessShareCodes.id, id),
+          isNull(accessShareCodes.revokedAt),
+          gt(accessShareCodes.expiresAt, new Date()),
+          or(eq(accessShareCodes.singleUse, false), eq(accessShareCodes.redemptionCount, 0))
+        )
+      )
+      .returning();
+    return shareCode || undefined;
+  }
+
+  // Emergency (break-glass) access operations
+  async getEmergencyAccessGrant(id: number): Promise<EmergencyAccessGrant | undefined> {
+    const [grant] = await db
+      .select()
+      .from(emergencyAccessGrants)
+      .where(eq(emergencyAccessGrants.id, id));
+    return grant || undefined;
+  }
+
+  async getEmergencyAccessGrants(reviewStatus: string | undefined, tenant: TenantScope): Promise<EmergencyAccessGrant[]> {
+    const grantList = await db
+      .select()
+      .from(emergencyAccessGrants)
+      .where(
+        and(
+          reviewStatus ? eq(emergencyAccessGrants.reviewStatus, reviewStatus) : undefined,
+          tenant ? inArray(emergencyAccessGrants.patientId, tenantMembers(tenant)) : undefined
+        )
+      )
+      .orderBy(desc(emergencyAccessGrants.grantedAt));
+    return grantList;
+  }
+
+  async getEmergencyAccessGrantsByPatientId(patientId: number): Promise<EmergencyAccessGrant[]> {
+    const grantList = await db
+      .select()
+      .from(emergencyAccessGrants)
+      .where(eq(emergencyAccessGrants.patientId, patientId))
+      .orderBy(desc(emergencyAccessGrants.grantedAt));
+    return grantList;
+  }
+
+  async getEmergencyAccessGrantsByDoctorId(doctorId: number): Promise<EmergencyAccessGrant[]> {
+    const grantList = await db
+      .select()
+      .from(emergencyAccessGrants)
+      .where(eq(emergencyAccessGrants.doctorId, doctorId))
+      .orderBy(desc(emergencyAccessGrants.grantedAt));
+    return grantList;
+  }
+
+  async getActiveEmergencyAccessGrants(doctorId: number, patientId: number): Promise<EmergencyAccessGrant[]> {
+    const grantList = await db
+      .select()
+      .from(emergencyAccessGrants)
+      .where(
+        and(
+          eq(emergencyAccessGrants.doctorId, doctorId),
+          eq(emergencyAccessGrants.patientId, patientId),
+          isNull(emergencyAccessGrants.revokedAt),
+          gt(emergencyAccessGrants.expiresAt, new Date())
+        )
+      );
+    return grantList;
+  }
+
+  async createEmergencyAccessGrant(insertGrant: InsertEmergencyAccessGrant): Promise<EmergencyAccessGrant> {
+    try {
+      const [grant] = await db
+        .insert(emergencyAccessGrants)
+        .values({
+          ...insertGrant,
+          grantedAt: new Date()
+        })
+        .returning();
+      return grant;
+    } catch (error) {
+      console.error('Error in createEmergencyAccessGrant:', error);
+      throw error;
+    }
+  }
+
+  async updateEmergencyAccessGrant(id: number, update: Partial<EmergencyAccessGrant>): Promise<EmergencyAccessGrant | undefined> {
+    try {
+      const [grant] = await db
+        .update(emergencyAccessGrants)
+        .set(update)
+        .where(eq(emergencyAccessGrants.id, id))
+        .returning();
+      return grant || undefined;
+    } catch (error) {
+      console.error('Error in updateEmergencyAccessGrant:', error);
+      throw error;
+    }
+  }
+
+  // Caregiver and guardian delegation operations
+  async getPatientDelegation(id: number): Promise<PatientDelegation | undefined> {
+    const [delegation] = await db
+      .select()
+      .from(patientDelegations)
+      .where(eq(patientDelegations.id, id));
+    return delegation || undefined;
+  }
+
+  async getPatientDelegations(tenant: TenantScope): Promise<PatientDelegation[]> {
+    const delegationList = await db
+      .select()
+      .from(patientDelegations)
+      .where(tenant ? inArray(patientDelegations.patientId, tenantMembers(tenant)) : undefined)
+      .orderBy(desc(patientDelegations.createdAt));
+    return delegationList;
+  }
+
+  async getPatientDelegationsByPatientId(patientId: number): Promise<PatientDelegation[]> {
+    const delegationList = await db
+      .select()
+      .from(patientDelegations)
+      .where(eq(patientDelegations.patientId, patientId))
+      .orderBy(desc(patientDelegations.createdAt));
+    return delegationList;
+  }
+
+  async getPatientDelegationsByDelegateId(delegateId: number): Promise<PatientDelegation[]> {
+    const delegationList = await db
+      .select()
+      .from(patientDelegations)
+      .where(eq(patientDelegations.delegateId, delegateId))
+      .orderBy(desc(patientDelegations.createdAt));
+    return delegationList;
+  }
+
+  async getActivePatientDelegation(patientId: number, delegateId: number): Promise<PatientDelegation | undefined> {
+    const delegationList = await db
+      .select()
+      .from(patientDelegations)
+      .where(
+        and(
+          eq(patientDelegations.patientId, patientId),
+          eq(patientDelegations.delegateId, delegateId),
+          eq(patientDelegations.status, DelegationStatus.ACTIVE)
+        )
+      );
+    return delegationList.find(delegation => isDelegationActive(delegation));
+  }
+
+  async createPatientDelegation(insertDelegation: InsertPatientDelegation): Promise<PatientDelegation> {
+    try {
+      const [delegation] = await db
+        .insert(patientDelegations)
+        .values({
+          ...insertDelegation,
+          createdAt: new Date()
+        })
+        .returning();
+      return delegation;
+    } catch (error) {
+      console.error('Error in createPatientDelegation:', error);
+      throw error;
+    }
+  }
+
+  async updatePatientDelegation(id: number, update: Partial<PatientDelegation>): Promise<PatientDelegation | undefined> {
+    try {
+      const [delegation] = await db
+        .update(patientDelegations)
+        .set(update)
+        .where(eq(patientDelegations.id, id))
+        .returning();
+      return delegation || undefined;
+    } catch (error) {
+      console.error('Error in updatePatientDelegation:', error);
+      throw error;
+    }
+  }
+
+  // System settings operations
+  async getSystemSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await db
+      .select()
+      .from(systemSettings)
+      .where(eq(systemSettings.key, key));
+    return setting ? setting.value as T : undefined;
+  }
+
+  async setSystemSetting<T>(key: string, value: T, updatedBy: number): Promise<void> {
+    try {
+      await db
+        .insert(systemSettings)
+        .values({ key, value, updatedBy, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: systemSettings.key,
+          set: { value, updatedBy, updatedAt: new Date() }
+        });
+    } catch (error) {
+      console.error('Error in setSystemSetting:', error);
+      throw error;
+    }
+  }
+
+  // Login session operations
+  async getSessionsByUserId(userId: number): Promise<StoredSession[]> {
+    const result = await pool.query(
+      `SELECT sid, sess, expire FROM "session" WHERE sess->'passport'->>'user' = $1 AND expire > NOW()`,
+      [String(userId)]
+    );
+    return result.rows.map((row: any) => ({
+      sid: row.sid,
+      data: row.sess,
+      expiresAt: new Date(row.expire)
+    }));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await pool.query(`DELETE FROM "session" WHERE sid = $1`, [sid]);
+  }
+
+  async deleteSessionsByUserId(userId: number, exceptSid?: string): Promise<number> {
+    const result = exceptSid
+      ? await pool.query(
+          `DELETE FROM "session" WHERE sess->'passport'->>'user' = $1 AND sid <> $2`,
+          [String(userId), exceptSid]
+        )
+      : await pool.query(
+          `DELETE FROM "session" WHERE sess->'passport'->>'user' = $1`,
+          [String(userId)]
+        );
+    return result.rowCount ?? 0;
+  }
+
+  // connect-pg-simple prunes on its own timer too; this lets the job report it
+  async deleteExpiredSessions(): Promise<number> {
+    const result = await pool.query(`DELETE FROM "session" WHERE expire < NOW()`);
+    return result.rowCount ?? 0;
+  }
+
+  // Failed sign-in tracking
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(eq(loginThrottles.key, key));
+    return throttle;
+  }
+
+  async saveLoginThrottle(throttle: LoginThrottle): Promise<LoginThrottle> {
+    const { key, ...state } = throttle;
+    const [saved] = await db
+      .insert(loginThrottles)
+      .values(throttle)
+      .onConflictDoUpdate({ target: loginThrottles.key, set: state })
+      .returning();
+    return saved;
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+  }
+
+  async getActiveLockouts(keyPrefix: string): Promise<LoginThrottle[]> {
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(and(
+        like(loginThrottles.key, `${keyPrefix}%`),
+        gt(loginThrottles.lockedUntil, new Date())
+      ));
+  }
+
+  // Audit log operations
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    try {
+      const [log] = await db
+        .insert(auditLogs)
+        .values({
+          ...insertLog,
+          timestamp: new Date()
+        })
+        .returning();
+      return log;
+    } catch (error) {
+      console.error('Error in createAuditLog:', error);
+      throw error;
+    }
+  }
+
+  async getAuditLogs(tenant: TenantScope): Promise<AuditLog[]> {
+    const logList = await db
+      .select()
+      .from(auditLogs)
+      .where(
+        tenant
+          ? or(
+              inArray(auditLogs.userId, tenantMembers(tenant)),
+              inArray(auditLogs.onBehalfOfUserId, tenantMembers(tenant))
+            )
+          : undefined
+      )
+      .orderBy(desc(auditLogs.timestamp));
+    return logList;
+  }
+
+  async getAuditLogsByUserId(userId: number): Promise<AuditLog[]> {
+    const logList = await db
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.userId, userId))
+      .orderBy(desc(auditLogs.timestamp));
+    return logList;
+  }
+
+  // Notification operations
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db
+      .insert(notifications)
+      .values(insertNotification)
+      .returning();
+    return notification;
+  }
+
+  async getNotificationsByUserId(userId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  // Only the owner's notification is updated; one already read keeps its readAt
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Retention operations
+  async deleteAuditLogsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(auditLogs)
+      .where(lt(auditLogs.timestamp, cutoff))
+      .returning({ id: auditLogs.id });
+    return deleted.length;
+  }
+
+  async deleteJobRunsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobRuns)
+      .where(and(ne(jobRuns.status, JobRunStatus.RUNNING), lt(jobRuns.startedAt, cutoff)))
+      .returning({ id: jobRuns.id });
+    return deleted.length;
+  }
+
+  async deletePasswordResetTokensExpiredBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(passwordResetTokens)
+      .where(lt(passwordResetTokens.expiresAt, cutoff))
+      .returning({ id: passwordResetTokens.id });
+    return deleted.length;
+  }
+
+  async deletePatientLinkingCodesExpiredBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(patientLinkingCodes)
+      .where(lt(patientLinkingCodes.expiresAt, cutoff))
+      .returning({ patientId: patientLinkingCodes.patientId });
+    return deleted.length;
+  }
+
+  // Throttles with no failure since the cutoff and no lockout running past it
+  async deleteLoginThrottlesIdleSince(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(and(
+        or(isNull(loginThrottles.lastFailedAt), lt(loginThrottles.lastFailedAt, cutoff)),
+        or(isNull(loginThrottles.lockedUntil), lt(loginThrottles.lockedUntil, cutoff))
+      ))
+      .returning({ key: loginThrottles.key });
+    return deleted.length;
+  }
+
+  // Background job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs);
+  }
+
+  async ensureScheduledJob(name: string, nextRunAt: Date): Promise<void> {
+    await db
+      .insert(scheduledJobs)
+      .values({ name, nextRunAt })
+      .onConflictDoNothing();
+  }
+
+  // A single conditional update, so only one server can win the lease
+  async claimScheduledJob(name: string, now: Date, lockedUntil: Date, dueOnly: boolean): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ lockedUntil })
+      .where(and(
+        eq(scheduledJobs.name, name),
+        or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now)),
+        dueOnly ? lte(scheduledJobs.nextRunAt, now) : undefined
+      ))
+      .returning();
+    return job || undefined;
+  }
+
+  async updateScheduledJob(name: string, update: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set(update)
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job || undefined;
+  }
+
+  async getJobRuns(filter: JobRunFilter, limit: number, offset: number): Promise<{ runs: JobRun[]; total: number }> {
+    const where = and(
+      filter.jobName ? eq(jobRuns.jobName, filter.jobName) : undefined,
+      filter.status ? eq(jobRuns.status, filter.status) : undefined
+    );
+    const [runs, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(jobRuns)
+        .where(where)
+        .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(jobRuns)
+        .where(where)
+    ]);
+    return { runs, total };
+  }
+
+  async createJobRun(jobName: string, triggeredBy: number | null): Promise<JobRun> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values({ jobName, triggeredBy, status: JobRunStatus.RUNNING, startedAt: new Date() })
+      .returning();
+    return run;
+  }
+
+  async updateJobRun(id: number, update: Partial<JobRun>): Promise<JobRun | undefined> {
+    const [run] = await db
+      .update(jobRuns)
+      .set(update)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+}
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private usersMap: Map<number, User>;
+  private organizationsMap: Map<number, Organization>;
+  private organizationMembershipsMap: Map<number, OrganizationMembership>;
   private recordsMap: Map<number, Record>;
   private accessRequestsMap: Map<number, AccessRequest>;
+  private accessRequestHistoryMap: Map<number, AccessRequestHistoryEntry>;
+  private accessShareCodesMap: Map<number, AccessShareCode>;
+  private emergencyAccessGrantsMap: Map<number, EmergencyAccessGrant>;
+  private patientDelegationsMap: Map<number, PatientDelegation>;
+  private twoFactorCredentialsMap: Map<number, TwoFactorCredential>; // keyed by userId
+  private recoveryCodesMap: Map<number, RecoveryCode>;
+  private patientLinkingCodesMap: Map<number, PatientLinkingCode>; // keyed by patientId
+  private doctorProfilesMap: Map<number, DoctorProfile>; // keyed by userId
+  private doctorVerificationDocumentsMap: Map<number, DoctorVerificationDocument>;
+  private passwordResetTokensMap: Map<number, PasswordResetToken>;
+  private passwordHistoryMap: Map<number, PasswordHistoryEntry>;
+  private systemSettingsMap: Map<string, unknown>;
+  private loginThrottlesMap: Map<string, LoginThrottle>;
   private auditLogsMap: Map<number, AuditLog>;
+  private notificationsMap: Map<number, Notification>;
+  private scheduledJobsMap: Map<string, ScheduledJob>;
+  private jobRunsMap: Map<number, JobRun>;
   private userIdCounter: number;
+  private organizationIdCounter: number;
+  private organizationMembershipIdCounter: number;
   private recordIdCounter: number;
   private accessRequestIdCounter: number;
+  private accessRequestHistoryIdCounter: number;
+  private accessShareCodeIdCounter: number;
+  private emergencyAccessGrantIdCounter: number;
+  private patientDelegationIdCounter: number;
+  private twoFactorCredentialIdCounter: number;
+  private recoveryCodeIdCounter: number;
+  private doctorProfileIdCounter: number;
+  private doctorVerificationDocumentIdCounter: number;
+  private passwordResetTokenIdCounter: number;
+  private passwordHistoryIdCounter: number;
   private auditLogIdCounter: number;
+  private notificationIdCounter: number;
+  private jobRunIdCounter: number;
   sessionStore: any;
 
   constructor() {
     this.usersMap = new Map();
+    this.organizationsMap = new Map();
+    this.organizationMembershipsMap = new Map();
     this.recordsMap = new Map();
     this.accessRequestsMap = new Map();
+    this.accessRequestHistoryMap = new Map();
+    this.accessShareCodesMap = new Map();
+    this.emergencyAccessGrantsMap = new Map();
+    this.patientDelegationsMap = new Map();
+    this.twoFactorCredentialsMap = new Map();
+    this.recoveryCodesMap = new Map();
+    this.patientLinkingCodesMap = new Map();
+    this.doctorProfilesMap = new Map();
+    this.doctorVerificationDocumentsMap = new Map();
+    this.passwordResetTokensMap = new Map();
+    this.passwordHistoryMap = new Map();
+    this.systemSettingsMap = new Map();
+    this.loginThrottlesMap = new Map();
     this.auditLogsMap = new Map();
+    this.notificationsMap = new Map();
+    this.scheduledJobsMap = new Map();
+    this.jobRunsMap = new Map();
     this.userIdCounter = 1;
+    this.organizationIdCounter = 1;
+    this.organizationMembershipIdCounter = 1;
     this.recordIdCounter = 1;
     this.accessRequestIdCounter = 1;
+    this.accessRequestHistoryIdCounter = 1;
+    this.accessShareCodeIdCounter = 1;
+    this.emergencyAccessGrantIdCounter = 1;
+    this.patientDelegationIdCounter = 1;
+    this.twoFactorCredentialIdCounter = 1;
+    this.recoveryCodeIdCounter = 1;
+    this.doctorProfileIdCounter = 1;
+    this.doctorVerificationDocumentIdCounter = 1;
+    this.passwordResetTokenIdCounter = 1;
+    this.passwordHistoryIdCounter = 1;
     this.auditLogIdCounter = 1;
+    this.notificationIdCounter = 1;
+    this.jobRunIdCounter = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // Prune expired entries every 24h
     });
   }
 
+  // Everyone who belongs to one of the tenant's organisations, or null when unrestricted
+  private tenantMemberIds(tenant: TenantScope): Set<number> | null {
+    if (!tenant) return null;
+    return new Set(
+      Array.from(this.organizationMembershipsMap.values())
+        .filter(membership => tenant.includes(membership.organizationId))
+        .map(membership => membership.userId)
+    );
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const user = this.usersMap.get(id);
@@ -786,8 +2134,10 @@ export class MemStorage implements IStorage {
     return enhancedUser as User;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    const users = Array.from(this.usersMap.values());
+  async getAllUsers(tenant: TenantScope): Promise<User[]> {
+    const members = this.tenantMemberIds(tenant);
+    const users = Array.from(this.usersMap.values())
+      .filter(user => !members || members.has(user.id));
     
     // Process each user to have proper settings and virtual properties
     return users.map(user => {
@@ -808,12 +2158,13 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async getDoctors(): Promise<User[]> {
+  async getDoctors(tenant: TenantScope): Promise<User[]> {
     const users = Array.from(this.usersMap.values());
+    const members = this.tenantMemberIds(tenant);
     
     // Process each doctor to have proper settings and virtual properties
     return users
-      .filter(user => user.role === "doctor")
+      .filter(user => user.role === "doctor" && (!members || members.has(user.id)))
       .map(doctor => {
         // Parse settings from userSettings column
         const settings = parseUserSettings(doctor.userSettings);
@@ -832,6 +2183,298 @@ export class MemStorage implements IStorage {
       });
   }
 
+  async findPatientsByNameAndBirthDate(fullName: string, dateOfBirth: string, tenant: TenantScope): Promise<User[]> {
+    const wanted = normalizeFullName(fullName);
+    const patients = await this.getAllUsers(tenant);
+    return patients
+      .filter(user => user.role === UserRole.PATIENT)
+      .filter(user => {
+        const profile = user.settings?.profile;
+        return !!profile?.fullName && normalizeFullName(profile.fullName) === wanted &&
+          profile.dateOfBirth === dateOfBirth;
+      })
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Organisation operations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizationsMap.get(id);
+  }
+
+  async getOrganizationByName(name: string): Promise<Organization | undefined> {
+    return Array.from(this.organizationsMap.values())
+      .find(organization => organization.name === name);
+  }
+
+  async getOrganizations(tenant: TenantScope): Promise<Organization[]> {
+    return Array.from(this.organizationsMap.values())
+      .filter(organization => !tenant || tenant.includes(organization.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const id = this.organizationIdCounter++;
+    
+    const organization: Organization = {
+      id,
+      name: insertOrganization.name,
+      createdBy: insertOrganization.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.organizationsMap.set(id, organization);
+    return organization;
+  }
+
+  async getOrganizationMemberships(organizationId: number): Promise<OrganizationMembership[]> {
+    return Array.from(this.organizationMembershipsMap.values())
+      .filter(membership => membership.organizationId === organizationId);
+  }
+
+  async getOrganizationMembershipsByUserId(userId: number): Promise<OrganizationMembership[]> {
+    return Array.from(this.organizationMembershipsMap.values())
+      .filter(membership => membership.userId === userId);
+  }
+
+  async createOrganizationMembership(insertMembership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const id = this.organizationMembershipIdCounter++;
+    
+    const membership: OrganizationMembership = {
+      id,
+      organizationId: insertMembership.organizationId,
+      userId: insertMembership.userId,
+      addedBy: insertMembership.addedBy ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.organizationMembershipsMap.set(id, membership);
+    return membership;
+  }
+
+  async deleteOrganizationMembership(organizationId: number, userId: number): Promise<void> {
+    for (const [id, membership] of Array.from(this.organizationMembershipsMap.entries())) {
+      if (membership.organizationId === organizationId && membership.userId === userId) {
+        this.organizationMembershipsMap.delete(id);
+      }
+    }
+  }
+
+  // Two-factor (TOTP) credential operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentialsMap.get(userId);
+  }
+
+  // Starting a new enrolment replaces any previous secret for the user
+  async createTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const credential: TwoFactorCredential = {
+      id: this.twoFactorCredentialIdCounter++,
+      userId,
+      secret,
+      enabledAt: null,
+      lastUsedStep: null,
+      createdAt: new Date(),
+    };
+    
+    this.twoFactorCredentialsMap.set(userId, credential);
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: number, update: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const credential = this.twoFactorCredentialsMap.get(userId);
+    if (!credential) return undefined;
+    
+    Object.assign(credential, update);
+    return credential;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<void> {
+    this.twoFactorCredentialsMap.delete(userId);
+  }
+
+  // Recovery code operations
+  // Generating a new set invalidates every earlier code, used or not
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    Array.from(this.recoveryCodesMap.entries())
+      .filter(([, code]) => code.userId === userId)
+      .forEach(([id]) => this.recoveryCodesMap.delete(id));
+    
+    for (const codeHash of codeHashes) {
+      const id = this.recoveryCodeIdCounter++;
+      this.recoveryCodesMap.set(id, {
+        id,
+        userId,
+        codeHash,
+        usedAt: null,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async getRemainingRecoveryCodeCount(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodesMap.values())
+      .filter(code => code.userId === userId && !code.usedAt)
+      .length;
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.recoveryCodesMap.values())
+      .find(code => code.userId === userId && code.codeHash === codeHash && !code.usedAt);
+    if (!code) return false;
+    
+    code.usedAt = new Date();
+    return true;
+  }
+
+  // Patient linking code operations
+  async getPatientLinkingCode(patientId: number): Promise<PatientLinkingCode | undefined> {
+    return this.patientLinkingCodesMap.get(patientId);
+  }
+
+  async getPatientLinkingCodeByHash(codeHash: string): Promise<PatientLinkingCode | undefined> {
+    return Array.from(this.patientLinkingCodesMap.values())
+      .find(code => code.codeHash === codeHash);
+  }
+
+  async savePatientLinkingCode(code: Omit<PatientLinkingCode, 'createdAt'>): Promise<PatientLinkingCode> {
+    const saved: PatientLinkingCode = { ...code, createdAt: new Date() };
+    this.patientLinkingCodesMap.set(code.patientId, saved);
+    return saved;
+  }
+
+  async deletePatientLinkingCode(patientId: number): Promise<void> {
+    this.patientLinkingCodesMap.delete(patientId);
+  }
+
+  // Doctor credential verification operations
+  async getDoctorProfile(userId: number): Promise<DoctorProfile | undefined> {
+    return this.doctorProfilesMap.get(userId);
+  }
+
+  async getDoctorProfiles(verificationStatus: string | undefined, tenant: TenantScope): Promise<DoctorProfile[]> {
+    const members = this.tenantMemberIds(tenant);
+    return Array.from(this.doctorProfilesMap.values())
+      .filter(profile => !verificationStatus || profile.verificationStatus === verificationStatus)
+      .filter(profile => !members || members.has(profile.userId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createDoctorProfile(insertProfile: InsertDoctorProfile): Promise<DoctorProfile> {
+    const id = this.doctorProfileIdCounter++;
+    
+    const profile: DoctorProfile = {
+      id,
+      userId: insertProfile.userId,
+      licenseNumber: insertProfile.licenseNumber,
+      issuingAuthority: insertProfile.issuingAuthority ?? null,
+      verificationStatus: insertProfile.verificationStatus ?? 'pending',
+      reviewedBy: insertProfile.reviewedBy ?? null,
+      reviewedAt: insertProfile.reviewedAt ?? null,
+      reviewNotes: null,
+      submittedAt: insertProfile.submittedAt ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.doctorProfilesMap.set(profile.userId, profile);
+    return profile;
+  }
+
+  async updateDoctorProfile(userId: number, update: Partial<DoctorProfile>): Promise<DoctorProfile | undefined> {
+    const profile = this.doctorProfilesMap.get(userId);
+    if (!profile) return undefined;
+    
+    Object.assign(profile, update);
+    return profile;
+  }
+
+  async getDoctorVerificationDocument(id: number): Promise<DoctorVerificationDocument | undefined> {
+    return this.doctorVerificationDocumentsMap.get(id);
+  }
+
+  async getDoctorVerificationDocuments(doctorId: number): Promise<DoctorVerificationDocument[]> {
+    return Array.from(this.doctorVerificationDocumentsMap.values())
+      .filter(document => document.doctorId === doctorId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getDoctorVerificationDocumentsWithStaleEncryptionKey(currentKeyId: string): Promise<DoctorVerificationDocument[]> {
+    return Array.from(this.doctorVerificationDocumentsMap.values())
+      .filter(document => document.encryptionKeyId !== currentKeyId);
+  }
+
+  async createDoctorVerificationDocument(insertDocument: InsertDoctorVerificationDocument): Promise<DoctorVerificationDocument> {
+    const id = this.doctorVerificationDocumentIdCounter++;
+    const document: DoctorVerificationDocument = { id, ...insertDocument, uploadedAt: new Date() };
+    this.doctorVerificationDocumentsMap.set(id, document);
+    return document;
+  }
+
+  async updateDoctorVerificationDocument(id: number, update: Partial<DoctorVerificationDocument>): Promise<DoctorVerificationDocument | undefined> {
+    const document = this.doctorVerificationDocumentsMap.get(id);
+    if (!document) return undefined;
+    
+    Object.assign(document, update);
+    return document;
+  }
+
+  async deleteDoctorVerificationDocument(id: number): Promise<void> {
+    this.doctorVerificationDocumentsMap.delete(id);
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    Array.from(this.passwordResetTokensMap.entries())
+      .filter(([, token]) => token.userId === userId && !token.usedAt)
+      .forEach(([id]) => this.passwordResetTokensMap.delete(id));
+    
+    const id = this.passwordResetTokenIdCounter++;
+    const token: PasswordResetToken = {
+      id,
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokensMap.set(id, token);
+    return token;
+  }
+
+  async getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokensMap.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokensMap.values())
+      .find(token => token.tokenHash === tokenHash);
+  }
+
+  async usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = Array.from(this.passwordResetTokensMap.values())
+      .find(token => token.tokenHash === tokenHash && !token.usedAt && token.expiresAt > new Date());
+    if (!token) return undefined;
+    
+    token.usedAt = new Date();
+    return token;
+  }
+
+  // Password history operations
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]> {
+    return Array.from(this.passwordHistoryMap.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async addPasswordHistory(userId: number, passwordHash: string, keep: number): Promise<void> {
+    const id = this.passwordHistoryIdCounter++;
+    this.passwordHistoryMap.set(id, { id, userId, passwordHash, createdAt: new Date() });
+    
+    const stale = (await this.getPasswordHistory(userId, Number.MAX_SAFE_INTEGER)).slice(keep);
+    stale.forEach(entry => this.passwordHistoryMap.delete(entry.id));
+  }
+
   // Record operations
   async getRecord(id: number): Promise<Record | undefined> {
     return this.recordsMap.get(id);
@@ -872,11 +2515,57 @@ export class MemStorage implements IStorage {
     return record;
   }
 
+  async getRecordsWithStaleEncryptionKey(currentKeyId: string): Promise<Record[]> {
+    return Array.from(this.recordsMap.values())
+      .filter(record => record.wrappedDataKey && record.encryptionKeyId !== currentKeyId);
+  }
+
   // Access request operations
   async getAccessRequest(id: number): Promise<AccessRequest | undefined> {
     return this.accessRequestsMap.get(id);
   }
 
+  async getAllAccessRequests(tenant: TenantScope): Promise<AccessRequest[]> {
+    const members = this.tenantMemberIds(tenant);
+    return Array.from(this.accessRequestsMap.values())
+      .filter(request => !members || members.has(request.patientId) || members.has(request.doctorId))
+      .sort((a, b) => {
+        const dateA = a.requestDate ? new Date(a.requestDate).getTime() : 0;
+        const dateB = b.requestDate ? new Date(b.requestDate).getTime() : 0;
+        return dateB - dateA;
+      });
+  }
+
+  async getAccessRequestsPage(tenant: TenantScope, filter: AccessRequestFilter, limit: number, offset: number): Promise<{ requests: AccessRequest[]; total: number }> {
+    const now = new Date();
+    const searchTerm = filter.search?.toLowerCase();
+    const nameMatches = (userId: number) => {
+      const user = this.usersMap.get(userId);
+      const fullName = user ? parseUserSettings(user.userSettings as object | null).profile?.fullName : undefined;
+      return !!fullName?.toLowerCase().includes(searchTerm!);
+    };
+    const requests = (await this.getAllAccessRequests(tenant)).filter(request =>
+      (!filter.status || effectiveAccessStatus(request, now) === filter.status) &&
+      (filter.doctorId === undefined || request.doctorId === filter.doctorId) &&
+      (filter.patientId === undefined || request.patientId === filter.patientId) &&
+      (!searchTerm ||
+        request.purpose.toLowerCase().includes(searchTerm) ||
+        nameMatches(request.doctorId) ||
+        nameMatches(request.patientId))
+    );
+    return { requests: requests.slice(offset, offset + limit), total: requests.length };
+  }
+
+  async countAccessRequestsByStatus(tenant: TenantScope): Promise<{ [status: string]: number }> {
+    const now = new Date();
+    const counts: { [status: string]: number } = {};
+    for (const request of await this.getAllAccessRequests(tenant)) {
+      const status = effectiveAccessStatus(request, now);
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
   async getAccessRequestsByPatientId(patientId: number): Promise<AccessRequest[]> {
     const requests = Array.from(this.accessRequestsMap.values())
       .filter(request => request.patientId === patientId)
@@ -913,15 +2602,42 @@ export class MemStorage implements IStorage {
 
   async hasAccess(doctorId: number, patientId: number): Promise<boolean> {
     const activeRequests = await this.getActiveAccessRequests(doctorId, patientId);
-    return activeRequests.length > 0;
+    if (activeRequests.length > 0) return true;
+    
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, patientId);
+    return emergencyGrants.length > 0;
+  }
+
+  // Whether any active grant covers this specific record, honouring limited scopes.
+  // Break-glass grants always cover the patient's full record.
+  async hasRecordAccess(doctorId: number, record: Record): Promise<boolean> {
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, record.patientId);
+    if (emergencyGrants.length > 0) return true;
+    
+    const activeRequests = await this.getActiveAccessRequests(doctorId, record.patientId);
+    return activeRequests.some(request => grantCoversRecord(request, record));
+  }
+
+  // A patient's records filtered down to those covered by the doctor's active grants
+  async getAccessibleRecords(doctorId: number, patientId: number): Promise<Record[]> {
+    const emergencyGrants = await this.getActiveEmergencyAccessGrants(doctorId, patientId);
+    if (emergencyGrants.length > 0) return this.getRecordsByPatientId(patientId);
+    
+    const activeRequests = await this.getActiveAccessRequests(doctorId, patientId);
+    if (activeRequests.length === 0) return [];
+    
+    const recordList = await this.getRecordsByPatientId(patientId);
+    return recordList.filter(record =>
+      activeRequests.some(request => grantCoversRecord(request, record))
+    );
   }
 
   async createAccessRequest(insertRequest: InsertAccessRequest): Promise<AccessRequest> {
     const id = this.accessRequestIdCounter++;
     
-    // Calculate expiry date based on duration (in days)
-    let expiryDate = null;
-    if (insertRequest.duration) {
+    // Calculate expiry date based on duration (in days), unless one was given
+    let expiryDate = insertRequest.expiryDate ?? null;
+    if (!expiryDate && insertRequest.duration) {
       expiryDate = new Date();
       expiryDate.setDate(expiryDate.getDate() + insertRequest.duration);
     }
@@ -929,6 +2645,12 @@ export class MemStorage implements IStorage {
     const request: AccessRequest = { 
       id,
       ...insertRequest,
+      status: insertRequest.status || "pending",
+      notes: insertRequest.notes ?? null,
+      limitedScope: insertRequest.limitedScope ?? false,
+      scope: insertRequest.scope ?? null,
+      extendsRequestId: insertRequest.extendsRequestId ?? null,
+      expiryReminderSentAt: null,
       requestDate: new Date(),
       expiryDate,
     };
@@ -952,6 +2674,305 @@ export class MemStorage implements IStorage {
     return request;
   }
 
+  async updateAccessRequestIfStatus(id: number, expectedStatus: string, update: Partial<AccessRequest>): Promise<AccessRequest | undefined> {
+    const request = this.accessRequestsMap.get(id);
+    if (!request || request.status !== expectedStatus) return undefined;
+    
+    Object.assign(request, update);
+    return request;
+  }
+
+  async getAccessRequestHistory(accessRequestId: number): Promise<AccessRequestHistoryEntry[]> {
+    return Array.from(this.accessRequestHistoryMap.values())
+      .filter(entry => entry.accessRequestId === accessRequestId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createAccessRequestHistoryEntry(insertEntry: InsertAccessRequestHistoryEntry): Promise<AccessRequestHistoryEntry> {
+    const id = this.accessRequestHistoryIdCounter++;
+    const entry: AccessRequestHistoryEntry = {
+      id,
+      ...insertEntry,
+      fromStatus: insertEntry.fromStatus ?? null,
+      actorId: insertEntry.actorId ?? null,
+      reason: insertEntry.reason ?? null,
+      expiryDate: insertEntry.expiryDate ?? null,
+      createdAt: new Date(),
+    };
+    this.accessRequestHistoryMap.set(id, entry);
+    return entry;
+  }
+
+  async getLapsedAccessGrants(now: Date): Promise<AccessRequest[]> {
+    return Array.from(this.accessRequestsMap.values())
+      .filter(request => request.status === 'approved' && request.expiryDate && new Date(request.expiryDate) < now);
+  }
+
+  async getAccessGrantsDueReminder(now: Date, cutoff: Date): Promise<AccessRequest[]> {
+    return Array.from(this.accessRequestsMap.values())
+      .filter(request =>
+        request.status === 'approved' &&
+        !request.expiryReminderSentAt &&
+        request.expiryDate &&
+        new Date(request.expiryDate) > now &&
+        new Date(request.expiryDate) < cutoff
+      );
+  }
+
+  async markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean> {
+    const request = this.accessRequestsMap.get(id);
+    if (!request || request.expiryReminderSentAt) return false;
+    request.expiryReminderSentAt = sentAt;
+    return true;
+  }
+
+  // Patient share code operations
+  async getAccessShareCode(id: number): Promise<AccessShareCode | undefined> {
+    return this.accessShareCodesMap.get(id);
+  }
+
+  async getAccessShareCodeByHash(codeHash: string): Promise<AccessShareCode | undefined> {
+    return Array.from(this.accessShareCodesMap.values())
+      .find(shareCode => shareCode.codeHash === codeHash);
+  }
+
+  async getAccessShareCodesByPatientId(patientId: number): Promise<AccessShareCode[]> {
+    return Array.from(this.accessShareCodesMap.values())
+      .filter(shareCode => shareCode.patientId === patientId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createAccessShareCode(insertShareCode: InsertAccessShareCode): Promise<AccessShareCode> {
+    const id = this.accessShareCodeIdCounter++;
+    const shareCode: AccessShareCode = {
+      id,
+      ...insertShareCode,
+      limitedScope: insertShareCode.limitedScope ?? false,
+      scope: insertShareCode.scope ?? null,
+      singleUse: insertShareCode.singleUse ?? true,
+      createdAt: new Date(),
+      redemptionCount: 0,
+      lastRedeemedAt: null,
+      revokedAt: null,
+      revokedBy: null,
+    };
+    this.accessShareCodesMap.set(id, shareCode);
+    return shareCode;
+  }
+
+  async updateAccessShareCode(id: number, update: Partial<AccessShareCode>): Promise<AccessShareCode | undefined> {
+    const shareCode = this.accessShareCodesMap.get(id);
+    if (!shareCode) return undefined;
+    
+    Object.assign(shareCode, update);
+    return shareCode;
+  }
+
+  async redeemAccessShareCode(id: number): Promise<AccessShareCode | undefined> {
+    const shareCode = this.accessShareCodesMap.get(id);
+    if (!shareCode || !isShareCodeRedeemable(shareCode)) return undefined;
+    
+    shareCode.redemptionCount++;
+    shareCode.lastRedeemedAt = new Date();
+    return shareCode;
+  }
+
+  // Emergency (break-glass) access operations
+  async getEmergencyAccessGrant(id: number): Promise<EmergencyAccessGrant | undefined> {
+    return this.emergencyAccessGrantsMap.get(id);
+  }
+
+  async getEmergencyAccessGrants(reviewStatus: string | undefined, tenant: TenantScope): Promise<EmergencyAccessGrant[]> {
+    const members = this.tenantMemberIds(tenant);
+    return Array.from(this.emergencyAccessGrantsMap.values())
+      .filter(grant => !reviewStatus || grant.reviewStatus === reviewStatus)
+      .filter(grant => !members || members.has(grant.patientId))
+      .sort((a, b) => (b.grantedAt?.getTime() ?? 0) - (a.grantedAt?.getTime() ?? 0));
+  }
+
+  async getEmergencyAccessGrantsByPatientId(patientId: number): Promise<EmergencyAccessGrant[]> {
+    return (await this.getEmergencyAccessGrants(undefined, null))
+      .filter(grant => grant.patientId === patientId);
+  }
+
+  async getEmergencyAccessGrantsByDoctorId(doctorId: number): Promise<EmergencyAccessGrant[]> {
+    return (await this.getEmergencyAccessGrants(undefined, null))
+      .filter(grant => grant.doctorId === doctorId);
+  }
+
+  async getActiveEmergencyAccessGrants(doctorId: number, patientId: number): Promise<EmergencyAccessGrant[]> {
+    const now = new Date();
+    
+    return Array.from(this.emergencyAccessGrantsMap.values())
+      .filter(grant =>
+        grant.doctorId === doctorId &&
+        grant.patientId === patientId &&
+        !grant.revokedAt &&
+        grant.expiresAt > now
+      );
+  }
+
+  async createEmergencyAccessGrant(insertGrant: InsertEmergencyAccessGrant): Promise<EmergencyAccessGrant> {
+    const id = this.emergencyAccessGrantIdCounter++;
+    
+    const grant: EmergencyAccessGrant = {
+      id,
+      ...insertGrant,
+      grantedAt: new Date(),
+      revokedAt: null,
+      patientNotifiedAt: null,
+      reviewStatus: 'pending_review',
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNotes: null,
+    };
+    
+    this.emergencyAccessGrantsMap.set(id, grant);
+    return grant;
+  }
+
+  async updateEmergencyAccessGrant(id: number, update: Partial<EmergencyAccessGrant>): Promise<EmergencyAccessGrant | undefined> {
+    const grant = this.emergencyAccessGrantsMap.get(id);
+    if (!grant) return undefined;
+    
+    Object.assign(grant, update);
+    return grant;
+  }
+
+  // Caregiver and guardian delegation operations
+  async getPatientDelegation(id: number): Promise<PatientDelegation | undefined> {
+    return this.patientDelegationsMap.get(id);
+  }
+
+  async getPatientDelegations(tenant: TenantScope): Promise<PatientDelegation[]> {
+    const members = this.tenantMemberIds(tenant);
+    return Array.from(this.patientDelegationsMap.values())
+      .filter(delegation => !members || members.has(delegation.patientId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getPatientDelegationsByPatientId(patientId: number): Promise<PatientDelegation[]> {
+    return (await this.getPatientDelegations(null))
+      .filter(delegation => delegation.patientId === patientId);
+  }
+
+  async getPatientDelegationsByDelegateId(delegateId: number): Promise<PatientDelegation[]> {
+    return (await this.getPatientDelegations(null))
+      .filter(delegation => delegation.delegateId === delegateId);
+  }
+
+  async getActivePatientDelegation(patientId: number, delegateId: number): Promise<PatientDelegation | undefined> {
+    return Array.from(this.patientDelegationsMap.values())
+      .find(delegation =>
+        delegation.patientId === patientId &&
+        delegation.delegateId === delegateId &&
+        isDelegationActive(delegation)
+      );
+  }
+
+  async createPatientDelegation(insertDelegation: InsertPatientDelegation): Promise<PatientDelegation> {
+    const id = this.patientDelegationIdCounter++;
+    
+    const delegation: PatientDelegation = {
+      id,
+      ...insertDelegation,
+      scope: insertDelegation.scope ?? 'view',
+      status: DelegationStatus.ACTIVE,
+      expiresAt: insertDelegation.expiresAt ?? null,
+      createdAt: new Date(),
+      revokedAt: null,
+      revokedBy: null,
+    };
+    
+    this.patientDelegationsMap.set(id, delegation);
+    return delegation;
+  }
+
+  async updatePatientDelegation(id: number, update: Partial<PatientDelegation>): Promise<PatientDelegation | undefined> {
+    const delegation = this.patientDelegationsMap.get(id);
+    if (!delegation) return undefined;
+    
+    Object.assign(delegation, update);
+    return delegation;
+  }
+
+  // System settings operations
+  async getSystemSetting<T>(key: string): Promise<T | undefined> {
+    return this.systemSettingsMap.get(key) as T | undefined;
+  }
+
+  async setSystemSetting<T>(key: string, value: T, _updatedBy: number): Promise<void> {
+    this.systemSettingsMap.set(key, value);
+  }
+
+  // Login session operations
+  private getAllSessions(): Promise<{ [sid: string]: session.SessionData }> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.all((err: Error | null, sessions: { [sid: string]: session.SessionData } | null) => {
+        if (err) return reject(err);
+        resolve(sessions || {});
+      });
+    });
+  }
+
+  async getSessionsByUserId(userId: number): Promise<StoredSession[]> {
+    const sessions = await this.getAllSessions();
+    const now = new Date();
+    return Object.entries(sessions)
+      .filter(([, data]) => (data as any).passport?.user === userId)
+      .map(([sid, data]) => ({
+        sid,
+        data,
+        expiresAt: data.cookie.expires ? new Date(data.cookie.expires) : now
+      }))
+      .filter(stored => stored.expiresAt > now);
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err: Error | null) => err ? reject(err) : resolve());
+    });
+  }
+
+  async deleteSessionsByUserId(userId: number, exceptSid?: string): Promise<number> {
+    const sessions = await this.getSessionsByUserId(userId);
+    const toDelete = sessions.filter(stored => stored.sid !== exceptSid);
+    for (const stored of toDelete) {
+      await this.deleteSession(stored.sid);
+    }
+    return toDelete.length;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const count = () => new Promise<number>((resolve, reject) => {
+      this.sessionStore.length((err: Error | null, length: number) => err ? reject(err) : resolve(length));
+    });
+    const before = await count();
+    this.sessionStore.prune();
+    return before - await count();
+  }
+
+  // Failed sign-in tracking
+  async getLoginThrottle(key: string): Promise<LoginThrottle | undefined> {
+    return this.loginThrottlesMap.get(key);
+  }
+
+  async saveLoginThrottle(throttle: LoginThrottle): Promise<LoginThrottle> {
+    this.loginThrottlesMap.set(throttle.key, throttle);
+    return throttle;
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    this.loginThrottlesMap.delete(key);
+  }
+
+  async getActiveLockouts(keyPrefix: string): Promise<LoginThrottle[]> {
+    const now = new Date();
+    return Array.from(this.loginThrottlesMap.values()).filter(
+      (throttle) => throttle.key.startsWith(keyPrefix) && !!throttle.lockedUntil && throttle.lockedUntil > now
+    );
+  }
+
   // Audit log operations
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const id = this.auditLogIdCounter++;
@@ -959,6 +2980,7 @@ export class MemStorage implements IStorage {
     const log: AuditLog = { 
       id,
       ...insertLog,
+      onBehalfOfUserId: insertLog.onBehalfOfUserId ?? null,
       timestamp: new Date(),
     };
     
@@ -966,8 +2988,14 @@ export class MemStorage implements IStorage {
     return log;
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
+  async getAuditLogs(tenant: TenantScope): Promise<AuditLog[]> {
+    const members = this.tenantMemberIds(tenant);
     return Array.from(this.auditLogsMap.values())
+      .filter(log =>
+        !members ||
+        members.has(log.userId) ||
+        (log.onBehalfOfUserId !== null && members.has(log.onBehalfOfUserId))
+      )
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
@@ -976,6 +3004,154 @@ export class MemStorage implements IStorage {
       .filter(log => log.userId === userId)
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
+
+  // Notification operations
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.notificationIdCounter++;
+    const notification: Notification = {
+      id,
+      ...insertNotification,
+      link: insertNotification.link ?? null,
+      emailed: insertNotification.emailed ?? false,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notificationsMap.set(id, notification);
+    return notification;
+  }
+
+  async getNotificationsByUserId(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notificationsMap.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return Array.from(this.notificationsMap.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notificationsMap.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+    if (!notification.readAt) notification.readAt = new Date();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let updated = 0;
+    this.notificationsMap.forEach(notification => {
+      if (notification.userId === userId && !notification.readAt) {
+        notification.readAt = new Date();
+        updated++;
+      }
+    });
+    return updated;
+  }
+
+  // Retention operations
+  private deleteWhere<K, V>(map: Map<K, V>, matches: (value: V) => boolean): number {
+    let deleted = 0;
+    map.forEach((value, key) => {
+      if (matches(value)) {
+        map.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async deleteAuditLogsBefore(cutoff: Date): Promise<number> {
+    return this.deleteWhere(this.auditLogsMap, log => !!log.timestamp && new Date(log.timestamp) < cutoff);
+  }
+
+  async deleteJobRunsBefore(cutoff: Date): Promise<number> {
+    return this.deleteWhere(this.jobRunsMap, run =>
+      run.status !== JobRunStatus.RUNNING && !!run.startedAt && new Date(run.startedAt) < cutoff
+    );
+  }
+
+  async deletePasswordResetTokensExpiredBefore(cutoff: Date): Promise<number> {
+    return this.deleteWhere(this.passwordResetTokensMap, token => new Date(token.expiresAt) < cutoff);
+  }
+
+  async deletePatientLinkingCodesExpiredBefore(cutoff: Date): Promise<number> {
+    return this.deleteWhere(this.patientLinkingCodesMap, code => new Date(code.expiresAt) < cutoff);
+  }
+
+  async deleteLoginThrottlesIdleSince(cutoff: Date): Promise<number> {
+    return this.deleteWhere(this.loginThrottlesMap, throttle =>
+      (!throttle.lastFailedAt || new Date(throttle.lastFailedAt) < cutoff) &&
+      (!throttle.lockedUntil || new Date(throttle.lockedUntil) < cutoff)
+    );
+  }
+
+  // Background job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobsMap.values());
+  }
+
+  async ensureScheduledJob(name: string, nextRunAt: Date): Promise<void> {
+    if (this.scheduledJobsMap.has(name)) return;
+    this.scheduledJobsMap.set(name, {
+      name,
+      nextRunAt,
+      lockedUntil: null,
+      currentRunId: null,
+      lastRunAt: null,
+      lastStatus: null,
+      consecutiveFailures: 0,
+    });
+  }
+
+  async claimScheduledJob(name: string, now: Date, lockedUntil: Date, dueOnly: boolean): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobsMap.get(name);
+    if (!job) return undefined;
+    if (job.lockedUntil && new Date(job.lockedUntil) >= now) return undefined;
+    if (dueOnly && new Date(job.nextRunAt) > now) return undefined;
+    job.lockedUntil = lockedUntil;
+    return { ...job };
+  }
+
+  async updateScheduledJob(name: string, update: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobsMap.get(name);
+    if (!job) return undefined;
+    Object.assign(job, update);
+    return { ...job };
+  }
+
+  async getJobRuns(filter: JobRunFilter, limit: number, offset: number): Promise<{ runs: JobRun[]; total: number }> {
+    const runs = Array.from(this.jobRunsMap.values())
+      .filter(run => (!filter.jobName || run.jobName === filter.jobName) && (!filter.status || run.status === filter.status))
+      .sort((a, b) => b.id - a.id);
+    return { runs: runs.slice(offset, offset + limit), total: runs.length };
+  }
+
+  async createJobRun(jobName: string, triggeredBy: number | null): Promise<JobRun> {
+    const id = this.jobRunIdCounter++;
+    const run: JobRun = {
+      id,
+      jobName,
+      status: JobRunStatus.RUNNING,
+      triggeredBy,
+      startedAt: new Date(),
+      finishedAt: null,
+      itemsProcessed: null,
+      summary: null,
+      error: null,
+    };
+    this.jobRunsMap.set(id, run);
+    return run;
+  }
+
+  async updateJobRun(id: number, update: Partial<JobRun>): Promise<JobRun | undefined> {
+    const run = this.jobRunsMap.get(id);
+    if (!run) return undefined;
+    Object.assign(run, update);
+    return run;
+  }
 }
 
 // Use DatabaseStorage for production
@@ -0,0 +1,132 @@
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { createHash } from "crypto";
+import { Transform, pipeline } from "stream";
+import { objectStore, type IObjectStore } from "./object-store";
+import { createDataKey, createEncryptStream } from "./encryption";
+
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        storageKey?: string;
+        checksum?: string;
+        encryptionKeyId?: string;
+        wrappedDataKey?: string;
+        encryptionIv?: string;
+        encryptionAuthTag?: string;
+      }
+    }
+  }
+}
+
+// Maximum attachment size accepted by the upload endpoint
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+
+// MIME types accepted for medical record attachments and verification documents
+export const allowedRecordMimeTypes = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+
+// Multer storage engine that streams each file straight into the object store,
+// computing its SHA-256 checksum over the plaintext and encrypting it on the way through
+class ObjectStoreEngine implements multer.StorageEngine {
+  constructor(private store: IObjectStore, private keyPrefix: string) {}
+
+  _handleFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error?: any, info?: Partial<Express.Multer.File>) => void
+  ) {
+    const storageKey = this.store.createKey(this.keyPrefix);
+    const { dataKey, keyId, wrappedKey } = createDataKey();
+    const { cipher, iv } = createEncryptStream(dataKey);
+    const hash = createHash("sha256");
+    let size = 0;
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        hash.update(chunk);
+        size += chunk.length;
+        done(null, chunk);
+      }
+    });
+
+    // pipeline() destroys every stage on failure, so errors surface through put()
+    const encrypted = pipeline(file.stream, hasher, cipher, () => {});
+
+    this.store
+      .put(storageKey, encrypted)
+      .then(() => callback(null, {
+        storageKey,
+        size,
+        checksum: hash.digest("hex"),
+        encryptionKeyId: keyId,
+        wrappedDataKey: wrappedKey,
+        encryptionIv: iv,
+        encryptionAuthTag: cipher.getAuthTag().toString("base64")
+      }))
+      .catch(callback);
+  }
+
+  _removeFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error: Error | null) => void
+  ) {
+    if (!file.storageKey) return callback(null);
+    this.store
+      .delete(file.storageKey)
+      .then(() => callback(null))
+      .catch(callback);
+  }
+}
+
+function createUpload(keyPrefix: string) {
+  return multer({
+    storage: new ObjectStoreEngine(objectStore, keyPrefix),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!allowedRecordMimeTypes.includes(file.mimetype)) {
+        return callback(Object.assign(
+          new Error(`Unsupported file type: ${file.mimetype}`),
+          { status: 400 }
+        ));
+      }
+      callback(null, true);
+    }
+  });
+}
+
+// Middleware accepting a single "file" field and turning upload failures into JSON errors
+const handleSingleUpload = (upload: multer.Multer) => (req: Request, res: Response, next: NextFunction) => {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE"
+        ? `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB limit`
+        : err.message;
+      return res.status(400).json({ message });
+    }
+    if (err instanceof Error) {
+      const status = (err as Error & { status?: number }).status || 500;
+      if (status === 500) console.error("Error storing upload:", err);
+      return res.status(status).json({
+        message: status === 500 ? "Failed to store uploaded file" : err.message
+      });
+    }
+    next();
+  });
+};
+
+export const handleRecordUpload = handleSingleUpload(createUpload("records"));
+
+// Licence scans and certificates for doctor credential verification
+export const handleVerificationDocumentUpload = handleSingleUpload(createUpload("verification"));
+
+// Remove an uploaded object after the request handler rejected the upload
+export async function discardUpload(file: Express.Multer.File | undefined) {
+  if (file?.storageKey) {
+    await objectStore.delete(file.storageKey);
+  }
+}
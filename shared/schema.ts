@@ -6,11 +6,113 @@ import { z } from "zod";
 export const UserRole = {
   PATIENT: 'patient',
   DOCTOR: 'doctor',
-  ADMIN: 'admin'
+  NURSE: 'nurse',
+  RECEPTIONIST: 'receptionist',
+  AUDITOR: 'auditor',
+  ADMIN: 'admin',
+  SUPER_ADMIN: 'super_admin'
 } as const;
 
 export type UserRoleType = typeof UserRole[keyof typeof UserRole];
 
+export const userRoles = Object.values(UserRole) as [UserRoleType, ...UserRoleType[]];
+
+export const roleLabels: { [role in UserRoleType]: string } = {
+  [UserRole.PATIENT]: "Patient",
+  [UserRole.DOCTOR]: "Doctor",
+  [UserRole.NURSE]: "Nurse",
+  [UserRole.RECEPTIONIST]: "Front Desk",
+  [UserRole.AUDITOR]: "Auditor",
+  [UserRole.ADMIN]: "Admin",
+  [UserRole.SUPER_ADMIN]: "Super Admin",
+};
+
+// What each role may do. Everyone can always see and manage their own account
+// and records; these cover acting on other people's data. Staff only ever act on
+// people in their own organisations unless their role also has org:manage.
+export const Permission = {
+  USER_READ: 'user:read',                   // list every account
+  USER_MANAGE: 'user:manage',               // create accounts, grant roles, unlock and sign out users
+  PATIENT_READ: 'patient:read',             // list the patients in their organisations
+  PATIENT_SEARCH: 'patient:search',         // find one patient by name and date of birth, or a linking code
+  PATIENT_REGISTER: 'patient:register',     // open patient accounts on a patient's behalf
+  RECORD_READ: 'record:read',               // read records a patient has granted access to
+  RECORD_READ_ANY: 'record:read_any',       // read any patient's records without a grant
+  RECORD_CREATE: 'record:create',           // add records for a patient who has granted access
+  RECORD_CREATE_ANY: 'record:create_any',   // add records for any patient
+  RECORD_VERIFY: 'record:verify',           // records this role adds count as clinically verified
+  ACCESS_REQUEST: 'access:request',         // ask patients for access to their records
+  ACCESS_MANAGE: 'access:manage',           // see and act on every access request
+  EMERGENCY_OVERRIDE: 'emergency:override', // take break-glass access without the patient's approval
+  EMERGENCY_REVIEW: 'emergency:review',     // sign off or escalate break-glass access
+  AUDIT_READ: 'audit:read',                 // read the system-wide audit log
+  CREDENTIALS_SUBMIT: 'credentials:submit', // submit professional credentials for verification
+  CREDENTIALS_REVIEW: 'credentials:review', // verify or reject submitted credentials
+  SECURITY_MANAGE: 'security:manage',       // security policies, IP rules and encryption keys
+  ORG_MANAGE: 'org:manage',                 // create organisations and act across all of them
+} as const;
+
+export type PermissionType = typeof Permission[keyof typeof Permission];
+
+export const rolePermissions: { [role in UserRoleType]: readonly PermissionType[] } = {
+  [UserRole.PATIENT]: [],
+  [UserRole.DOCTOR]: [
+    Permission.PATIENT_SEARCH,
+    Permission.RECORD_READ,
+    Permission.RECORD_CREATE,
+    Permission.RECORD_VERIFY,
+    Permission.ACCESS_REQUEST,
+    Permission.EMERGENCY_OVERRIDE,
+    Permission.CREDENTIALS_SUBMIT,
+  ],
+  [UserRole.NURSE]: [
+    Permission.PATIENT_SEARCH,
+    Permission.RECORD_READ,
+    Permission.RECORD_CREATE,
+    Permission.ACCESS_REQUEST,
+  ],
+  [UserRole.RECEPTIONIST]: [
+    Permission.PATIENT_READ,
+    Permission.PATIENT_REGISTER,
+  ],
+  [UserRole.AUDITOR]: [
+    Permission.AUDIT_READ,
+  ],
+  [UserRole.ADMIN]: [
+    Permission.USER_READ,
+    Permission.USER_MANAGE,
+    Permission.PATIENT_READ,
+    Permission.PATIENT_REGISTER,
+    Permission.RECORD_READ_ANY,
+    Permission.RECORD_CREATE_ANY,
+    Permission.ACCESS_MANAGE,
+    Permission.EMERGENCY_REVIEW,
+    Permission.AUDIT_READ,
+    Permission.CREDENTIALS_REVIEW,
+  ],
+  // Policies and encryption keys apply to every organisation, so only super admins manage them
+  [UserRole.SUPER_ADMIN]: [
+    Permission.USER_READ,
+    Permission.USER_MANAGE,
+    Permission.PATIENT_READ,
+    Permission.PATIENT_REGISTER,
+    Permission.RECORD_READ_ANY,
+    Permission.RECORD_CREATE_ANY,
+    Permission.ACCESS_MANAGE,
+    Permission.EMERGENCY_REVIEW,
+    Permission.AUDIT_READ,
+    Permission.CREDENTIALS_REVIEW,
+    Permission.SECURITY_MANAGE,
+    Permission.ORG_MANAGE,
+  ],
+};
+
+// Unknown roles (e.g. one removed from the registry) get no permissions
+export function roleHasPermission(role: string | null | undefined, permission: PermissionType): boolean {
+  if (!role || !(role in rolePermissions)) return false;
+  return rolePermissions[role as UserRoleType].includes(permission);
+}
+
 // Profile settings type
 export type ProfileSettings = {
   fullName: string;
@@ -24,6 +126,12 @@ export type ProfileSettings = {
   lastUpdated?: string | null;
 };
 
+// How full names are compared when searching for a patient: case, surrounding
+// spaces and repeated spaces are ignored
+export function normalizeFullName(fullName: string): string {
+  return fullName.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
 // Security settings type
 export type SecuritySettings = {
   twoFactorEnabled?: boolean;
@@ -137,6 +245,125 @@ export const insertUserSchema = createInsertSchema(users).pick({
   userSettings: true,
 });
 
+// Organisations (clinics, practices, hospitals). Staff and patients belong to
+// any number of them, and staff only see people who share one with them.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).pick({
+  name: true,
+  createdBy: true,
+});
+
+export const organizationMemberships = pgTable("organization_memberships", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(),
+  addedBy: integer("added_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrganizationMembershipSchema = createInsertSchema(organizationMemberships).pick({
+  organizationId: true,
+  userId: true,
+  addedBy: true,
+});
+
+// Authenticator app (TOTP) enrolment, kept out of userSettings so the shared
+// secret is never sent to the client with the rest of the user object
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(), // base32 shared secret
+  enabledAt: timestamp("enabled_at"), // null until the user verifies a first code
+  lastUsedStep: integer("last_used_step"), // last accepted time step, blocks code replay
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use recovery codes for when the authenticator app is unavailable.
+// Only a SHA-256 hash of each code is stored; the codes are shown to the user once.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Codes a patient shares with a clinician so they can be found without a name
+// and date of birth search. One live code per patient; only its hash is stored.
+export const patientLinkingCodes = pgTable("patient_linking_codes", {
+  patientId: integer("patient_id").primaryKey(),
+  codeHash: text("code_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Emailed "forgot password" links. Like recovery codes, only a hash of the
+// token is stored, and each token works once before it expires.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Credential verification for doctors. Until an admin has checked their licence,
+// doctors can sign in but can't see patients or request access to records.
+export const DoctorVerificationStatus = {
+  PENDING: 'pending',
+  VERIFIED: 'verified',
+  REJECTED: 'rejected'
+} as const;
+
+export type DoctorVerificationStatusType = typeof DoctorVerificationStatus[keyof typeof DoctorVerificationStatus];
+
+export const doctorProfiles = pgTable("doctor_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  licenseNumber: text("license_number").notNull(),
+  issuingAuthority: text("issuing_authority"), // e.g. the medical board that issued the licence
+  verificationStatus: text("verification_status").notNull().default(DoctorVerificationStatus.PENDING),
+  reviewedBy: integer("reviewed_by"), // User ID of the reviewing admin
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  submittedAt: timestamp("submitted_at"), // last time the doctor sent the details for review
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDoctorProfileSchema = createInsertSchema(doctorProfiles).pick({
+  userId: true,
+  licenseNumber: true,
+  issuingAuthority: true,
+  verificationStatus: true,
+  submittedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+});
+
+// Licence scans and certificates a doctor uploads for credential review, stored
+// encrypted in the object store the same way as record attachments
+export const doctorVerificationDocuments = pgTable("doctor_verification_documents", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").notNull(), // User ID of the doctor
+  fileName: text("file_name").notNull(),
+  fileSize: integer("file_size").notNull(), // in bytes
+  mimeType: text("mime_type").notNull(),
+  checksum: text("checksum").notNull(), // SHA-256 hex digest of the uploaded bytes
+  storageKey: text("storage_key").notNull(),
+  encryptionKeyId: text("encryption_key_id").notNull(),
+  wrappedDataKey: text("wrapped_data_key").notNull(),
+  encryptionIv: text("encryption_iv").notNull(),
+  encryptionAuthTag: text("encryption_auth_tag").notNull(),
+  uploadedAt: timestamp("uploaded_at").defaultNow(),
+});
+
 // Records table
 export const records = pgTable("records", {
   id: serial("id").primaryKey(),
@@ -148,6 +375,18 @@ export const records = pgTable("records", {
   recordDate: date("record_date").notNull(),
   notes: text("notes"),
   fileUrl: text("file_url"), // We'll store URLs in-memory for this MVP
+  // Attachment metadata for files uploaded through the object store
+  fileName: text("file_name"),
+  fileSize: integer("file_size"), // in bytes
+  mimeType: text("mime_type"),
+  checksum: text("checksum"), // SHA-256 hex digest of the uploaded bytes
+  storageKey: text("storage_key"), // Object store key, never exposed as a URL
+  // Envelope encryption: the file body is encrypted with a per-record data key,
+  // which is itself stored wrapped by the master key identified by encryptionKeyId
+  encryptionKeyId: text("encryption_key_id"),
+  wrappedDataKey: text("wrapped_data_key"),
+  encryptionIv: text("encryption_iv"),
+  encryptionAuthTag: text("encryption_auth_tag"),
   createdAt: timestamp("created_at").defaultNow(),
   verified: boolean("verified").default(false),
 });
@@ -164,6 +403,122 @@ export const insertRecordSchema = createInsertSchema(records).pick({
   verified: true,
 });
 
+// Scope of a limited access grant, chosen by the patient at approval time.
+// Every criterion that is set must match for a record to be visible.
+export type AccessScope = {
+  recordTypes?: string[] | null;
+  dateFrom?: string | null; // inclusive, YYYY-MM-DD
+  dateTo?: string | null; // inclusive, YYYY-MM-DD
+  recordIds?: number[] | null;
+};
+
+export const accessScopeSchema = z.object({
+  recordTypes: z.array(z.string().min(1)).nullable().optional(),
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  recordIds: z.array(z.number().int().positive()).nullable().optional(),
+}).refine(
+  (scope) => !!(scope.recordTypes?.length || scope.dateFrom || scope.dateTo || scope.recordIds?.length),
+  { message: "A limited scope must specify record types, a date window or specific records" }
+);
+
+// Access request lifecycle. A request starts pending; the patient approves or
+// denies it and the requesting doctor may cancel it while it's pending. An
+// approved grant can be extended until it is revoked or expires, or superseded
+// when the patient approves the doctor's extension request in its place.
+// Denied, cancelled, revoked, expired and superseded are final.
+export const AccessRequestStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  DENIED: 'denied',
+  CANCELLED: 'cancelled',
+  REVOKED: 'revoked',
+  EXPIRED: 'expired',
+  SUPERSEDED: 'superseded'
+} as const;
+
+export type AccessRequestStatusType = typeof AccessRequestStatus[keyof typeof AccessRequestStatus];
+
+// Who is moving a request along: the patient (or a caregiver managing their
+// account), the doctor who asked, someone with access:manage, or a background job
+export const AccessRequestActor = {
+  PATIENT: 'patient',
+  REQUESTER: 'requester',
+  ADMIN: 'admin',
+  SYSTEM: 'system'
+} as const;
+
+export type AccessRequestActorType = typeof AccessRequestActor[keyof typeof AccessRequestActor];
+
+export const AccessRequestAction = {
+  REQUEST: 'request',                     // a doctor asks for access
+  REDEEM_SHARE_CODE: 'redeem_share_code', // a doctor redeems a patient's share code
+  REQUEST_EXTENSION: 'request_extension', // a doctor asks to extend a grant they hold
+  APPROVE: 'approve',
+  DENY: 'deny',
+  CANCEL: 'cancel',
+  REVOKE: 'revoke',
+  EXTEND: 'extend',
+  EXPIRE: 'expire',
+  SUPERSEDE: 'supersede' // an approved extension replaces the grant it extends
+} as const;
+
+export type AccessRequestActionType = typeof AccessRequestAction[keyof typeof AccessRequestAction];
+
+// Actions that move an existing request, as opposed to creating one
+export type AccessRequestTransitionType = Exclude<
+  AccessRequestActionType,
+  | typeof AccessRequestAction.REQUEST
+  | typeof AccessRequestAction.REDEEM_SHARE_CODE
+  | typeof AccessRequestAction.REQUEST_EXTENSION
+>;
+
+// Admins may deny and revoke as an oversight measure, but only the patient can
+// approve, and only the doctor can withdraw their own request
+export const accessRequestTransitions: {
+  [transition in AccessRequestTransitionType]: {
+    from: AccessRequestStatusType;
+    to: AccessRequestStatusType;
+    actors: readonly AccessRequestActorType[];
+  }
+} = {
+  [AccessRequestAction.APPROVE]: {
+    from: AccessRequestStatus.PENDING,
+    to: AccessRequestStatus.APPROVED,
+    actors: [AccessRequestActor.PATIENT],
+  },
+  [AccessRequestAction.DENY]: {
+    from: AccessRequestStatus.PENDING,
+    to: AccessRequestStatus.DENIED,
+    actors: [AccessRequestActor.PATIENT, AccessRequestActor.ADMIN],
+  },
+  [AccessRequestAction.CANCEL]: {
+    from: AccessRequestStatus.PENDING,
+    to: AccessRequestStatus.CANCELLED,
+    actors: [AccessRequestActor.REQUESTER],
+  },
+  [AccessRequestAction.REVOKE]: {
+    from: AccessRequestStatus.APPROVED,
+    to: AccessRequestStatus.REVOKED,
+    actors: [AccessRequestActor.PATIENT, AccessRequestActor.ADMIN],
+  },
+  [AccessRequestAction.EXTEND]: {
+    from: AccessRequestStatus.APPROVED,
+    to: AccessRequestStatus.APPROVED,
+    actors: [AccessRequestActor.PATIENT, AccessRequestActor.ADMIN],
+  },
+  [AccessRequestAction.EXPIRE]: {
+    from: AccessRequestStatus.APPROVED,
+    to: AccessRequestStatus.EXPIRED,
+    actors: [AccessRequestActor.SYSTEM],
+  },
+  [AccessRequestAction.SUPERSEDE]: {
+    from: AccessRequestStatus.APPROVED,
+    to: AccessRequestStatus.SUPERSEDED,
+    actors: [AccessRequestActor.PATIENT],
+  },
+};
+
 // Access requests table
 export const accessRequests = pgTable("access_requests", {
   id: serial("id").primaryKey(),
@@ -172,10 +527,15 @@ export const accessRequests = pgTable("access_requests", {
   purpose: text("purpose").notNull(),
   duration: integer("duration").notNull(), // Duration in days
   notes: text("notes"),
-  status: text("status").notNull().default("pending"), // pending, approved, denied
+  status: text("status").notNull().default(AccessRequestStatus.PENDING), // see accessRequestTransitions
   requestDate: timestamp("request_date").defaultNow(),
   expiryDate: timestamp("expiry_date"),
   limitedScope: boolean("limited_scope").default(false),
+  scope: jsonb("scope").$type<AccessScope>(), // Only consulted when limitedScope is set
+  // Set on a doctor's request to extend an existing grant; it carries that
+  // grant's purpose and scope over and replaces it once approved
+  extendsRequestId: integer("extends_request_id"),
+  expiryReminderSentAt: timestamp("expiry_reminder_sent_at"), // cleared when the grant is extended
 });
 
 export const insertAccessRequestSchema = createInsertSchema(accessRequests).pick({
@@ -188,6 +548,301 @@ export const insertAccessRequestSchema = createInsertSchema(accessRequests).pick
   limitedScope: true,
 });
 
+// Approved grants past their expiry date are reported as expired
+export function effectiveAccessStatus(request: Pick<AccessRequest, "status" | "expiryDate">, now: Date = new Date()): string {
+  return request.status === AccessRequestStatus.APPROVED && request.expiryDate && new Date(request.expiryDate) <= now
+    ? AccessRequestStatus.EXPIRED
+    : request.status;
+}
+
+// The end date an extension proposes: its duration counted on from the current
+// grant's expiry, or from now if the grant has already lapsed
+export function extendedExpiryDate(currentExpiry: Date | string | null, days: number): Date {
+  const now = new Date();
+  const current = currentExpiry ? new Date(currentExpiry) : now;
+  const expiryDate = current > now ? current : now;
+  expiryDate.setDate(expiryDate.getDate() + days);
+  return expiryDate;
+}
+
+// Every change to an access request, including its creation, in order. The
+// request row only holds the current state.
+export const accessRequestHistory = pgTable("access_request_history", {
+  id: serial("id").primaryKey(),
+  accessRequestId: integer("access_request_id").notNull(),
+  action: text("action").notNull(), // AccessRequestAction
+  fromStatus: text("from_status"), // null when the request was created
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id"), // null for background jobs
+  actorRole: text("actor_role").notNull(), // AccessRequestActor
+  reason: text("reason"),
+  expiryDate: timestamp("expiry_date"), // the grant's expiry after this change
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccessRequestHistorySchema = createInsertSchema(accessRequestHistory).pick({
+  accessRequestId: true,
+  action: true,
+  fromStatus: true,
+  toStatus: true,
+  actorId: true,
+  actorRole: true,
+  reason: true,
+  expiryDate: true,
+});
+
+// Codes a patient hands to a doctor (typed in or scanned as a QR link) that turn
+// straight into an approved grant, with the purpose, duration and scope the
+// patient chose up front. Only a hash of the code is stored.
+export const accessShareCodes = pgTable("access_share_codes", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull(),
+  codeHash: text("code_hash").notNull().unique(),
+  purpose: text("purpose").notNull(),
+  duration: integer("duration").notNull(), // Days the resulting grant lasts
+  limitedScope: boolean("limited_scope").default(false),
+  scope: jsonb("scope").$type<AccessScope>(),
+  singleUse: boolean("single_use").notNull().default(true),
+  expiresAt: timestamp("expires_at").notNull(), // Last moment the code can be redeemed
+  createdBy: integer("created_by").notNull(), // The patient, or a caregiver acting for them
+  createdAt: timestamp("created_at").defaultNow(),
+  redemptionCount: integer("redemption_count").notNull().default(0),
+  lastRedeemedAt: timestamp("last_redeemed_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by"),
+});
+
+export const insertAccessShareCodeSchema = createInsertSchema(accessShareCodes).pick({
+  patientId: true,
+  codeHash: true,
+  purpose: true,
+  duration: true,
+  limitedScope: true,
+  singleUse: true,
+  expiresAt: true,
+  createdBy: true,
+}).extend({
+  scope: accessScopeSchema.nullable().optional(),
+});
+
+// Break-glass emergency access: a short, time-boxed grant a doctor takes without
+// patient approval, which must always be reviewed by an admin afterwards
+export const EmergencyReviewStatus = {
+  PENDING: 'pending_review',
+  SIGNED_OFF: 'signed_off',
+  ESCALATED: 'escalated'
+} as const;
+
+export type EmergencyReviewStatusType = typeof EmergencyReviewStatus[keyof typeof EmergencyReviewStatus];
+
+// How long a break-glass grant lasts
+export const EMERGENCY_ACCESS_MINUTES = 120;
+
+export const emergencyAccessGrants = pgTable("emergency_access_grants", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").notNull(),
+  patientId: integer("patient_id").notNull(),
+  reason: text("reason").notNull(),
+  grantedAt: timestamp("granted_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  patientNotifiedAt: timestamp("patient_notified_at"),
+  reviewStatus: text("review_status").notNull().default(EmergencyReviewStatus.PENDING),
+  reviewedBy: integer("reviewed_by"), // User ID of the reviewing admin
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+});
+
+export const insertEmergencyAccessGrantSchema = createInsertSchema(emergencyAccessGrants).pick({
+  doctorId: true,
+  patientId: true,
+  reason: true,
+  expiresAt: true,
+});
+
+// Caregivers and guardians acting for a patient, e.g. a parent for a child or an
+// adult child for an elderly parent. Adult patients set these up themselves; a
+// minor's guardian is added by an admin and loses access when the patient comes of age.
+export const DelegationScope = {
+  VIEW: 'view',     // read the patient's records, access requests and break-glass history
+  MANAGE: 'manage'  // also add records and decide on access requests for the patient
+} as const;
+
+export type DelegationScopeType = typeof DelegationScope[keyof typeof DelegationScope];
+
+export const delegationScopes = Object.values(DelegationScope) as [DelegationScopeType, ...DelegationScopeType[]];
+
+export const delegationScopeLabels: { [scope in DelegationScopeType]: string } = {
+  [DelegationScope.VIEW]: "View only",
+  [DelegationScope.MANAGE]: "Full management",
+};
+
+export const delegationRelationships = ['parent', 'guardian', 'spouse', 'child', 'sibling', 'caregiver', 'other'] as const;
+
+export const DelegationStatus = {
+  ACTIVE: 'active',
+  REVOKED: 'revoked'
+} as const;
+
+// Patients younger than this can't grant or withdraw delegations themselves
+export const ADULT_AGE_YEARS = 18;
+
+export const patientDelegations = pgTable("patient_delegations", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull(),
+  delegateId: integer("delegate_id").notNull(), // User ID of the caregiver or guardian
+  scope: text("scope").notNull().default(DelegationScope.VIEW),
+  relationship: text("relationship").notNull(),
+  status: text("status").notNull().default(DelegationStatus.ACTIVE),
+  grantedBy: integer("granted_by").notNull(), // the patient themselves, or the admin who added a guardian
+  expiresAt: timestamp("expires_at"), // for a minor's guardian, the patient's coming of age
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by"),
+});
+
+export const insertPatientDelegationSchema = createInsertSchema(patientDelegations).pick({
+  patientId: true,
+  delegateId: true,
+  scope: true,
+  relationship: true,
+  grantedBy: true,
+  expiresAt: true,
+});
+
+// dateOfBirth is the YYYY-MM-DD string from ProfileSettings. Returns null when
+// it's missing or unreadable, in which case the patient is treated as an adult.
+export function ageOn(dateOfBirth: string | null | undefined, on: Date = new Date()): number | null {
+  const match = dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  let age = on.getFullYear() - year;
+  if (on.getMonth() + 1 < month || (on.getMonth() + 1 === month && on.getDate() < day)) age--;
+  return age;
+}
+
+export function isMinor(dateOfBirth: string | null | undefined, on: Date = new Date()): boolean {
+  const age = ageOn(dateOfBirth, on);
+  return age !== null && age < ADULT_AGE_YEARS;
+}
+
+// The day a minor comes of age, when their guardian's delegation ends
+export function adulthoodDate(dateOfBirth: string | null | undefined): Date | null {
+  const match = dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  return new Date(year + ADULT_AGE_YEARS, month - 1, day);
+}
+
+// System-wide settings managed by super admins, stored as one JSON value per key
+export const systemSettings = pgTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  updatedBy: integer("updated_by"), // User ID of the admin who last changed it
+});
+
+// Idle timeout applied when a user hasn't configured their own
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+// Session policy stored under the "session_policy" system setting
+export type SessionPolicy = {
+  maxSessionTimeout: number | null; // in minutes; caps every user's sessionTimeout
+};
+
+// A signed-in session as listed to its owner
+export type ActiveSession = {
+  id: string; // opaque handle, not the session cookie id
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
+
+// Events pushed to signed-in browsers over the WebSocket at REALTIME_PATH. They
+// only say what changed; the client refetches the data itself through the API.
+export const REALTIME_PATH = "/ws/events";
+
+export type RealtimeEvent =
+  | { type: "access_request.created" | "access_request.updated"; accessRequestId: number; patientId: number; doctorId: number }
+  | { type: "record.created"; recordId: number; patientId: number }
+  | { type: "notification.created" }
+  | { type: "session.revoked" }   // this browser's session was ended
+  | { type: "sessions.changed" }; // one of the user's other sessions was ended
+
+// Password policy stored under the "password_policy" system setting
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // recent passwords that can't be reused; 0 allows reuse
+  maxAgeDays: number | null; // passwords older than this must be changed
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: null,
+};
+
+// Length and character-class rules, shared so forms can check as the user types.
+// Returns a readable message for each rule the password breaks.
+export function passwordPolicyViolations(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    violations.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("Password must contain a symbol");
+  }
+  return violations;
+}
+
+// Rough strength from length and variety, stored as SecuritySettings.passwordStrength
+export function estimatePasswordStrength(password: string): 'weak' | 'medium' | 'strong' {
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/]
+    .filter(pattern => pattern.test(password))
+    .length;
+  if (password.length >= 16 || (password.length >= 12 && classes >= 3)) return 'strong';
+  if (password.length >= 8 && classes >= 2) return 'medium';
+  return 'weak';
+}
+
+// Hashes of each user's recent passwords, for the policy's reuse check
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Failed sign-in tracking, one row per account ("account:<userId>") or
+// client address ("ip:<address>"). Patient search rate limits reuse it with
+// "search:<userId>" rows, counting searches rather than failures.
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at"),
+  lockedUntil: timestamp("locked_until"),
+});
+
 // Audit logs table
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
@@ -196,6 +851,7 @@ export const auditLogs = pgTable("audit_logs", {
   details: text("details"),
   timestamp: timestamp("timestamp").defaultNow(),
   ipAddress: text("ip_address"),
+  onBehalfOfUserId: integer("on_behalf_of_user_id"), // patient a caregiver or guardian was acting for
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
@@ -203,8 +859,86 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
   action: true,
   details: true,
   ipAddress: true,
+  onBehalfOfUserId: true,
+});
+
+// In-app notifications. Each belongs to a category that the user can switch
+// off in their NotificationPreferences.
+export const NotificationCategory = {
+  ACCESS_REQUEST: 'access_request',
+  NEW_RECORD: 'new_record',
+  SECURITY: 'security'
+} as const;
+
+export type NotificationCategoryType = typeof NotificationCategory[keyof typeof NotificationCategory];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  category: text("category").notNull(), // NotificationCategory
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // page in the app that the notification opens
+  emailed: boolean("emailed").notNull().default(false), // false when held back by preferences or quiet hours
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  category: true,
+  title: true,
+  message: true,
+  link: true,
+  emailed: true,
+});
+
+// Background jobs. Each job has one state row that a server claims with a
+// short lease before running it, so restarts and extra instances never run a
+// job twice at once. Every run is kept in jobRuns for the admin job history.
+export const JobRunStatus = {
+  RUNNING: 'running',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed'
+} as const;
+
+export type JobRunStatusType = typeof JobRunStatus[keyof typeof JobRunStatus];
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedUntil: timestamp("locked_until"), // held while a run is in progress
+  currentRunId: integer("current_run_id"), // the run holding the lease
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // JobRunStatus of the latest finished run
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+});
+
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").notNull(),
+  status: text("status").notNull().default(JobRunStatus.RUNNING),
+  triggeredBy: integer("triggered_by"), // the admin who ran it by hand; null when scheduled
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  itemsProcessed: integer("items_processed"),
+  summary: text("summary"),
+  error: text("error"),
+});
+
+// Retention policy stored under the "retention_policy" system setting
+export type RetentionPolicy = {
+  auditLogDays: number | null; // null keeps the audit log forever
+  jobRunDays: number;
+  expiredTokenDays: number; // lapsed reset tokens and linking codes, and stale sign-in throttles
+};
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  auditLogDays: null,
+  jobRunDays: 90,
+  expiredTokenDays: 30,
+};
+
 // Defining types for TypeScript
 export type User = typeof users.$inferSelect & {
   settings?: UserSettings;
@@ -222,10 +956,105 @@ export type InsertUser = z.infer<typeof insertUserSchema> & {
 };
 
 export type Record = typeof records.$inferSelect;
-export type InsertRecord = z.infer<typeof insertRecordSchema>;
+// Attachment metadata is only ever set by the upload pipeline, never from request bodies
+export type RecordAttachment = Pick<Record,
+  'fileName' | 'fileSize' | 'mimeType' | 'checksum' | 'storageKey' |
+  'encryptionKeyId' | 'wrappedDataKey' | 'encryptionIv' | 'encryptionAuthTag'
+>;
+export type InsertRecord = z.infer<typeof insertRecordSchema> & Partial<RecordAttachment>;
 
 export type AccessRequest = typeof accessRequests.$inferSelect;
-export type InsertAccessRequest = z.infer<typeof insertAccessRequestSchema>;
+
+// Whether an approved grant covers a given record. Unlimited grants cover every
+// record of the patient; limited grants with no usable scope cover nothing.
+export function grantCoversRecord(
+  grant: Pick<AccessRequest, 'patientId' | 'limitedScope' | 'scope'>,
+  record: Pick<Record, 'id' | 'patientId' | 'recordType' | 'recordDate'>
+): boolean {
+  if (grant.patientId !== record.patientId) return false;
+  if (!grant.limitedScope) return true;
+
+  const scope = grant.scope;
+  if (!scope) return false;
+
+  const hasCriteria = !!(scope.recordTypes?.length || scope.dateFrom || scope.dateTo || scope.recordIds?.length);
+  if (!hasCriteria) return false;
+
+  if (scope.recordTypes?.length && !scope.recordTypes.includes(record.recordType)) return false;
+  // recordDate is a YYYY-MM-DD string, so lexical comparison is chronological
+  if (scope.dateFrom && record.recordDate < scope.dateFrom) return false;
+  if (scope.dateTo && record.recordDate > scope.dateTo) return false;
+  if (scope.recordIds?.length && !scope.recordIds.includes(record.id)) return false;
+
+  return true;
+}
+// Set by the server (from a share code or the grant an extension extends),
+// never parsed from a request body. Without an expiryDate, one is counted from
+// the duration.
+export type InsertAccessRequest = z.infer<typeof insertAccessRequestSchema> & {
+  scope?: AccessScope | null;
+  extendsRequestId?: number | null;
+  expiryDate?: Date | null;
+};
+
+export type AccessRequestHistoryEntry = typeof accessRequestHistory.$inferSelect;
+export type InsertAccessRequestHistoryEntry = z.infer<typeof insertAccessRequestHistorySchema>;
+
+export type AccessShareCode = typeof accessShareCodes.$inferSelect;
+export type InsertAccessShareCode = z.infer<typeof insertAccessShareCodeSchema>;
+
+// Revoked, expired and (for single-use codes) already redeemed codes can't be used
+export function isShareCodeRedeemable(
+  shareCode: Pick<AccessShareCode, 'singleUse' | 'expiresAt' | 'redemptionCount' | 'revokedAt'>,
+  now: Date = new Date()
+): boolean {
+  if (shareCode.revokedAt) return false;
+  if (shareCode.singleUse && shareCode.redemptionCount > 0) return false;
+  return new Date(shareCode.expiresAt) > now;
+}
+
+export type EmergencyAccessGrant = typeof emergencyAccessGrants.$inferSelect;
+export type InsertEmergencyAccessGrant = z.infer<typeof insertEmergencyAccessGrantSchema>;
+
+export type PatientDelegation = typeof patientDelegations.$inferSelect;
+export type InsertPatientDelegation = z.infer<typeof insertPatientDelegationSchema>;
+
+// Revoked delegations and a guardian's after the patient comes of age no longer count
+export function isDelegationActive(
+  delegation: Pick<PatientDelegation, 'status' | 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  if (delegation.status !== DelegationStatus.ACTIVE) return false;
+  return !delegation.expiresAt || new Date(delegation.expiresAt) > now;
+}
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMembership = typeof organizationMemberships.$inferSelect;
+export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type PatientLinkingCode = typeof patientLinkingCodes.$inferSelect;
+
+export type DoctorProfile = typeof doctorProfiles.$inferSelect;
+export type InsertDoctorProfile = z.infer<typeof insertDoctorProfileSchema>;
+export type DoctorVerificationDocument = typeof doctorVerificationDocuments.$inferSelect;
+export type InsertDoctorVerificationDocument = Omit<DoctorVerificationDocument, 'id' | 'uploadedAt'>;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+
+export type SystemSetting = typeof systemSettings.$inferSelect;
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
 
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;